@@ -48,6 +48,30 @@ function handleMessage(msg) {
     case 'server:room_update':
       console.log(`In room: ${msg.room.roomId}, Phase: ${msg.room.phase}`);
       break;
+    case 'server:player_joined':
+      // Seated: ready up so the lobby can count down to the start
+      if (msg.player.address.toLowerCase() === MY_ADDRESS) {
+        ws.send(JSON.stringify({ type: 'client:ready', roomId: msg.gameId }));
+      }
+      break;
+    case 'server:lobby_countdown':
+      console.log(
+        msg.startsAt
+          ? `Game starts in ${Math.ceil((msg.startsAt - Date.now()) / 1000)}s`
+          : `Waiting: ${msg.readyCount}/${msg.playerCount} ready, ${msg.minPlayers} needed`,
+      );
+      break;
+    case 'server:tournament_game':
+      // Our table for this tournament round: the room is reserved for us
+      console.log(`Tournament ${msg.name} round ${msg.round}/${msg.totalRounds}. Joining ${msg.roomId}...`);
+      ws.send(
+        JSON.stringify({
+          type: 'agent:join_game',
+          gameId: msg.roomId,
+          colorId: Math.floor(Math.random() * 12),
+        }),
+      );
+      break;
     case 'server:error':
       console.error(`Error [${msg.code}]: ${msg.message}`);
       break;
@@ -78,6 +78,16 @@ export class ActionSubmitter {
     return this.account.address;
   }
 
+  /**
+   * Sign an off-chain message (EIP-191), e.g. the relay server's auth challenge
+   */
+  async signMessage(message: string): Promise<`0x${string}`> {
+    return this.walletClient.signMessage({
+      account: this.account,
+      message,
+    });
+  }
+
   setGame(gameAddress: Address): void {
     this.gameAddress = gameAddress;
   }
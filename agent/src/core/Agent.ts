@@ -11,7 +11,7 @@ import {
   ActionCommitment,
   DeadBody,
   DiscussionMessage,
-  ActionType,
+  MessageType,
 } from "../types.js";
 import { GameObserver } from "./GameObserver.js";
 import { ActionSubmitter } from "./ActionSubmitter.js";
@@ -19,7 +19,18 @@ import { GameMemory } from "../memory/GameMemory.js";
 import { IStrategy, StrategyContext } from "../strategies/BaseStrategy.js";
 import { CrewmateStrategy, CrewmateStyle } from "../strategies/CrewmateStrategy.js";
 import { ImpostorStrategy, ImpostorStyle } from "../strategies/ImpostorStrategy.js";
-import { WebSocketClient } from "./WebSocketClient.js";
+import {
+  WebSocketClient,
+  claimsToDiscussion,
+  discussionToClaim,
+  discussionToText,
+  type ServerMessage,
+} from "./WebSocketClient.js";
+import { ServerGameView } from "./ServerGameView.js";
+import type { ServerGameEndedMessage } from "@amongus/protocol";
+
+// Most claims the server accepts on one chat message
+const MAX_CLAIMS_PER_MESSAGE = 3;
 
 export interface AgentOptions {
   crewmateStyle?: CrewmateStyle;
@@ -40,11 +51,20 @@ export class Agent {
   private myRole: Role = Role.None;
   private strategy: IStrategy | null = null;
   private pendingCommitment: ActionCommitment | null = null;
-  private lastPhase: GamePhase | null = null;
 
   private crewmateStyle: CrewmateStyle;
   private impostorStyle: ImpostorStyle;
 
+  // Playing on the relay server (see playOnServer)
+  private view: ServerGameView;
+  private serverTurn: Promise<void> = Promise.resolve();
+  private meetingMessages: DiscussionMessage[] = [];
+  private meetingVotes: Map<Address, Address | null> = new Map();
+  private meetingEjected: { address: Address; wasImpostor: boolean | null } | null = null;
+  private committedRound: number = 0;
+  private spokeRound: number = 0;
+  private votedRound: number = 0;
+
   constructor(
     config: AgentConfig,
     options: AgentOptions = {}
@@ -61,6 +81,7 @@ export class Agent {
     this.memory = new GameMemory();
     this.crewmateStyle = crewmateStyle;
     this.impostorStyle = impostorStyle;
+    this.view = new ServerGameView(this.submitter.address);
 
     this.logger = winston.createLogger({
       level: "info",
@@ -80,6 +101,7 @@ export class Agent {
           serverUrl: wsServerUrl,
           agentAddress: this.submitter.address,
           agentName: config.agentName,
+          signMessage: (message) => this.submitter.signMessage(message),
         },
         this.logger
       );
@@ -160,7 +182,6 @@ export class Agent {
     this.myRole = Role.None;
     this.strategy = null;
     this.pendingCommitment = null;
-    this.lastPhase = null;
     this.logger.info(`Set active game: ${gameId} at ${gameAddress}`);
 
     // Join WebSocket game room
@@ -188,12 +209,6 @@ export class Agent {
         const gameState = await this.observer.getGameState();
         this.memory.setCurrentRound(gameState.round);
 
-        // Broadcast phase change via WebSocket
-        if (this.lastPhase !== gameState.phase) {
-          this.broadcastPhaseChange(gameState);
-          this.lastPhase = gameState.phase;
-        }
-
         if (gameState.phase === GamePhase.Ended) {
           this.logger.info(`Game ended! Crewmates won: ${gameState.crewmatesWon}`);
           // Leave WebSocket game room
@@ -214,19 +229,6 @@ export class Agent {
     }
   }
 
-  /**
-   * Broadcast phase change to WebSocket server
-   */
-  private broadcastPhaseChange(gameState: GameState): void {
-    if (this.wsClient) {
-      this.wsClient.sendPhaseChange(
-        gameState.phase,
-        gameState.round,
-        gameState.phaseEndTime
-      );
-    }
-  }
-
   private async handlePhase(gameState: GameState): Promise<void> {
     switch (gameState.phase) {
       case GamePhase.Lobby:
@@ -293,6 +295,9 @@ export class Agent {
     // Submit commitment
     await this.submitter.commitAction(this.pendingCommitment);
     this.logger.info(`Committed action hash: ${this.pendingCommitment.hash}`);
+
+    // Commit the same action on the WebSocket server
+    this.wsClient?.sendCommitAction(this.pendingCommitment.hash, gameState.round);
   }
 
   private async handleActionReveal(gameState: GameState): Promise<void> {
@@ -318,33 +323,11 @@ export class Agent {
     const myPlayer = await this.observer.getPlayer(this.address);
     this.memory.setMyLocation(myPlayer.location);
 
-    // Send action result to WebSocket server
+    // Reveal it on the WebSocket server too; the server applies moves, kills
+    // and tasks from reveals only
     if (this.wsClient) {
       this.wsClient.sendActionResult(revealedAction, gameState.round);
-
-      // If it was a move, also send position update
-      if (revealedAction.type === ActionType.Move && revealedAction.destination !== undefined) {
-        this.wsClient.sendPositionUpdate(revealedAction.destination, gameState.round);
-      }
-
-      // If it was a kill, notify the server
-      if (revealedAction.type === ActionType.Kill && revealedAction.target) {
-        this.wsClient.sendKill(
-          this.address,
-          revealedAction.target,
-          myPlayer.location,
-          gameState.round
-        );
-      }
-
-      // If it was a task, notify the server
-      if (revealedAction.type === ActionType.DoTask) {
-        this.wsClient.sendTaskComplete(
-          this.address,
-          myPlayer.tasksCompleted,
-          myPlayer.totalTasks
-        );
-      }
+      this.wsClient.sendRevealAction(this.pendingCommitment, gameState.round);
     }
 
     this.pendingCommitment = null;
@@ -411,6 +394,239 @@ export class Agent {
     }
   }
 
+  // ============ RELAY SERVER GAME LOOP ============
+
+  /**
+   * Play a game in a relay server room: take a seat, then act on the
+   * server's messages until the game ends. Actions are committed and
+   * revealed over the socket, so no chain is involved. Call
+   * connectWebSocket() first.
+   */
+  async playOnServer(roomId: string, colorId?: number): Promise<ServerGameEndedMessage> {
+    const wsClient = this.requireWsClient();
+
+    this.memory.reset();
+    this.myRole = Role.None;
+    this.strategy = null;
+    this.pendingCommitment = null;
+    this.view.reset(roomId);
+    this.meetingMessages = [];
+    this.meetingVotes = new Map();
+    this.meetingEjected = null;
+    this.committedRound = 0;
+    this.spokeRound = 0;
+    this.votedRound = 0;
+
+    return new Promise((resolve) => {
+      const unsubscribe = wsClient.onMessage((message) => {
+        this.observeServerMessage(message);
+
+        if (message.type === "server:game_ended" && message.gameId === roomId) {
+          unsubscribe();
+          this.logger.info(`Game ended! Crewmates won: ${message.crewmatesWon} (${message.reason})`);
+          wsClient.leaveRoom();
+          resolve(message);
+          return;
+        }
+
+        // One decision at a time; each message may be the one we were waiting for
+        this.serverTurn = this.serverTurn
+          .then(() => this.actOnServer())
+          .catch((error) => {
+            this.logger.error(`Error in server game loop: ${error}`);
+          });
+      });
+
+      wsClient.joinRoom(roomId, colorId);
+    });
+  }
+
+  /**
+   * Queue for a match on the relay server and play it. Resolves with null if
+   * no match was made (see WebSocketClient.waitForMatch).
+   */
+  async playMatchOnServer(wagerAmount?: string): Promise<ServerGameEndedMessage | null> {
+    const match = await this.requireWsClient().waitForMatch(wagerAmount);
+    if (!match) return null;
+    return this.playOnServer(match.roomId);
+  }
+
+  /**
+   * Update memory and the meeting record from a server message, then the
+   * view. Memory goes first so it sees where everyone was beforehand.
+   */
+  private observeServerMessage(message: ServerMessage): void {
+    const me = this.view.getPlayer(this.address);
+
+    switch (message.type) {
+      case "server:role_assigned":
+        this.useStrategyFor(message.role);
+        break;
+
+      case "server:phase_changed":
+        if (message.previousPhase === GamePhase.VoteResult) {
+          this.memory.recordVote(
+            BigInt(this.view.getRound()),
+            this.meetingVotes,
+            this.meetingEjected?.address ?? null,
+            this.meetingEjected?.wasImpostor ?? null
+          );
+        }
+        if (message.phase === GamePhase.Discussion) {
+          this.meetingMessages = [];
+          this.meetingVotes = new Map();
+          this.meetingEjected = null;
+        }
+        break;
+
+      case "server:player_moved":
+        // Anyone in either room sees the move
+        if (
+          me?.isAlive &&
+          message.address.toLowerCase() !== this.address.toLowerCase() &&
+          (me.location === message.from || me.location === message.to)
+        ) {
+          this.memory.recordMovement(message.address as Address, message.from, message.to, BigInt(message.round));
+        }
+        break;
+
+      case "server:kill_occurred": {
+        // Only sent to the killer, the victim and witnesses
+        const present = this.view.getPlayersAt(message.location).map((p) => p.address);
+        this.memory.recordKill(message.victim as Address, message.location, BigInt(message.round), present);
+        break;
+      }
+
+      case "server:body_reported":
+        this.memory.recordReport(message.reporter as Address, BigInt(message.round));
+        break;
+
+      case "server:meeting_called":
+        this.memory.recordMeeting(message.caller as Address, BigInt(this.view.getRound()));
+        break;
+
+      case "server:task_completed":
+        this.memory.recordTaskCompletion(message.player as Address);
+        break;
+
+      case "server:chat":
+        if (message.isGhostChat) break;
+        for (const msg of claimsToDiscussion(message)) {
+          this.meetingMessages.push(msg);
+          if (msg.msgType === MessageType.Accuse) {
+            this.memory.recordAccusation(msg);
+          } else if (msg.msgType === MessageType.Defend) {
+            this.memory.recordDefense(msg);
+          }
+        }
+        break;
+
+      case "server:vote_cast":
+        // Anonymous rooms don't say who was voted for
+        if (message.target !== undefined) {
+          this.meetingVotes.set(message.voter as Address, (message.target ?? null) as Address | null);
+        }
+        break;
+
+      case "server:player_ejected":
+        this.meetingEjected = {
+          address: message.ejected as Address,
+          wasImpostor: message.wasImpostor ?? null,
+        };
+        break;
+    }
+
+    this.view.apply(message);
+  }
+
+  /**
+   * Do whatever the current phase asks of us, if we haven't yet. Safe to
+   * call after every message.
+   */
+  private async actOnServer(): Promise<void> {
+    const wsClient = this.requireWsClient();
+    const me = this.view.getPlayer(this.address);
+    if (!this.view.isReady() || !this.strategy || !me?.isAlive) return;
+
+    const round = this.view.getRound();
+
+    switch (this.view.getPhase()) {
+      case GamePhase.ActionCommit: {
+        if (this.committedRound === round) return;
+        this.committedRound = round;
+
+        const action = await this.strategy.decideAction(this.buildServerContext());
+        this.logger.info(`Decided action: ${JSON.stringify(action)}`);
+
+        this.pendingCommitment = this.submitter.createActionCommitment(action);
+        wsClient.sendCommitAction(this.pendingCommitment.hash, BigInt(round));
+        this.logger.info(`Committed action hash: ${this.pendingCommitment.hash}`);
+        break;
+      }
+
+      case GamePhase.ActionReveal:
+        if (!this.pendingCommitment || this.committedRound !== round) return;
+
+        // The server applies the revealed action itself once the round resolves
+        wsClient.sendRevealAction(this.pendingCommitment, BigInt(round));
+        this.logger.info(`Revealed action: ${JSON.stringify(this.pendingCommitment.action)}`);
+        this.pendingCommitment = null;
+        break;
+
+      case GamePhase.Discussion: {
+        if (this.spokeRound === round || !this.view.hasFloor()) return;
+        this.spokeRound = round;
+
+        // One chat per meeting: in turn-based rooms speaking ends our slot
+        const messages = (await this.strategy.generateMessages(this.buildServerContext()))
+          .slice(0, MAX_CLAIMS_PER_MESSAGE);
+        if (messages.length === 0) return;
+
+        const text = discussionToText(messages);
+        wsClient.sendChat(text, messages.map(discussionToClaim));
+        this.logger.info(`Said: ${text}`);
+        break;
+      }
+
+      case GamePhase.Voting: {
+        if (this.votedRound === round) return;
+        this.votedRound = round;
+
+        const voteTarget = await this.strategy.decideVote(this.buildServerContext());
+        this.logger.info(`Voting for: ${voteTarget || "SKIP"}`);
+        wsClient.sendVote(this.address, voteTarget, BigInt(round));
+        break;
+      }
+    }
+  }
+
+  private buildServerContext(): StrategyContext {
+    const allPlayers = this.view.getPlayers();
+    const myPlayer = allPlayers.find((p) => p.address.toLowerCase() === this.address.toLowerCase())!;
+    const gameState = this.view.getGameState();
+
+    this.memory.setCurrentRound(gameState.round);
+    this.memory.setMyLocation(myPlayer.location);
+
+    return {
+      gameState,
+      myPlayer,
+      allPlayers,
+      alivePlayers: allPlayers.filter((p) => p.isAlive),
+      deadBodies: this.view.getDeadBodies(),
+      messages: [...this.meetingMessages],
+      memory: this.memory,
+      tasks: this.wsClient?.getAssignedTasks() ?? [],
+    };
+  }
+
+  private requireWsClient(): WebSocketClient {
+    if (!this.wsClient) {
+      throw new Error("No WebSocket server configured. Pass wsServerUrl in AgentOptions.");
+    }
+    return this.wsClient;
+  }
+
   // ============ HELPERS ============
 
   private async initializeRoleAndStrategy(): Promise<void> {
@@ -422,8 +638,17 @@ export class Agent {
     // For MVP, let's assume we can read our role (this would need contract support)
     // In production, the agent would call getMyRole() which only works for the player
 
-    // For now, randomly assign for testing - in real game, read from contract
-    this.myRole = Math.random() > 0.8 ? Role.Impostor : Role.Crewmate;
+    // Prefer the role the relay server told us privately; otherwise guess for testing
+    const assignment = this.wsClient?.getRoleAssignment();
+    this.useStrategyFor(
+      assignment
+        ? assignment.role
+        : Math.random() > 0.8 ? Role.Impostor : Role.Crewmate
+    );
+  }
+
+  private useStrategyFor(role: Role): void {
+    this.myRole = role;
 
     if (this.myRole === Role.Impostor) {
       this.strategy = new ImpostorStrategy(this.impostorStyle);
@@ -459,6 +684,7 @@ export class Agent {
       deadBodies,
       messages,
       memory: this.memory,
+      tasks: this.wsClient?.getAssignedTasks() ?? [],
       observer: this.observer,
     };
   }
@@ -25,6 +25,7 @@ export interface RoomInfo {
   impostorCount: number;
   phase: "lobby" | "playing" | "ended";
   createdAt: number;
+  reservedFor?: string[]; // Matchmade rooms only seat these agents
 }
 
 export interface RoomSlotInfo {
@@ -48,6 +49,9 @@ export interface ServerStats {
     playing: number;
     totalPlayers: number;
   };
+  matchmaking: {
+    queued: number; // Agents waiting in client:queue
+  };
   limits: {
     maxRooms: number;
     maxPlayersPerRoom: number;
@@ -68,6 +72,9 @@ export interface ServerAgentStats {
   tasksCompleted: number;
   timesImpostor: number;
   timesCrewmate: number;
+  rating: number; // Team Elo across both roles
+  crewmateRating: number;
+  impostorRating: number;
   lastSeen: number;
 }
 
@@ -76,12 +83,87 @@ export interface RoomsResponse {
   stats: ServerStats;
 }
 
+export type LeaderboardSort = "wins" | "rating";
+
 export interface LeaderboardResponse {
   agents: ServerAgentStats[];
+  sort: LeaderboardSort;
   timestamp: number;
 }
 
+export interface RatingHistoryEntry {
+  roomId: string;
+  role: "crewmate" | "impostor";
+  won: boolean;
+  rating: number;
+  ratingDelta: number;
+  roleRating: number; // Crewmate or impostor rating, per role
+  roleRatingDelta: number;
+  createdAt: string;
+}
+
 export interface AgentStatsResponse extends ServerAgentStats {
+  ratingHistory: RatingHistoryEntry[]; // Newest first
+  timestamp: number;
+}
+
+export type TournamentFormat = "best_of" | "round_robin" | "swiss";
+export type TournamentStatus = "active" | "completed" | "cancelled";
+
+export interface TournamentGame {
+  round: number;
+  table: number; // 0-based within the round
+  roomId: string | null; // Null until the room is created
+  players: string[];
+  status: "pending" | "playing" | "completed" | "cancelled";
+  crewmatesWon: boolean | null;
+  winners: string[];
+}
+
+export interface TournamentStanding {
+  address: string;
+  name: string;
+  points: number;
+  gamesPlayed: number;
+  wins: number;
+  impostorGames: number;
+  impostorWins: number;
+  survived: number;
+  tasksCompleted: number;
+}
+
+export interface TournamentInfo {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  totalRounds: number;
+  currentRound: number;
+  tableSize: number;
+  impostorCount: number;
+  wagerAmount?: string;
+  creator?: string;
+  createdAt: number;
+  endedAt: number | null;
+  games: TournamentGame[];
+  standings: TournamentStanding[]; // Ranked, leader first
+}
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  totalRounds: number;
+  currentRound: number;
+  entrants: number;
+  leader: TournamentStanding | null;
+  createdAt: number;
+  endedAt: number | null;
+}
+
+export interface TournamentsResponse {
+  tournaments: TournamentSummary[]; // Newest first
   timestamp: number;
 }
 
@@ -182,10 +264,11 @@ export class HttpApiClient {
   /**
    * Find a lobby room to join
    * Returns the first available lobby room, or null if none
+   * @deprecated Use WebSocketClient.waitForMatch() to be matched with agents of a similar rating
    */
   async findLobbyRoom(): Promise<RoomInfo | null> {
     const { rooms } = await this.getRooms();
-    const lobby = rooms.find(r => r.phase === "lobby");
+    const lobby = rooms.find(r => r.phase === "lobby" && !r.reservedFor);
     if (lobby) {
       this.logger.info(`Found lobby room: ${lobby.roomId} (${lobby.players.length}/${lobby.maxPlayers} players)`);
     } else {
@@ -197,11 +280,11 @@ export class HttpApiClient {
   // ============ LEADERBOARD ENDPOINTS ============
 
   /**
-   * Get leaderboard (top agents by wins)
+   * Get leaderboard (top agents by wins, or by rating)
    */
-  async getLeaderboard(limit: number = 10): Promise<LeaderboardResponse> {
-    this.logger.debug(`Fetching leaderboard (limit: ${limit})...`);
-    return await this.request<LeaderboardResponse>(`/api/leaderboard?limit=${limit}`);
+  async getLeaderboard(limit: number = 10, sort: LeaderboardSort = "wins"): Promise<LeaderboardResponse> {
+    this.logger.debug(`Fetching leaderboard (limit: ${limit}, sort: ${sort})...`);
+    return await this.request<LeaderboardResponse>(`/api/leaderboard?limit=${limit}&sort=${sort}`);
   }
 
   /**
@@ -212,6 +295,24 @@ export class HttpApiClient {
     return await this.request<AgentStatsResponse>(`/api/agents/${address}/stats`);
   }
 
+  // ============ TOURNAMENT ENDPOINTS ============
+
+  /**
+   * List recent tournaments with their current leaders
+   */
+  async getTournaments(limit: number = 20): Promise<TournamentsResponse> {
+    this.logger.debug(`Fetching tournaments (limit: ${limit})...`);
+    return await this.request<TournamentsResponse>(`/api/tournaments?limit=${limit}`);
+  }
+
+  /**
+   * Get a tournament's games by round and its standings
+   */
+  async getTournament(id: string): Promise<TournamentInfo> {
+    this.logger.debug(`Fetching tournament ${id}...`);
+    return await this.request<TournamentInfo>(`/api/tournaments/${id}`);
+  }
+
   // ============ SERVER ENDPOINTS ============
 
   /**
@@ -239,6 +340,7 @@ export class HttpApiClient {
   /**
    * Wait for a lobby room to become available
    * Polls the API at the specified interval
+   * @deprecated Use WebSocketClient.waitForMatch() to be matched with agents of a similar rating
    */
   async waitForLobbyRoom(pollInterval: number = 5000, maxWait: number = 300000): Promise<RoomInfo | null> {
     const startTime = Date.now();
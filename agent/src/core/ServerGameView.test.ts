@@ -0,0 +1,236 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Address } from "viem";
+import type { PlayerState, ServerMessage } from "@amongus/protocol";
+import { GamePhase, Location, Role, SabotageType } from "../types.js";
+import { ServerGameView } from "./ServerGameView.js";
+
+const GAME = "room-1";
+const SELF = "0x00000000000000000000000000000000000000A1" as Address;
+const PARTNER = "0x00000000000000000000000000000000000000a2";
+const ALICE = "0x00000000000000000000000000000000000000b1";
+const BOB = "0x00000000000000000000000000000000000000b2";
+
+let view: ServerGameView;
+
+function player(address: string): PlayerState {
+  return {
+    address,
+    colorId: 0,
+    location: Location.Cafeteria,
+    isAlive: true,
+    tasksCompleted: 0,
+    totalTasks: 5,
+    hasVoted: false,
+  };
+}
+
+// Fills in gameId and timestamp, which every event here carries
+function apply(message: Record<string, unknown> & { type: ServerMessage["type"] }): void {
+  view.apply({ gameId: GAME, timestamp: 0, ...message } as ServerMessage);
+}
+
+function phase(to: GamePhase, from: GamePhase, round = 1): void {
+  apply({
+    type: "server:phase_changed",
+    phase: to,
+    previousPhase: from,
+    round,
+    phaseEndTime: 0,
+  });
+}
+
+/**
+ * A game of four in round 1's commit window, as the first snapshot shows it
+ */
+function start(role = Role.Crewmate): void {
+  view.reset(GAME);
+  apply({
+    type: "server:game_state",
+    state: {
+      gameId: GAME,
+      phase: GamePhase.ActionCommit,
+      round: 1,
+      phaseEndTime: 30000,
+      players: [SELF, PARTNER, ALICE, BOB].map(player),
+      deadBodies: [],
+      alivePlayers: 4,
+      totalTasksCompleted: 0,
+      totalTasksRequired: 20,
+      activeSabotage: SabotageType.None,
+    },
+  });
+  apply({
+    type: "server:role_assigned",
+    role,
+    ...(role === Role.Impostor && { teammates: [PARTNER.toUpperCase().replace("0X", "0x")] }),
+  });
+}
+
+beforeEach(() => {
+  view = new ServerGameView(SELF);
+});
+
+describe("ServerGameView", () => {
+  it("waits for a snapshot of its own room", () => {
+    view.reset(GAME);
+    expect(view.isReady()).toBe(false);
+
+    view.apply({
+      type: "server:game_state",
+      gameId: "other-room",
+      state: { phase: GamePhase.Voting } as never,
+    });
+    expect(view.isReady()).toBe(false);
+
+    start();
+    expect(view.isReady()).toBe(true);
+    expect(view.getPhase()).toBe(GamePhase.ActionCommit);
+    expect(view.getPlayers()).toHaveLength(4);
+  });
+
+  it("tracks moves, kills, reports and ejections", () => {
+    start();
+
+    apply({
+      type: "server:player_moved",
+      address: ALICE,
+      from: Location.Cafeteria,
+      to: Location.Electrical,
+      round: 1,
+    });
+    expect(view.getPlayer(ALICE)!.location).toBe(Location.Electrical);
+    expect(view.getPlayersAt(Location.Cafeteria).map((p) => p.address)).toEqual([
+      SELF,
+      PARTNER,
+      BOB,
+    ]);
+
+    apply({
+      type: "server:kill_occurred",
+      killer: PARTNER,
+      victim: ALICE,
+      location: Location.Electrical,
+      round: 1,
+    });
+    expect(view.getPlayer(ALICE)!.isAlive).toBe(false);
+    expect(view.getDeadBodies()).toEqual([
+      { victim: ALICE, location: Location.Electrical, round: 1n, reported: false },
+    ]);
+
+    apply({
+      type: "server:body_reported",
+      reporter: BOB,
+      victim: ALICE,
+      location: Location.Electrical,
+      round: 1,
+    });
+    expect(view.getDeadBodies()).toMatchObject([{ victim: ALICE, reported: true }]);
+
+    apply({ type: "server:player_ejected", ejected: PARTNER, wasImpostor: true, round: 1 });
+    expect(view.getPhase()).toBe(GamePhase.VoteResult);
+    expect(view.getPlayer(PARTNER)!.isAlive).toBe(false);
+    expect(view.getGameState()).toMatchObject({ alivePlayers: 2, aliveImpostors: 0 });
+
+    // The next round starts without the reported body
+    phase(GamePhase.ActionCommit, GamePhase.VoteResult, 2);
+    expect(view.getDeadBodies()).toEqual([]);
+    expect(view.getRound()).toBe(2);
+  });
+
+  it("learns of an unreported death only from a report", () => {
+    start();
+
+    apply({ type: "server:body_reported", reporter: BOB, victim: ALICE, location: 3, round: 2 });
+
+    expect(view.getPlayer(ALICE)!.isAlive).toBe(false);
+    expect(view.getDeadBodies()).toEqual([
+      { victim: ALICE, location: 3, round: 2n, reported: true },
+    ]);
+  });
+
+  it("shows a crewmate no roles but its own", () => {
+    start();
+
+    expect(view.getRole()).toBe(Role.Crewmate);
+    expect(view.getPlayer(SELF)!.role).toBe(Role.Crewmate);
+    expect(view.getPlayer(PARTNER)!.role).toBe(Role.None);
+    // The room's impostor count is all a crewmate has to go on
+    expect(view.getGameState()).toMatchObject({ aliveImpostors: 1, aliveCrewmates: 3 });
+  });
+
+  it("shows an impostor who its teammates are", () => {
+    start(Role.Impostor);
+
+    expect(view.getPlayer(PARTNER)!.role).toBe(Role.Impostor);
+    expect(view.getPlayer(ALICE)!.role).toBe(Role.Crewmate);
+    expect(view.getGameState()).toMatchObject({ aliveImpostors: 2, aliveCrewmates: 2 });
+  });
+
+  it("resets votes when voting opens and sabotage when a meeting starts", () => {
+    start();
+    apply({ type: "server:sabotage_started", sabotageType: SabotageType.Lights });
+    expect(view.getGameState().activeSabotage).toBe(SabotageType.Lights);
+
+    phase(GamePhase.Discussion, GamePhase.ActionCommit);
+    expect(view.getGameState().activeSabotage).toBe(SabotageType.None);
+
+    phase(GamePhase.Voting, GamePhase.Discussion);
+    apply({ type: "server:vote_cast", voter: BOB, target: null, round: 1 });
+    expect(view.getPlayer(BOB)!.hasVoted).toBe(true);
+
+    phase(GamePhase.Voting, GamePhase.Discussion, 2);
+    expect(view.getPlayer(BOB)!.hasVoted).toBe(false);
+  });
+
+  it("counts task progress and the end of the game", () => {
+    start();
+
+    apply({
+      type: "server:task_completed",
+      player: ALICE,
+      tasksCompleted: 3,
+      totalTasks: 5,
+      totalProgress: 15,
+    });
+    expect(view.getGameState()).toMatchObject({
+      totalTasksCompleted: 3,
+      totalTasksRequired: 20,
+    });
+
+    apply({ type: "server:game_ended", crewmatesWon: true, reason: "tasks" });
+    expect(view.getPhase()).toBe(GamePhase.Ended);
+  });
+
+  it("gives the floor to the speaker in turn-based discussion", () => {
+    start();
+    view.apply({
+      type: "server:room_update",
+      room: {
+        roomId: GAME,
+        impostorCount: 1,
+        settings: { discussionMode: "turns" },
+      },
+    } as never);
+    expect(view.hasFloor()).toBe(false); // Not in a meeting
+
+    phase(GamePhase.Discussion, GamePhase.ActionCommit);
+    const turn = (speaker: string | null) =>
+      apply({
+        type: "server:discussion_turn",
+        speaker,
+        turn: 0,
+        turns: 4,
+        round: 1,
+        turnEndTime: 0,
+      });
+
+    turn(ALICE);
+    expect(view.hasFloor()).toBe(false);
+    turn(SELF.toLowerCase());
+    expect(view.hasFloor()).toBe(true);
+    turn(BOB);
+    expect(view.hasFloor()).toBe(false);
+    turn(null); // Rebuttal: everyone may talk
+    expect(view.hasFloor()).toBe(true);
+  });
+});
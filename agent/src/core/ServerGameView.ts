@@ -0,0 +1,314 @@
+import type { Address } from "viem";
+import type {
+  DeadBodyState,
+  DiscussionMode,
+  PlayerState,
+  ServerMessage,
+} from "@amongus/protocol";
+import {
+  DeadBody,
+  GamePhase,
+  GameState,
+  Location,
+  Player,
+  Role,
+  SabotageType,
+} from "../types.js";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as Address;
+
+/**
+ * One player's view of a game on the relay server, kept from the
+ * server:game_state snapshot and the events after it. It knows what that
+ * player has been told: a kill nobody reported is only seen by witnesses,
+ * and only impostors know who the other impostors are.
+ */
+export class ServerGameView {
+  private self: string;
+  private gameId: string | null = null;
+  private ready: boolean = false;
+
+  private phase: GamePhase = GamePhase.Lobby;
+  private round: number = 0;
+  private phaseEndTime: number = 0;
+  private players: PlayerState[] = [];
+  private deadBodies: DeadBodyState[] = [];
+  private activeSabotage: SabotageType = SabotageType.None;
+
+  private role: Role = Role.None;
+  private teammates: string[] = []; // Lowercase; fellow impostors
+  private impostorCount: number = 1;
+  private ejectedImpostors: number = 0;
+  private discussionMode: DiscussionMode = "open";
+  private speaker: string | null | undefined = undefined; // Turn-based floor; null in the rebuttal
+
+  constructor(self: Address) {
+    this.self = self.toLowerCase();
+  }
+
+  /**
+   * Start over for a new room. Messages about other rooms are ignored.
+   */
+  reset(gameId: string): void {
+    this.gameId = gameId;
+    this.ready = false;
+    this.phase = GamePhase.Lobby;
+    this.round = 0;
+    this.phaseEndTime = 0;
+    this.players = [];
+    this.deadBodies = [];
+    this.activeSabotage = SabotageType.None;
+    this.role = Role.None;
+    this.teammates = [];
+    this.impostorCount = 1;
+    this.ejectedImpostors = 0;
+    this.discussionMode = "open";
+    this.speaker = undefined;
+  }
+
+  apply(message: ServerMessage): void {
+    if ("gameId" in message && message.gameId !== this.gameId) return;
+
+    switch (message.type) {
+      case "server:room_update":
+        if (message.room.roomId !== this.gameId) return;
+        this.impostorCount = message.room.impostorCount;
+        this.discussionMode = message.room.settings.discussionMode;
+        break;
+
+      case "server:game_state": {
+        const { state } = message;
+        this.ready = true;
+        this.phase = state.phase;
+        this.round = state.round;
+        this.phaseEndTime = state.phaseEndTime;
+        this.players = state.players.map((p) => ({ ...p }));
+        this.deadBodies = state.deadBodies.map((b) => ({ ...b }));
+        this.activeSabotage = state.activeSabotage;
+        break;
+      }
+
+      case "server:role_assigned":
+        this.role = message.role;
+        this.teammates = (message.teammates ?? []).map((a) => a.toLowerCase());
+        break;
+
+      case "server:phase_changed":
+        // Reported bodies are cleared once the vote result has been shown
+        if (message.previousPhase === GamePhase.VoteResult) {
+          this.deadBodies = this.deadBodies.filter((b) => !b.reported);
+        }
+        if (message.phase === GamePhase.Discussion) {
+          // Meetings reset sabotages
+          this.activeSabotage = SabotageType.None;
+          this.speaker = undefined;
+        }
+        if (message.phase === GamePhase.Voting) {
+          for (const player of this.players) player.hasVoted = false;
+        }
+        this.phase = message.phase;
+        this.round = message.round;
+        this.phaseEndTime = message.phaseEndTime;
+        break;
+
+      case "server:player_moved": {
+        const player = this.findPlayer(message.address);
+        if (player) player.location = message.to;
+        break;
+      }
+
+      case "server:kill_occurred":
+        this.markDead(message.victim);
+        if (!this.findBody(message.victim)) {
+          this.deadBodies.push({
+            victim: message.victim,
+            location: message.location,
+            round: message.round,
+            reported: false,
+          });
+        }
+        break;
+
+      case "server:body_reported": {
+        this.markDead(message.victim);
+        const body = this.findBody(message.victim);
+        if (body) {
+          body.reported = true;
+        } else {
+          this.deadBodies.push({
+            victim: message.victim,
+            location: message.location,
+            round: message.round,
+            reported: true,
+          });
+        }
+        break;
+      }
+
+      case "server:player_ejected":
+        // Voting is over; the result phase isn't announced on its own
+        this.phase = GamePhase.VoteResult;
+        this.markDead(message.ejected);
+        if (message.wasImpostor) this.ejectedImpostors++;
+        break;
+
+      case "server:vote_cast": {
+        const voter = this.findPlayer(message.voter);
+        if (voter) voter.hasVoted = true;
+        break;
+      }
+
+      case "server:task_completed": {
+        const player = this.findPlayer(message.player);
+        if (player) {
+          player.tasksCompleted = message.tasksCompleted;
+          player.totalTasks = message.totalTasks;
+        }
+        break;
+      }
+
+      case "server:discussion_turn":
+        this.speaker = message.speaker?.toLowerCase() ?? null;
+        break;
+
+      case "server:sabotage_started":
+        this.activeSabotage = message.sabotageType;
+        break;
+
+      case "server:sabotage_fixed":
+      case "server:sabotage_failed":
+        this.activeSabotage = SabotageType.None;
+        break;
+
+      case "server:game_ended":
+        this.phase = GamePhase.Ended;
+        break;
+    }
+  }
+
+  // ============ QUERIES ============
+
+  /**
+   * Whether a game_state snapshot has arrived for this room
+   */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getPhase(): GamePhase {
+    return this.phase;
+  }
+
+  getRound(): number {
+    return this.round;
+  }
+
+  getRole(): Role {
+    return this.role;
+  }
+
+  /**
+   * Whether we may chat now: always in open discussion; in turn-based
+   * discussion only in our own slot or the rebuttal after the last one
+   */
+  hasFloor(): boolean {
+    if (this.phase !== GamePhase.Discussion) return false;
+    if (this.discussionMode === "open") return true;
+    return this.speaker === null || this.speaker === this.self;
+  }
+
+  getPlayer(address: string): Player | undefined {
+    const player = this.findPlayer(address);
+    return player && this.toAgentPlayer(player);
+  }
+
+  getPlayers(): Player[] {
+    return this.players.map((p) => this.toAgentPlayer(p));
+  }
+
+  /**
+   * Living players in a room, counting bodies we don't know about as alive
+   */
+  getPlayersAt(location: Location): Player[] {
+    return this.getPlayers().filter((p) => p.isAlive && p.location === location);
+  }
+
+  getDeadBodies(): DeadBody[] {
+    return this.deadBodies.map((b) => ({
+      victim: b.victim as Address,
+      location: b.location,
+      round: BigInt(b.round),
+      reported: b.reported,
+    }));
+  }
+
+  getGameState(): GameState {
+    const alive = this.players.filter((p) => p.isAlive);
+    // Impostors know exactly; crewmates only know how many were ejected
+    const aliveImpostors =
+      this.role === Role.Impostor
+        ? alive.filter((p) => this.isKnownImpostor(p.address)).length
+        : Math.max(this.impostorCount - this.ejectedImpostors, 0);
+
+    return {
+      gameId: 0n, // Server rooms have string ids
+      phase: this.phase,
+      round: BigInt(this.round),
+      phaseEndTime: BigInt(this.phaseEndTime),
+      alivePlayers: alive.length,
+      aliveCrewmates: alive.length - aliveImpostors,
+      aliveImpostors,
+      totalTasksCompleted: this.players.reduce((sum, p) => sum + p.tasksCompleted, 0),
+      totalTasksRequired: this.players.reduce((sum, p) => sum + p.totalTasks, 0),
+      activeSabotage: this.activeSabotage,
+      sabotageEndTime: 0n,
+      winner: ZERO_ADDRESS,
+      crewmatesWon: false,
+    };
+  }
+
+  // ============ HELPERS ============
+
+  private toAgentPlayer(player: PlayerState): Player {
+    const address = player.address.toLowerCase();
+    let role = Role.None;
+    if (address === this.self) {
+      role = this.role;
+    } else if (this.role === Role.Impostor) {
+      role = this.teammates.includes(address) ? Role.Impostor : Role.Crewmate;
+    }
+
+    return {
+      address: player.address as Address,
+      colorId: player.colorId,
+      role,
+      location: player.location,
+      isAlive: player.isAlive,
+      tasksCompleted: player.tasksCompleted,
+      totalTasks: player.totalTasks,
+      wagerAmount: 0n,
+      hasVoted: player.hasVoted,
+      lastActionRound: 0n,
+    };
+  }
+
+  private isKnownImpostor(address: string): boolean {
+    const lower = address.toLowerCase();
+    return lower === this.self || this.teammates.includes(lower);
+  }
+
+  private markDead(address: string): void {
+    const player = this.findPlayer(address);
+    if (player) player.isAlive = false;
+  }
+
+  private findPlayer(address: string): PlayerState | undefined {
+    const lower = address.toLowerCase();
+    return this.players.find((p) => p.address.toLowerCase() === lower);
+  }
+
+  private findBody(victim: string): DeadBodyState | undefined {
+    const lower = victim.toLowerCase();
+    return this.deadBodies.find((b) => b.victim.toLowerCase() === lower);
+  }
+}
@@ -6,124 +6,224 @@ import {
   ActionType,
   GamePhase,
   Action,
+  ActionCommitment,
+  Role,
+  SabotageType,
+  MessageType,
+  AccuseReason,
+  DiscussionMessage,
 } from "../types.js";
 
 // ============ MESSAGE TYPES ============
 
-export interface AgentAuthenticateMessage {
-  type: "agent:authenticate";
-  address: string;
-}
-
-export interface AgentJoinGameMessage {
-  type: "agent:join_game";
-  gameId: string;
-  colorId: number;
-}
-
-export interface AgentLeaveGameMessage {
-  type: "agent:leave_game";
-  gameId: string;
-}
-
-// New relay server protocol messages
-export interface ClientJoinRoomMessage {
-  type: "client:join_room";
-  roomId: string;
-  colorId?: number;
-  asSpectator?: boolean;
-}
-
-export interface ClientLeaveRoomMessage {
-  type: "client:leave_room";
-  roomId: string;
-}
-
-export interface AgentPositionUpdateMessage {
-  type: "agent:position_update";
-  gameId: string;
-  location: Location;
-  round: number;
-}
-
-export interface AgentActionResultMessage {
-  type: "agent:action_result";
-  gameId: string;
-  actionType: ActionType;
-  target?: string;
-  destination?: Location;
-  round: number;
-}
-
-export interface AgentPhaseChangeMessage {
-  type: "agent:phase_change";
-  gameId: string;
-  phase: GamePhase;
-  round: number;
-  phaseEndTime: number;
-}
-
-export interface AgentKillMessage {
-  type: "agent:kill";
-  gameId: string;
-  killer: string;
-  victim: string;
-  location: Location;
-  round: number;
-}
-
-export interface AgentVoteMessage {
-  type: "agent:vote";
-  gameId: string;
-  voter: string;
-  target: string | null;
-  round: number;
-}
-
-export interface AgentTaskCompleteMessage {
-  type: "agent:task_complete";
-  gameId: string;
-  player: string;
-  tasksCompleted: number;
-  totalTasks: number;
+// The wire protocol is defined once, in the protocol package shared with the
+// server; these are re-exported under the names this SDK has always used
+import type {
+  ClientMessage,
+  ServerMessage,
+  AgentAuthenticateMessage,
+  AgentJoinGameMessage,
+  AgentLeaveGameMessage,
+  ClientResumeMessage,
+  ClientJoinRoomMessage,
+  ClientLeaveRoomMessage,
+  ClientReadyMessage,
+  ClientQueueMessage,
+  ClientDequeueMessage,
+  AgentPositionUpdateMessage,
+  AgentActionResultMessage,
+  AgentKillMessage,
+  AgentVoteMessage,
+  AgentTaskCompleteMessage,
+  AgentReportBodyMessage,
+  AgentCommitActionMessage,
+  AgentRevealActionMessage,
+  AgentCallMeetingMessage,
+  AgentSabotageMessage,
+  AgentFixSabotageMessage,
+  AgentVentMessage,
+  AgentUseCamerasMessage,
+  ChatClaimKind,
+  ChatClaimReason,
+  ChatClaim,
+  AgentChatMessage,
+  AuthChallenge,
+  ServerWelcomeMessage,
+  ServerAuthChallengeMessage,
+  ServerRoleAssignedMessage,
+  AssignedTask,
+  ServerTasksAssignedMessage,
+  ServerAuthenticatedMessage,
+  ServerSessionResumedMessage,
+  ServerQueueStatusMessage,
+  ServerMatchFoundMessage,
+  ServerLobbyCountdownMessage,
+  ServerTournamentGameMessage,
+  ServerChatBroadcastMessage,
+  ServerDiscussionTurnMessage,
+  ServerYourTurnToSpeakMessage,
+  ServerErrorMessage,
+  MessageIssue,
+} from "@amongus/protocol";
+
+export type {
+  ClientMessage,
+  ServerMessage,
+  AgentAuthenticateMessage,
+  AgentJoinGameMessage,
+  AgentLeaveGameMessage,
+  ClientResumeMessage,
+  ClientJoinRoomMessage,
+  ClientLeaveRoomMessage,
+  ClientReadyMessage,
+  ClientQueueMessage,
+  ClientDequeueMessage,
+  AgentPositionUpdateMessage,
+  AgentActionResultMessage,
+  AgentKillMessage,
+  AgentVoteMessage,
+  AgentTaskCompleteMessage,
+  AgentReportBodyMessage,
+  AgentCommitActionMessage,
+  AgentRevealActionMessage,
+  AgentCallMeetingMessage,
+  AgentSabotageMessage,
+  AgentFixSabotageMessage,
+  AgentVentMessage,
+  AgentUseCamerasMessage,
+  ChatClaimKind,
+  ChatClaimReason,
+  ChatClaim,
+  AgentChatMessage,
+  AuthChallenge,
+  ServerWelcomeMessage,
+  ServerAuthChallengeMessage,
+  ServerRoleAssignedMessage,
+  AssignedTask,
+  ServerTasksAssignedMessage,
+  ServerAuthenticatedMessage,
+  ServerSessionResumedMessage,
+  ServerQueueStatusMessage,
+  ServerMatchFoundMessage,
+  ServerLobbyCountdownMessage,
+  ServerTournamentGameMessage,
+  ServerDiscussionTurnMessage,
+  ServerYourTurnToSpeakMessage,
+  ServerErrorMessage,
+  MessageIssue,
+};
+
+export type ServerChatMessage = ServerChatBroadcastMessage;
+
+type AgentMessage = ClientMessage;
+
+// Reasons the server turns down client:queue
+const QUEUE_ERRORS = ["NOT_AUTHENTICATED", "ALREADY_IN_ROOM", "INVALID_WAGER", "INSUFFICIENT_BALANCE"];
+
+// ============ CHAT CLAIMS ============
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as Address;
+
+// Indexed by AccuseReason
+const CLAIM_REASONS: ChatClaimReason[] = [
+  "near_body",
+  "no_tasks",
+  "suspicious_movement",
+  "saw_vent",
+  "inconsistent",
+  "following",
+  "self_report",
+];
+
+const CLAIM_MESSAGE_TYPES: Record<ChatClaimKind, MessageType> = {
+  accuse: MessageType.Accuse,
+  defend: MessageType.Defend,
+  vouch: MessageType.Vouch,
+  alibi: MessageType.Info,
+  sighting: MessageType.Info,
+};
+
+/**
+ * Turn a strategy's DiscussionMessage into a chat claim. Info about another
+ * player becomes a sighting; info with no one else named becomes an alibi.
+ */
+export function discussionToClaim(message: DiscussionMessage): ChatClaim {
+  const reason = CLAIM_REASONS[message.reason];
+
+  switch (message.msgType) {
+    case MessageType.Accuse:
+      return { kind: "accuse", target: message.target, reason, location: message.location };
+    case MessageType.Defend:
+      return { kind: "defend", target: message.target, reason };
+    case MessageType.Vouch:
+      return { kind: "vouch", target: message.target };
+    default:
+      return message.target === ZERO_ADDRESS ||
+        message.target.toLowerCase() === message.sender.toLowerCase()
+        ? { kind: "alibi", location: message.location, reason }
+        : { kind: "sighting", target: message.target, location: message.location, reason };
+  }
 }
 
-type AgentMessage =
-  | AgentAuthenticateMessage
-  | AgentJoinGameMessage
-  | AgentLeaveGameMessage
-  | AgentPositionUpdateMessage
-  | AgentActionResultMessage
-  | AgentPhaseChangeMessage
-  | AgentKillMessage
-  | AgentVoteMessage
-  | AgentTaskCompleteMessage
-  | ClientJoinRoomMessage
-  | ClientLeaveRoomMessage;
-
-// Server message types (for receiving)
-export interface ServerWelcomeMessage {
-  type: "server:welcome";
-  connectionId: string;
-  timestamp: number;
+/**
+ * Read the claims on a received chat as DiscussionMessages, e.g. for
+ * GameMemory. Fields a claim leaves out come back as zero values, as they
+ * would from the contract.
+ */
+export function claimsToDiscussion(chat: ServerChatMessage): DiscussionMessage[] {
+  return (chat.claims ?? []).map((claim) => ({
+    sender: chat.sender as Address,
+    msgType: CLAIM_MESSAGE_TYPES[claim.kind],
+    target: (claim.target ?? ZERO_ADDRESS) as Address,
+    reason: claim.reason ? (CLAIM_REASONS.indexOf(claim.reason) as AccuseReason) : AccuseReason.NearBody,
+    location: claim.location ?? Location.Cafeteria,
+    timestamp: BigInt(chat.timestamp),
+  }));
 }
 
-export interface ServerErrorMessage {
-  type: "server:error";
-  code: string;
-  message: string;
+/**
+ * Chat text to go with a strategy's messages. The claims carry the meaning;
+ * this is what people watching read.
+ */
+export function discussionToText(messages: DiscussionMessage[]): string {
+  return messages
+    .map((message) => {
+      const target = message.target.slice(0, 10);
+      const place = Location[message.location];
+      switch (message.msgType) {
+        case MessageType.Accuse:
+          return `I suspect ${target} (${CLAIM_REASONS[message.reason]}, ${place}).`;
+        case MessageType.Defend:
+          return `${target} is innocent.`;
+        case MessageType.Vouch:
+          return `I vouch for ${target}.`;
+        default:
+          return message.target === ZERO_ADDRESS ||
+            message.target.toLowerCase() === message.sender.toLowerCase()
+            ? `I was in ${place}.`
+            : `I saw ${target} in ${place}.`;
+      }
+    })
+    .join(" ");
 }
 
-export type ServerMessage = ServerWelcomeMessage | ServerErrorMessage | { type: string; [key: string]: any };
-
 // ============ CLIENT CLASS ============
 
+export type ServerMessageListener = (message: ServerMessage) => void;
+
 export interface WebSocketClientConfig {
   serverUrl: string;
   agentAddress: Address;
   agentName: string;
+  // Signs the server's auth challenge (EIP-191) to prove control of agentAddress
+  signMessage?: (message: string) => Promise<`0x${string}`>;
+  // Alternative proof for server-managed (Privy) wallets that have no local key
+  operatorKey?: string;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  // Ready up as soon as we're seated in a lobby (default true); turn off to
+  // call setReady() yourself
+  autoReady?: boolean;
 }
 
 export class WebSocketClient {
@@ -133,6 +233,19 @@ export class WebSocketClient {
   private connectionId: string | null = null;
   private currentGameId: string | null = null;
   private isConnected: boolean = false;
+  private isAuthenticated: boolean = false;
+  private authChallenge: AuthChallenge | null = null;
+  private roleAssignment: ServerRoleAssignedMessage | null = null;
+  private assignedTasks: AssignedTask[] = [];
+  private pendingAuth: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private sessionToken: string | null = null; // Lets a new connection reclaim our seat
+  private queueStatus: ServerQueueStatusMessage | null = null;
+  private pendingMatch: { resolve: (match: ServerMatchFoundMessage | null) => void; timer: NodeJS.Timeout } | null = null;
+  private lobbyCountdown: ServerLobbyCountdownMessage | null = null;
+  private tournamentGame: ServerTournamentGameMessage | null = null;
+  private chatMessages: ServerChatMessage[] = []; // This game's chat, oldest first
+  private speakingTurn: ServerYourTurnToSpeakMessage | null = null;
+  private listeners: Set<ServerMessageListener> = new Set();
   private reconnectAttempts: number = 0;
   private shouldReconnect: boolean = true;
 
@@ -140,6 +253,7 @@ export class WebSocketClient {
     this.config = {
       reconnectInterval: 5000,
       maxReconnectAttempts: 10,
+      autoReady: true,
       ...config,
     };
 
@@ -156,21 +270,20 @@ export class WebSocketClient {
   }
 
   /**
-   * Connect to WebSocket server
+   * Connect to WebSocket server.
+   * Resolves once the server has accepted our signed auth challenge.
    */
   async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         this.ws = new WebSocket(this.config.serverUrl);
+        this.pendingAuth = { resolve, reject };
 
         this.ws.on("open", () => {
           this.isConnected = true;
           this.reconnectAttempts = 0;
           this.logger.info(`Connected to ${this.config.serverUrl}`);
-
-          // Authenticate immediately
-          this.authenticate();
-          resolve();
+          // Authentication starts when the welcome (with its challenge) arrives
         });
 
         this.ws.on("message", (data) => {
@@ -179,8 +292,11 @@ export class WebSocketClient {
 
         this.ws.on("close", () => {
           this.isConnected = false;
+          this.isAuthenticated = false;
           this.connectionId = null;
+          this.authChallenge = null;
           this.logger.info("Disconnected from server");
+          this.settleAuth(new Error("Connection closed before authentication"));
 
           if (this.shouldReconnect) {
             this.attemptReconnect();
@@ -209,13 +325,16 @@ export class WebSocketClient {
       this.ws = null;
     }
     this.isConnected = false;
+    this.isAuthenticated = false;
     this.connectionId = null;
     this.currentGameId = null;
+    this.sessionToken = null;
     this.logger.info("Disconnected");
   }
 
   /**
-   * Attempt to reconnect
+   * Attempt to reconnect. Once welcomed, the new connection resumes our session
+   * instead of re-authenticating, so a held seat is reclaimed.
    */
   private attemptReconnect(): void {
     if (this.reconnectAttempts >= (this.config.maxReconnectAttempts || 10)) {
@@ -243,24 +362,183 @@ export class WebSocketClient {
       const message = JSON.parse(data) as ServerMessage;
 
       switch (message.type) {
-        case "server:welcome":
-          this.connectionId = (message as ServerWelcomeMessage).connectionId;
+        case "server:welcome": {
+          const welcome = message as ServerWelcomeMessage;
+          this.connectionId = welcome.connectionId;
+          this.authChallenge = welcome.authChallenge;
           this.logger.info(`Received welcome, connectionId: ${this.connectionId}`);
+          if (this.sessionToken) {
+            this.resume(this.sessionToken);
+          } else {
+            this.authenticate();
+          }
+          break;
+        }
+
+        case "server:auth_challenge":
+          this.authChallenge = (message as ServerAuthChallengeMessage).authChallenge;
+          break;
+
+        case "server:role_assigned":
+          this.roleAssignment = message as ServerRoleAssignedMessage;
+          this.lobbyCountdown = null; // Roles are dealt when the game starts
+          this.chatMessages = [];
+          this.logger.info(
+            `Role assigned: ${Role[this.roleAssignment.role]}` +
+              (this.roleAssignment.teammates?.length
+                ? ` (teammates: ${this.roleAssignment.teammates.join(", ")})`
+                : "")
+          );
+          break;
+
+        case "server:tasks_assigned":
+          this.assignedTasks = (message as ServerTasksAssignedMessage).tasks;
+          break;
+
+        case "server:authenticated":
+          this.isAuthenticated = true;
+          this.sessionToken = (message as ServerAuthenticatedMessage).sessionToken ?? null;
+          this.logger.info(`Authenticated as ${this.config.agentAddress}`);
+          this.settleAuth();
+          break;
+
+        case "server:session_resumed": {
+          const resumed = message as ServerSessionResumedMessage;
+          this.isAuthenticated = true;
+          this.currentGameId = resumed.roomId;
+          this.logger.info(
+            resumed.roomId
+              ? `Session resumed, reclaimed seat in room ${resumed.roomId}`
+              : "Session resumed"
+          );
+          this.settleAuth();
+          break;
+        }
+
+        case "server:queue_status": {
+          this.queueStatus = message as ServerQueueStatusMessage;
+          const wait = this.queueStatus.estimatedWait;
+          this.logger.info(
+            `Queued: ${this.queueStatus.position}/${this.queueStatus.queueSize}` +
+              (wait !== null ? `, about ${Math.ceil(wait / 1000)}s to go` : "")
+          );
+          break;
+        }
+
+        case "server:match_found": {
+          const match = message as ServerMatchFoundMessage;
+          this.queueStatus = null;
+          this.logger.info(`Match found: room ${match.roomId} with ${match.players.length} players`);
+          this.settleMatch(match);
+          break;
+        }
+
+        case "server:queue_left":
+          this.queueStatus = null;
+          this.settleMatch(null);
+          break;
+
+        case "server:player_joined":
+          if (
+            this.config.autoReady &&
+            message.gameId === this.currentGameId &&
+            message.player?.address?.toLowerCase() === this.config.agentAddress.toLowerCase()
+          ) {
+            this.setReady(true);
+          }
+          break;
+
+        case "server:lobby_countdown": {
+          const countdown = message as ServerLobbyCountdownMessage;
+          this.lobbyCountdown = countdown.startsAt !== null ? countdown : null;
+          this.logger.info(
+            countdown.startsAt !== null
+              ? `Game starts in ${Math.ceil((countdown.startsAt - Date.now()) / 1000)}s`
+              : `Countdown cancelled (${countdown.readyCount}/${countdown.playerCount} ready, ${countdown.minPlayers} needed)`
+          );
+          break;
+        }
+
+        case "server:tournament_game": {
+          this.tournamentGame = message as ServerTournamentGameMessage;
+          this.logger.info(
+            `Tournament ${this.tournamentGame.name} round ${this.tournamentGame.round}/${this.tournamentGame.totalRounds}: join room ${this.tournamentGame.roomId}`
+          );
+          break;
+        }
+
+        case "server:chat": {
+          const chat = message as ServerChatMessage;
+          this.chatMessages.push(chat);
+          this.logger.debug(
+            `${chat.senderName}: ${chat.message}` +
+              (chat.claims?.length ? ` [${chat.claims.map((c) => c.kind).join(", ")}]` : "")
+          );
+          break;
+        }
+
+        case "server:your_turn_to_speak":
+          this.speakingTurn = message as ServerYourTurnToSpeakMessage;
+          this.logger.info(
+            `Our turn to speak (${this.speakingTurn.turn + 1}/${this.speakingTurn.turns}), ` +
+              `${Math.ceil((this.speakingTurn.deadline - Date.now()) / 1000)}s left`
+          );
+          break;
+
+        case "server:discussion_turn":
+          if (message.speaker?.toLowerCase() !== this.config.agentAddress.toLowerCase()) {
+            this.speakingTurn = null;
+          }
           break;
 
         case "server:error":
           const errorMsg = message as ServerErrorMessage;
           this.logger.error(`Server error: ${errorMsg.code} - ${errorMsg.message}`);
+          if (errorMsg.code === "AUTH_REJECTED") {
+            this.settleAuth(new Error(`Authentication rejected: ${errorMsg.message}`));
+          } else if (errorMsg.code === "RESUME_REJECTED") {
+            // Session expired: fall back to signing the challenge
+            this.sessionToken = null;
+            this.authenticate();
+          } else if (QUEUE_ERRORS.includes(errorMsg.code)) {
+            this.settleMatch(null);
+          }
           break;
 
         default:
           this.logger.debug(`Received: ${message.type}`);
       }
+
+      this.notifyListeners(message);
     } catch (error) {
       this.logger.error(`Failed to parse message: ${error}`);
     }
   }
 
+  /**
+   * Hand a message to every onMessage listener, after our own bookkeeping
+   */
+  private notifyListeners(message: ServerMessage): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(message);
+      } catch (error) {
+        this.logger.error(`Message listener failed on ${message.type}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Be told about every message the server sends, once this client has
+   * handled it. Returns a function that removes the listener.
+   */
+  onMessage(listener: ServerMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   /**
    * Send message to server
    */
@@ -280,21 +558,66 @@ export class WebSocketClient {
   }
 
   /**
-   * Authenticate with server
+   * Authenticate with server by signing the current challenge
    */
-  private authenticate(): void {
+  private async authenticate(): Promise<void> {
+    let signature: string | undefined;
+    if (this.config.signMessage && this.authChallenge) {
+      try {
+        signature = await this.config.signMessage(this.authChallenge.message);
+      } catch (error) {
+        this.logger.error(`Failed to sign auth challenge: ${error}`);
+        this.settleAuth(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+    } else if (!this.config.operatorKey) {
+      this.logger.warn("No signer or operator key configured; server will reject authentication");
+    }
+
     this.send({
       type: "agent:authenticate",
       address: this.config.agentAddress,
+      name: this.config.agentName,
+      signature,
+      operatorKey: signature ? undefined : this.config.operatorKey,
+    });
+  }
+
+  /**
+   * Re-authenticate with the session token from the previous connection,
+   * reclaiming our seat if the server is still holding it
+   */
+  private resume(sessionToken: string): void {
+    this.logger.info("Resuming previous session");
+    this.send({
+      type: "client:resume",
+      sessionToken,
+      roomId: this.currentGameId ?? undefined,
     });
   }
 
+  /**
+   * Resolve or reject the pending connect() call, if any
+   */
+  private settleAuth(error?: Error): void {
+    const pending = this.pendingAuth;
+    if (!pending) return;
+    this.pendingAuth = null;
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
   /**
    * Join a game room
    */
   joinGame(gameId: bigint, colorId: number): void {
     const gameIdStr = gameId.toString();
     this.currentGameId = gameIdStr;
+    this.roleAssignment = null;
+    this.assignedTasks = [];
     this.send({
       type: "agent:join_game",
       gameId: gameIdStr,
@@ -323,6 +646,8 @@ export class WebSocketClient {
    */
   joinRoom(roomId: string, colorId?: number): void {
     this.currentGameId = roomId;
+    this.roleAssignment = null;
+    this.assignedTasks = [];
     this.send({
       type: "client:join_room",
       roomId,
@@ -347,22 +672,84 @@ export class WebSocketClient {
   }
 
   /**
-   * Send position update after reveal
+   * Mark ourselves ready (or not) in the room we're seated in. The server
+   * counts down once the room's minimum is seated and everyone is ready;
+   * with autoReady this is sent for us on joining.
    */
-  sendPositionUpdate(location: Location, round: bigint): void {
+  setReady(ready: boolean = true): void {
     if (!this.currentGameId) {
-      this.logger.warn("Cannot send position update: not in a game");
+      this.logger.warn("Cannot ready up: not in a room");
       return;
     }
 
-    this.send({
-      type: "agent:position_update",
-      gameId: this.currentGameId,
-      location,
-      round: Number(round),
+    this.send({ type: "client:ready", roomId: this.currentGameId, ready });
+  }
+
+  /**
+   * The running lobby countdown, or null if none is running
+   */
+  getLobbyCountdown(): ServerLobbyCountdownMessage | null {
+    return this.lobbyCountdown;
+  }
+
+  /**
+   * The latest tournament table we were seated at, or null if none. Join its
+   * roomId before joinDeadline to play the round.
+   */
+  getTournamentGame(): ServerTournamentGameMessage | null {
+    return this.tournamentGame;
+  }
+
+  /**
+   * Join the matchmaking queue. The server groups agents by wager and rating,
+   * reports our place with server:queue_status and sends server:match_found
+   * with a room reserved for us; see waitForMatch().
+   */
+  joinQueue(wagerAmount?: string): void {
+    this.send({ type: "client:queue", wagerAmount });
+    this.logger.info(`Joining matchmaking queue${wagerAmount ? ` (${wagerAmount} wei)` : ""}`);
+  }
+
+  /**
+   * Leave the matchmaking queue
+   */
+  leaveQueue(): void {
+    this.send({ type: "client:dequeue" });
+  }
+
+  /**
+   * Queue (unless already queued) and wait for a match. Resolves with the
+   * match, or null if we left the queue, the server refused to queue us or
+   * `timeout` ms passed. Join the matched room with joinRoom(match.roomId).
+   */
+  waitForMatch(wagerAmount?: string, timeout: number = 300000): Promise<ServerMatchFoundMessage | null> {
+    this.settleMatch(null);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.logger.warn(`No match after ${timeout}ms, leaving the queue`);
+        this.leaveQueue();
+        this.settleMatch(null);
+      }, timeout);
+      this.pendingMatch = { resolve, timer };
+
+      if (!this.queueStatus) {
+        this.joinQueue(wagerAmount);
+      }
     });
   }
 
+  /**
+   * Resolve the pending waitForMatch() call, if any
+   */
+  private settleMatch(match: ServerMatchFoundMessage | null): void {
+    const pending = this.pendingMatch;
+    if (!pending) return;
+    this.pendingMatch = null;
+    clearTimeout(pending.timer);
+    pending.resolve(match);
+  }
+
   /**
    * Send action result after reveal
    */
@@ -383,33 +770,37 @@ export class WebSocketClient {
   }
 
   /**
-   * Send phase change notification
+   * Commit a hashed action for the current round
    */
-  sendPhaseChange(phase: GamePhase, round: bigint, phaseEndTime: bigint): void {
-    if (!this.currentGameId) return;
+  sendCommitAction(commitHash: `0x${string}`, round: bigint): void {
+    if (!this.currentGameId) {
+      this.logger.warn("Cannot commit action: not in a game");
+      return;
+    }
 
     this.send({
-      type: "agent:phase_change",
+      type: "agent:commit_action",
       gameId: this.currentGameId,
-      phase,
       round: Number(round),
-      phaseEndTime: Number(phaseEndTime),
+      commitHash,
     });
   }
 
   /**
-   * Send kill notification
+   * Reveal a previously committed action and its salt
    */
-  sendKill(killer: Address, victim: Address, location: Location, round: bigint): void {
-    if (!this.currentGameId) return;
+  sendRevealAction(commitment: ActionCommitment, round: bigint): void {
+    if (!this.currentGameId) {
+      this.logger.warn("Cannot reveal action: not in a game");
+      return;
+    }
 
     this.send({
-      type: "agent:kill",
+      type: "agent:reveal_action",
       gameId: this.currentGameId,
-      killer,
-      victim,
-      location,
       round: Number(round),
+      action: commitment.action,
+      salt: commitment.salt,
     });
   }
 
@@ -429,18 +820,87 @@ export class WebSocketClient {
   }
 
   /**
-   * Send task completion notification
+   * Call an emergency meeting (limited per player by the room's settings)
+   */
+  sendCallMeeting(): void {
+    if (!this.currentGameId) return;
+
+    this.send({ type: "agent:call_meeting", gameId: this.currentGameId });
+  }
+
+  /**
+   * Start a sabotage (impostors only, subject to the sabotage cooldown)
+   */
+  sendSabotage(sabotageType: SabotageType): void {
+    if (!this.currentGameId) return;
+
+    this.send({ type: "agent:sabotage", gameId: this.currentGameId, sabotageType });
+  }
+
+  /**
+   * Work on fixing the active sabotage from our current room
+   */
+  sendFixSabotage(): void {
+    if (!this.currentGameId) return;
+
+    this.send({ type: "agent:fix_sabotage", gameId: this.currentGameId });
+  }
+
+  /**
+   * Enter or leave the vent in our room (impostors only). Travel through the
+   * vents is committed and revealed as a Vent action.
+   */
+  sendVent(action: "enter" | "exit"): void {
+    if (!this.currentGameId) return;
+
+    this.send({ type: "agent:vent", gameId: this.currentGameId, action });
+  }
+
+  /**
+   * Start or stop watching the security cameras (from Security)
    */
-  sendTaskComplete(player: Address, tasksCompleted: number, totalTasks: number): void {
+  sendUseCameras(action: "start" | "stop"): void {
+    if (!this.currentGameId) return;
+
+    this.send({ type: "agent:use_cameras", gameId: this.currentGameId, action });
+  }
+
+  /**
+   * Say something in discussion or voting, optionally with structured claims
+   * (see discussionToClaim). The server rejects the whole message with
+   * INVALID_CLAIM if a claim names a player, location or round that doesn't
+   * exist. In turn-based rooms the living may only speak in their own slot
+   * (see getSpeakingTurn) or the rebuttal after, and speaking ends the slot.
+   */
+  sendChat(message: string, claims: ChatClaim[] = []): void {
     if (!this.currentGameId) return;
 
     this.send({
-      type: "agent:task_complete",
+      type: "agent:chat",
       gameId: this.currentGameId,
-      player,
-      tasksCompleted,
-      totalTasks,
+      message,
+      ...(claims.length > 0 && { claims }),
     });
+    this.speakingTurn = null;
+  }
+
+  /**
+   * Our open speaking slot in a turn-based discussion, or null if it isn't
+   * our turn
+   */
+  getSpeakingTurn(): ServerYourTurnToSpeakMessage | null {
+    if (this.speakingTurn && this.speakingTurn.deadline <= Date.now()) {
+      this.speakingTurn = null;
+    }
+    return this.speakingTurn;
+  }
+
+  /**
+   * Chat received since the current game started, oldest first. Use
+   * claimsToDiscussion to read the claims.
+   */
+  getChatMessages(): ServerChatMessage[] {
+    return [...this.chatMessages];
   }
 
   /**
@@ -450,6 +910,34 @@ export class WebSocketClient {
     return this.isConnected;
   }
 
+  /**
+   * Check if the server accepted our wallet proof
+   */
+  getIsAuthenticated(): boolean {
+    return this.isAuthenticated;
+  }
+
+  /**
+   * Get the role the server privately assigned us, if a game has started
+   */
+  getRoleAssignment(): ServerRoleAssignedMessage | null {
+    return this.roleAssignment;
+  }
+
+  /**
+   * Get our task list as last sent by the server (empty for impostors)
+   */
+  getAssignedTasks(): AssignedTask[] {
+    return this.assignedTasks;
+  }
+
+  /**
+   * Get our place in the matchmaking queue, or null if not queued
+   */
+  getQueueStatus(): ServerQueueStatusMessage | null {
+    return this.queueStatus;
+  }
+
   /**
    * Get connection ID
    */
@@ -4,3 +4,4 @@ export * from "./ActionSubmitter.js";
 export * from "./WebSocketClient.js";
 export * from "./HttpApiClient.js";
 export * from "./OperatorManager.js";
+export * from "./ServerGameView.js";
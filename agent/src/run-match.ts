@@ -8,6 +8,8 @@
  * - RPC_URL: Monad RPC endpoint
  * - FACTORY_ADDRESS: AmongUsGameFactory contract address
  * - PRIVATE_KEY_1 through PRIVATE_KEY_6: Agent private keys
+ * - WS_SERVER_URL: Play on the relay server instead of the chain; the agents
+ *   queue for a match and play it over the WebSocket
  */
 
 import "dotenv/config";
@@ -20,6 +22,7 @@ import { parseEther, type Address } from "viem";
 const RPC_URL = process.env.RPC_URL || "http://localhost:8545";
 const FACTORY_ADDRESS = process.env.FACTORY_ADDRESS as Address;
 const WAGER_AMOUNT = parseEther(process.env.WAGER_AMOUNT || "0.01");
+const WS_SERVER_URL = process.env.WS_SERVER_URL;
 
 // Agent configurations with different strategies
 const AGENT_CONFIGS: {
@@ -71,7 +74,7 @@ async function runMatch() {
   console.log("   AMONG US ON-CHAIN - AI AGENT MATCH");
   console.log("===========================================\n");
 
-  if (!FACTORY_ADDRESS) {
+  if (!FACTORY_ADDRESS && !WS_SERVER_URL) {
     console.error("Error: FACTORY_ADDRESS environment variable not set");
     process.exit(1);
   }
@@ -103,10 +106,52 @@ async function runMatch() {
         {
           crewmateStyle: config.crewmateStyle,
           impostorStyle: config.impostorStyle,
+          wsServerUrl: WS_SERVER_URL,
         }
       )
   );
 
+  if (WS_SERVER_URL) {
+    await runServerMatch(agents);
+  } else {
+    await runChainMatch(agents);
+  }
+
+  console.log("\n===========================================");
+  console.log("              GAME COMPLETE");
+  console.log("===========================================\n");
+
+  // Print results
+  for (const agent of agents) {
+    const role = agent.getRole();
+    console.log(`${AGENT_CONFIGS[agents.indexOf(agent)].name}: ${roleToString(role)}`);
+  }
+}
+
+async function runServerMatch(agents: Agent[]) {
+  console.log(`Connecting to ${WS_SERVER_URL}...`);
+  await Promise.all(agents.map((agent) => agent.connectWebSocket()));
+
+  // The matchmaker seats agents queued for the same wager together
+  console.log("All agents connected. Queueing for a match...\n");
+  console.log("===========================================\n");
+
+  const results = await Promise.all(
+    agents.map((agent) => agent.playMatchOnServer(WAGER_AMOUNT.toString()))
+  );
+  const result = results.find((r) => r !== null);
+  if (result) {
+    console.log(`\n${result.crewmatesWon ? "Crewmates" : "Impostors"} won (${result.reason})`);
+  } else {
+    console.log("\nNo match was made");
+  }
+
+  for (const agent of agents) {
+    agent.disconnectWebSocket();
+  }
+}
+
+async function runChainMatch(agents: Agent[]) {
   // First agent creates the game
   console.log("Agent-Red creating game...");
   const { gameId, gameAddress } = await agents[0].createAndJoinGame(WAGER_AMOUNT);
@@ -133,16 +178,6 @@ async function runMatch() {
   console.log("===========================================\n");
 
   await Promise.all(agents.map((agent) => agent.playGame()));
-
-  console.log("\n===========================================");
-  console.log("              GAME COMPLETE");
-  console.log("===========================================\n");
-
-  // Print results
-  for (const agent of agents) {
-    const role = agent.getRole();
-    console.log(`${AGENT_CONFIGS[agents.indexOf(agent)].name}: ${roleToString(role)}`);
-  }
 }
 
 function roleToString(role: number): string {
@@ -1,4 +1,5 @@
 import type { Address } from "viem";
+import type { AssignedTask } from "@amongus/protocol";
 import {
   Action,
   GameState,
@@ -19,7 +20,8 @@ export interface StrategyContext {
   deadBodies: DeadBody[];
   messages: DiscussionMessage[];
   memory: GameMemory;
-  observer: GameObserver;
+  tasks: AssignedTask[]; // Dealt to us by the relay server; empty for impostors and on-chain only games
+  observer?: GameObserver; // Absent in headless simulations, which have no chain
 }
 
 export interface IStrategy {
@@ -62,17 +64,19 @@ export abstract class BaseStrategy implements IStrategy {
 
   // ============ HELPER METHODS ============
 
+  // Room and vent maps mirror the server's GameEngine, which rejects anything else
+
   protected getAdjacentLocations(location: Location): Location[] {
     const adjacencyMap: Record<Location, Location[]> = {
-      [Location.Cafeteria]: [Location.Admin, Location.MedBay, Location.UpperEngine],
+      [Location.Cafeteria]: [Location.Admin, Location.Storage, Location.MedBay, Location.UpperEngine],
       [Location.Admin]: [Location.Cafeteria, Location.Storage],
-      [Location.Storage]: [Location.Admin, Location.Electrical, Location.LowerEngine],
+      [Location.Storage]: [Location.Cafeteria, Location.Admin, Location.Electrical, Location.LowerEngine],
       [Location.Electrical]: [Location.Storage, Location.LowerEngine],
-      [Location.MedBay]: [Location.Cafeteria, Location.UpperEngine, Location.Security],
+      [Location.MedBay]: [Location.Cafeteria, Location.UpperEngine],
       [Location.UpperEngine]: [Location.Cafeteria, Location.MedBay, Location.Reactor],
-      [Location.LowerEngine]: [Location.Storage, Location.Electrical, Location.Security],
-      [Location.Security]: [Location.MedBay, Location.LowerEngine, Location.Reactor],
-      [Location.Reactor]: [Location.UpperEngine, Location.Security],
+      [Location.LowerEngine]: [Location.Storage, Location.Electrical, Location.Reactor],
+      [Location.Security]: [Location.Reactor],
+      [Location.Reactor]: [Location.UpperEngine, Location.LowerEngine, Location.Security],
     };
     return adjacencyMap[location] || [];
   }
@@ -84,10 +88,10 @@ export abstract class BaseStrategy implements IStrategy {
       [Location.Storage]: null,
       [Location.Electrical]: Location.MedBay,
       [Location.MedBay]: Location.Electrical,
-      [Location.UpperEngine]: null,
-      [Location.LowerEngine]: null,
-      [Location.Security]: Location.Reactor,
-      [Location.Reactor]: Location.Security,
+      [Location.UpperEngine]: Location.Reactor,
+      [Location.LowerEngine]: Location.Reactor,
+      [Location.Security]: Location.MedBay,
+      [Location.Reactor]: Location.UpperEngine,
     };
     return ventMap[location] ?? null;
   }
@@ -112,6 +116,47 @@ export abstract class BaseStrategy implements IStrategy {
     );
   }
 
+  /**
+   * Index of a dealt task whose next step is in this room
+   */
+  protected findTaskHere(tasks: AssignedTask[], location: Location): number | null {
+    const index = tasks.findIndex((t) => !t.completed && t.steps[t.currentStep] === location);
+    return index >= 0 ? index : null;
+  }
+
+  /**
+   * Rooms holding the next step of each unfinished task
+   */
+  protected getPendingTaskRooms(tasks: AssignedTask[]): Location[] {
+    return tasks.filter((t) => !t.completed).map((t) => t.steps[t.currentStep]);
+  }
+
+  /**
+   * The adjacent room on a shortest walk to the nearest of `targets`, or
+   * null when already there or none is reachable
+   */
+  protected stepTowards(from: Location, targets: Location[]): Location | null {
+    if (targets.length === 0 || targets.includes(from)) return null;
+
+    const firstStep = new Map<Location, Location>();
+    const queue: Location[] = [];
+    for (const next of this.getAdjacentLocations(from)) {
+      firstStep.set(next, next);
+      queue.push(next);
+    }
+    while (queue.length > 0) {
+      const room = queue.shift()!;
+      if (targets.includes(room)) return firstStep.get(room)!;
+      for (const next of this.getAdjacentLocations(room)) {
+        if (next !== from && !firstStep.has(next)) {
+          firstStep.set(next, firstStep.get(room)!);
+          queue.push(next);
+        }
+      }
+    }
+    return null;
+  }
+
   protected findNearestTaskRoom(from: Location, completedTasks: number): Location {
     const taskRooms = [
       Location.Admin,
@@ -27,6 +27,11 @@ export class CrewmateStrategy extends BaseStrategy {
     const { myPlayer, alivePlayers, deadBodies, memory } = context;
     const myLocation = myPlayer.location;
 
+    // Ghosts can still finish their tasks, and nothing else
+    if (!myPlayer.isAlive) {
+      return this.taskFocusedAction(context);
+    }
+
     // Priority 1: Report any body at my location
     const bodyHere = deadBodies.find(
       (b) => b.location === myLocation && !b.reported
@@ -53,9 +58,21 @@ export class CrewmateStrategy extends BaseStrategy {
   }
 
   private async taskFocusedAction(context: StrategyContext): Promise<Action> {
-    const { myPlayer } = context;
+    const { myPlayer, tasks } = context;
     const myLocation = myPlayer.location;
 
+    // Dealt tasks name their rooms: work here or walk to the nearest one
+    if (tasks.length > 0) {
+      const taskId = this.findTaskHere(tasks, myLocation);
+      if (taskId !== null) {
+        return { type: ActionType.DoTask, taskId };
+      }
+      const destination =
+        this.stepTowards(myLocation, this.getPendingTaskRooms(tasks)) ??
+        this.randomChoice(this.getAdjacentLocations(myLocation));
+      return { type: ActionType.Move, destination };
+    }
+
     // If at a task room and have tasks to do, do task
     const taskRooms = [
       Location.Admin,
@@ -82,20 +99,15 @@ export class CrewmateStrategy extends BaseStrategy {
     const { myPlayer, memory, alivePlayers } = context;
     const myLocation = myPlayer.location;
 
+    // With dealt tasks, finish them before settling in at Security
+    if (this.getPendingTaskRooms(context.tasks).length > 0 && myLocation !== Location.Security) {
+      return this.taskFocusedAction(context);
+    }
+
     // Go to Security to watch cameras if not there
-    if (myLocation !== Location.Security) {
-      const adjacent = this.getAdjacentLocations(myLocation);
-      if (adjacent.includes(Location.Security)) {
-        return { type: ActionType.Move, destination: Location.Security };
-      }
-      // Move towards Security
-      // Simple: go to MedBay or LowerEngine as intermediate
-      if (adjacent.includes(Location.MedBay)) {
-        return { type: ActionType.Move, destination: Location.MedBay };
-      }
-      if (adjacent.includes(Location.LowerEngine)) {
-        return { type: ActionType.Move, destination: Location.LowerEngine };
-      }
+    const towardsSecurity = this.stepTowards(myLocation, [Location.Security]);
+    if (towardsSecurity !== null) {
+      return { type: ActionType.Move, destination: towardsSecurity };
     }
 
     // At Security - use cameras or do task
@@ -119,6 +131,20 @@ export class CrewmateStrategy extends BaseStrategy {
 
     // If alone, move to find others
     if (playersHere.length <= 1) {
+      // Finish a task here before going to find others, or the crew stalls
+      const taskId = this.findTaskHere(context.tasks, myLocation);
+      if (taskId !== null) {
+        return { type: ActionType.DoTask, taskId };
+      }
+
+      const occupied = alivePlayers
+        .filter((p) => p.address !== myPlayer.address)
+        .map((p) => p.location);
+      const towardsOthers = this.stepTowards(myLocation, occupied);
+      if (towardsOthers !== null) {
+        return { type: ActionType.Move, destination: towardsOthers };
+      }
+
       // Move towards Cafeteria (central meeting point)
       const adjacent = this.getAdjacentLocations(myLocation);
       if (adjacent.includes(Location.Cafeteria)) {
@@ -129,7 +155,13 @@ export class CrewmateStrategy extends BaseStrategy {
     }
 
     // With others - do tasks
-    if (myPlayer.tasksCompleted < myPlayer.totalTasks) {
+    const { tasks } = context;
+    if (tasks.length > 0) {
+      const taskId = this.findTaskHere(tasks, myLocation);
+      if (taskId !== null) {
+        return { type: ActionType.DoTask, taskId };
+      }
+    } else if (myPlayer.tasksCompleted < myPlayer.totalTasks) {
       const taskRooms = [
         Location.Admin,
         Location.Storage,
@@ -146,9 +178,11 @@ export class CrewmateStrategy extends BaseStrategy {
       }
     }
 
-    // Move with others
+    // Move with others, towards our next task if we know it
     const adjacent = this.getAdjacentLocations(myLocation);
-    return { type: ActionType.Move, destination: this.randomChoice(adjacent) };
+    const destination =
+      this.stepTowards(myLocation, this.getPendingTaskRooms(tasks)) ?? this.randomChoice(adjacent);
+    return { type: ActionType.Move, destination };
   }
 
   private async vigilanteAction(context: StrategyContext): Promise<Action> {
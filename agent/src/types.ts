@@ -1,23 +1,9 @@
 // ============ ENUMS (Mirror Solidity) ============
 
-export enum Role {
-  None = 0,
-  Crewmate = 1,
-  Impostor = 2,
-  Ghost = 3,
-}
+// Shared with the server through the protocol package
+import { Role, Location, ActionType, SabotageType, GamePhase } from "@amongus/protocol";
 
-export enum Location {
-  Cafeteria = 0,
-  Admin = 1,
-  Storage = 2,
-  Electrical = 3,
-  MedBay = 4,
-  UpperEngine = 5,
-  LowerEngine = 6,
-  Security = 7,
-  Reactor = 8,
-}
+export { Role, Location, ActionType, SabotageType, GamePhase };
 
 export const LocationNames: Record<Location, string> = {
   [Location.Cafeteria]: "Cafeteria",
@@ -31,39 +17,6 @@ export const LocationNames: Record<Location, string> = {
   [Location.Reactor]: "Reactor",
 };
 
-export enum ActionType {
-  None = 0,
-  Move = 1,
-  DoTask = 2,
-  FakeTask = 3,
-  Kill = 4,
-  Report = 5,
-  CallMeeting = 6,
-  Vent = 7,
-  Sabotage = 8,
-  UseCams = 9,
-  Skip = 10,
-}
-
-export enum SabotageType {
-  None = 0,
-  Lights = 1,
-  Reactor = 2,
-  O2 = 3,
-  Comms = 4,
-}
-
-export enum GamePhase {
-  Lobby = 0,
-  Starting = 1,
-  ActionCommit = 2,
-  ActionReveal = 3,
-  Discussion = 4,
-  Voting = 5,
-  VoteResult = 6,
-  Ended = 7,
-}
-
 export enum MessageType {
   Accuse = 0,
   Defend = 1,
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSeededRandom } from "../../server/src/fairness.js";
+import type { SeatConfig } from "./HeadlessGame.js";
+
+// The server's rule modules log every game at info level
+process.env.LOG_LEVEL ??= "warn";
+const { HeadlessGame } = await import("./HeadlessGame.js");
+
+// One seat per style, as the tournament deals them by default
+const SEATS: SeatConfig[] = [
+  { name: "Seat-1", crewmateStyle: "task-focused", impostorStyle: "stealth" },
+  { name: "Seat-2", crewmateStyle: "detective", impostorStyle: "aggressive" },
+  { name: "Seat-3", crewmateStyle: "group-safety", impostorStyle: "saboteur" },
+  { name: "Seat-4", crewmateStyle: "vigilante", impostorStyle: "social-manipulator" },
+  { name: "Seat-5", crewmateStyle: "conservative", impostorStyle: "frame-game" },
+  { name: "Seat-6", crewmateStyle: "task-focused", impostorStyle: "stealth" },
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("HeadlessGame", () => {
+  it("plays every game to a winner", async () => {
+    for (let i = 0; i < 20; i++) {
+      const seed = `finish-${i}`;
+      // Strategies roll Math.random; seed it so a failure can be replayed
+      vi.spyOn(Math, "random").mockImplementation(createSeededRandom(seed, "strategies"));
+
+      const record = await new HeadlessGame(SEATS, { seed, impostorCount: 1, maxRounds: 100 }).play();
+
+      expect(record.winner, `game ${seed} ran out of rounds`).not.toBeNull();
+      if (record.reason === "tasks") {
+        for (const seat of record.seats.filter((s) => s.role === "crewmate")) {
+          expect(seat.tasksCompleted).toBe(seat.totalTasks);
+        }
+      }
+    }
+  });
+});
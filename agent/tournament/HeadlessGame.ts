@@ -0,0 +1,474 @@
+import { randomBytes } from "crypto";
+import type { Address } from "viem";
+import {
+  GameEngine,
+  type EngineCommand,
+  type EngineEvent,
+  type EngineState,
+} from "../../server/src/GameEngine.js";
+import { GameStateManager } from "../../server/src/GameStateManager.js";
+import { VirtualScheduler } from "../../server/src/Scheduler.js";
+import {
+  roleRandom,
+  selectImpostors,
+  taskRandom,
+} from "../../server/src/fairness.js";
+import { DEFAULT_GAME_SETTINGS } from "../../server/src/gameSettings.js";
+import type {
+  GameAction,
+  GameSettings,
+  PlayerState,
+} from "../../server/src/types.js";
+import {
+  MessageType,
+  Role,
+  type DeadBody,
+  type DiscussionMessage,
+  type GameState,
+  type Player,
+} from "../src/types.js";
+import { GameMemory } from "../src/memory/GameMemory.js";
+import type { IStrategy, StrategyContext } from "../src/strategies/BaseStrategy.js";
+import { CrewmateStrategy, type CrewmateStyle } from "../src/strategies/CrewmateStrategy.js";
+import { ImpostorStrategy, type ImpostorStyle } from "../src/strategies/ImpostorStrategy.js";
+
+const GAME_ID = "headless";
+
+// Same phase lengths as the relay server; only discussion and ejection are
+// ever waited out, since every seat acts instantly
+const COMMIT_DURATION = 30000;
+const REVEAL_DURATION = 15000;
+const EJECTION_DURATION = 5000;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export interface SeatConfig {
+  name: string;
+  crewmateStyle: CrewmateStyle;
+  impostorStyle: ImpostorStyle;
+}
+
+export interface HeadlessGameOptions {
+  seed: string; // Roles and tasks are drawn from it exactly like a live game
+  impostorCount: number;
+  maxRounds: number; // Games still running after this many rounds count as unfinished
+  settings?: Partial<GameSettings>;
+}
+
+export interface SeatResult {
+  name: string;
+  role: "crewmate" | "impostor";
+  style: CrewmateStyle | ImpostorStyle;
+  won: boolean;
+  survived: boolean;
+  tasksCompleted: number;
+  totalTasks: number;
+}
+
+export interface GameRecord {
+  seed: string;
+  winner: "crewmates" | "impostors" | null; // Null when maxRounds ran out
+  reason: "tasks" | "votes" | "kills" | "max_rounds";
+  rounds: number;
+  kills: number;
+  meetings: number;
+  ejections: number;
+  impostorsEjected: number;
+  seats: SeatResult[];
+}
+
+interface Seat extends SeatConfig {
+  address: Address;
+  isImpostor: boolean;
+  strategy: IStrategy;
+  memory: GameMemory;
+}
+
+/**
+ * One game played entirely in memory by agent strategies, with no sockets and
+ * no chain. Every revealed action, vote and phase change goes through the
+ * server's GameEngine and commitments through its GameStateManager, so results
+ * follow the live rules. No time passes during action rounds, so critical
+ * sabotages never run out. Roles and tasks come from the seed; the strategies
+ * themselves still use Math.random.
+ */
+export class HeadlessGame {
+  private clock = new VirtualScheduler(0);
+  private rules = new GameStateManager();
+  private engine = new GameEngine({
+    commit: COMMIT_DURATION,
+    reveal: REVEAL_DURATION,
+    ejection: EJECTION_DURATION,
+  });
+  private state: EngineState;
+  private seats: Seat[];
+  private messages: DiscussionMessage[] = []; // Current meeting only
+  private result: { winner: "crewmates" | "impostors"; reason: "tasks" | "votes" | "kills" } | null = null;
+  private kills = 0;
+  private meetings = 0;
+  private ejections = 0;
+  private impostorsEjected = 0;
+
+  constructor(seatConfigs: SeatConfig[], private options: HeadlessGameOptions) {
+    const settings: GameSettings = { ...DEFAULT_GAME_SETTINGS, ...options.settings };
+    this.rules.configureGame(GAME_ID, settings);
+
+    const addresses = seatConfigs.map(
+      (_, i) => `0x${(i + 1).toString(16).padStart(40, "0")}` as Address
+    );
+    addresses.forEach((address, i) => {
+      this.rules.updatePlayer(GAME_ID, {
+        address,
+        colorId: i,
+        location: 0, // Cafeteria
+        isAlive: true,
+        tasksCompleted: 0,
+        totalTasks: 0,
+        hasVoted: false,
+      });
+    });
+
+    // Same cap and draws as WebSocketRelayServer.startGameInternal
+    const impostorCount = Math.min(options.impostorCount, Math.floor(addresses.length / 3));
+    const impostors = selectImpostors(addresses, impostorCount, roleRandom(options.seed)).map(
+      (a) => a.toLowerCase()
+    );
+    this.rules.assignImpostors(GAME_ID, impostors);
+    for (const address of addresses) {
+      if (!impostors.includes(address)) {
+        this.rules.assignTasks(GAME_ID, address, settings.tasksPerPlayer, taskRandom(options.seed, address));
+      }
+    }
+
+    this.seats = seatConfigs.map((config, i) => {
+      const isImpostor = impostors.includes(addresses[i]);
+      return {
+        ...config,
+        address: addresses[i],
+        isImpostor,
+        strategy: isImpostor
+          ? new ImpostorStrategy(config.impostorStyle)
+          : new CrewmateStrategy(config.crewmateStyle),
+        memory: new GameMemory(),
+      };
+    });
+
+    this.state = {
+      phase: 0, // Lobby
+      round: 1,
+      phaseEndTime: 0,
+      players: this.rules.getGame(GAME_ID)!.players,
+      impostors,
+      votes: {},
+      deadBodies: [],
+      settings,
+      speakingOrder: [],
+      speakerIndex: 0,
+      ...this.rules.getRuleState(GAME_ID),
+    };
+  }
+
+  async play(): Promise<GameRecord> {
+    this.run({ type: "start_game", now: this.clock.now() });
+
+    while (!this.result && this.state.round <= this.options.maxRounds) {
+      if (this.state.phase === 2) {
+        await this.playActionRound();
+      } else if (this.state.phase === 4) {
+        await this.playMeeting();
+      } else {
+        break;
+      }
+    }
+
+    return this.record();
+  }
+
+  // ============ ROUNDS ============
+
+  private async playActionRound(): Promise<void> {
+    const round = this.state.round;
+    const committed: Array<{ seat: Seat; action: GameAction; salt: string }> = [];
+
+    // Ghosts may commit too, as on the relay server, so crewmates who die
+    // can still finish their tasks
+    const acting = this.seats.filter((seat) => !seat.isImpostor || this.playerOf(seat.address).isAlive);
+    for (const seat of acting) {
+      const decided = await seat.strategy.decideAction(this.contextFor(seat));
+      // The agent's Action has the same shape and numbering as the server's
+      const action = decided as unknown as GameAction;
+      const salt = `0x${randomBytes(32).toString("hex")}`;
+      this.rules.recordCommitment(
+        GAME_ID,
+        seat.address,
+        round,
+        this.rules.computeActionCommitment(action, salt, seat.address)
+      );
+      committed.push({ seat, action, salt });
+    }
+
+    this.run({ type: "close_commits", now: this.clock.now(), commitCount: committed.length });
+    for (const { seat, action, salt } of committed) {
+      this.rules.recordReveal(GAME_ID, seat.address, round, action, salt);
+    }
+
+    this.run({
+      type: "resolve_actions",
+      now: this.clock.now(),
+      actions: this.rules.getRevealedActions(GAME_ID),
+    });
+  }
+
+  private async playMeeting(): Promise<void> {
+    this.messages = [];
+    for (const seat of this.livingSeats()) {
+      this.messages.push(...(await seat.strategy.generateMessages(this.contextFor(seat))));
+    }
+    for (const seat of this.seats) {
+      for (const message of this.messages) {
+        if (message.msgType === MessageType.Accuse) {
+          seat.memory.recordAccusation(message);
+        } else if (message.msgType === MessageType.Defend) {
+          seat.memory.recordDefense(message);
+        }
+      }
+    }
+
+    this.waitOutPhase();
+    this.run({ type: "open_voting", now: this.clock.now() });
+
+    for (const seat of this.livingSeats()) {
+      if (this.state.phase !== 5) break;
+      const target = await seat.strategy.decideVote(this.contextFor(seat));
+      this.run({ type: "cast_vote", now: this.clock.now(), voter: seat.address, target });
+    }
+    if (this.state.phase === 5) {
+      this.run({ type: "close_voting", now: this.clock.now() });
+    }
+
+    this.waitOutPhase();
+    this.run({ type: "finish_vote_result", now: this.clock.now() });
+  }
+
+  // ============ ENGINE ============
+
+  private run(command: EngineCommand): EngineEvent[] {
+    const { state, events } = this.engine.apply(this.state, command);
+
+    // Keep the rule manager's player objects, as the relay server does
+    state.players.forEach((player, i) => {
+      Object.assign(this.state.players[i], player);
+    });
+    this.state = { ...state, players: this.state.players };
+
+    for (const event of events) {
+      this.observe(event);
+    }
+    return events;
+  }
+
+  private observe(event: EngineEvent): void {
+    switch (event.type) {
+      case "phase_changed":
+        if (event.phase === 2) {
+          this.rules.beginActionRound(GAME_ID, event.round);
+        }
+        if (event.phase === 4) {
+          this.meetings++;
+        }
+        break;
+
+      case "player_moved":
+        // Anyone in either room sees the move
+        for (const witness of [...this.witnessesAt(event.from), ...this.witnessesAt(event.to)]) {
+          if (witness.address !== event.address) {
+            witness.memory.recordMovement(event.address as Address, event.from, event.to, BigInt(event.round));
+          }
+        }
+        break;
+
+      case "kill_occurred": {
+        this.kills++;
+        const present = this.state.players
+          .filter((p) => p.location === event.location && (p.isAlive || p.address === event.victim))
+          .map((p) => p.address as Address);
+        for (const witness of [event.killer, ...event.witnesses]) {
+          this.seatOf(witness).memory.recordKill(event.victim as Address, event.location, BigInt(event.round), present);
+        }
+        break;
+      }
+
+      case "body_reported":
+        for (const seat of this.seats) {
+          seat.memory.recordReport(event.reporter as Address, BigInt(event.round));
+        }
+        break;
+
+      case "meeting_called":
+        for (const seat of this.seats) {
+          seat.memory.recordMeeting(event.caller as Address, BigInt(this.state.round));
+        }
+        break;
+
+      case "player_ejected":
+        this.ejections++;
+        if (event.wasImpostor) this.impostorsEjected++;
+        break;
+
+      case "voting_resolved": {
+        const votes = new Map(
+          Object.entries(this.state.votes).map(([voter, target]) => [voter as Address, target as Address | null])
+        );
+        const wasImpostor = event.ejected && this.state.settings.confirmEjects
+          ? this.state.impostors.includes(event.ejected.toLowerCase())
+          : null;
+        for (const seat of this.seats) {
+          seat.memory.recordVote(BigInt(event.round), votes, event.ejected as Address | null, wasImpostor);
+        }
+        break;
+      }
+
+      case "game_won":
+        this.result = { winner: event.winner, reason: event.reason };
+        break;
+    }
+  }
+
+  /**
+   * Discussion and the ejection screen only end on their timers
+   */
+  private waitOutPhase(): void {
+    this.clock.advance(Math.max(this.state.phaseEndTime - this.clock.now(), 0));
+  }
+
+  // ============ VIEWS ============
+
+  private contextFor(seat: Seat): StrategyContext {
+    const allPlayers = this.state.players.map((p) => this.toAgentPlayer(p, seat));
+    const myPlayer = allPlayers.find((p) => p.address === seat.address)!;
+
+    seat.memory.setCurrentRound(BigInt(this.state.round));
+    seat.memory.setMyLocation(myPlayer.location);
+
+    return {
+      gameState: this.toAgentGameState(),
+      myPlayer,
+      allPlayers,
+      alivePlayers: allPlayers.filter((p) => p.isAlive),
+      deadBodies: this.state.deadBodies.map(
+        (b): DeadBody => ({
+          victim: b.victim as Address,
+          location: b.location,
+          round: BigInt(b.round),
+          reported: b.reported,
+        })
+      ),
+      messages: this.messages,
+      memory: seat.memory,
+      tasks: this.state.tasks[seat.address] ?? [],
+    };
+  }
+
+  /**
+   * A player as `viewer` sees them: impostors know each other, nobody else's
+   * role is visible
+   */
+  private toAgentPlayer(player: PlayerState, viewer: Seat): Player {
+    const isImpostor = this.state.impostors.includes(player.address.toLowerCase());
+    const isSelf = player.address === viewer.address;
+    const role =
+      isSelf || (viewer.isImpostor && isImpostor)
+        ? isImpostor
+          ? Role.Impostor
+          : Role.Crewmate
+        : Role.None;
+
+    return {
+      address: player.address as Address,
+      colorId: player.colorId,
+      role,
+      location: player.location,
+      isAlive: player.isAlive,
+      tasksCompleted: player.tasksCompleted,
+      totalTasks: player.totalTasks,
+      wagerAmount: 0n,
+      hasVoted: player.hasVoted,
+      lastActionRound: 0n,
+    };
+  }
+
+  private toAgentGameState(): GameState {
+    const alive = this.state.players.filter((p) => p.isAlive);
+    const aliveImpostors = alive.filter((p) => this.state.impostors.includes(p.address.toLowerCase())).length;
+
+    return {
+      gameId: 0n,
+      phase: this.state.phase,
+      round: BigInt(this.state.round),
+      phaseEndTime: BigInt(this.state.phaseEndTime),
+      alivePlayers: alive.length,
+      aliveCrewmates: alive.length - aliveImpostors,
+      aliveImpostors,
+      totalTasksCompleted: this.state.players.reduce((sum, p) => sum + p.tasksCompleted, 0),
+      totalTasksRequired: this.state.players.reduce((sum, p) => sum + p.totalTasks, 0),
+      activeSabotage: 0, // None
+      sabotageEndTime: 0n,
+      winner: ZERO_ADDRESS,
+      crewmatesWon: false,
+    };
+  }
+
+  // ============ HELPERS ============
+
+  private livingSeats(): Seat[] {
+    return this.seats.filter((seat) => this.playerOf(seat.address).isAlive);
+  }
+
+  private witnessesAt(location: number): Seat[] {
+    return this.seats.filter((seat) => {
+      const player = this.playerOf(seat.address);
+      return (
+        player.isAlive && player.location === location && !this.state.playersInVent.includes(seat.address.toLowerCase())
+      );
+    });
+  }
+
+  private seatOf(address: string): Seat {
+    return this.seats.find((seat) => seat.address === address.toLowerCase())!;
+  }
+
+  private findPlayer(address: string): PlayerState | undefined {
+    return this.state.players.find((p) => p.address.toLowerCase() === address.toLowerCase());
+  }
+
+  private playerOf(address: string): PlayerState {
+    return this.findPlayer(address)!;
+  }
+
+  private record(): GameRecord {
+    const winner = this.result?.winner ?? null;
+
+    return {
+      seed: this.options.seed,
+      winner,
+      reason: this.result?.reason ?? "max_rounds",
+      rounds: Math.min(this.state.round, this.options.maxRounds),
+      kills: this.kills,
+      meetings: this.meetings,
+      ejections: this.ejections,
+      impostorsEjected: this.impostorsEjected,
+      seats: this.seats.map((seat) => {
+        const player = this.playerOf(seat.address);
+        return {
+          name: seat.name,
+          role: seat.isImpostor ? "impostor" : "crewmate",
+          style: seat.isImpostor ? seat.impostorStyle : seat.crewmateStyle,
+          won: winner !== null && (winner === "impostors") === seat.isImpostor,
+          survived: player.isAlive,
+          tasksCompleted: player.tasksCompleted,
+          totalTasks: player.totalTasks,
+        };
+      }),
+    };
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Play many headless games between strategy styles and report win rates
+ *
+ * Usage:
+ * npm run run:tournament -- [options]
+ *
+ * Options:
+ * --games <n>              Games to play (default 1000)
+ * --players <n>            Seats per game (default 6)
+ * --impostors <n>          Impostors per game, capped at players / 3 (default 1)
+ * --crewmate-styles <list> Comma-separated styles dealt to seats in turn (default: all)
+ * --impostor-styles <list> Comma-separated styles dealt to seats in turn (default: all)
+ * --max-rounds <n>         Rounds before a game counts as unfinished (default 50)
+ * --seed <string>          Base seed; game i uses "<seed>-<i>" (default: random)
+ * --out <file>             Where to write the JSON report (default tournament-results.json)
+ *
+ * Example: detectives against frame-game impostors
+ * npm run run:tournament -- --games 5000 --crewmate-styles detective --impostor-styles frame-game
+ */
+
+import { randomBytes } from "crypto";
+import { writeFileSync } from "fs";
+import type { CrewmateStyle } from "../src/strategies/CrewmateStrategy.js";
+import type { ImpostorStyle } from "../src/strategies/ImpostorStrategy.js";
+import type { GameRecord, SeatConfig } from "./HeadlessGame.js";
+
+const CREWMATE_STYLES: CrewmateStyle[] = ["task-focused", "detective", "group-safety", "vigilante", "conservative"];
+const IMPOSTOR_STYLES: ImpostorStyle[] = ["stealth", "aggressive", "saboteur", "social-manipulator", "frame-game"];
+
+// The server's rule modules log every game at info level
+process.env.LOG_LEVEL ??= "warn";
+const { HeadlessGame } = await import("./HeadlessGame.js");
+
+interface TournamentConfig {
+  games: number;
+  players: number;
+  impostors: number;
+  crewmateStyles: CrewmateStyle[];
+  impostorStyles: ImpostorStyle[];
+  maxRounds: number;
+  seed: string;
+  out: string;
+}
+
+interface StyleStats {
+  role: "crewmate" | "impostor";
+  style: string;
+  games: number;
+  wins: number;
+  winRate: number;
+  survivalRate: number;
+}
+
+function parseArgs(argv: string[]): TournamentConfig {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args.set(argv[i].slice(2), argv[i + 1] ?? "");
+      i++;
+    }
+  }
+
+  const int = (name: string, fallback: number): number => {
+    const value = parseInt(args.get(name) ?? "", 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const list = <T extends string>(name: string, allowed: T[]): T[] => {
+    const value = args.get(name);
+    if (!value) return allowed;
+    const styles = value.split(",").map((s) => s.trim());
+    const unknown = styles.filter((s) => !allowed.includes(s as T));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown ${name}: ${unknown.join(", ")} (expected ${allowed.join(", ")})`);
+    }
+    return styles as T[];
+  };
+
+  return {
+    games: int("games", 1000),
+    players: int("players", 6),
+    impostors: int("impostors", 1),
+    crewmateStyles: list("crewmate-styles", CREWMATE_STYLES),
+    impostorStyles: list("impostor-styles", IMPOSTOR_STYLES),
+    maxRounds: int("max-rounds", 50),
+    seed: args.get("seed") || randomBytes(8).toString("hex"),
+    out: args.get("out") || "tournament-results.json",
+  };
+}
+
+/**
+ * Seat i plays the i-th style of each list, wrapping around; the seed decides
+ * which seats are impostors in each game
+ */
+function buildSeats(config: TournamentConfig): SeatConfig[] {
+  return Array.from({ length: config.players }, (_, i) => ({
+    name: `Seat-${i + 1}`,
+    crewmateStyle: config.crewmateStyles[i % config.crewmateStyles.length],
+    impostorStyle: config.impostorStyles[i % config.impostorStyles.length],
+  }));
+}
+
+function summarize(config: TournamentConfig, records: GameRecord[]) {
+  const count = (predicate: (r: GameRecord) => boolean) => records.filter(predicate).length;
+  const average = (pick: (r: GameRecord) => number) =>
+    records.length > 0 ? records.reduce((sum, r) => sum + pick(r), 0) / records.length : 0;
+
+  const winReasons: Record<string, number> = {};
+  for (const record of records) {
+    winReasons[record.reason] = (winReasons[record.reason] ?? 0) + 1;
+  }
+
+  const styles = new Map<string, StyleStats>();
+  for (const seat of records.flatMap((r) => r.seats)) {
+    const key = `${seat.role}:${seat.style}`;
+    const stats = styles.get(key) ?? {
+      role: seat.role,
+      style: seat.style,
+      games: 0,
+      wins: 0,
+      winRate: 0,
+      survivalRate: 0,
+    };
+    stats.games++;
+    if (seat.won) stats.wins++;
+    stats.survivalRate += seat.survived ? 1 : 0;
+    styles.set(key, stats);
+  }
+  for (const stats of styles.values()) {
+    stats.winRate = stats.wins / stats.games;
+    stats.survivalRate = stats.survivalRate / stats.games;
+  }
+
+  const ejections = records.reduce((sum, r) => sum + r.ejections, 0);
+  const impostorsEjected = records.reduce((sum, r) => sum + r.impostorsEjected, 0);
+
+  return {
+    config,
+    games: records.length,
+    crewmateWins: count((r) => r.winner === "crewmates"),
+    impostorWins: count((r) => r.winner === "impostors"),
+    unfinished: count((r) => r.winner === null),
+    winReasons,
+    averageRounds: average((r) => r.rounds),
+    averageKills: average((r) => r.kills),
+    averageMeetings: average((r) => r.meetings),
+    averageEjections: average((r) => r.ejections),
+    ejectionAccuracy: ejections > 0 ? impostorsEjected / ejections : 0, // Share of ejections that hit an impostor
+    styles: [...styles.values()].sort((a, b) => a.role.localeCompare(b.role) || b.winRate - a.winRate),
+  };
+}
+
+async function runTournament() {
+  const config = parseArgs(process.argv.slice(2));
+  const seats = buildSeats(config);
+
+  console.log("===========================================");
+  console.log("   AMONG US ON-CHAIN - HEADLESS TOURNAMENT");
+  console.log("===========================================\n");
+  console.log(`Games: ${config.games}, players: ${config.players}, impostors: ${config.impostors}, seed: ${config.seed}`);
+  console.log(`Crewmate styles: ${config.crewmateStyles.join(", ")}`);
+  console.log(`Impostor styles: ${config.impostorStyles.join(", ")}\n`);
+
+  const startedAt = Date.now();
+  const records: GameRecord[] = [];
+  for (let i = 0; i < config.games; i++) {
+    const game = new HeadlessGame(seats, {
+      seed: `${config.seed}-${i}`,
+      impostorCount: config.impostors,
+      maxRounds: config.maxRounds,
+    });
+    records.push(await game.play());
+  }
+
+  const report = summarize(config, records);
+  const percent = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+  console.log(`Played ${report.games} games in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  console.log(
+    `Crewmates won ${percent(report.crewmateWins / report.games)}, impostors ${percent(report.impostorWins / report.games)}, unfinished ${percent(report.unfinished / report.games)}`
+  );
+  console.log(`Win reasons: ${JSON.stringify(report.winReasons)}`);
+  console.log(
+    `Per game: ${report.averageRounds.toFixed(1)} rounds, ${report.averageKills.toFixed(2)} kills, ${report.averageMeetings.toFixed(2)} meetings, ${report.averageEjections.toFixed(2)} ejections (${percent(report.ejectionAccuracy)} of them impostors)\n`
+  );
+  console.table(
+    report.styles.map((s) => ({
+      role: s.role,
+      style: s.style,
+      games: s.games,
+      wins: s.wins,
+      "win rate": percent(s.winRate),
+      survival: percent(s.survivalRate),
+    }))
+  );
+
+  writeFileSync(config.out, JSON.stringify(report, null, 2));
+  console.log(`\nFull report written to ${config.out}`);
+}
+
+runTournament().catch((error) => {
+  console.error("Tournament failed:", error);
+  process.exit(1);
+});
@@ -1,7 +1,12 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // @amongus/protocol is linked from ../protocol, outside this app
+  transpilePackages: ["@amongus/protocol"],
+  turbopack: {
+    root: path.join(__dirname, ".."),
+  },
 };
 
 export default nextConfig;
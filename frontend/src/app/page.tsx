@@ -416,7 +416,7 @@ function HomeInner({
                               </div>
                               <div className="flex justify-between">
                                 <span className="text-gray-400">Status:</span>
-                                <span className={player.isAlive ? "text-green-400" : "text-red-400"}>{player.isAlive ? "Alive" : "Dead"}</span>
+                                <span className={player.isAlive ? "text-green-400" : "text-red-400"}>{player.isAlive ? "Alive" : "Dead"}{player.disconnected && <span className="text-yellow-400"> (disconnected)</span>}</span>
                               </div>
                               <div className="flex justify-between">
                                 <span className="text-gray-400">Location:</span>
@@ -813,7 +813,7 @@ function LobbyView({
                     <div className="flex items-center justify-between mb-4">
                       <div className="flex flex-col">
                         <span className="text-sm font-black text-white font-mono uppercase tracking-tighter">{room.roomId}</span>
-                        <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest mt-0.5 italic">Awaiting Crew</span>
+                        <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest mt-0.5 italic">{room.countdownEndTime ? "Launching" : "Awaiting Crew"}</span>
                       </div>
                       <div className="flex flex-col items-end">
                         <div className="text-[11px] font-black font-mono text-cyan-400">
@@ -917,17 +917,24 @@ function LobbyView({
                         <div className="text-red-400 font-bold mb-2">Game in Progress</div>
                         <div className="text-sm text-gray-400">Watch the action unfold!</div>
                       </div>
-                    ) : currentRoom.players.length >= MIN_PLAYERS ? (
+                    ) : currentRoom.countdownEndTime ? (
                       <div className="p-4 bg-green-500/20 rounded-xl border border-green-500/30">
                         <div className="text-green-400 font-bold mb-2 animate-pulse">Starting Soon!</div>
                         <div className="text-sm text-gray-400">
-                          Game will auto-start in a few seconds
+                          All agents are ready, game will start in a few seconds
+                        </div>
+                      </div>
+                    ) : currentRoom.players.length >= (currentRoom.minPlayers ?? MIN_PLAYERS) ? (
+                      <div className="p-4 bg-slate-900/50 rounded-xl border border-green-500/30">
+                        <div className="text-green-400 font-bold mb-2">Waiting for agents to ready up</div>
+                        <div className="text-sm text-gray-400">
+                          {currentRoom.readyPlayers.length}/{currentRoom.players.length} ready
                         </div>
                       </div>
                     ) : (
                       <div className="p-4 bg-slate-900/50 rounded-xl flex flex-col items-center">
                         <div className="text-gray-400 mb-4">
-                          Waiting for {MIN_PLAYERS - currentRoom.players.length} more agent{MIN_PLAYERS - currentRoom.players.length !== 1 ? "s" : ""}...
+                          Waiting for {(currentRoom.minPlayers ?? MIN_PLAYERS) - currentRoom.players.length} more agent{(currentRoom.minPlayers ?? MIN_PLAYERS) - currentRoom.players.length !== 1 ? "s" : ""}...
                         </div>
                         
                         {currentRoom.creator?.toLowerCase() === currentAddress?.toLowerCase() && (
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+  ScrollableMap,
+  TaskBar,
+  VotingScreen,
+  DeadBodyReportedScreen,
+  EjectionScreen,
+  AmongUsGameEndScreen,
+  GameLogPanel,
+} from "@/components/game";
+import { GamePhase, PlayerColors, Role } from "@/types/game";
+import { useReplay, REPLAY_SPEEDS } from "@/hooks/useReplay";
+
+export default function ReplayPage() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const replay = useReplay(roomId);
+  const { frame } = replay;
+
+  // Sequence of the last overlay event the viewer clicked away
+  const [dismissed, setDismissed] = useState<number | null>(null);
+  const [spotlightedPlayer, setSpotlightedPlayer] = useState<`0x${string}` | null>(null);
+
+  const lastEvent = frame.lastEvent;
+  const overlay =
+    lastEvent && lastEvent.sequence !== dismissed ? lastEvent.payload.type : null;
+  const dismiss = () => setDismissed(lastEvent?.sequence ?? null);
+
+  const crewmates = frame.players.filter((p) => p.role !== Role.Impostor);
+  const tasksCompleted = crewmates.reduce((sum, p) => sum + p.tasksCompleted, 0);
+  const totalTasks = crewmates.reduce((sum, p) => sum + p.totalTasks, 0);
+
+  const ejectedPlayer = frame.ejected
+    ? frame.players.find((p) => p.address === frame.ejected?.address)
+    : undefined;
+
+  const timeRemaining =
+    frame.phaseEndTime && lastEvent
+      ? Math.max(
+          0,
+          Math.ceil((frame.phaseEndTime - new Date(lastEvent.createdAt).getTime()) / 1000),
+        )
+      : 0;
+
+  if (replay.isLoading || replay.error || replay.eventCount === 0) {
+    return (
+      <div className="fixed inset-0 flex flex-col items-center justify-center gap-4 bg-black text-white">
+        <p className="text-lg">
+          {replay.isLoading
+            ? "Loading replay..."
+            : replay.error || "No recorded events for this game"}
+        </p>
+        <Link href="/" className="text-sm text-cyan-400 hover:underline">
+          Back to menu
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0">
+      <ScrollableMap
+        players={frame.players}
+        deadBodies={frame.deadBodies}
+        spotlightedPlayer={spotlightedPlayer}
+        onSpotlightPlayer={setSpotlightedPlayer}
+      />
+
+      {/* Top bar */}
+      <div className="fixed top-0 left-0 right-0 z-40 p-4 pointer-events-none">
+        <div className="flex items-start justify-between w-full">
+          <div className="pointer-events-auto flex items-center gap-2 bg-slate-900/80 backdrop-blur-sm rounded-lg px-3 py-1.5 border border-slate-700/50">
+            <span className="text-slate-200 text-xs font-medium">
+              Replay · {roomId} · Round {frame.round}
+            </span>
+          </div>
+
+          <div className="pointer-events-auto absolute left-1/2 -translate-x-1/2">
+            <TaskBar completed={tasksCompleted} total={totalTasks} />
+          </div>
+
+          <div className="pointer-events-auto hidden sm:block bg-black/80 backdrop-blur-sm rounded-lg border border-gray-700">
+            <GameLogPanel logs={frame.logs} maxHeight="180px" />
+          </div>
+        </div>
+      </div>
+
+      {(frame.phase === GamePhase.Discussion || frame.phase === GamePhase.Voting) && (
+        <VotingScreen
+          players={frame.players}
+          onVote={() => {}} // Replays are read-only
+          hasVoted={true}
+          votingResults={frame.votes}
+          timeRemaining={timeRemaining}
+          isDiscussion={frame.phase === GamePhase.Discussion}
+        />
+      )}
+
+      {/* Event screens */}
+      <DeadBodyReportedScreen
+        isVisible={
+          overlay === "server:body_reported" || overlay === "server:meeting_called"
+        }
+        onDismiss={dismiss}
+      />
+
+      <EjectionScreen
+        isVisible={overlay === "server:player_ejected"}
+        ejectedColorId={ejectedPlayer?.colorId || 0}
+        ejectedName={ejectedPlayer ? PlayerColors[ejectedPlayer.colorId]?.name || "Unknown" : "Unknown"}
+        wasImpostor={frame.ejected?.wasImpostor ?? ejectedPlayer?.role === Role.Impostor}
+        impostorsRemaining={frame.players.filter(p => p.role === Role.Impostor && p.isAlive).length}
+        onDismiss={dismiss}
+      />
+
+      <AmongUsGameEndScreen
+        isVisible={overlay === "server:game_ended"}
+        crewmatesWon={frame.crewmatesWon ?? false}
+        playerColorId={0}
+        wasImpostor={false}
+        onContinue={dismiss}
+      />
+
+      {/* Playback controls - above the event screens */}
+      <div className="fixed bottom-0 left-0 right-0 z-[60] p-3">
+        <div className="mx-auto max-w-5xl bg-black/85 backdrop-blur-sm rounded-lg border border-gray-700 p-3 space-y-2">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={replay.isPlaying ? replay.pause : replay.play}
+              className="w-20 rounded bg-cyan-600 hover:bg-cyan-500 px-3 py-1 text-sm font-bold text-white"
+            >
+              {replay.isPlaying ? "Pause" : "Play"}
+            </button>
+
+            <input
+              type="range"
+              min={-1}
+              max={replay.eventCount - 1}
+              value={replay.index}
+              onChange={(e) => replay.seek(Number(e.target.value))}
+              className="flex-1 accent-cyan-500"
+            />
+
+            <span className="w-20 text-right text-xs font-mono text-gray-400">
+              {replay.index + 1}/{replay.eventCount}
+            </span>
+
+            <div className="flex gap-1">
+              {REPLAY_SPEEDS.map((speed) => (
+                <button
+                  key={speed}
+                  onClick={() => replay.setSpeed(speed)}
+                  className={`rounded px-2 py-1 text-xs font-mono ${
+                    replay.speed === speed
+                      ? "bg-cyan-600 text-white"
+                      : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                  }`}
+                >
+                  {speed}x
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="mr-1 text-xs text-gray-400">Rounds</span>
+            {replay.rounds.map((round) => (
+              <button
+                key={round}
+                onClick={() => replay.seekToRound(round)}
+                className={`rounded px-2 py-0.5 text-xs ${
+                  frame.round === round
+                    ? "bg-cyan-600 text-white"
+                    : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                {round}
+              </button>
+            ))}
+          </div>
+
+          {replay.bookmarks.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="mr-1 text-xs text-gray-400">Jump to</span>
+              {replay.bookmarks.map((bookmark) => (
+                <button
+                  key={bookmark.index}
+                  onClick={() => replay.seek(bookmark.index)}
+                  title={`Round ${bookmark.round}`}
+                  className={`rounded px-2 py-0.5 text-xs ${
+                    bookmark.kind === "kill"
+                      ? "bg-red-900/80 text-red-200 hover:bg-red-800"
+                      : "bg-yellow-900/80 text-yellow-200 hover:bg-yellow-800"
+                  }`}
+                >
+                  {bookmark.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
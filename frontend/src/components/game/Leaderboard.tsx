@@ -2,22 +2,16 @@
 
 import { motion } from "framer-motion";
 import { Trophy, TrendingUp, Target, Gamepad2 } from "lucide-react";
-
-interface AgentStats {
-  address: `0x${string}`;
-  name: string;
-  rating: number;
-  wins: number;
-  losses: number;
-  gamesPlayed: number;
-  winRate: number;
-}
+import type { AgentStats } from "@/lib/api";
 
 interface LeaderboardProps {
   agents: AgentStats[];
-  currentAgent?: `0x${string}`;
+  currentAgent?: string;
 }
 
+const winRate = (agent: AgentStats) =>
+  agent.gamesPlayed > 0 ? (agent.wins / agent.gamesPlayed) * 100 : 0;
+
 export function Leaderboard({ agents, currentAgent }: LeaderboardProps) {
   const sortedAgents = [...agents].sort((a, b) => b.rating - a.rating);
 
@@ -67,7 +61,7 @@ export function Leaderboard({ agents, currentAgent }: LeaderboardProps) {
           <h2 className="text-xl font-bold text-white">Agent Leaderboard</h2>
         </div>
         <p className="text-slate-400 text-sm mt-1">
-          Top performing AI agents ranked by ELO rating
+          Top performing AI agents ranked by team Elo rating
         </p>
       </div>
 
@@ -88,7 +82,8 @@ export function Leaderboard({ agents, currentAgent }: LeaderboardProps) {
           </div>
         ) : (
           sortedAgents.map((agent, index) => {
-            const isCurrentAgent = agent.address === currentAgent;
+            const isCurrentAgent =
+              agent.address.toLowerCase() === currentAgent?.toLowerCase();
 
             return (
               <motion.div
@@ -120,8 +115,15 @@ export function Leaderboard({ agents, currentAgent }: LeaderboardProps) {
                 {/* Rating */}
                 <div className="col-span-2 text-right">
                   <span className={`font-bold ${getRatingColor(agent.rating)}`}>
-                    {agent.rating}
+                    {Math.round(agent.rating)}
                   </span>
+                  <div
+                    className="text-[10px] text-slate-500"
+                    title="Crewmate / impostor rating"
+                  >
+                    {Math.round(agent.crewmateRating)} /{" "}
+                    {Math.round(agent.impostorRating)}
+                  </div>
                 </div>
 
                 {/* W/L */}
@@ -135,10 +137,10 @@ export function Leaderboard({ agents, currentAgent }: LeaderboardProps) {
                 <div className="col-span-2 text-right">
                   <span
                     className={
-                      agent.winRate >= 50 ? "text-green-400" : "text-red-400"
+                      winRate(agent) >= 50 ? "text-green-400" : "text-red-400"
                     }
                   >
-                    {agent.winRate.toFixed(1)}%
+                    {winRate(agent).toFixed(1)}%
                   </span>
                 </div>
               </motion.div>
@@ -160,7 +162,7 @@ export function Leaderboard({ agents, currentAgent }: LeaderboardProps) {
           <div className="text-center">
             <TrendingUp className="w-5 h-5 text-green-400 mx-auto mb-1" />
             <div className="text-lg font-bold text-white">
-              {Math.max(...sortedAgents.map((a) => a.rating))}
+              {Math.round(Math.max(...sortedAgents.map((a) => a.rating)))}
             </div>
             <div className="text-xs text-slate-500">Top Rating</div>
           </div>
@@ -168,7 +170,7 @@ export function Leaderboard({ agents, currentAgent }: LeaderboardProps) {
             <Target className="w-5 h-5 text-purple-400 mx-auto mb-1" />
             <div className="text-lg font-bold text-white">
               {(
-                sortedAgents.reduce((acc, a) => acc + a.winRate, 0) /
+                sortedAgents.reduce((acc, a) => acc + winRate(a), 0) /
                 sortedAgents.length
               ).toFixed(1)}
               %
@@ -184,48 +186,78 @@ export function Leaderboard({ agents, currentAgent }: LeaderboardProps) {
 // Mock data for demo
 export const mockAgentStats: AgentStats[] = [
   {
-    address: "0x1111111111111111111111111111111111111111" as `0x${string}`,
+    address: "0x1111111111111111111111111111111111111111",
     name: "Detective Alpha",
-    rating: 1342,
+    gamesPlayed: 25,
     wins: 18,
     losses: 7,
-    gamesPlayed: 25,
-    winRate: 72.0,
+    kills: 2,
+    tasksCompleted: 96,
+    timesImpostor: 6,
+    timesCrewmate: 19,
+    rating: 1342,
+    crewmateRating: 1368,
+    impostorRating: 1290,
+    lastSeen: 0,
   },
   {
-    address: "0x2222222222222222222222222222222222222222" as `0x${string}`,
+    address: "0x2222222222222222222222222222222222222222",
     name: "Stealth Shadow",
-    rating: 1289,
+    gamesPlayed: 24,
     wins: 15,
     losses: 9,
-    gamesPlayed: 24,
-    winRate: 62.5,
+    kills: 11,
+    tasksCompleted: 61,
+    timesImpostor: 8,
+    timesCrewmate: 16,
+    rating: 1289,
+    crewmateRating: 1221,
+    impostorRating: 1402,
+    lastSeen: 0,
   },
   {
-    address: "0x3333333333333333333333333333333333333333" as `0x${string}`,
+    address: "0x3333333333333333333333333333333333333333",
     name: "Task Master",
-    rating: 1156,
+    gamesPlayed: 22,
     wins: 12,
     losses: 10,
-    gamesPlayed: 22,
-    winRate: 54.5,
+    kills: 3,
+    tasksCompleted: 120,
+    timesImpostor: 5,
+    timesCrewmate: 17,
+    rating: 1256,
+    crewmateRating: 1281,
+    impostorRating: 1163,
+    lastSeen: 0,
   },
   {
-    address: "0x4444444444444444444444444444444444444444" as `0x${string}`,
+    address: "0x4444444444444444444444444444444444444444",
     name: "Social Deceiver",
-    rating: 1098,
+    gamesPlayed: 22,
     wins: 10,
     losses: 12,
-    gamesPlayed: 22,
-    winRate: 45.5,
+    kills: 7,
+    tasksCompleted: 54,
+    timesImpostor: 9,
+    timesCrewmate: 13,
+    rating: 1198,
+    crewmateRating: 1140,
+    impostorRating: 1311,
+    lastSeen: 0,
   },
   {
-    address: "0x5555555555555555555555555555555555555555" as `0x${string}`,
+    address: "0x5555555555555555555555555555555555555555",
     name: "Random Walker",
-    rating: 945,
+    gamesPlayed: 20,
     wins: 6,
     losses: 14,
-    gamesPlayed: 20,
-    winRate: 30.0,
+    kills: 1,
+    tasksCompleted: 70,
+    timesImpostor: 4,
+    timesCrewmate: 16,
+    rating: 1045,
+    crewmateRating: 1062,
+    impostorRating: 998,
+    lastSeen: 0,
   },
 ];
@@ -0,0 +1,207 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Trophy, Swords, Skull, CheckCircle2 } from "lucide-react";
+import type {
+  Tournament,
+  TournamentFormat,
+  TournamentGame,
+  TournamentStanding,
+} from "@/lib/api";
+
+interface TournamentStandingsProps {
+  tournament: Tournament;
+  currentAgent?: string;
+}
+
+const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  best_of: "Best-of series",
+  round_robin: "Round robin",
+  swiss: "Swiss",
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function TournamentStandings({
+  tournament,
+  currentAgent,
+}: TournamentStandingsProps) {
+  const names = new Map(
+    tournament.standings.map((s) => [s.address, s.name] as const),
+  );
+  const nameOf = (address: string) =>
+    names.get(address) || shortAddress(address);
+
+  const rounds = Array.from(
+    { length: tournament.currentRound },
+    (_, i) => i + 1,
+  ).reverse();
+
+  const getRankBadge = (index: number) => {
+    if (index === 0 && tournament.status === "completed")
+      return (
+        <div className="w-8 h-8 rounded-full bg-yellow-500 flex items-center justify-center">
+          <Trophy className="w-4 h-4 text-yellow-900" />
+        </div>
+      );
+    return (
+      <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center">
+        <span className="text-slate-300 font-bold text-sm">{index + 1}</span>
+      </div>
+    );
+  };
+
+  const getGameResult = (game: TournamentGame) => {
+    switch (game.status) {
+      case "completed":
+        return game.crewmatesWon ? (
+          <span className="flex items-center gap-1 text-cyan-400">
+            <CheckCircle2 className="w-3 h-3" /> Crew win
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-red-400">
+            <Skull className="w-3 h-3" /> Impostor win
+          </span>
+        );
+      case "playing":
+        return <span className="text-green-400 animate-pulse">Live</span>;
+      case "cancelled":
+        return <span className="text-slate-500">Cancelled</span>;
+      default:
+        return <span className="text-slate-400">Waiting for agents</span>;
+    }
+  };
+
+  const renderStanding = (standing: TournamentStanding, index: number) => {
+    const isCurrentAgent =
+      standing.address.toLowerCase() === currentAgent?.toLowerCase();
+
+    return (
+      <motion.div
+        key={standing.address}
+        className={`
+          grid grid-cols-12 gap-2 px-4 py-3 items-center
+          ${isCurrentAgent ? "bg-blue-900/20" : "hover:bg-slate-700/30"}
+        `}
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: index * 0.05 }}
+      >
+        <div className="col-span-1">{getRankBadge(index)}</div>
+
+        <div className="col-span-5">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-white">{standing.name}</span>
+            {isCurrentAgent && (
+              <span className="text-[10px] text-blue-400 font-bold">(YOU)</span>
+            )}
+          </div>
+          <div className="text-xs text-slate-500 truncate">
+            {shortAddress(standing.address)}
+          </div>
+        </div>
+
+        <div className="col-span-2 text-right font-bold text-yellow-400">
+          {standing.points}
+        </div>
+
+        <div className="col-span-2 text-right">
+          <span className="text-green-400">{standing.wins}</span>
+          <span className="text-slate-500">/</span>
+          <span className="text-slate-300">{standing.gamesPlayed}</span>
+        </div>
+
+        <div
+          className="col-span-2 text-right text-red-400"
+          title="Impostor wins / impostor games"
+        >
+          {standing.impostorWins}/{standing.impostorGames}
+        </div>
+      </motion.div>
+    );
+  };
+
+  return (
+    <motion.div
+      className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-600/20 to-cyan-600/20 border-b border-slate-700 p-4">
+        <div className="flex items-center gap-3">
+          <Swords className="w-6 h-6 text-purple-400" />
+          <h2 className="text-xl font-bold text-white">{tournament.name}</h2>
+        </div>
+        <p className="text-slate-400 text-sm mt-1">
+          {FORMAT_LABELS[tournament.format]} · Round{" "}
+          {tournament.currentRound}/{tournament.totalRounds} ·{" "}
+          {tournament.status === "active"
+            ? "In progress"
+            : tournament.status === "completed"
+              ? "Finished"
+              : "Cancelled"}
+        </p>
+      </div>
+
+      {/* Standings header */}
+      <div className="grid grid-cols-12 gap-2 px-4 py-2 bg-slate-700/30 text-xs text-slate-400 font-bold uppercase tracking-wider">
+        <div className="col-span-1">#</div>
+        <div className="col-span-5">Agent</div>
+        <div className="col-span-2 text-right">Pts</div>
+        <div className="col-span-2 text-right">W/GP</div>
+        <div className="col-span-2 text-right">Imp W</div>
+      </div>
+
+      {/* Standings */}
+      <div className="divide-y divide-slate-700/50">
+        {tournament.standings.map(renderStanding)}
+      </div>
+
+      {/* Bracket: every table of every round, latest first */}
+      {rounds.length > 0 && (
+        <div className="border-t border-slate-700 p-4 space-y-4">
+          {rounds.map((round) => (
+            <div key={round}>
+              <h3 className="text-xs text-slate-400 font-bold uppercase tracking-wider mb-2">
+                Round {round}
+              </h3>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {tournament.games
+                  .filter((game) => game.round === round)
+                  .map((game) => (
+                    <div
+                      key={`${game.round}-${game.table}`}
+                      className="rounded-lg border border-slate-700 bg-slate-900/50 p-3"
+                    >
+                      <div className="flex items-center justify-between text-xs mb-2">
+                        <span className="text-slate-500">
+                          Table {game.table + 1}
+                        </span>
+                        {getGameResult(game)}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {game.players.map((address) => (
+                          <span
+                            key={address}
+                            className={`text-xs px-2 py-0.5 rounded ${
+                              game.winners.includes(address)
+                                ? "bg-green-900/40 text-green-300"
+                                : "bg-slate-700/50 text-slate-300"
+                            }`}
+                          >
+                            {nameOf(address)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
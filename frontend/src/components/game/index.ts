@@ -8,6 +8,7 @@ export { PlayerList } from "./PlayerList";
 export { GameLobby } from "./GameLobby";
 export { GameEndScreen } from "./GameEndScreen";
 export { Leaderboard, mockAgentStats } from "./Leaderboard";
+export { TournamentStandings } from "./TournamentStandings";
 
 // New Among Us style components
 export { AmongUsSprite, DeadBodySprite } from "./AmongUsSprite";
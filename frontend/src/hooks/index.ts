@@ -8,3 +8,5 @@ export { useGameSounds, SOUNDS } from './useGameSounds';
 export type { GameSounds } from './useGameSounds';
 export { useBackgroundMusic, MUSIC_TRACKS } from './useBackgroundMusic';
 export type { BackgroundMusic, MusicPhase } from './useBackgroundMusic';
+export { useReplay, REPLAY_SPEEDS } from './useReplay';
+export type { UseReplayReturn } from './useReplay';
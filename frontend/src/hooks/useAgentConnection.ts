@@ -14,7 +14,7 @@ import { GamePhase, SabotageType, Role, Location } from '@/types/game';
 export interface UseAgentConnectionOptions {
   url?: string;
   autoConnect?: boolean;
-  signatureProvider?: () => Promise<string>;
+  signatureProvider?: (message: string) => Promise<string>;
   onEvent?: (event: ServerEvent) => void;
 }
 
@@ -25,7 +25,7 @@ export interface UseAgentConnectionReturn {
   error: string | null;
 
   // Connection actions
-  connect: (signatureProvider?: () => Promise<string>) => Promise<void>;
+  connect: (signatureProvider?: (message: string) => Promise<string>) => Promise<void>;
   disconnect: () => void;
 
   // Game state
@@ -204,7 +204,7 @@ export function useAgentConnection(
 
   // Connection methods
   const connect = useCallback(
-    async (provider?: () => Promise<string>) => {
+    async (provider?: (message: string) => Promise<string>) => {
       const sig = provider || signatureProvider;
       if (!sig) {
         throw new Error('No signature provider');
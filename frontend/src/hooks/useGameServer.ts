@@ -9,77 +9,18 @@ import {
   GameLog,
   GamePhase,
 } from "@/types/game";
+import type {
+  AgentStats,
+  ClientMessage,
+  RoomState,
+  ServerMessage,
+  ServerStats,
+} from "@amongus/protocol";
 
 const WS_URL = process.env.NEXT_PUBLIC_WS_URL || "ws://localhost:8080";
 
-export interface RoomState {
-  roomId: string;
-  players: Array<{
-    address: string;
-    colorId: number;
-    location: number;
-    isAlive: boolean;
-    tasksCompleted: number;
-    totalTasks: number;
-    hasVoted: boolean;
-  }>;
-  spectators: string[];
-  maxPlayers: number;
-  impostorCount: number;
-  phase: "lobby" | "playing" | "ended";
-  createdAt: number;
-  creator?: string;
-  wagerAmount?: string;
-}
-
-interface ServerMessage {
-  type: string;
-  [key: string]: any;
-}
-
-interface RoomSlotInfo {
-  id: number;
-  state: "active" | "cooldown" | "empty";
-  roomId: string | null;
-  cooldownEndTime: number | null;
-  cooldownRemaining: number | null;
-}
-
-interface AgentStats {
-  address: string;
-  name: string;
-  gamesPlayed: number;
-  wins: number;
-  losses: number;
-  kills: number;
-  tasksCompleted: number;
-  timesImpostor: number;
-  timesCrewmate: number;
-  lastSeen: number;
-}
-
-interface ServerStats {
-  connections: {
-    total: number;
-    agents: number;
-    spectators: number;
-  };
-  rooms: {
-    total: number;
-    maxRooms?: number;
-    lobby: number;
-    playing: number;
-    totalPlayers: number;
-  };
-  limits: {
-    maxRooms?: number;
-    maxPlayersPerRoom: number;
-    minPlayersToStart: number;
-    fillWaitDuration?: number;
-    cooldownDuration?: number;
-  };
-  slots?: RoomSlotInfo[];
-}
+// Wire types are shared with the server through the protocol package
+export type { RoomState };
 
 export interface UseGameServerReturn {
   // Connection
@@ -150,7 +91,7 @@ export function useGameServer(): UseGameServerReturn {
     [],
   );
 
-  const send = useCallback((message: object) => {
+  const send = useCallback((message: ClientMessage) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify(message));
     }
@@ -226,6 +167,26 @@ export function useGameServer(): UseGameServerReturn {
             });
             break;
 
+          case "server:player_disconnected":
+          case "server:player_reconnected": {
+            const disconnected = message.type === "server:player_disconnected";
+            addLog(
+              "join",
+              disconnected ? "Player disconnected" : "Player reconnected",
+              message.gameId,
+            );
+            setCurrentRoom((prev) => {
+              if (!prev || prev.roomId !== message.gameId) return prev;
+              return {
+                ...prev,
+                players: prev.players.map((p) =>
+                  p.address === message.address ? { ...p, disconnected } : p,
+                ),
+              };
+            });
+            break;
+          }
+
           case "server:game_state":
             // Full game state snapshot (sent when joining or game starts)
             if (message.state && message.state.players) {
@@ -234,7 +195,7 @@ export function useGameServer(): UseGameServerReturn {
                 return {
                   ...prev,
                   phase: message.state.phase === 2 ? "playing" : prev.phase,
-                  players: message.state.players.map((p: any) => ({
+                  players: message.state.players.map((p) => ({
                     address: p.address,
                     colorId: p.colorId,
                     location: p.location,
@@ -242,6 +203,7 @@ export function useGameServer(): UseGameServerReturn {
                     tasksCompleted: p.tasksCompleted || 0,
                     totalTasks: p.totalTasks || 5,
                     hasVoted: p.hasVoted || false,
+                    disconnected: p.disconnected || false,
                   })),
                 };
               });
@@ -342,7 +304,9 @@ export function useGameServer(): UseGameServerReturn {
           case "server:player_ejected":
             addLog(
               "vote",
-              `${message.ejected} was ejected. ${message.wasImpostor ? "They were an Impostor!" : "They were a Crewmate."}`,
+              message.wasImpostor === undefined
+                ? `${message.ejected} was ejected.`
+                : `${message.ejected} was ejected. ${message.wasImpostor ? "They were an Impostor!" : "They were a Crewmate."}`,
               message.gameId,
             );
             // Mark player as dead
@@ -461,6 +425,7 @@ export function useGameServer(): UseGameServerReturn {
       tasksCompleted: p.tasksCompleted,
       totalTasks: p.totalTasks,
       hasVoted: p.hasVoted,
+      disconnected: p.disconnected,
     })) || [];
 
   const phase: GamePhase =
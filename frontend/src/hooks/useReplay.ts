@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { api, type GameEvent } from "@/lib/api";
+import {
+  buildReplayTimeline,
+  emptyReplayFrame,
+  type ReplayBookmark,
+  type ReplayFrame,
+} from "@/lib/replay";
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+export interface UseReplayReturn {
+  isLoading: boolean;
+  error: string | null;
+
+  // Playback position
+  frame: ReplayFrame;
+  index: number; // Index of the last applied event (-1 = before the first)
+  eventCount: number;
+  rounds: number[];
+  bookmarks: ReplayBookmark[];
+
+  // Controls
+  isPlaying: boolean;
+  speed: number;
+  play: () => void;
+  pause: () => void;
+  setSpeed: (speed: number) => void;
+  seek: (index: number) => void;
+  seekToRound: (round: number) => void;
+}
+
+export function useReplay(roomId: string): UseReplayReturn {
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(-1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Fetch every page of the event log
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const all: GameEvent[] = [];
+        let after = -1;
+        for (;;) {
+          const page = await api.getGameEvents(roomId, after);
+          all.push(...page.events);
+          if (page.nextAfter === null) break;
+          after = page.nextAfter;
+        }
+        if (!cancelled) {
+          setEvents(all);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load replay");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  const timeline = useMemo(() => buildReplayTimeline(events), [events]);
+  const lastIndex = timeline.events.length - 1;
+
+  // Advance one event at a time, waiting the (capped) recorded gap
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (index >= lastIndex) {
+      const timer = setTimeout(() => setIsPlaying(false), 0);
+      return () => clearTimeout(timer);
+    }
+
+    const gap =
+      index < 0 ? 0 : timeline.times[index + 1] - timeline.times[index];
+    const timer = setTimeout(() => setIndex(index + 1), gap / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, lastIndex, speed, timeline]);
+
+  const seek = useCallback(
+    (target: number) => {
+      setIndex(Math.max(-1, Math.min(target, lastIndex)));
+    },
+    [lastIndex],
+  );
+
+  const seekToRound = useCallback(
+    (round: number) => {
+      const start = timeline.roundStarts.get(round);
+      if (start !== undefined) setIndex(start);
+    },
+    [timeline],
+  );
+
+  const play = useCallback(() => {
+    // Restart from the beginning once the end has been reached
+    if (index >= lastIndex) setIndex(-1);
+    setIsPlaying(true);
+  }, [index, lastIndex]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  return {
+    isLoading,
+    error,
+    frame: index >= 0 ? timeline.frames[index] : emptyReplayFrame(),
+    index,
+    eventCount: timeline.events.length,
+    rounds: Array.from(timeline.roundStarts.keys()).sort((a, b) => a - b),
+    bookmarks: timeline.bookmarks,
+    isPlaying,
+    speed,
+    play,
+    pause,
+    setSpeed,
+    seek,
+    seekToRound,
+  };
+}
@@ -101,7 +101,7 @@ interface ServerVoteCastMessage {
   type: "server:vote_cast";
   gameId: string;
   voter: string;
-  target: string | null;
+  target?: string | null; // Omitted in rooms with anonymous votes
   round: number;
   timestamp: number;
 }
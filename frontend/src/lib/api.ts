@@ -1,3 +1,5 @@
+import type { ServerMessage } from "@amongus/protocol";
+
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
 
 // Types
@@ -14,6 +16,10 @@ export interface RoomInfo {
   createdAt: number;
   creator?: string;
   wagerAmount?: string;
+  minPlayers: number;
+  readyPlayers: string[];
+  countdownEndTime: number | null;
+  seedHash: string;
 }
 
 export interface RoomSlotInfo {
@@ -57,9 +63,91 @@ export interface AgentStats {
   tasksCompleted: number;
   timesImpostor: number;
   timesCrewmate: number;
+  rating: number;
+  crewmateRating: number;
+  impostorRating: number;
   lastSeen: number;
 }
 
+export type LeaderboardSort = "wins" | "rating";
+
+// Rating movement from one finished game
+export interface RatingHistoryEntry {
+  roomId: string;
+  role: "crewmate" | "impostor";
+  won: boolean;
+  rating: number;
+  ratingDelta: number;
+  roleRating: number; // Crewmate or impostor rating, per role
+  roleRatingDelta: number;
+  createdAt: string;
+}
+
+export type TournamentFormat = "best_of" | "round_robin" | "swiss";
+export type TournamentStatus = "active" | "completed" | "cancelled";
+
+// One table in one round of a tournament
+export interface TournamentGame {
+  round: number;
+  table: number;
+  roomId: string | null;
+  players: string[];
+  status: "pending" | "playing" | "completed" | "cancelled";
+  crewmatesWon: boolean | null;
+  winners: string[];
+}
+
+export interface TournamentStanding {
+  address: string;
+  name: string;
+  points: number;
+  gamesPlayed: number;
+  wins: number;
+  impostorGames: number;
+  impostorWins: number;
+  survived: number;
+  tasksCompleted: number;
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  totalRounds: number;
+  currentRound: number;
+  tableSize: number;
+  impostorCount: number;
+  wagerAmount?: string;
+  creator?: string;
+  createdAt: number;
+  endedAt: number | null;
+  games: TournamentGame[];
+  standings: TournamentStanding[]; // Ranked, leader first
+}
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  totalRounds: number;
+  currentRound: number;
+  entrants: number;
+  leader: TournamentStanding | null;
+  createdAt: number;
+  endedAt: number | null;
+}
+
+// One recorded server message from a game's event log
+export interface GameEvent {
+  sequence: number;
+  type: string;
+  payload: ServerMessage;
+  audience: string[]; // Empty = sent to the whole room
+  createdAt: string;
+}
+
 export interface AgentWallet {
   address: string;
   userId: string;
@@ -85,19 +173,56 @@ export const api = {
   // Get leaderboard
   async getLeaderboard(
     limit = 10,
-  ): Promise<{ agents: AgentStats[]; timestamp: number }> {
-    const res = await fetch(`${API_URL}/api/leaderboard?limit=${limit}`);
+    sort: LeaderboardSort = "wins",
+  ): Promise<{ agents: AgentStats[]; sort: LeaderboardSort; timestamp: number }> {
+    const res = await fetch(
+      `${API_URL}/api/leaderboard?limit=${limit}&sort=${sort}`,
+    );
     if (!res.ok) throw new Error("Failed to fetch leaderboard");
     return res.json();
   },
 
   // Get agent stats
-  async getAgentStats(address: string): Promise<AgentStats> {
+  async getAgentStats(
+    address: string,
+  ): Promise<AgentStats & { ratingHistory: RatingHistoryEntry[] }> {
     const res = await fetch(`${API_URL}/api/agents/${address}/stats`);
     if (!res.ok) throw new Error("Agent not found");
     return res.json();
   },
 
+  // Get one page of a game's recorded events
+  async getGameEvents(
+    roomId: string,
+    after = -1,
+    limit = 500,
+  ): Promise<{ roomId: string; events: GameEvent[]; nextAfter: number | null }> {
+    const res = await fetch(
+      `${API_URL}/api/games/${roomId}/events?after=${after}&limit=${limit}`,
+    );
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || "Failed to fetch game events");
+    }
+    return res.json();
+  },
+
+  // List recent tournaments, newest first
+  async getTournaments(
+    limit = 20,
+  ): Promise<{ tournaments: TournamentSummary[]; timestamp: number }> {
+    const res = await fetch(`${API_URL}/api/tournaments?limit=${limit}`);
+    if (!res.ok) throw new Error("Failed to fetch tournaments");
+    return res.json();
+  },
+
+  // Get a tournament's games and standings
+  async getTournament(id: string): Promise<Tournament> {
+    const res = await fetch(`${API_URL}/api/tournaments/${id}`);
+    if (!res.ok) throw new Error("Tournament not found");
+    return res.json();
+  },
+
   // Get agent wager balance
   async getWagerBalance(address: string): Promise<{
     address: string;
@@ -0,0 +1,311 @@
+import {
+  Player,
+  DeadBody,
+  GameLog,
+  GamePhase,
+  Location,
+  LocationNames,
+  Role,
+  PlayerColors,
+} from "@/types/game";
+import type { PlayerState } from "@amongus/protocol";
+import type { GameEvent } from "@/lib/api";
+
+// Longest real-time pause between two events at 1x, so idle phase timers
+// don't stall playback
+const MAX_EVENT_GAP_MS = 3000;
+
+export interface ReplayFrame {
+  players: Player[];
+  deadBodies: DeadBody[];
+  logs: GameLog[];
+  phase: GamePhase;
+  round: number;
+  phaseEndTime: number | null; // Recorded deadline of the current phase
+  votes: Map<`0x${string}`, `0x${string}`[]>; // target -> voters
+  ejected: { address: `0x${string}`; wasImpostor?: boolean } | null;
+  crewmatesWon: boolean | null;
+  lastEvent: GameEvent | null;
+}
+
+export interface ReplayBookmark {
+  index: number; // Event index to seek to
+  kind: "kill" | "meeting";
+  round: number;
+  label: string;
+}
+
+export interface ReplayTimeline {
+  events: GameEvent[];
+  frames: ReplayFrame[]; // frames[i] = state after events[i]
+  times: number[]; // ms since the first event
+  bookmarks: ReplayBookmark[];
+  roundStarts: Map<number, number>; // round -> index of its first event
+}
+
+const EMPTY_FRAME: ReplayFrame = {
+  players: [],
+  deadBodies: [],
+  logs: [],
+  phase: GamePhase.Lobby,
+  round: 0,
+  phaseEndTime: null,
+  votes: new Map(),
+  ejected: null,
+  crewmatesWon: null,
+  lastEvent: null,
+};
+
+function playerName(players: Player[], address: string): string {
+  const player = players.find(
+    (p) => p.address.toLowerCase() === address?.toLowerCase(),
+  );
+  return player ? PlayerColors[player.colorId]?.name || "Unknown" : "Unknown";
+}
+
+function updatePlayer(
+  players: Player[],
+  address: string,
+  update: Partial<Player>,
+): Player[] {
+  return players.map((p) =>
+    p.address.toLowerCase() === address?.toLowerCase() ? { ...p, ...update } : p,
+  );
+}
+
+function toPlayer(p: PlayerState, previous?: Player): Player {
+  return {
+    address: p.address as `0x${string}`,
+    colorId: p.colorId,
+    role: previous?.role ?? Role.None,
+    location: p.location as Location,
+    isAlive: p.isAlive,
+    tasksCompleted: p.tasksCompleted || 0,
+    totalTasks: p.totalTasks || 0,
+    hasVoted: p.hasVoted || false,
+  };
+}
+
+/**
+ * Fold one recorded event into the replay state. Replays see private events
+ * too, so roles and unwitnessed kills are shown.
+ */
+export function applyReplayEvent(
+  frame: ReplayFrame,
+  event: GameEvent,
+): ReplayFrame {
+  const m = event.payload;
+  const timestamp = new Date(event.createdAt).getTime();
+  const next: ReplayFrame = { ...frame, lastEvent: event };
+  const log = (type: GameLog["type"], message: string) => {
+    next.logs = [
+      ...next.logs.slice(-49),
+      { type, message, timestamp, round: BigInt(next.round) },
+    ];
+  };
+
+  switch (m.type) {
+    case "server:room_update":
+      next.players = m.room.players.map((p) =>
+        toPlayer(
+          p,
+          frame.players.find((prev) => prev.address === p.address),
+        ),
+      );
+      break;
+
+    case "server:player_joined":
+      if (!frame.players.some((p) => p.address === m.player.address)) {
+        next.players = [...frame.players, toPlayer(m.player)];
+        log("join", `${PlayerColors[m.player.colorId]?.name} joined`);
+      }
+      break;
+
+    case "server:player_left":
+      next.players = frame.players.filter((p) => p.address !== m.address);
+      log("join", `${playerName(frame.players, m.address)} left`);
+      break;
+
+    case "server:role_assigned":
+      if (event.audience[0]) {
+        next.players = updatePlayer(frame.players, event.audience[0], {
+          role: m.role as Role,
+        });
+      }
+      break;
+
+    case "server:phase_changed":
+      next.phase = m.phase as GamePhase;
+      next.round = m.round;
+      next.phaseEndTime = m.phaseEndTime ?? null;
+      if (m.phase === GamePhase.ActionCommit && frame.phase >= GamePhase.Discussion) {
+        // Bodies are cleared once the meeting is over
+        next.deadBodies = frame.deadBodies.filter((b) => !b.reported);
+        next.ejected = null;
+      }
+      if (m.phase === GamePhase.Voting) {
+        next.votes = new Map();
+        next.players = frame.players.map((p) => ({ ...p, hasVoted: false }));
+      }
+      if (m.phase === GamePhase.ActionCommit && m.round === 1) {
+        log("start", "Game started");
+      }
+      break;
+
+    case "server:player_moved":
+      next.players = updatePlayer(frame.players, m.address, {
+        location: m.to as Location,
+      });
+      break;
+
+    case "server:kill_occurred":
+      next.players = updatePlayer(frame.players, m.victim, { isAlive: false });
+      next.deadBodies = [
+        ...frame.deadBodies,
+        {
+          victim: m.victim as `0x${string}`,
+          location: m.location as Location,
+          round: BigInt(m.round),
+          reported: false,
+        },
+      ];
+      log(
+        "kill",
+        `${playerName(frame.players, m.killer)} killed ${playerName(frame.players, m.victim)} in ${LocationNames[m.location as Location]}`,
+      );
+      break;
+
+    case "server:body_reported":
+      next.deadBodies = frame.deadBodies.map((b) =>
+        b.victim === m.victim ? { ...b, reported: true } : b,
+      );
+      log(
+        "report",
+        `${playerName(frame.players, m.reporter)} reported ${playerName(frame.players, m.victim)}'s body`,
+      );
+      break;
+
+    case "server:meeting_called":
+      log(
+        "meeting",
+        `${playerName(frame.players, m.caller)} called an emergency meeting`,
+      );
+      break;
+
+    case "server:vote_cast": {
+      next.players = updatePlayer(frame.players, m.voter, { hasVoted: true });
+      if (m.target) {
+        next.votes = new Map(frame.votes);
+        const voted = m.target as `0x${string}`;
+        next.votes.set(voted, [
+          ...(frame.votes.get(voted) || []),
+          m.voter as `0x${string}`,
+        ]);
+      }
+      const target =
+        m.target === undefined
+          ? ""
+          : m.target
+            ? ` for ${playerName(frame.players, m.target)}`
+            : " to skip";
+      log("vote", `${playerName(frame.players, m.voter)} voted${target}`);
+      break;
+    }
+
+    case "server:player_ejected":
+      next.players = updatePlayer(frame.players, m.ejected, { isAlive: false });
+      next.ejected = {
+        address: m.ejected as `0x${string}`,
+        wasImpostor: m.wasImpostor,
+      };
+      log(
+        "eject",
+        m.wasImpostor === undefined
+          ? `${playerName(frame.players, m.ejected)} was ejected`
+          : `${playerName(frame.players, m.ejected)} was ejected (${m.wasImpostor ? "Impostor" : "Crewmate"})`,
+      );
+      break;
+
+    case "server:task_completed":
+      next.players = updatePlayer(frame.players, m.player, {
+        tasksCompleted: m.tasksCompleted,
+        totalTasks: m.totalTasks,
+      });
+      log("task", `${playerName(frame.players, m.player)} completed a task`);
+      break;
+
+    case "server:sabotage_started":
+      log("sabotage", `Sabotage started (type ${m.sabotageType})`);
+      break;
+
+    case "server:sabotage_fixed":
+      log("sabotage", `Sabotage fixed by ${playerName(frame.players, m.fixedBy)}`);
+      break;
+
+    case "server:game_ended":
+      next.phase = GamePhase.Ended;
+      next.crewmatesWon = m.crewmatesWon;
+      log("start", m.crewmatesWon ? "Crewmates win!" : "Impostors win!");
+      break;
+  }
+
+  return next;
+}
+
+/**
+ * Precompute the state after every event so seeking is instant
+ */
+export function buildReplayTimeline(events: GameEvent[]): ReplayTimeline {
+  const frames: ReplayFrame[] = [];
+  const times: number[] = [];
+  const bookmarks: ReplayBookmark[] = [];
+  const roundStarts = new Map<number, number>();
+
+  let frame = EMPTY_FRAME;
+  let elapsed = 0;
+  let previousTime: number | null = null;
+
+  events.forEach((event, index) => {
+    const time = new Date(event.createdAt).getTime();
+    if (previousTime !== null) {
+      elapsed += Math.min(Math.max(time - previousTime, 0), MAX_EVENT_GAP_MS);
+    }
+    previousTime = time;
+    times.push(elapsed);
+
+    const before = frame;
+    frame = applyReplayEvent(frame, event);
+    frames.push(frame);
+
+    const m = event.payload;
+    if (m.type === "server:phase_changed" && !roundStarts.has(m.round)) {
+      roundStarts.set(m.round, index);
+    } else if (m.type === "server:kill_occurred") {
+      bookmarks.push({
+        index,
+        kind: "kill",
+        round: frame.round,
+        label: `${playerName(before.players, m.killer)} killed ${playerName(before.players, m.victim)}`,
+      });
+    } else if (
+      m.type === "server:body_reported" ||
+      m.type === "server:meeting_called"
+    ) {
+      bookmarks.push({
+        index,
+        kind: "meeting",
+        round: frame.round,
+        label:
+          m.type === "server:body_reported"
+            ? `${playerName(before.players, m.reporter)} reported a body`
+            : `${playerName(before.players, m.caller)} called a meeting`,
+      });
+    }
+  });
+
+  return { events, frames, times, bookmarks, roundStarts };
+}
+
+export function emptyReplayFrame(): ReplayFrame {
+  return EMPTY_FRAME;
+}
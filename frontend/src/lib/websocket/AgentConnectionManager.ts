@@ -11,7 +11,8 @@ import {
 import { GamePhase, SabotageType, Player, DeadBody, Role } from '@/types/game';
 import { AgentWebSocketClient, AgentWebSocketClientOptions } from './AgentWebSocketClient';
 
-export type SignatureProvider = (agentAddress: `0x${string}`) => Promise<string>;
+// Signs the server auth challenge `message` with the agent wallet (EIP-191 personal_sign)
+export type SignatureProvider = (agentAddress: `0x${string}`, message: string) => Promise<string>;
 export type GameStateHandler = (state: WebSocketGameState) => void;
 export type ConnectionsHandler = (connections: Map<`0x${string}`, AgentConnectionStatus>) => void;
 
@@ -124,7 +125,7 @@ export class AgentConnectionManager {
       throw new Error(`Agent ${agentAddress} not registered`);
     }
 
-    await client.connect(() => signatureProvider(agentAddress));
+    await client.connect((message) => signatureProvider(agentAddress, message));
   }
 
   async connectAll(): Promise<void> {
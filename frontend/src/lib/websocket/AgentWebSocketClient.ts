@@ -1,18 +1,24 @@
 // Individual Agent WebSocket Connection Client
 
+import type {
+  AgentAuthenticateMessage,
+  AgentJoinGameMessage,
+  AuthChallenge,
+  ServerMessage,
+} from '@amongus/protocol';
 import {
   ConnectionState,
   ServerEvent,
   ServerEventType,
   AgentCommand,
   AgentCommandType,
-  AuthPayload,
   AgentConnectionStatus,
 } from './types';
 import { WS_CONFIG, WS_CLOSE_CODES, WS_ERRORS } from './constants';
 
 export type ServerEventHandler = (event: ServerEvent) => void;
 export type ConnectionStateHandler = (state: ConnectionState, error?: string) => void;
+export type ChallengeSigner = (message: string) => Promise<string>;
 
 export interface AgentWebSocketClientOptions {
   url?: string;
@@ -35,6 +41,8 @@ export class AgentWebSocketClient {
   private heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
   private authTimeout: ReturnType<typeof setTimeout> | null = null;
   private lastHeartbeat: number | null = null;
+  private signChallenge: ChallengeSigner | null = null;
+  private authChallenge: AuthChallenge | null = null;
 
   private messageQueue: AgentCommand[] = [];
   private pendingActions: Map<string, { command: AgentCommand; timestamp: number }> = new Map();
@@ -71,26 +79,27 @@ export class AgentWebSocketClient {
     };
   }
 
-  async connect(signatureProvider: () => Promise<string>): Promise<void> {
+  async connect(signatureProvider: ChallengeSigner): Promise<void> {
     if (this.state === ConnectionState.Connected || this.state === ConnectionState.Connecting) {
       return;
     }
 
+    this.signChallenge = signatureProvider;
     this.setState(ConnectionState.Connecting);
 
     try {
       const wsUrl = `${this.url}/game/${this.gameId}/agent/${this.agentAddress}`;
       this.ws = new WebSocket(wsUrl);
 
-      this.ws.onopen = async () => {
+      this.ws.onopen = () => {
+        // The server's welcome carries the challenge we sign
         this.setState(ConnectionState.Authenticating);
 
-        try {
-          const signature = await signatureProvider();
-          this.authenticate(signature);
-        } catch (error) {
-          this.handleError('Failed to get signature for authentication');
-        }
+        this.authTimeout = setTimeout(() => {
+          if (this.state === ConnectionState.Authenticating) {
+            this.handleError(WS_ERRORS.AUTH_TIMEOUT);
+          }
+        }, WS_CONFIG.AUTH_TIMEOUT);
       };
 
       this.ws.onmessage = (event) => {
@@ -211,30 +220,73 @@ export class AgentWebSocketClient {
 
   // ============ Private Methods ============
 
-  private authenticate(signature: string): void {
-    const authPayload: AuthPayload = {
-      agentAddress: this.agentAddress,
-      gameId: this.gameId,
+  /**
+   * Sign the relay server's current challenge and answer with agent:authenticate
+   */
+  private async authenticate(): Promise<void> {
+    if (!this.signChallenge || !this.ws || !this.authChallenge) return;
+
+    let signature: string;
+    try {
+      signature = await this.signChallenge(this.authChallenge.message);
+    } catch (error) {
+      this.handleError('Failed to get signature for authentication');
+      return;
+    }
+
+    // Sent directly: send() queues everything until we are Connected
+    const message: AgentAuthenticateMessage = {
+      type: 'agent:authenticate',
+      address: this.agentAddress,
       signature,
-      timestamp: Date.now(),
     };
+    this.ws.send(JSON.stringify(message));
+  }
 
-    this.send({
-      type: AgentCommandType.AUTH,
-      payload: authPayload,
-    });
-
-    // Set auth timeout
-    this.authTimeout = setTimeout(() => {
-      if (this.state === ConnectionState.Authenticating) {
-        this.handleError(WS_ERRORS.AUTH_TIMEOUT);
+  /**
+   * Relay server messages about our own login. Returns false for anything
+   * else, which is left to the event handling below.
+   */
+  private handleAuthMessage(message: ServerMessage): boolean {
+    switch (message.type) {
+      case 'server:welcome':
+        this.authChallenge = message.authChallenge;
+        this.authenticate();
+        return true;
+
+      case 'server:auth_challenge':
+        // A fresh challenge after a rejection; the next attempt signs this one
+        this.authChallenge = message.authChallenge;
+        return true;
+
+      case 'server:authenticated': {
+        this.handleAuthSuccess();
+        const join: AgentJoinGameMessage = {
+          type: 'agent:join_game',
+          gameId: this.gameId,
+          colorId: 0,
+        };
+        this.ws?.send(JSON.stringify(join));
+        return true;
       }
-    }, WS_CONFIG.AUTH_TIMEOUT);
+
+      case 'server:error':
+        if (message.code !== 'AUTH_REJECTED') return false;
+        this.handleError(message.message || WS_ERRORS.AUTH_FAILED);
+        return true;
+
+      default:
+        return false;
+    }
   }
 
   private handleMessage(data: string): void {
     try {
-      const event = JSON.parse(data) as ServerEvent;
+      const parsed = JSON.parse(data) as ServerEvent | ServerMessage;
+      if (typeof parsed.type === 'string' && parsed.type.startsWith('server:')) {
+        if (this.handleAuthMessage(parsed as ServerMessage)) return;
+      }
+      const event = parsed as ServerEvent;
 
       switch (event.type) {
         case ServerEventType.AUTH_SUCCESS:
@@ -1,23 +1,9 @@
 // Game Types for Among Us On-Chain
 
-export enum Role {
-  None = 0,
-  Crewmate = 1,
-  Impostor = 2,
-  Ghost = 3,
-}
+// Shared with the server through the protocol package
+import { Role, Location, GamePhase, SabotageType } from "@amongus/protocol";
 
-export enum Location {
-  Cafeteria = 0,
-  Admin = 1,
-  Storage = 2,
-  Electrical = 3,
-  MedBay = 4,
-  UpperEngine = 5,
-  LowerEngine = 6,
-  Security = 7,
-  Reactor = 8,
-}
+export { Role, Location, GamePhase, SabotageType };
 
 export const LocationNames: Record<Location, string> = {
   [Location.Cafeteria]: "Cafeteria",
@@ -31,17 +17,6 @@ export const LocationNames: Record<Location, string> = {
   [Location.Reactor]: "Reactor",
 };
 
-export enum GamePhase {
-  Lobby = 0,
-  Starting = 1,
-  ActionCommit = 2,
-  ActionReveal = 3,
-  Discussion = 4,
-  Voting = 5,
-  VoteResult = 6,
-  Ended = 7,
-}
-
 export const PhaseNames: Record<GamePhase, string> = {
   [GamePhase.Lobby]: "Lobby",
   [GamePhase.Starting]: "Starting",
@@ -53,14 +28,6 @@ export const PhaseNames: Record<GamePhase, string> = {
   [GamePhase.Ended]: "Game Over",
 };
 
-export enum SabotageType {
-  None = 0,
-  Lights = 1,
-  Reactor = 2,
-  O2 = 3,
-  Comms = 4,
-}
-
 export interface Player {
   address: `0x${string}`;
   colorId: number;
@@ -70,6 +37,7 @@ export interface Player {
   tasksCompleted: number;
   totalTasks: number;
   hasVoted: boolean;
+  disconnected?: boolean; // Connection dropped; seat held until the reconnect grace period ends
 }
 
 export interface GameState {
@@ -0,0 +1,234 @@
+import {
+  CLIENT_MESSAGE_SCHEMAS,
+  type FieldSchema,
+  type MessageSchema,
+} from "./messageSchemas.js";
+import type { ClientMessage, ServerMessage } from "./types.js";
+
+export const PROTOCOL_VERSION = "1.0.0";
+
+export type JsonSchema = Record<string, unknown>;
+
+// ============ MESSAGE SUMMARIES ============
+
+export const CLIENT_MESSAGE_SUMMARIES: Record<ClientMessage["type"], string> = {
+  "client:authenticate": "Identify a spectator or player by wallet address",
+  "client:create_room": "Open a new lobby with optional game settings",
+  "client:join_room": "Take a seat in a room, or watch it as a spectator",
+  "client:leave_room": "Give up a seat or stop spectating",
+  "client:start_game": "Start the game early (room creator only)",
+  "client:ready": "Mark yourself ready, or take it back, in a lobby",
+  "client:resume": "Reclaim a session and its seat after a dropped connection",
+  "client:queue": "Join the matchmaking queue for a wager",
+  "client:dequeue": "Leave the matchmaking queue",
+  "agent:authenticate": "Answer the auth challenge as an agent wallet",
+  "agent:join_game": "Take a seat in a room as an agent",
+  "agent:leave_game": "Leave an agent's room",
+  "agent:position_update": "Rejected; commit and reveal a Move action instead",
+  "agent:action_result": "Report the outcome of an action",
+  "agent:kill": "Rejected; commit and reveal a Kill action instead",
+  "agent:vote": "Vote to eject a player, or skip with a null target",
+  "agent:task_complete": "Rejected; commit and reveal a DoTask action instead",
+  "agent:report_body": "Rejected; commit and reveal a Report action instead",
+  "agent:commit_action": "Commit to this round's action by hash",
+  "agent:reveal_action": "Reveal the committed action and its salt",
+  "agent:deposit": "Deposit funds for wagers",
+  "agent:submit_wager": "Place the room's wager",
+  "agent:get_balance": "Ask for the current wager balance",
+  "agent:call_meeting": "Call an emergency meeting",
+  "agent:chat": "Talk during discussion, optionally with structured claims",
+  "agent:sabotage": "Start a sabotage (impostor)",
+  "agent:fix_sabotage": "Help fix the active sabotage",
+  "agent:vent":
+    "Enter or leave a vent (impostor); travel is rejected, commit and reveal a Vent action instead",
+  "agent:use_cameras": "Start or stop watching the security cameras",
+  "operator:withdraw_request": "Withdraw an agent's funds to the operator",
+  "operator:create_agent": "Create a server-managed agent wallet",
+  "operator:list_agents": "List the operator's agents",
+};
+
+export const SERVER_MESSAGE_SUMMARIES: Record<ServerMessage["type"], string> = {
+  "server:welcome": "Connection accepted; carries the first auth challenge",
+  "server:auth_challenge": "A fresh challenge after the last one was used or expired",
+  "server:error": "A message was rejected; see code, details and retryAfter",
+  "server:lobby_locked": "The game has started and the room takes no more seats",
+  "server:room_created": "A room was created",
+  "server:room_list": "Every room and the server's stats",
+  "server:room_update": "A room's state changed",
+  "server:room_available": "A room slot opened up",
+  "server:leaderboard": "Top agents",
+  "server:queue_status": "Your place in the matchmaking queue",
+  "server:queue_left": "You left the matchmaking queue",
+  "server:match_found": "A room was made for you; join it before the deadline",
+  "server:tournament_game": "Your table for the next tournament round; join it",
+  "server:player_joined": "Someone took a seat",
+  "server:player_ready": "Someone readied up or took it back",
+  "server:lobby_countdown": "The game starts at startsAt; null means cancelled",
+  "server:player_left": "Someone left the room",
+  "server:player_disconnected": "A player dropped; their seat is held for a while",
+  "server:player_reconnected": "A dropped player is back",
+  "server:session_resumed": "Your session and seat were reclaimed",
+  "server:player_moved": "Someone moved to a new location",
+  "server:game_state": "Full snapshot of a game",
+  "server:role_assigned": "Your role, and fellow impostors if you are one",
+  "server:tasks_assigned": "Your tasks for this game",
+  "server:action_committed": "A player committed this round's action",
+  "server:action_revealed": "A player revealed their action",
+  "server:round_resolved": "Every revealed action for the round was applied",
+  "server:kill_occurred": "Someone was killed",
+  "server:phase_changed": "The game moved to a new phase",
+  "server:discussion_turn": "Turn-based discussion: who has the floor; null for the rebuttal",
+  "server:your_turn_to_speak": "Your speaking slot is open until the deadline",
+  "server:vote_cast": "Someone voted",
+  "server:player_ejected": "Someone was voted out",
+  "server:task_completed": "A crewmate finished a task step",
+  "server:game_ended": "The game is over; the seed is revealed",
+  "server:body_reported": "A body was reported",
+  "server:withdraw_result": "Outcome of an operator withdrawal",
+  "server:agent_created": "A server-managed agent wallet was created",
+  "server:agent_list": "The operator's agents",
+  "server:wallet_assigned": "A server-managed wallet was assigned to you",
+  "server:authenticated": "You're logged in; keep sessionToken for client:resume",
+  "server:balance": "Your wager balance",
+  "server:wager_required": "You need to place a wager to play",
+  "server:wager_accepted": "Your wager was placed",
+  "server:wager_failed": "Your wager could not be placed",
+  "server:deposit_confirmed": "Your deposit arrived",
+  "server:pot_updated": "The room's prize pot changed",
+  "server:meeting_called": "An emergency meeting was called",
+  "server:chat": "A chat message, with any claims the server accepted",
+  "server:sabotage_started": "A sabotage began",
+  "server:sabotage_fixed": "The sabotage was fixed",
+  "server:sabotage_failed": "The sabotage wasn't fixed in time",
+  "server:player_vented": "Someone used a vent (impostors and cameras only)",
+  "server:camera_feed": "Who the security cameras can see",
+  "server:camera_status": "Someone started or stopped watching the cameras",
+};
+
+// ============ JSON SCHEMA ============
+
+/**
+ * JSON Schema (draft-07, as AsyncAPI 2.x uses) for one field, from the same
+ * definition the server validates against
+ */
+export function fieldJsonSchema(field: FieldSchema): JsonSchema {
+  const schema: JsonSchema = { type: field.type };
+
+  if (field.maxLength !== undefined) {
+    schema[field.type === "array" ? "maxItems" : "maxLength"] = field.maxLength;
+  }
+  if (field.pattern) schema.pattern = field.pattern.source;
+  if (field.min !== undefined) schema.minimum = field.min;
+  if (field.max !== undefined) schema.maximum = field.max;
+  if (field.values) schema.enum = [...field.values];
+  if (field.fields) Object.assign(schema, objectJsonSchema(field.fields));
+  if (field.items) schema.items = fieldJsonSchema(field.items);
+
+  if (field.nullable) {
+    return { anyOf: [schema, { type: "null" }] };
+  }
+  return schema;
+}
+
+function objectJsonSchema(fields: MessageSchema): JsonSchema {
+  const required = Object.keys(fields).filter((key) => !fields[key].optional);
+  return {
+    properties: Object.fromEntries(
+      Object.entries(fields).map(([key, field]) => [key, fieldJsonSchema(field)]),
+    ),
+    ...(required.length > 0 && { required }),
+  };
+}
+
+/**
+ * JSON Schema for a client message. Unknown fields are allowed, matching
+ * the server, which ignores them.
+ */
+export function clientMessageJsonSchema(type: ClientMessage["type"]): JsonSchema {
+  const fields = CLIENT_MESSAGE_SCHEMAS[type];
+  const { properties, required } = objectJsonSchema(fields) as {
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return {
+    type: "object",
+    description: CLIENT_MESSAGE_SUMMARIES[type],
+    properties: { type: { const: type }, ...properties },
+    required: ["type", ...(required ?? [])],
+  };
+}
+
+/**
+ * JSON Schema for a server message. Only the discriminator is pinned down;
+ * the payload is described by the TypeScript types in this package.
+ */
+export function serverMessageJsonSchema(type: ServerMessage["type"]): JsonSchema {
+  return {
+    type: "object",
+    description: SERVER_MESSAGE_SUMMARIES[type],
+    properties: { type: { const: type } },
+    required: ["type"],
+  };
+}
+
+// ============ ASYNCAPI ============
+
+const messageName = (type: string) => type.replace(":", "_");
+
+/**
+ * AsyncAPI 2.6 document for the WebSocket protocol: one channel, with client
+ * messages published to it and server messages received from it
+ */
+export function buildAsyncApiDocument(serverUrl?: string): JsonSchema {
+  const clientTypes = Object.keys(CLIENT_MESSAGE_SCHEMAS) as ClientMessage["type"][];
+  const serverTypes = Object.keys(SERVER_MESSAGE_SUMMARIES) as ServerMessage["type"][];
+
+  const messages: Record<string, JsonSchema> = {};
+  for (const type of clientTypes) {
+    messages[messageName(type)] = {
+      name: type,
+      summary: CLIENT_MESSAGE_SUMMARIES[type],
+      payload: clientMessageJsonSchema(type),
+    };
+  }
+  for (const type of serverTypes) {
+    messages[messageName(type)] = {
+      name: type,
+      summary: SERVER_MESSAGE_SUMMARIES[type],
+      payload: serverMessageJsonSchema(type),
+    };
+  }
+
+  const ref = (type: string) => ({
+    $ref: `#/components/messages/${messageName(type)}`,
+  });
+
+  return {
+    asyncapi: "2.6.0",
+    info: {
+      title: "Among Us On-Chain game server",
+      version: PROTOCOL_VERSION,
+      description:
+        "JSON messages over a single WebSocket. Every message has a `type`; " +
+        "client messages failing their schema get a server:error with code " +
+        "INVALID_MESSAGE and the failing fields in `details`.",
+    },
+    defaultContentType: "application/json",
+    ...(serverUrl && {
+      servers: { game: { url: serverUrl, protocol: "ws" } },
+    }),
+    channels: {
+      "/": {
+        publish: {
+          summary: "Messages a client sends",
+          message: { oneOf: clientTypes.map(ref) },
+        },
+        subscribe: {
+          summary: "Messages the server sends",
+          message: { oneOf: serverTypes.map(ref) },
+        },
+      },
+    },
+    components: { messages },
+  };
+}
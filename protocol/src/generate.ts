@@ -0,0 +1,7 @@
+import { writeFileSync } from "fs";
+import { buildAsyncApiDocument } from "./asyncapi.js";
+
+// Writes the AsyncAPI document for tooling: npm run generate [-- <file>]
+const file = process.argv[2] ?? "asyncapi.json";
+writeFileSync(file, JSON.stringify(buildAsyncApiDocument(), null, 2) + "\n");
+console.log(`Wrote ${file}`);
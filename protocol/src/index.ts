@@ -0,0 +1,4 @@
+// Wire protocol shared by the server, the agent SDK and the frontend
+export * from "./types.js";
+export * from "./messageSchemas.js";
+export * from "./asyncapi.js";
@@ -0,0 +1,301 @@
+import {
+  ActionType,
+  Location,
+  SabotageType,
+  type ClientMessage,
+  type MessageIssue,
+} from "./types.js";
+
+export const MAX_MESSAGE_BYTES = 16 * 1024; // Larger frames are refused by the socket
+
+/**
+ * Shape of one field. Objects without `fields` (game settings, chat claims)
+ * only have their type checked here; their handlers validate the contents.
+ */
+export interface FieldSchema {
+  type: "string" | "integer" | "number" | "boolean" | "object" | "array";
+  optional?: boolean;
+  nullable?: boolean;
+  maxLength?: number; // Strings and arrays
+  pattern?: RegExp;
+  min?: number;
+  max?: number;
+  values?: readonly (string | number)[];
+  fields?: Record<string, FieldSchema>;
+  items?: FieldSchema;
+}
+
+export type MessageSchema = Record<string, FieldSchema>;
+
+// ============ COMMON FIELDS ============
+
+const optional = (field: FieldSchema): FieldSchema => ({
+  ...field,
+  optional: true,
+});
+
+const enumValues = (e: object): number[] =>
+  Object.values(e).filter((v): v is number => typeof v === "number");
+
+const roomId: FieldSchema = { type: "string", maxLength: 64 };
+const address: FieldSchema = {
+  type: "string",
+  pattern: /^0x[0-9a-fA-F]{40}$/,
+};
+const bytes32: FieldSchema = { type: "string", pattern: /^0x[0-9a-fA-F]{64}$/ };
+const signature: FieldSchema = {
+  type: "string",
+  maxLength: 512,
+  pattern: /^0x[0-9a-fA-F]+$/,
+};
+const wei: FieldSchema = { type: "string", pattern: /^\d{1,78}$/ };
+const round: FieldSchema = { type: "integer", min: 0, max: 1_000_000 };
+const location: FieldSchema = { type: "integer", values: enumValues(Location) };
+const name: FieldSchema = { type: "string", maxLength: 64 };
+const operatorKey: FieldSchema = { type: "string", maxLength: 128 };
+const colorId: FieldSchema = { type: "integer", min: 0, max: 11 };
+const seats: FieldSchema = { type: "integer", min: 1, max: 100 };
+
+const gameAction: FieldSchema = {
+  type: "object",
+  fields: {
+    type: { type: "integer", values: enumValues(ActionType) },
+    target: optional(address),
+    destination: optional(location),
+    taskId: optional({ type: "integer", min: 0, max: 255 }),
+    sabotage: optional({ type: "integer", values: enumValues(SabotageType) }),
+  },
+};
+
+// ============ CLIENT MESSAGES ============
+
+// Every field a client may send, per message type. Fields not listed are
+// ignored by the handlers and pass through unchecked.
+export const CLIENT_MESSAGE_SCHEMAS: Record<
+  ClientMessage["type"],
+  MessageSchema
+> = {
+  "client:authenticate": {
+    address: optional(address),
+    name: optional(name),
+    signature: optional(signature),
+  },
+  "client:create_room": {
+    maxPlayers: optional(seats),
+    impostorCount: optional(seats),
+    minPlayers: optional(seats),
+    wagerAmount: optional(wei),
+    settings: optional({ type: "object" }),
+  },
+  "client:join_room": {
+    roomId,
+    colorId: optional(colorId),
+    asSpectator: optional({ type: "boolean" }),
+    godView: optional({ type: "boolean" }),
+  },
+  "client:leave_room": { roomId },
+  "client:start_game": { roomId },
+  "client:ready": { roomId, ready: optional({ type: "boolean" }) },
+  "client:resume": {
+    sessionToken: { type: "string", maxLength: 128 },
+    roomId: optional(roomId),
+  },
+  "client:queue": { wagerAmount: optional(wei) },
+  "client:dequeue": {},
+  "agent:authenticate": {
+    address: optional(address),
+    name: optional(name),
+    requestWallet: optional({ type: "boolean" }),
+    signature: optional(signature),
+    operatorKey: optional(operatorKey),
+  },
+  "agent:join_game": { gameId: roomId, colorId },
+  "agent:leave_game": { gameId: roomId },
+  "agent:position_update": { gameId: roomId, location, round },
+  "agent:action_result": {
+    gameId: roomId,
+    actionType: { type: "integer", values: enumValues(ActionType) },
+    target: optional(address),
+    destination: optional(location),
+    round,
+  },
+  "agent:kill": {
+    gameId: roomId,
+    killer: optional(address),
+    victim: address,
+    location: optional(location),
+    round,
+  },
+  "agent:vote": {
+    gameId: roomId,
+    voter: optional(address),
+    target: { ...address, nullable: true },
+    round,
+  },
+  "agent:task_complete": {
+    gameId: roomId,
+    player: optional(address),
+    taskId: optional({ type: "string", maxLength: 64 }),
+    tasksCompleted: optional({ type: "number" }),
+    totalTasks: optional({ type: "number" }),
+  },
+  "agent:report_body": {
+    gameId: roomId,
+    reporter: optional(address),
+    bodyLocation: optional(location),
+    round,
+  },
+  "agent:commit_action": { gameId: roomId, round, commitHash: bytes32 },
+  "agent:reveal_action": {
+    gameId: roomId,
+    round,
+    action: gameAction,
+    salt: bytes32,
+  },
+  "operator:withdraw_request": {
+    operatorKey,
+    agentAddress: address,
+    amount: optional({ type: "string", pattern: /^(max|\d{1,30}(\.\d{1,18})?)$/ }),
+  },
+  "operator:create_agent": { operatorKey },
+  "operator:list_agents": { operatorKey },
+  "agent:deposit": { amount: wei },
+  "agent:submit_wager": { gameId: roomId },
+  "agent:get_balance": {},
+  "agent:call_meeting": { gameId: roomId },
+  "agent:chat": {
+    gameId: roomId,
+    message: { type: "string", maxLength: 1000 },
+    claims: optional({ type: "array", maxLength: 10, items: { type: "object" } }),
+  },
+  "agent:sabotage": {
+    gameId: roomId,
+    sabotageType: { type: "integer", values: enumValues(SabotageType) },
+  },
+  "agent:fix_sabotage": { gameId: roomId, location: optional(location) },
+  "agent:vent": {
+    gameId: roomId,
+    action: { type: "string", values: ["enter", "exit", "move"] },
+    targetLocation: optional(location),
+  },
+  "agent:use_cameras": {
+    gameId: roomId,
+    action: { type: "string", values: ["start", "stop"] },
+  },
+};
+
+/**
+ * Check a parsed frame against the schema for its type. Returns every problem
+ * found, not just the first, so a client can fix them in one go.
+ */
+export function validateClientMessage(
+  input: unknown,
+): ClientMessage | { issues: MessageIssue[] } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { issues: [{ path: "", message: "must be an object" }] };
+  }
+
+  const { type } = input as { type?: unknown };
+  const schema =
+    typeof type === "string" && Object.hasOwn(CLIENT_MESSAGE_SCHEMAS, type)
+      ? CLIENT_MESSAGE_SCHEMAS[type as ClientMessage["type"]]
+      : undefined;
+  if (!schema) {
+    return {
+      issues: [{ path: "type", message: `Unknown message type: ${String(type)}` }],
+    };
+  }
+
+  const issues: MessageIssue[] = [];
+  checkFields(input as Record<string, unknown>, schema, "", issues);
+  return issues.length > 0 ? { issues } : (input as ClientMessage);
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  fields: Record<string, FieldSchema>,
+  prefix: string,
+  issues: MessageIssue[],
+): void {
+  for (const [key, field] of Object.entries(fields)) {
+    checkField(value[key], field, prefix ? `${prefix}.${key}` : key, issues);
+  }
+}
+
+function checkField(
+  value: unknown,
+  field: FieldSchema,
+  path: string,
+  issues: MessageIssue[],
+): void {
+  const problem = fieldProblem(value, field);
+  if (problem) {
+    issues.push({ path, message: problem });
+    return;
+  }
+
+  // Well-formed containers: check what's inside
+  if (field.fields && value !== undefined && value !== null) {
+    checkFields(value as Record<string, unknown>, field.fields, path, issues);
+  }
+  if (field.items && Array.isArray(value)) {
+    value.forEach((item, i) =>
+      checkField(item, field.items!, `${path}[${i}]`, issues),
+    );
+  }
+}
+
+function fieldProblem(value: unknown, field: FieldSchema): string | null {
+  if (value === undefined) return field.optional ? null : "is required";
+  if (value === null) return field.nullable ? null : "must not be null";
+
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string") return "must be a string";
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return `must be at most ${field.maxLength} characters`;
+      }
+      if (field.pattern && !field.pattern.test(value)) {
+        return `must match ${field.pattern}`;
+      }
+      break;
+
+    case "integer":
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return "must be a number";
+      }
+      if (field.type === "integer" && !Number.isInteger(value)) {
+        return "must be an integer";
+      }
+      if (field.min !== undefined && value < field.min) {
+        return `must be at least ${field.min}`;
+      }
+      if (field.max !== undefined && value > field.max) {
+        return `must be at most ${field.max}`;
+      }
+      break;
+
+    case "boolean":
+      if (typeof value !== "boolean") return "must be a boolean";
+      break;
+
+    case "object":
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return "must be an object";
+      }
+      break;
+
+    case "array":
+      if (!Array.isArray(value)) return "must be an array";
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return `must have at most ${field.maxLength} items`;
+      }
+      break;
+  }
+
+  if (field.values && !field.values.includes(value as string | number)) {
+    return `must be one of: ${field.values.join(", ")}`;
+  }
+  return null;
+}
@@ -0,0 +1,1118 @@
+// ============ AGENT STATS ============
+
+export interface AgentStats {
+  address: string;
+  name: string;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  kills: number; // Total kills as impostor
+  tasksCompleted: number; // Total tasks completed as crewmate
+  timesImpostor: number;
+  timesCrewmate: number;
+  rating: number; // Team Elo across both roles
+  crewmateRating: number;
+  impostorRating: number;
+  lastSeen: number; // Timestamp
+}
+
+export type LeaderboardSort = "wins" | "rating";
+
+// ============ TOURNAMENTS ============
+
+// best_of: the same tables replay every round; round_robin: seats rotate so
+// entrants meet as many others as possible; swiss: entrants on similar
+// points share a table
+export type TournamentFormat = "best_of" | "round_robin" | "swiss";
+
+export type TournamentStatus = "active" | "completed" | "cancelled";
+
+// One table of one round, played in its own reserved room
+export interface TournamentGame {
+  round: number; // 1-based
+  table: number; // 0-based within the round
+  roomId: string | null; // null if the room couldn't be created
+  players: string[]; // Lowercase addresses seated at this table
+  status: "pending" | "playing" | "completed" | "cancelled";
+  crewmatesWon: boolean | null;
+  winners: string[];
+}
+
+export interface TournamentStanding {
+  address: string; // Lowercase
+  name: string;
+  points: number;
+  gamesPlayed: number;
+  wins: number;
+  impostorGames: number;
+  impostorWins: number;
+  survived: number; // Games still alive at the end
+  tasksCompleted: number;
+}
+
+export interface TournamentState {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  totalRounds: number;
+  currentRound: number; // 0 until the first round is paired
+  tableSize: number; // Most players per game
+  impostorCount: number;
+  wagerAmount?: string; // Per game, in wei; the server's wager if unset
+  settings: GameSettings;
+  creator?: string;
+  createdAt: number;
+  endedAt: number | null;
+  games: TournamentGame[];
+  standings: TournamentStanding[]; // Ranked, best first
+}
+
+// ============ ENUMS (Mirror from game) ============
+
+export enum Role {
+  None = 0,
+  Crewmate = 1,
+  Impostor = 2,
+  Ghost = 3,
+}
+
+export enum Location {
+  Cafeteria = 0,
+  Admin = 1,
+  Storage = 2,
+  Electrical = 3,
+  MedBay = 4,
+  UpperEngine = 5,
+  LowerEngine = 6,
+  Security = 7,
+  Reactor = 8,
+}
+
+export enum GamePhase {
+  Lobby = 0,
+  Starting = 1,
+  ActionCommit = 2,
+  ActionReveal = 3,
+  Discussion = 4,
+  Voting = 5,
+  VoteResult = 6,
+  Ended = 7,
+}
+
+export enum ActionType {
+  None = 0,
+  Move = 1,
+  DoTask = 2,
+  FakeTask = 3,
+  Kill = 4,
+  Report = 5,
+  CallMeeting = 6,
+  Vent = 7,
+  Sabotage = 8,
+  UseCams = 9,
+  Skip = 10,
+}
+
+export enum SabotageType {
+  None = 0,
+  Lights = 1,
+  Reactor = 2,
+  O2 = 3,
+  Comms = 4,
+}
+
+// ============ CONNECTION TYPES ============
+
+export type ConnectionType = "agent" | "spectator";
+
+export interface Connection {
+  id: string;
+  type: ConnectionType;
+  address?: string; // Agent wallet address (only for agents)
+  gameId?: string; // Current game room
+  joinedAt: number;
+}
+
+// ============ PLAYER STATE ============
+
+// An action as committed (hashed) and later revealed during an action round.
+// Field layout matches the on-chain AmongUsGame commitment.
+export interface GameAction {
+  type: ActionType;
+  target?: string; // Kill target
+  destination?: Location; // Move / vent destination
+  taskId?: number;
+  sabotage?: SabotageType;
+}
+
+// A task dealt to a crewmate. Multi-step tasks must be done in `steps` order.
+export interface AssignedTask {
+  taskId: string; // e.g. "fix_wiring"
+  name: string; // e.g. "Fix Wiring"
+  steps: Location[]; // Rooms to visit, in order
+  currentStep: number; // Index of the next step (steps.length once done)
+  completed: boolean;
+}
+
+export interface PlayerState {
+  address: string;
+  colorId: number;
+  location: Location;
+  isAlive: boolean;
+  tasksCompleted: number;
+  totalTasks: number;
+  hasVoted: boolean;
+  disconnected?: boolean; // Connection dropped; seat held during the reconnect grace period
+}
+
+export interface DeadBodyState {
+  victim: string;
+  location: Location;
+  round: number;
+  reported: boolean;
+}
+
+export interface GameStateSnapshot {
+  gameId: string;
+  phase: GamePhase;
+  round: number;
+  phaseEndTime: number;
+  players: PlayerState[];
+  deadBodies: DeadBodyState[];
+  alivePlayers: number;
+  totalTasksCompleted: number;
+  totalTasksRequired: number;
+  activeSabotage: SabotageType;
+  roles?: Record<string, Role>; // Only included for god-view spectators
+}
+
+// ============ MESSAGE TYPES ============
+
+// Client → Server Messages
+export type ClientMessage =
+  | ClientAuthenticateMessage
+  | ClientCreateRoomMessage
+  | ClientJoinRoomMessage
+  | ClientLeaveRoomMessage
+  | ClientStartGameMessage
+  | ClientReadyMessage
+  | ClientResumeMessage
+  | ClientQueueMessage
+  | ClientDequeueMessage
+  | AgentAuthenticateMessage
+  | AgentJoinGameMessage
+  | AgentLeaveGameMessage
+  | AgentPositionUpdateMessage
+  | AgentActionResultMessage
+  | AgentKillMessage
+  | AgentVoteMessage
+  | AgentTaskCompleteMessage
+  | AgentReportBodyMessage
+  | AgentCommitActionMessage
+  | AgentRevealActionMessage
+  | OperatorWithdrawRequestMessage
+  | OperatorCreateAgentMessage
+  | OperatorListAgentsMessage
+  | AgentDepositMessage
+  | AgentSubmitWagerMessage
+  | AgentGetBalanceMessage
+  | AgentCallMeetingMessage
+  | AgentChatMessage
+  | AgentSabotageMessage
+  | AgentFixSabotageMessage
+  | AgentVentMessage
+  | AgentUseCamerasMessage;
+
+// Kept for backwards compat
+export type AgentMessage = ClientMessage;
+
+export interface ClientAuthenticateMessage {
+  type: "client:authenticate";
+  address?: string; // Optional for spectators
+  name?: string;
+  signature?: string; // EIP-191 signature over the welcome challenge (required with address)
+}
+
+export interface ClientCreateRoomMessage {
+  type: "client:create_room";
+  maxPlayers?: number;
+  impostorCount?: number;
+  minPlayers?: number; // Seated players needed before the game can start
+  wagerAmount?: string; // in wei
+  settings?: Partial<GameSettings>; // Omitted fields use the defaults
+}
+
+export interface ClientJoinRoomMessage {
+  type: "client:join_room";
+  roomId: string;
+  colorId?: number;
+  asSpectator?: boolean;
+  godView?: boolean; // Spectators only, where the server enables it: receive every player's role in game state; refused to seated players
+}
+
+export interface ClientLeaveRoomMessage {
+  type: "client:leave_room";
+  roomId: string;
+}
+
+// Room creator only: start now instead of waiting for everyone to be ready
+export interface ClientStartGameMessage {
+  type: "client:start_game";
+  roomId: string;
+}
+
+// The lobby countdown runs once minPlayers are seated and all are ready
+export interface ClientReadyMessage {
+  type: "client:ready";
+  roomId: string;
+  ready?: boolean; // Defaults to true; false withdraws readiness
+}
+
+// Re-authenticate a new connection with the session token from
+// server:authenticated, reclaiming the seat held during the grace period
+export interface ClientResumeMessage {
+  type: "client:resume";
+  sessionToken: string;
+  roomId?: string; // Defaults to whichever room holds the player's seat
+}
+
+// Wait for the server to put together a game with agents of a similar
+// rating, instead of picking a room
+export interface ClientQueueMessage {
+  type: "client:queue";
+  wagerAmount?: string; // Tier in wei; defaults to the server's wager
+}
+
+export interface ClientDequeueMessage {
+  type: "client:dequeue";
+}
+
+// Legacy aliases
+export interface AgentAuthenticateMessage {
+  type: "agent:authenticate";
+  address?: string; // Optional - if not provided and requestWallet is true, server creates one
+  name?: string; // Agent display name
+  requestWallet?: boolean; // If true, server will create a Privy wallet for this agent
+  signature?: string; // EIP-191 signature over the welcome challenge
+  operatorKey?: string; // Alternative proof for Privy-managed wallets owned by this operator
+}
+
+export interface AgentJoinGameMessage {
+  type: "agent:join_game";
+  gameId: string;
+  colorId: number;
+}
+
+export interface AgentLeaveGameMessage {
+  type: "agent:leave_game";
+  gameId: string;
+}
+
+// Direct moves, kills, tasks and reports are rejected with USE_COMMIT_REVEAL;
+// they are GameActions committed and revealed each round. Kept so the server
+// can recognise and refuse them.
+export interface AgentPositionUpdateMessage {
+  type: "agent:position_update";
+  gameId: string;
+  location: Location;
+  round: number;
+}
+
+export interface AgentActionResultMessage {
+  type: "agent:action_result";
+  gameId: string;
+  actionType: ActionType;
+  target?: string;
+  destination?: Location;
+  round: number;
+}
+
+export interface AgentKillMessage {
+  type: "agent:kill";
+  gameId: string;
+  killer?: string; // Optional; must match the authenticated address if sent
+  victim: string;
+  location?: Location; // Optional; the server uses the killer's tracked location
+  round: number;
+}
+
+export interface AgentVoteMessage {
+  type: "agent:vote";
+  gameId: string;
+  voter?: string; // Optional; must match the authenticated address if sent
+  target: string | null; // null = skip
+  round: number;
+}
+
+export interface AgentTaskCompleteMessage {
+  type: "agent:task_complete";
+  gameId: string;
+  player?: string; // Optional; must match the authenticated address if sent
+  taskId?: string; // Task to advance; defaults to any task with a step here
+  tasksCompleted?: number; // Ignored; progress is tracked by the server
+  totalTasks?: number; // Ignored; progress is tracked by the server
+}
+
+export interface AgentReportBodyMessage {
+  type: "agent:report_body";
+  gameId: string;
+  reporter?: string; // Optional; must match the authenticated address if sent
+  bodyLocation?: Location; // Optional; the server uses the reporter's tracked location
+  round: number;
+}
+
+// Commit-reveal action rounds
+export interface AgentCommitActionMessage {
+  type: "agent:commit_action";
+  gameId: string;
+  round: number;
+  // keccak256(abi.encodePacked(uint8 type, address target, uint8 destination,
+  //   uint8 taskId, uint8 sabotage, bytes32 salt, address player))
+  commitHash: string;
+}
+
+export interface AgentRevealActionMessage {
+  type: "agent:reveal_action";
+  gameId: string;
+  round: number;
+  action: GameAction;
+  salt: string; // bytes32 hex
+}
+
+// ============ WAGER MESSAGES ============
+
+export interface AgentDepositMessage {
+  type: "agent:deposit";
+  amount: string; // Amount in wei as string
+}
+
+export interface AgentSubmitWagerMessage {
+  type: "agent:submit_wager";
+  gameId: string;
+}
+
+export interface AgentGetBalanceMessage {
+  type: "agent:get_balance";
+}
+
+export interface AgentCallMeetingMessage {
+  type: "agent:call_meeting";
+  gameId: string;
+}
+
+export interface AgentChatMessage {
+  type: "agent:chat";
+  gameId: string;
+  message: string; // May be empty when claims are attached
+  claims?: ChatClaim[];
+}
+
+// Structured statements attached to chat, so agents needn't parse each
+// other's prose. alibi: "I was at location in round"; sighting: "I saw target
+// at location in round".
+export type ChatClaimKind = "accuse" | "defend" | "vouch" | "alibi" | "sighting";
+
+export type ChatClaimReason =
+  | "near_body"
+  | "no_tasks"
+  | "suspicious_movement"
+  | "saw_vent"
+  | "inconsistent"
+  | "following"
+  | "self_report";
+
+export interface ChatClaim {
+  kind: ChatClaimKind;
+  target?: string; // Player the claim is about; defend defaults to the sender
+  reason?: ChatClaimReason;
+  location?: Location;
+  round?: number; // alibi and sighting default to the current round
+}
+
+export interface AgentSabotageMessage {
+  type: "agent:sabotage";
+  gameId: string;
+  sabotageType: SabotageType;
+}
+
+export interface AgentFixSabotageMessage {
+  type: "agent:fix_sabotage";
+  gameId: string;
+  location?: Location; // Optional; the server uses the fixer's tracked location
+}
+
+export interface AgentVentMessage {
+  type: "agent:vent";
+  gameId: string;
+  action: "enter" | "exit" | "move"; // "move" is rejected: commit and reveal a Vent action
+  targetLocation?: Location; // Unused; a revealed Vent action carries the destination
+}
+
+export interface AgentUseCamerasMessage {
+  type: "agent:use_cameras";
+  gameId: string;
+  action: "start" | "stop"; // start or stop watching cameras
+}
+
+// ============ OPERATOR MESSAGES ============
+
+export interface OperatorWithdrawRequestMessage {
+  type: "operator:withdraw_request";
+  operatorKey: string; // oper_XXXXXXXXXXXX
+  agentAddress: string; // Target agent wallet address
+  amount?: string; // Amount in ether, or "max" for full balance
+}
+
+export interface OperatorCreateAgentMessage {
+  type: "operator:create_agent";
+  operatorKey: string; // oper_XXXXXXXXXXXX
+}
+
+export interface OperatorListAgentsMessage {
+  type: "operator:list_agents";
+  operatorKey: string; // oper_XXXXXXXXXXXX
+}
+
+// Room state
+export interface RoomState {
+  roomId: string;
+  players: PlayerState[];
+  spectators: string[]; // connection IDs
+  maxPlayers: number;
+  impostorCount: number;
+  phase: "lobby" | "playing" | "ended";
+  createdAt: number;
+  creator?: string; // wallet address of creator
+  wagerAmount?: string; // custom wager amount in wei
+  settings: GameSettings;
+  reservedFor?: string[]; // Matchmade rooms: only these agents may take a seat
+  minPlayers: number; // Seated players needed before the game can start
+  readyPlayers: string[]; // Lowercase addresses of seated players who are ready
+  countdownEndTime: number | null; // When the lobby countdown ends, while one runs
+  seedHash: string; // sha256 of the game seed, committed when the room is created
+}
+
+// Per-room rules, chosen at room creation. Mirrors the agent SDK's GameConfig.
+// open: everyone chats freely for discussionTime. turns: each living player
+// gets one speaking slot in order, then chat opens for a rebuttal window.
+export type DiscussionMode = "open" | "turns";
+
+export interface GameSettings {
+  killCooldown: number; // Rounds an impostor waits between kills
+  discussionTime: number; // Seconds; open discussion only
+  discussionMode: DiscussionMode;
+  speakingTime: number; // Seconds per speaking slot in turn-based discussion
+  rebuttalTime: number; // Seconds of open chat after the last slot
+  votingTime: number; // Seconds
+  tasksPerPlayer: number;
+  emergencyMeetings: number; // Per player, per game
+  confirmEjects: boolean; // Announce whether an ejected player was an impostor
+  anonymousVotes: boolean; // Only announce that a player voted, not for whom
+  sabotageCooldown: number; // Seconds between sabotages
+  reactorTimeLimit: number; // Seconds to fix a reactor meltdown
+  oxygenTimeLimit: number; // Seconds to fix O2 depletion
+}
+
+// Server → Client Messages
+export type ServerMessage =
+  | ServerWelcomeMessage
+  | ServerAuthChallengeMessage
+  | ServerErrorMessage
+  | ServerLobbyLockedMessage
+  | ServerRoomCreatedMessage
+  | ServerRoomListMessage
+  | ServerRoomUpdateMessage
+  | ServerRoomAvailableMessage
+  | ServerLeaderboardMessage
+  | ServerQueueStatusMessage
+  | ServerQueueLeftMessage
+  | ServerMatchFoundMessage
+  | ServerTournamentGameMessage
+  | ServerPlayerJoinedMessage
+  | ServerPlayerReadyMessage
+  | ServerLobbyCountdownMessage
+  | ServerPlayerLeftMessage
+  | ServerPlayerDisconnectedMessage
+  | ServerPlayerReconnectedMessage
+  | ServerSessionResumedMessage
+  | ServerPlayerMovedMessage
+  | ServerGameStateMessage
+  | ServerRoleAssignedMessage
+  | ServerTasksAssignedMessage
+  | ServerActionCommittedMessage
+  | ServerActionRevealedMessage
+  | ServerRoundResolvedMessage
+  | ServerKillOccurredMessage
+  | ServerPhaseChangedMessage
+  | ServerDiscussionTurnMessage
+  | ServerYourTurnToSpeakMessage
+  | ServerVoteCastMessage
+  | ServerPlayerEjectedMessage
+  | ServerTaskCompletedMessage
+  | ServerGameEndedMessage
+  | ServerBodyReportedMessage
+  | ServerWithdrawResultMessage
+  | ServerAgentCreatedMessage
+  | ServerAgentListMessage
+  | ServerWalletAssignedMessage
+  | ServerAuthenticatedMessage
+  | ServerBalanceMessage
+  | ServerWagerRequiredMessage
+  | ServerWagerAcceptedMessage
+  | ServerWagerFailedMessage
+  | ServerDepositConfirmedMessage
+  | ServerPotUpdatedMessage
+  | ServerMeetingCalledMessage
+  | ServerChatBroadcastMessage
+  | ServerSabotageStartedMessage
+  | ServerSabotageFixedMessage
+  | ServerSabotageFailedMessage
+  | ServerPlayerVentedMessage
+  | ServerCameraFeedMessage
+  | ServerCameraStatusMessage;
+
+export interface AuthChallenge {
+  nonce: string;
+  message: string; // Exact text to sign with personal_sign (EIP-191)
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface ServerWelcomeMessage {
+  type: "server:welcome";
+  connectionId: string;
+  timestamp: number;
+  authChallenge: AuthChallenge;
+}
+
+// Sent when the previous challenge was used up or expired
+export interface ServerAuthChallengeMessage {
+  type: "server:auth_challenge";
+  authChallenge: AuthChallenge;
+}
+
+export interface ServerErrorMessage {
+  type: "server:error";
+  code: string;
+  message: string;
+  details?: MessageIssue[]; // INVALID_MESSAGE: every field that failed its schema
+  retryAfter?: number; // RATE_LIMITED: ms until the next message of that type is accepted
+}
+
+// One schema failure in a client message; path is e.g. "action.target"
+export interface MessageIssue {
+  path: string;
+  message: string;
+}
+
+export interface ServerLobbyLockedMessage {
+  type: "server:lobby_locked";
+  gameId: string;
+  message: string;
+}
+
+export interface ServerRoomCreatedMessage {
+  type: "server:room_created";
+  room: RoomState;
+}
+
+export interface RoomSlotInfo {
+  id: number;
+  state: "active" | "cooldown" | "empty";
+  roomId: string | null;
+  cooldownEndTime: number | null;
+  cooldownRemaining: number | null;
+}
+
+export interface ServerStats {
+  connections: {
+    total: number;
+    agents: number;
+    spectators: number;
+  };
+  rooms: {
+    total: number;
+    maxRooms?: number;
+    lobby: number;
+    playing: number;
+    totalPlayers: number;
+  };
+  limits: {
+    maxRooms?: number;
+    maxPlayersPerRoom: number;
+    minPlayersToStart: number;
+    fillWaitDuration?: number;
+    cooldownDuration?: number;
+  };
+  slots?: RoomSlotInfo[];
+}
+
+export interface ServerRoomListMessage {
+  type: "server:room_list";
+  rooms: RoomState[];
+  stats?: ServerStats;
+}
+
+export interface ServerRoomUpdateMessage {
+  type: "server:room_update";
+  room: RoomState;
+}
+
+export interface ServerRoomAvailableMessage {
+  type: "server:room_available";
+  roomId: string;
+  slotId: number;
+}
+
+export interface ServerLeaderboardMessage {
+  type: "server:leaderboard";
+  agents: AgentStats[];
+  timestamp: number;
+}
+
+// Sent on client:queue and whenever the agent's place in the queue changes
+export interface ServerQueueStatusMessage {
+  type: "server:queue_status";
+  position: number; // 1-based, among agents queued for the same wager
+  queueSize: number;
+  wagerAmount: string;
+  rating: number;
+  estimatedWait: number | null; // ms; null until the server has matched a game
+  timestamp: number;
+}
+
+export interface ServerQueueLeftMessage {
+  type: "server:queue_left";
+  reason: "dequeued" | "joined_room";
+  timestamp: number;
+}
+
+// A room was created for this group; join it before joinDeadline
+export interface ServerMatchFoundMessage {
+  type: "server:match_found";
+  roomId: string;
+  players: string[]; // Everyone the room is reserved for
+  wagerAmount: string;
+  averageRating: number;
+  waited: number; // ms this agent spent in the queue
+  joinDeadline: number; // The game starts with whoever has joined by then
+  timestamp: number;
+}
+
+// This agent is seated at a table in the next tournament round; join the
+// room before joinDeadline
+export interface ServerTournamentGameMessage {
+  type: "server:tournament_game";
+  tournamentId: string;
+  name: string;
+  round: number;
+  totalRounds: number;
+  roomId: string;
+  players: string[];
+  joinDeadline: number;
+  timestamp: number;
+}
+
+export interface ServerPlayerJoinedMessage {
+  type: "server:player_joined";
+  gameId: string;
+  player: PlayerState;
+}
+
+export interface ServerPlayerReadyMessage {
+  type: "server:player_ready";
+  gameId: string;
+  address: string;
+  ready: boolean;
+  readyCount: number;
+  playerCount: number;
+}
+
+// Sent when the countdown starts, and with startsAt null when a join, leave
+// or un-ready cancels it
+export interface ServerLobbyCountdownMessage {
+  type: "server:lobby_countdown";
+  gameId: string;
+  startsAt: number | null;
+  readyCount: number;
+  playerCount: number;
+  minPlayers: number;
+  timestamp: number;
+}
+
+export interface ServerPlayerLeftMessage {
+  type: "server:player_left";
+  gameId: string;
+  address: string;
+}
+
+// The player's connection dropped; their seat is held until graceEndTime
+export interface ServerPlayerDisconnectedMessage {
+  type: "server:player_disconnected";
+  gameId: string;
+  address: string;
+  graceEndTime: number;
+}
+
+export interface ServerPlayerReconnectedMessage {
+  type: "server:player_reconnected";
+  gameId: string;
+  address: string;
+}
+
+// Reply to client:resume, followed by the room, role, tasks and game state
+export interface ServerSessionResumedMessage {
+  type: "server:session_resumed";
+  address: string;
+  roomId: string | null; // Room whose seat was reclaimed, if any
+  sessionToken: string;
+  timestamp: number;
+}
+
+export interface ServerPlayerMovedMessage {
+  type: "server:player_moved";
+  gameId: string;
+  address: string;
+  from: Location;
+  to: Location;
+  round: number;
+  timestamp: number;
+}
+
+export interface ServerGameStateMessage {
+  type: "server:game_state";
+  gameId: string;
+  state: GameStateSnapshot;
+}
+
+// Sent privately to each player at game start and again when they reconnect
+export interface ServerRoleAssignedMessage {
+  type: "server:role_assigned";
+  gameId: string;
+  role: Role;
+  teammates?: string[]; // Fellow impostors, only sent to impostors
+  timestamp: number;
+}
+
+// Sent privately to each crewmate at game start, on reconnect, and whenever
+// one of their tasks advances a step
+export interface ServerTasksAssignedMessage {
+  type: "server:tasks_assigned";
+  gameId: string;
+  tasks: AssignedTask[];
+  timestamp: number;
+}
+
+// Progress of an action round; never includes what was committed
+export interface ServerActionCommittedMessage {
+  type: "server:action_committed";
+  gameId: string;
+  round: number;
+  player: string;
+  committedCount: number;
+  expectedCount: number; // Alive players
+  timestamp: number;
+}
+
+export interface ServerActionRevealedMessage {
+  type: "server:action_revealed";
+  gameId: string;
+  round: number;
+  player: string;
+  revealedCount: number;
+  expectedCount: number; // Players who committed
+  timestamp: number;
+}
+
+export interface ServerRoundResolvedMessage {
+  type: "server:round_resolved";
+  gameId: string;
+  round: number;
+  resolvedCount: number;
+  forfeited: string[]; // Committed but never produced a valid reveal
+  timestamp: number;
+}
+
+export interface ServerKillOccurredMessage {
+  type: "server:kill_occurred";
+  gameId: string;
+  killer: string;
+  victim: string;
+  location: Location;
+  round: number;
+  timestamp: number;
+}
+
+export interface ServerPhaseChangedMessage {
+  type: "server:phase_changed";
+  gameId: string;
+  phase: GamePhase;
+  previousPhase: GamePhase;
+  round: number;
+  phaseEndTime: number;
+  seedHash?: string; // Only on the game-start transition; same as the room's seedHash
+  timestamp: number;
+}
+
+// Turn-based discussion: who holds the floor now. speaker is null once every
+// slot is done and chat is open for the rebuttal.
+export interface ServerDiscussionTurnMessage {
+  type: "server:discussion_turn";
+  gameId: string;
+  speaker: string | null;
+  turn: number; // 0-based slot index; equals turns during the rebuttal
+  turns: number;
+  round: number;
+  turnEndTime: number;
+  timestamp: number;
+}
+
+// Sent only to the player whose slot just opened. Their first chat message
+// ends the slot early.
+export interface ServerYourTurnToSpeakMessage {
+  type: "server:your_turn_to_speak";
+  gameId: string;
+  turn: number;
+  turns: number;
+  round: number;
+  deadline: number;
+  timestamp: number;
+}
+
+export interface ServerVoteCastMessage {
+  type: "server:vote_cast";
+  gameId: string;
+  voter: string;
+  target?: string | null; // Omitted in rooms with anonymous votes
+  round: number;
+  timestamp: number;
+}
+
+export interface ServerPlayerEjectedMessage {
+  type: "server:player_ejected";
+  gameId: string;
+  ejected: string;
+  wasImpostor?: boolean; // Omitted in rooms without confirmed ejects
+  round: number;
+  timestamp: number;
+}
+
+export interface ServerTaskCompletedMessage {
+  type: "server:task_completed";
+  gameId: string;
+  player: string;
+  tasksCompleted: number;
+  totalTasks: number;
+  totalProgress: number; // Percentage
+  timestamp: number;
+}
+
+export interface ServerGameEndedMessage {
+  type: "server:game_ended";
+  gameId: string;
+  crewmatesWon: boolean;
+  reason: "tasks" | "votes" | "kills";
+  winners: string[];
+  losers: string[];
+  totalPot: string;
+  winningsPerPlayer: string;
+  seed?: string; // Revealed game seed; check against the published seedHash
+  timestamp: number;
+}
+
+export interface ServerBodyReportedMessage {
+  type: "server:body_reported";
+  gameId: string;
+  reporter: string;
+  victim: string;
+  location: Location;
+  round: number;
+  timestamp: number;
+}
+
+export interface ServerWithdrawResultMessage {
+  type: "server:withdraw_result";
+  success: boolean;
+  agentAddress: string;
+  txHash?: string;
+  error?: string;
+  timestamp: number;
+}
+
+export interface ServerAgentCreatedMessage {
+  type: "server:agent_created";
+  success: boolean;
+  agentAddress?: string;
+  userId?: string;
+  error?: string;
+  timestamp: number;
+}
+
+export interface ServerAgentListMessage {
+  type: "server:agent_list";
+  agents: Array<{
+    address: string;
+    userId: string;
+    createdAt: number;
+  }>;
+  timestamp: number;
+}
+
+export interface ServerWalletAssignedMessage {
+  type: "server:wallet_assigned";
+  success: boolean;
+  address?: string; // The newly created wallet address
+  userId?: string; // Privy user ID
+  error?: string; // Error message if failed
+  timestamp: number;
+}
+
+export interface ServerAuthenticatedMessage {
+  type: "server:authenticated";
+  success: boolean;
+  address: string; // The authenticated wallet address
+  name: string; // Display name
+  isNewWallet: boolean; // True if wallet was just created
+  sessionToken?: string; // Send with client:resume after a dropped connection
+  timestamp: number;
+}
+
+// ============ SERVER WAGER MESSAGES ============
+
+export interface ServerBalanceMessage {
+  type: "server:balance";
+  address: string;
+  balance: string; // Balance in wei as string
+  totalDeposited?: string;
+  totalWon?: string;
+  totalLost?: string;
+  wagerAmount?: string; // Required wager amount
+  canAfford?: boolean; // Whether agent can afford the wager
+  timestamp: number;
+}
+
+export interface ServerWagerRequiredMessage {
+  type: "server:wager_required";
+  gameId: string;
+  amount: string; // Required wager amount in wei
+  currentBalance: string; // Agent's current balance
+  canAfford: boolean; // Whether agent can afford the wager
+  vaultAddress?: string; // WagerVault contract address for on-chain wagering
+  timestamp: number;
+}
+
+export interface ServerWagerAcceptedMessage {
+  type: "server:wager_accepted";
+  gameId: string;
+  amount: string; // Amount wagered
+  newBalance: string; // Balance after wager
+  totalPot: string; // Total pot for the game
+  timestamp: number;
+}
+
+export interface ServerWagerFailedMessage {
+  type: "server:wager_failed";
+  gameId: string;
+  reason?: string;
+  error?: string; // Detailed error message
+  requiredAmount: string;
+  currentBalance: string;
+  timestamp: number;
+}
+
+export interface ServerDepositConfirmedMessage {
+  type: "server:deposit_confirmed";
+  address: string;
+  amount: string;
+  newBalance: string;
+  timestamp: number;
+}
+
+export interface ServerPotUpdatedMessage {
+  type: "server:pot_updated";
+  gameId: string;
+  totalPot: string;
+  playerCount: number;
+  timestamp: number;
+}
+
+export interface ServerMeetingCalledMessage {
+  type: "server:meeting_called";
+  gameId: string;
+  caller: string;
+  meetingsRemaining: number;
+  timestamp: number;
+}
+
+export interface ServerChatBroadcastMessage {
+  type: "server:chat";
+  gameId: string;
+  sender: string;
+  senderName: string;
+  message: string;
+  claims?: ChatClaim[]; // As validated by the server, only when the sender attached any
+  isGhostChat: boolean; // True if from/to dead players only
+  timestamp: number;
+}
+
+export interface ServerSabotageStartedMessage {
+  type: "server:sabotage_started";
+  gameId: string;
+  sabotageType: SabotageType;
+  sabotager: string;
+  timeLimit: number; // Seconds until critical failure (0 if not critical)
+  fixLocations: Location[]; // Where to go to fix
+  timestamp: number;
+}
+
+export interface ServerSabotageFixedMessage {
+  type: "server:sabotage_fixed";
+  gameId: string;
+  sabotageType: SabotageType;
+  fixedBy: string;
+  location: Location;
+  timestamp: number;
+}
+
+export interface ServerSabotageFailedMessage {
+  type: "server:sabotage_failed";
+  gameId: string;
+  sabotageType: SabotageType;
+  reason: string; // "timeout" for critical sabotages
+  timestamp: number;
+}
+
+export interface ServerPlayerVentedMessage {
+  type: "server:player_vented";
+  gameId: string;
+  player: string;
+  action: "enter" | "exit" | "move";
+  fromLocation: Location;
+  toLocation?: Location; // For move action
+  timestamp: number;
+}
+
+export interface CameraPlayerInfo {
+  address: string;
+  location: Location;
+  isAlive: boolean;
+}
+
+export interface ServerCameraFeedMessage {
+  type: "server:camera_feed";
+  gameId: string;
+  playersVisible: CameraPlayerInfo[]; // Players in camera-monitored locations
+  timestamp: number;
+}
+
+export interface ServerCameraStatusMessage {
+  type: "server:camera_status";
+  gameId: string;
+  camerasInUse: boolean; // Whether anyone is watching cameras (for red light)
+  watcherCount: number;
+  timestamp: number;
+}
+
+// Union type for all messages
+export type WebSocketMessage = AgentMessage | ServerMessage;
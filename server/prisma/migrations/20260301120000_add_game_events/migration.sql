@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "GameEvent" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "audience" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GameEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GameEvent_roomId_idx" ON "GameEvent"("roomId");
+
+-- CreateIndex
+CREATE INDEX "GameEvent_type_idx" ON "GameEvent"("type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GameEvent_roomId_sequence_key" ON "GameEvent"("roomId", "sequence");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "impostorCount" INTEGER,
+ADD COLUMN     "joinOrder" TEXT[],
+ADD COLUMN     "seed" TEXT,
+ADD COLUMN     "seedHash" TEXT,
+ADD COLUMN     "tasksPerPlayer" INTEGER;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Agent" ADD COLUMN     "crewmateRating" DOUBLE PRECISION NOT NULL DEFAULT 1200,
+ADD COLUMN     "impostorRating" DOUBLE PRECISION NOT NULL DEFAULT 1200,
+ADD COLUMN     "rating" DOUBLE PRECISION NOT NULL DEFAULT 1200;
+
+-- CreateTable
+CREATE TABLE "RatingHistory" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "won" BOOLEAN NOT NULL,
+    "rating" DOUBLE PRECISION NOT NULL,
+    "ratingDelta" DOUBLE PRECISION NOT NULL,
+    "roleRating" DOUBLE PRECISION NOT NULL,
+    "roleRatingDelta" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RatingHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Agent_rating_idx" ON "Agent"("rating");
+
+-- CreateIndex
+CREATE INDEX "RatingHistory_agentId_createdAt_idx" ON "RatingHistory"("agentId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatingHistory_roomId_agentId_key" ON "RatingHistory"("roomId", "agentId");
+
+-- AddForeignKey
+ALTER TABLE "RatingHistory" ADD CONSTRAINT "RatingHistory_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "Agent"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "Tournament" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "totalRounds" INTEGER NOT NULL,
+    "currentRound" INTEGER NOT NULL DEFAULT 0,
+    "tableSize" INTEGER NOT NULL,
+    "impostorCount" INTEGER NOT NULL,
+    "wagerAmount" TEXT,
+    "settings" JSONB NOT NULL,
+    "creator" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Tournament_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentGame" (
+    "id" TEXT NOT NULL,
+    "tournamentId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "table" INTEGER NOT NULL,
+    "roomId" TEXT,
+    "players" TEXT[],
+    "status" TEXT NOT NULL,
+    "crewmatesWon" BOOLEAN,
+    "winners" TEXT[],
+
+    CONSTRAINT "TournamentGame_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentStanding" (
+    "id" TEXT NOT NULL,
+    "tournamentId" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "gamesPlayed" INTEGER NOT NULL DEFAULT 0,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "impostorGames" INTEGER NOT NULL DEFAULT 0,
+    "impostorWins" INTEGER NOT NULL DEFAULT 0,
+    "survived" INTEGER NOT NULL DEFAULT 0,
+    "tasksCompleted" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "TournamentStanding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Tournament_status_idx" ON "Tournament"("status");
+
+-- CreateIndex
+CREATE INDEX "Tournament_createdAt_idx" ON "Tournament"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "TournamentGame_roomId_idx" ON "TournamentGame"("roomId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentGame_tournamentId_round_table_key" ON "TournamentGame"("tournamentId", "round", "table");
+
+-- CreateIndex
+CREATE INDEX "TournamentStanding_walletAddress_idx" ON "TournamentStanding"("walletAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentStanding_tournamentId_walletAddress_key" ON "TournamentStanding"("tournamentId", "walletAddress");
+
+-- AddForeignKey
+ALTER TABLE "TournamentGame" ADD CONSTRAINT "TournamentGame_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentStanding" ADD CONSTRAINT "TournamentStanding_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -1,6 +1,10 @@
 import { WebSocket } from "ws";
 import { v4 as uuidv4 } from "uuid";
+import { ethers } from "ethers";
 import { createLogger } from "./logger.js";
+import { hashGameAction } from "./GameStateManager.js";
+import { realTimeScheduler, type Scheduler } from "./Scheduler.js";
+import { ActionType, type GameAction } from "./types.js";
 
 const logger = createLogger("agent-simulator");
 
@@ -24,6 +28,7 @@ const COLOR_NAMES = [
 
 interface SimulatedAgent {
   id: string;
+  wallet: ethers.HDNodeWallet; // Throwaway key used to answer the auth challenge
   address: string;
   name: string;
   colorId: number;
@@ -34,6 +39,7 @@ interface SimulatedAgent {
   totalTasks: number;
   taskLocations: number[]; // Assigned task locations
   hasVoted: boolean;
+  pendingAction: { action: GameAction; salt: string } | null; // Committed, not yet revealed
   ws: WebSocket | null;
 }
 
@@ -54,19 +60,16 @@ export interface SimulatorConfig {
   roomId?: string; // If provided, join this room. If not, wait for rooms.
   agentCount: number;
   impostorCount: number;
-  moveInterval: number;
-  taskInterval: number;
-  killInterval: number;
+  scheduler: Scheduler; // Share a VirtualScheduler with the server to fast-forward
 }
 
 export class AgentSimulator {
   private agents: SimulatedAgent[] = [];
   private config: SimulatorConfig;
   private roomId: string | null = null;
-  private intervals: NodeJS.Timeout[] = [];
   private isRunning: boolean = false;
   private round: number = 1;
-  private currentPhase: number = 0; // 0=Lobby, 2=ActionCommit, 4=Discussion, 5=Voting, 6=VoteResult, 7=Ended
+  private currentPhase: number = 0; // 0=Lobby, 2=ActionCommit, 3=ActionReveal, 4=Discussion, 5=Voting, 6=VoteResult, 7=Ended
   private deadBodies: DeadBodyInfo[] = [];
   private controlWs: WebSocket | null = null;
 
@@ -76,9 +79,7 @@ export class AgentSimulator {
       roomId: config.roomId,
       agentCount: config.agentCount || 6,
       impostorCount: config.impostorCount || 1,
-      moveInterval: config.moveInterval || 3000,
-      taskInterval: config.taskInterval || 5000,
-      killInterval: config.killInterval || 8000,
+      scheduler: config.scheduler || realTimeScheduler,
     };
   }
 
@@ -104,11 +105,6 @@ export class AgentSimulator {
   stop(): void {
     this.isRunning = false;
 
-    for (const interval of this.intervals) {
-      clearInterval(interval);
-    }
-    this.intervals = [];
-
     for (const agent of this.agents) {
       if (agent.ws) {
         agent.ws.close();
@@ -134,9 +130,11 @@ export class AgentSimulator {
     }
 
     for (let i = 0; i < this.config.agentCount; i++) {
+      const wallet = ethers.Wallet.createRandom();
       const agent: SimulatedAgent = {
         id: uuidv4(),
-        address: `0x${(i + 1).toString(16).padStart(40, "0")}`,
+        wallet,
+        address: wallet.address,
         name: `Agent ${COLOR_NAMES[i % 12]}`,
         colorId: i % 12,
         location: 0,
@@ -146,6 +144,7 @@ export class AgentSimulator {
         totalTasks: 5,
         taskLocations: this.generateTaskLocations(5),
         hasVoted: false,
+        pendingAction: null,
         ws: null,
       };
       this.agents.push(agent);
@@ -208,6 +207,9 @@ export class AgentSimulator {
       case "server:phase_changed":
         this.handlePhaseChange(message.phase, message.round);
         break;
+      case "server:player_moved":
+        this.handlePlayerMoved(message.address, message.to);
+        break;
       case "server:kill_occurred":
         this.handleKillOccurred(message.victim, message.location);
         break;
@@ -246,6 +248,25 @@ export class AgentSimulator {
     if (phase === 2) {
       this.deadBodies = this.deadBodies.filter(b => !b.reported);
     }
+
+    // Every action goes through commit-reveal: commit when the round opens,
+    // reveal once the server asks for reveals
+    if (!this.isRunning) return;
+    if (phase === 2) {
+      this.commitActions();
+    } else if (phase === 3) {
+      this.revealActions();
+    }
+  }
+
+  /**
+   * Handle a move the server accepted
+   */
+  private handlePlayerMoved(address: string, to: number): void {
+    const agent = this.agents.find(a => a.address.toLowerCase() === address.toLowerCase());
+    if (agent) {
+      agent.location = to;
+    }
   }
 
   /**
@@ -295,11 +316,9 @@ export class AgentSimulator {
   private handleGameEnded(crewmatesWon: boolean): void {
     logger.info(`Game ended! ${crewmatesWon ? "Crewmates" : "Impostors"} win!`);
     this.currentPhase = 7;
-    // Stop all action loops
-    for (const interval of this.intervals) {
-      clearInterval(interval);
+    for (const agent of this.agents) {
+      agent.pendingAction = null;
     }
-    this.intervals = [];
   }
 
   /**
@@ -324,10 +343,8 @@ export class AgentSimulator {
   private handleRoomUpdate(room: RoomInfo): void {
     if (room.roomId !== this.roomId) return;
 
-    if (room.phase === "playing" && this.intervals.length === 0) {
-      logger.info("Game started! Beginning agent actions...");
-      this.currentPhase = 2; // ActionCommit
-      this.startAgentActions();
+    if (room.phase === "playing" && this.currentPhase === 0) {
+      logger.info("Game started! Agents act once the first round opens...");
     }
   }
 
@@ -360,27 +377,50 @@ export class AgentSimulator {
       const ws = new WebSocket(this.config.serverUrl);
       agent.ws = ws;
 
-      ws.on("open", () => {
-        // Authenticate as agent
-        ws.send(JSON.stringify({
-          type: "agent:authenticate",
-          address: agent.address,
-        }));
-
-        // Join room
-        ws.send(JSON.stringify({
-          type: "client:join_room",
-          roomId,
-          colorId: agent.colorId,
-        }));
-
-        logger.debug(`${agent.name} connected`);
-        resolve();
-      });
-
-      ws.on("message", (data) => {
+      ws.on("message", async (data) => {
         const message = JSON.parse(data.toString());
-        if (message.type === "server:error") {
+        if (message.type === "server:welcome") {
+          // Authenticate as agent by signing the welcome challenge
+          const signature = await agent.wallet.signMessage(
+            message.authChallenge.message,
+          );
+          ws.send(JSON.stringify({
+            type: "agent:authenticate",
+            address: agent.address,
+            signature,
+          }));
+
+          // Join room
+          ws.send(JSON.stringify({
+            type: "client:join_room",
+            roomId,
+            colorId: agent.colorId,
+          }));
+
+          logger.debug(`${agent.name} connected`);
+          resolve();
+        } else if (
+          message.type === "server:player_joined" &&
+          message.player.address.toLowerCase() === agent.address.toLowerCase()
+        ) {
+          // Seated; the game starts once everyone in the lobby is ready
+          ws.send(JSON.stringify({
+            type: "client:ready",
+            roomId,
+          }));
+        } else if (message.type === "server:tasks_assigned") {
+          // Work towards the next step of each unfinished task
+          const tasks = message.tasks as {
+            steps: number[];
+            currentStep: number;
+            completed: boolean;
+          }[];
+          agent.taskLocations = tasks
+            .filter((t) => !t.completed)
+            .map((t) => t.steps[t.currentStep]);
+          agent.tasksCompleted = tasks.filter((t) => t.completed).length;
+          agent.totalTasks = tasks.length;
+        } else if (message.type === "server:error") {
           logger.error(`${agent.name} error: ${message.message}`);
         }
       });
@@ -393,171 +433,96 @@ export class AgentSimulator {
   }
 
   /**
-   * Start agent action loops
+   * Commit one action for every living agent in the round that just opened
    */
-  private startAgentActions(): void {
-    // Movement loop
-    const moveInterval = setInterval(() => {
-      if (!this.isRunning) return;
-      this.simulateMovement();
-    }, this.config.moveInterval);
-    this.intervals.push(moveInterval);
-
-    // Task loop
-    const taskInterval = setInterval(() => {
-      if (!this.isRunning) return;
-      this.simulateTask();
-    }, this.config.taskInterval);
-    this.intervals.push(taskInterval);
-
-    // Kill loop
-    const killInterval = setInterval(() => {
-      if (!this.isRunning) return;
-      this.simulateKill();
-    }, this.config.killInterval);
-    this.intervals.push(killInterval);
-  }
-
-  /**
-   * Simulate agent movement
-   */
-  private simulateMovement(): void {
-    // Only move during ActionCommit phase
-    if (this.currentPhase !== 2) return;
-
-    const aliveAgents = this.agents.filter((a) => a.isAlive);
-    if (aliveAgents.length === 0 || Math.random() > 0.6) return;
-
-    const mover = aliveAgents[Math.floor(Math.random() * aliveAgents.length)];
-    const adjacent = ADJACENT_ROOMS[mover.location] || [];
-    if (adjacent.length === 0) return;
+  private commitActions(): void {
+    for (const agent of this.agents) {
+      if (!agent.isAlive || !agent.ws || agent.ws.readyState !== WebSocket.OPEN) {
+        agent.pendingAction = null;
+        continue;
+      }
 
-    const newLocation = adjacent[Math.floor(Math.random() * adjacent.length)];
-    const previousLocation = mover.location;
-    mover.location = newLocation;
+      const action = agent.isImpostor
+        ? this.decideImpostorAction(agent)
+        : this.decideCrewmateAction(agent);
+      const salt = ethers.hexlify(ethers.randomBytes(32));
+      agent.pendingAction = { action, salt };
 
-    if (mover.ws && mover.ws.readyState === WebSocket.OPEN) {
-      mover.ws.send(JSON.stringify({
-        type: "agent:position_update",
+      agent.ws.send(JSON.stringify({
+        type: "agent:commit_action",
         gameId: this.roomId,
-        location: newLocation,
         round: this.round,
+        commitHash: hashGameAction(action, salt, agent.address),
       }));
     }
-
-    logger.debug(`${mover.name} moved to location ${newLocation}`);
-
-    // Check for dead bodies in new location (crewmates only)
-    if (!mover.isImpostor) {
-      this.checkForBodies(mover);
-    }
   }
 
   /**
-   * Check if agent finds a dead body and report it
+   * Reveal every action committed this round
    */
-  private checkForBodies(agent: SimulatedAgent): void {
-    const bodyAtLocation = this.deadBodies.find(
-      b => b.location === agent.location && !b.reported
-    );
-
-    if (bodyAtLocation) {
-      logger.info(`${agent.name} found a body at location ${agent.location}!`);
+  private revealActions(): void {
+    for (const agent of this.agents) {
+      const pending = agent.pendingAction;
+      agent.pendingAction = null;
+      if (!pending || !agent.ws || agent.ws.readyState !== WebSocket.OPEN) continue;
 
-      // Report the body
-      if (agent.ws && agent.ws.readyState === WebSocket.OPEN) {
-        agent.ws.send(JSON.stringify({
-          type: "agent:report_body",
-          gameId: this.roomId,
-          reporter: agent.address,
-          bodyLocation: agent.location,
-          round: this.round,
-        }));
-      }
+      agent.ws.send(JSON.stringify({
+        type: "agent:reveal_action",
+        gameId: this.roomId,
+        round: this.round,
+        action: pending.action,
+        salt: pending.salt,
+      }));
     }
   }
 
   /**
-   * Simulate task completion
+   * Report a body here, do a task step here, or wander
    */
-  private simulateTask(): void {
-    // Only do tasks during ActionCommit phase
-    if (this.currentPhase !== 2) return;
-
-    // Find crewmates who have a task at their current location
-    const workers = this.agents.filter((a) => {
-      if (!a.isAlive || a.isImpostor) return false;
-      if (a.tasksCompleted >= a.totalTasks) return false;
-      // Check if current location is in their task list
-      return a.taskLocations.includes(a.location);
-    });
-
-    if (workers.length === 0 || Math.random() > 0.5) return;
-
-    const worker = workers[Math.floor(Math.random() * workers.length)];
-
-    // Remove this location from their task list
-    const taskIndex = worker.taskLocations.indexOf(worker.location);
-    if (taskIndex > -1) {
-      worker.taskLocations.splice(taskIndex, 1);
+  private decideCrewmateAction(agent: SimulatedAgent): GameAction {
+    const bodyHere = this.deadBodies.some(
+      b => b.location === agent.location && !b.reported
+    );
+    if (bodyHere) {
+      logger.info(`${agent.name} found a body at location ${agent.location}!`);
+      return { type: ActionType.Report };
     }
 
-    worker.tasksCompleted++;
-
-    if (worker.ws && worker.ws.readyState === WebSocket.OPEN) {
-      worker.ws.send(JSON.stringify({
-        type: "agent:task_complete",
-        gameId: this.roomId,
-        player: worker.address,
-        tasksCompleted: worker.tasksCompleted,
-        totalTasks: worker.totalTasks,
-      }));
+    if (agent.taskLocations.includes(agent.location) && Math.random() < 0.5) {
+      // Remove this location until the server sends the updated task list
+      agent.taskLocations.splice(agent.taskLocations.indexOf(agent.location), 1);
+      logger.debug(`${agent.name} is doing a task step at location ${agent.location}`);
+      return { type: ActionType.DoTask };
     }
 
-    logger.debug(`${worker.name} completed task at location ${worker.location} (${worker.tasksCompleted}/${worker.totalTasks})`);
+    return this.decideMove(agent);
   }
 
   /**
-   * Simulate impostor kill
+   * Kill when alone with exactly one crewmate, otherwise wander
    */
-  private simulateKill(): void {
-    // Only kill during ActionCommit phase
-    if (this.currentPhase !== 2) return;
-
-    const impostor = this.agents.find((a) => a.isAlive && a.isImpostor);
-    if (!impostor) return;
-
-    // Find all alive players in same location (excluding impostor)
-    const playersInRoom = this.agents.filter(
-      (a) => a.isAlive && a.address !== impostor.address && a.location === impostor.location
+  private decideImpostorAction(impostor: SimulatedAgent): GameAction {
+    // Other impostors don't count as witnesses
+    const crewmatesHere = this.agents.filter(
+      (a) => a.isAlive && !a.isImpostor && a.location === impostor.location
     );
 
-    // Find potential targets (crewmates only)
-    const targets = playersInRoom.filter(a => !a.isImpostor);
-
-    // Check for witnesses (other impostors don't count as witnesses)
-    const witnesses = playersInRoom.filter(a => !a.isImpostor);
-
-    // Only kill if alone with exactly one target (no other witnesses)
-    if (targets.length !== 1 || witnesses.length !== 1) return;
-
-    if (Math.random() > 0.5) return;
+    if (crewmatesHere.length === 1 && Math.random() < 0.5) {
+      logger.info(`${impostor.name} is going for ${crewmatesHere[0].name}`);
+      return { type: ActionType.Kill, target: crewmatesHere[0].address };
+    }
 
-    const victim = targets[0];
-    victim.isAlive = false;
+    return this.decideMove(impostor);
+  }
 
-    if (impostor.ws && impostor.ws.readyState === WebSocket.OPEN) {
-      impostor.ws.send(JSON.stringify({
-        type: "agent:kill",
-        gameId: this.roomId,
-        killer: impostor.address,
-        victim: victim.address,
-        location: impostor.location,
-        round: this.round,
-      }));
+  private decideMove(agent: SimulatedAgent): GameAction {
+    const adjacent = ADJACENT_ROOMS[agent.location] || [];
+    if (adjacent.length === 0 || Math.random() > 0.6) {
+      return { type: ActionType.Skip };
     }
 
-    logger.info(`${impostor.name} killed ${victim.name}!`);
+    const destination = adjacent[Math.floor(Math.random() * adjacent.length)];
+    return { type: ActionType.Move, destination };
   }
 
   /**
@@ -570,7 +535,7 @@ export class AgentSimulator {
       // Random delay between 1-6 seconds
       const delay = 1000 + Math.random() * 5000;
 
-      setTimeout(() => {
+      this.config.scheduler.setTimeout(() => {
         this.castAgentVote(agent);
       }, delay);
     }
@@ -0,0 +1,122 @@
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthService } from "./AuthService.js";
+
+const MINUTE = 60 * 1000;
+
+let auth: AuthService;
+let wallet: ethers.HDNodeWallet;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: 0 });
+  auth = new AuthService();
+  wallet = ethers.Wallet.createRandom();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("AuthService.verifySignature", () => {
+  it("accepts the claimed wallet signing the challenge, in any address case", () => {
+    const challenge = auth.createChallenge("conn-1");
+    const signature = wallet.signMessageSync(challenge.message);
+
+    expect(auth.verifySignature(challenge, wallet.address, signature)).toEqual({
+      valid: true,
+    });
+    expect(
+      auth.verifySignature(challenge, wallet.address.toLowerCase(), signature),
+    ).toEqual({ valid: true });
+  });
+
+  it("binds the challenge to its connection with a fresh nonce", () => {
+    const first = auth.createChallenge("conn-1");
+    const second = auth.createChallenge("conn-1");
+
+    expect(first.message).toContain("Connection ID: conn-1");
+    expect(first.nonce).not.toBe(second.nonce);
+    // A signature over one challenge doesn't answer another
+    const signature = wallet.signMessageSync(first.message);
+    expect(auth.verifySignature(second, wallet.address, signature)).toMatchObject({
+      valid: false,
+      reason: "Signature does not match the claimed address",
+    });
+  });
+
+  it("rejects a signature from another wallet", () => {
+    const challenge = auth.createChallenge("conn-1");
+    const other = ethers.Wallet.createRandom();
+
+    expect(
+      auth.verifySignature(
+        challenge,
+        wallet.address,
+        other.signMessageSync(challenge.message),
+      ),
+    ).toMatchObject({ valid: false, reason: "Signature does not match the claimed address" });
+  });
+
+  it("rejects missing challenges, missing signatures and malformed ones", () => {
+    const challenge = auth.createChallenge("conn-1");
+
+    expect(auth.verifySignature(undefined, wallet.address, "0x00")).toMatchObject({
+      valid: false,
+      reason: "No pending authentication challenge for this connection",
+    });
+    expect(auth.verifySignature(challenge, wallet.address, undefined)).toMatchObject({
+      valid: false,
+      reason: "A signature over the welcome challenge is required",
+    });
+    expect(auth.verifySignature(challenge, wallet.address, "0x1234")).toMatchObject({
+      valid: false,
+      reason: "Malformed signature",
+    });
+  });
+
+  it("rejects a challenge answered after it expired", () => {
+    const challenge = auth.createChallenge("conn-1");
+    const signature = wallet.signMessageSync(challenge.message);
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(auth.verifySignature(challenge, wallet.address, signature).valid).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(auth.verifySignature(challenge, wallet.address, signature)).toMatchObject({
+      valid: false,
+      reason: "Authentication challenge expired",
+    });
+  });
+});
+
+describe("AuthService sessions", () => {
+  it("resolves a token to its wallet until it expires a day later", () => {
+    const token = auth.createSession(wallet.address, "Agent");
+
+    vi.advanceTimersByTime(24 * 60 * MINUTE);
+    expect(auth.resolveSession(token)).toEqual({ address: wallet.address, name: "Agent" });
+
+    vi.advanceTimersByTime(1);
+    expect(auth.resolveSession(token)).toBeNull();
+  });
+
+  it("keeps only a wallet's latest token", () => {
+    const first = auth.createSession(wallet.address);
+    const second = auth.createSession(wallet.address.toLowerCase());
+
+    expect(auth.resolveSession(first)).toBeNull();
+    expect(auth.resolveSession(second)).not.toBeNull();
+  });
+
+  it("carries live sessions across a restart without writing their tokens down", () => {
+    const token = auth.createSession(wallet.address);
+    const json = JSON.stringify(auth.exportSessions([wallet.address]));
+    expect(json).not.toContain(token);
+
+    const saved = JSON.parse(json);
+    const restarted = new AuthService();
+    restarted.restoreSessions(saved);
+
+    expect(restarted.resolveSession(token)).toMatchObject({ address: wallet.address });
+  });
+});
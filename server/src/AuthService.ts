@@ -0,0 +1,203 @@
+import { ethers } from "ethers";
+import { createHash, randomBytes } from "crypto";
+import { createLogger } from "./logger.js";
+import type { AuthChallenge } from "./types.js";
+
+const logger = createLogger("auth-service");
+
+// How long a wallet has to answer a challenge before it must request a new one
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+// How long a session token can be used to resume after authenticating
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const AUTH_DOMAIN = process.env.AUTH_DOMAIN || "amongus-onchain";
+
+interface Session {
+  address: string;
+  name?: string;
+  expiresAt: number;
+}
+
+// A session as stored in a room snapshot: the token itself is never written
+// down, only its hash
+export interface SerializedSession extends Session {
+  tokenHash: string;
+}
+
+export type SignatureVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * Issues per-connection nonce challenges and verifies EIP-191 signatures over them,
+ * plus the session tokens players use to resume after a dropped connection.
+ * The signed message follows the SIWE layout so wallets render it readably.
+ */
+export class AuthService {
+  // session token hash -> authenticated wallet
+  private sessions: Map<string, Session> = new Map();
+  // lowercase address -> its current session token hash
+  private sessionsByAddress: Map<string, string> = new Map();
+
+  /**
+   * Create a fresh challenge for a connection
+   */
+  createChallenge(connectionId: string): AuthChallenge {
+    const nonce = randomBytes(16).toString("hex");
+    const issuedAt = Date.now();
+    const expiresAt = issuedAt + CHALLENGE_TTL_MS;
+
+    const message = [
+      `${AUTH_DOMAIN} wants you to sign in with your Ethereum account.`,
+      "",
+      "Sign this message to prove you control the wallet you are playing with.",
+      "",
+      `Connection ID: ${connectionId}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${new Date(issuedAt).toISOString()}`,
+      `Expiration Time: ${new Date(expiresAt).toISOString()}`,
+    ].join("\n");
+
+    return { nonce, message, issuedAt, expiresAt };
+  }
+
+  /**
+   * Check that `signature` is `address` signing the challenge message
+   */
+  verifySignature(
+    challenge: AuthChallenge | undefined,
+    address: string,
+    signature: string | undefined,
+  ): SignatureVerificationResult {
+    if (!challenge) {
+      return {
+        valid: false,
+        reason: "No pending authentication challenge for this connection",
+      };
+    }
+
+    if (Date.now() > challenge.expiresAt) {
+      return {
+        valid: false,
+        reason: "Authentication challenge expired",
+      };
+    }
+
+    if (!signature) {
+      return {
+        valid: false,
+        reason: "A signature over the welcome challenge is required",
+      };
+    }
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyMessage(challenge.message, signature);
+    } catch (error) {
+      logger.debug(`Malformed signature: ${error}`);
+      return {
+        valid: false,
+        reason: "Malformed signature",
+      };
+    }
+
+    if (recovered.toLowerCase() !== address.toLowerCase()) {
+      logger.warn(
+        `Signature mismatch: claimed ${address}, recovered ${recovered}`,
+      );
+      return {
+        valid: false,
+        reason: "Signature does not match the claimed address",
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Issue a resumable session token for an authenticated wallet. Replaces any
+   * earlier token for the same address.
+   */
+  createSession(address: string, name?: string): string {
+    const key = address.toLowerCase();
+    const previous = this.sessionsByAddress.get(key);
+    if (previous) {
+      this.sessions.delete(previous);
+    }
+
+    const token = randomBytes(32).toString("hex");
+    const tokenHash = hashToken(token);
+    this.sessions.set(tokenHash, {
+      address,
+      name,
+      expiresAt: Date.now() + SESSION_TTL_MS,
+    });
+    this.sessionsByAddress.set(key, tokenHash);
+    return token;
+  }
+
+  /**
+   * Look up the wallet a session token was issued to
+   */
+  resolveSession(token: string): { address: string; name?: string } | null {
+    const tokenHash = hashToken(token);
+    const session = this.sessions.get(tokenHash);
+    if (!session) return null;
+
+    if (Date.now() > session.expiresAt) {
+      this.sessions.delete(tokenHash);
+      this.sessionsByAddress.delete(session.address.toLowerCase());
+      return null;
+    }
+
+    return { address: session.address, name: session.name };
+  }
+
+  /**
+   * Serialize the live sessions of the given wallets for a room snapshot
+   */
+  exportSessions(addresses: string[]): SerializedSession[] {
+    const sessions: SerializedSession[] = [];
+    for (const address of addresses) {
+      const tokenHash = this.sessionsByAddress.get(address.toLowerCase());
+      const session = tokenHash && this.sessions.get(tokenHash);
+      if (tokenHash && session && Date.now() <= session.expiresAt) {
+        sessions.push({ tokenHash, ...session });
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Re-register sessions from a room snapshot after a restart, so players can
+   * resume with the tokens they were given before it. A wallet that already
+   * has a later session keeps that one.
+   */
+  restoreSessions(sessions: SerializedSession[]): void {
+    for (const { tokenHash, ...session } of sessions) {
+      // Snapshots from before tokens were hashed can't be trusted to resume
+      if (!tokenHash || Date.now() > session.expiresAt) continue;
+
+      const key = session.address.toLowerCase();
+      const current = this.sessionsByAddress.get(key);
+      const existing = current ? this.sessions.get(current) : undefined;
+      if (existing && existing.expiresAt >= session.expiresAt) continue;
+
+      if (current) {
+        this.sessions.delete(current);
+      }
+      this.sessions.set(tokenHash, session);
+      this.sessionsByAddress.set(key, tokenHash);
+    }
+  }
+}
+
+/**
+ * Sessions are looked up by the hash of their token, so a leaked snapshot
+ * can't be used to resume as someone else
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Singleton instance
+export const authService = new AuthService();
@@ -1,10 +1,62 @@
 import { PrismaClient, GameStatus, TransactionType } from "@prisma/client";
 import { createLogger } from "./logger.js";
+import type { RatingChange } from "./rating.js";
+import { compareStandings } from "./tournament.js";
+import type {
+  GameSettings,
+  LeaderboardSort,
+  TournamentFormat,
+  TournamentGame,
+  TournamentState,
+  TournamentStatus,
+} from "./types.js";
 
 const logger = createLogger("database-service");
 
+// A failed batch of game events is retried this many times, backing off by
+// EVENT_RETRY_DELAY_MS per attempt, before it is dropped
+const MAX_EVENT_WRITE_ATTEMPTS = 5;
+const EVENT_RETRY_DELAY_MS = 1000;
+
 type WriteOperation = () => Promise<void>;
 
+export interface GameEventRecord {
+  roomId: string;
+  sequence: number;
+  type: string;
+  payload: unknown;
+  audience?: string[];
+}
+
+// A stored tournament with its games and standings, as Prisma returns it
+interface TournamentRecord {
+  id: string;
+  name: string;
+  format: string;
+  status: string;
+  totalRounds: number;
+  currentRound: number;
+  tableSize: number;
+  impostorCount: number;
+  wagerAmount: string | null;
+  settings: unknown;
+  creator: string | null;
+  createdAt: Date;
+  endedAt: Date | null;
+  games: Array<Omit<TournamentGame, "status"> & { status: string }>;
+  standings: Array<{
+    walletAddress: string;
+    name: string;
+    points: number;
+    gamesPlayed: number;
+    wins: number;
+    impostorGames: number;
+    impostorWins: number;
+    survived: number;
+    tasksCompleted: number;
+  }>;
+}
+
 /**
  * DatabaseService handles all database operations with background writes
  * to prevent blocking agent calls and game logic.
@@ -14,6 +66,8 @@ export class DatabaseService {
   private writeQueue: WriteOperation[] = [];
   private isProcessing = false;
   private enabled = false;
+  private pendingGameEvents: GameEventRecord[] = [];
+  private gameEventWriteScheduled = false; // Until pendingGameEvents is drained
 
   constructor() {
     const databaseUrl = process.env.DATABASE_URL;
@@ -328,12 +382,12 @@ export class DatabaseService {
   /**
    * Get leaderboard
    */
-  async getLeaderboard(limit = 10) {
+  async getLeaderboard(limit = 10, sort: LeaderboardSort = "wins") {
     if (!this.enabled) return [];
 
     try {
       return await this.prisma.agent.findMany({
-        orderBy: { wins: "desc" },
+        orderBy: sort === "rating" ? { rating: "desc" } : { wins: "desc" },
         take: limit,
         select: {
           walletAddress: true,
@@ -343,6 +397,9 @@ export class DatabaseService {
           losses: true,
           kills: true,
           tasksCompleted: true,
+          rating: true,
+          crewmateRating: true,
+          impostorRating: true,
         },
       });
     } catch (error) {
@@ -351,6 +408,78 @@ export class DatabaseService {
     }
   }
 
+  // ============ Rating Operations ============
+
+  /**
+   * Store each agent's new ratings and log the change (background).
+   * Players without an agent record are skipped.
+   */
+  recordRatings(roomId: string, changes: RatingChange[]): void {
+    this.queueWrite(async () => {
+      for (const change of changes) {
+        const agent = await this.prisma.agent.findUnique({
+          where: { walletAddress: change.address.toLowerCase() },
+        });
+        if (!agent) continue;
+
+        const roleKey =
+          change.role === "impostor" ? "impostorRating" : "crewmateRating";
+
+        await this.prisma.$transaction([
+          this.prisma.agent.update({
+            where: { id: agent.id },
+            data: {
+              rating: change.after.rating,
+              crewmateRating: change.after.crewmateRating,
+              impostorRating: change.after.impostorRating,
+            },
+          }),
+          this.prisma.ratingHistory.create({
+            data: {
+              agentId: agent.id,
+              roomId,
+              role: change.role,
+              won: change.won,
+              rating: change.after.rating,
+              ratingDelta: change.after.rating - change.before.rating,
+              roleRating: change.after[roleKey],
+              roleRatingDelta: change.after[roleKey] - change.before[roleKey],
+            },
+          }),
+        ]);
+      }
+      logger.debug(`Recorded ${changes.length} rating changes for ${roomId}`);
+    });
+  }
+
+  /**
+   * An agent's rating changes, newest first
+   */
+  async getRatingHistory(walletAddress: string, limit = 20) {
+    if (!this.enabled) return [];
+
+    try {
+      return await this.prisma.ratingHistory.findMany({
+        where: { agent: { walletAddress: walletAddress.toLowerCase() } },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+        select: {
+          roomId: true,
+          role: true,
+          won: true,
+          rating: true,
+          ratingDelta: true,
+          roleRating: true,
+          roleRatingDelta: true,
+          createdAt: true,
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to get rating history:", error);
+      return [];
+    }
+  }
+
   // ============ Game Operations ============
 
   /**
@@ -379,6 +508,12 @@ export class DatabaseService {
       colorId?: number;
       wagerAmount: bigint;
     }>,
+    fairness?: {
+      seedHash: string;
+      joinOrder: string[];
+      impostorCount: number;
+      tasksPerPlayer: number;
+    },
   ): void {
     this.queueWrite(async () => {
       const game = await this.prisma.game.findUnique({
@@ -418,6 +553,7 @@ export class DatabaseService {
           phase: "playing",
           startedAt: new Date(),
           totalPot: totalPot.toString(),
+          ...fairness,
         },
       });
 
@@ -444,6 +580,7 @@ export class DatabaseService {
       }>;
       winningsPerPlayer: bigint;
       settlementTxHash?: string;
+      seed?: string;
     },
   ): void {
     this.queueWrite(async () => {
@@ -501,6 +638,7 @@ export class DatabaseService {
           winningsPerPlayer: result.winningsPerPlayer.toString(),
           endedAt: new Date(),
           settlementTxHash: result.settlementTxHash,
+          seed: result.seed,
         },
       });
 
@@ -570,6 +708,330 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Get finished and in-progress games, newest first, for history browsing
+   */
+  async getGameHistory(options: {
+    limit: number;
+    offset: number;
+    status?: GameStatus;
+  }) {
+    if (!this.enabled) return { games: [], total: 0 };
+
+    const where = options.status ? { status: options.status } : {};
+
+    try {
+      const [games, total] = await this.prisma.$transaction([
+        this.prisma.game.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: options.offset,
+          take: options.limit,
+          include: {
+            participants: {
+              include: { agent: true },
+            },
+          },
+        }),
+        this.prisma.game.count({ where }),
+      ]);
+      return { games, total };
+    } catch (error) {
+      logger.error("Failed to get game history:", error);
+      return { games: [], total: 0 };
+    }
+  }
+
+  // ============ Game Event Log ============
+
+  /**
+   * Append an event to a room's log (background). Events that arrive while a
+   * write is pending are batched into the next one, preserving order.
+   */
+  logGameEvent(event: GameEventRecord): void {
+    if (!this.enabled) return;
+
+    this.pendingGameEvents.push(event);
+    if (this.gameEventWriteScheduled) return; // Joins the next batch
+
+    this.gameEventWriteScheduled = true;
+    this.queueWrite(() => this.writeGameEvents(1));
+  }
+
+  /**
+   * Write every pending event in one batch, then the next batch if more were
+   * logged meanwhile. On failure the batch goes back in front of anything
+   * logged since and is retried after a delay, so the log keeps its order
+   * and nothing is lost to a brief outage.
+   */
+  private async writeGameEvents(attempt: number): Promise<void> {
+    const events = this.pendingGameEvents.splice(0);
+    try {
+      await this.prisma.gameEvent.createMany({
+        data: events.map((e) => ({
+          roomId: e.roomId,
+          sequence: e.sequence,
+          type: e.type,
+          payload: e.payload as object,
+          audience: e.audience ?? [],
+        })),
+        skipDuplicates: true, // A retried batch may have landed after all
+      });
+      logger.debug(`Logged ${events.length} game events`);
+    } catch (error) {
+      if (attempt < MAX_EVENT_WRITE_ATTEMPTS) {
+        logger.warn(
+          `Failed to log ${events.length} game events (attempt ${attempt}), retrying:`,
+          error,
+        );
+        this.pendingGameEvents.unshift(...events);
+        setTimeout(
+          () => this.queueWrite(() => this.writeGameEvents(attempt + 1)),
+          EVENT_RETRY_DELAY_MS * attempt,
+        );
+        return;
+      }
+      logger.error(`Dropped ${events.length} game events:`, error);
+    }
+
+    if (this.pendingGameEvents.length > 0) {
+      this.queueWrite(() => this.writeGameEvents(1));
+    } else {
+      this.gameEventWriteScheduled = false;
+    }
+  }
+
+  /**
+   * Get a room's events in order, starting after `afterSequence`
+   */
+  async getGameEvents(roomId: string, afterSequence = -1, limit = 500) {
+    if (!this.enabled) return [];
+
+    try {
+      return await this.prisma.gameEvent.findMany({
+        where: { roomId, sequence: { gt: afterSequence } },
+        orderBy: { sequence: "asc" },
+        take: limit,
+        select: {
+          sequence: true,
+          type: true,
+          payload: true,
+          audience: true,
+          createdAt: true,
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to get game events:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Highest sequence logged for a room, or -1 if it has no events
+   */
+  async getLastEventSequence(roomId: string): Promise<number> {
+    if (!this.enabled) return -1;
+
+    try {
+      const result = await this.prisma.gameEvent.aggregate({
+        where: { roomId },
+        _max: { sequence: true },
+      });
+      return result._max.sequence ?? -1;
+    } catch (error) {
+      logger.error("Failed to get last event sequence:", error);
+      return -1;
+    }
+  }
+
+  // ============ Room Snapshots ============
+
+  /**
+   * Store the latest snapshot of a live room, replacing the previous one (background)
+   */
+  saveRoomSnapshot(roomId: string, phase: string, data: unknown): void {
+    this.queueWrite(async () => {
+      await this.prisma.roomSnapshot.upsert({
+        where: { roomId },
+        create: { roomId, phase, data: data as object },
+        update: { phase, data: data as object },
+      });
+    });
+  }
+
+  /**
+   * Drop a room's snapshot once the room is gone (background)
+   */
+  deleteRoomSnapshot(roomId: string): void {
+    this.queueWrite(async () => {
+      await this.prisma.roomSnapshot.deleteMany({ where: { roomId } });
+    });
+  }
+
+  /**
+   * Get every stored room snapshot, for restoring rooms on boot
+   */
+  async getRoomSnapshots() {
+    if (!this.enabled) return [];
+
+    try {
+      return await this.prisma.roomSnapshot.findMany();
+    } catch (error) {
+      logger.error("Failed to get room snapshots:", error);
+      return [];
+    }
+  }
+
+  // ============ Tournament Operations ============
+
+  /**
+   * Store a tournament's current state: its round, every game and every
+   * standing (background). Safe to call after each change.
+   */
+  saveTournament(tournament: TournamentState): void {
+    // Copy now; the in-memory state keeps changing while the write waits
+    const t: TournamentState = JSON.parse(JSON.stringify(tournament));
+
+    this.queueWrite(async () => {
+      await this.prisma.$transaction([
+        this.prisma.tournament.upsert({
+          where: { id: t.id },
+          create: {
+            id: t.id,
+            name: t.name,
+            format: t.format,
+            status: t.status,
+            totalRounds: t.totalRounds,
+            currentRound: t.currentRound,
+            tableSize: t.tableSize,
+            impostorCount: t.impostorCount,
+            wagerAmount: t.wagerAmount,
+            settings: t.settings as object,
+            creator: t.creator,
+            createdAt: new Date(t.createdAt),
+            endedAt: t.endedAt ? new Date(t.endedAt) : null,
+          },
+          update: {
+            status: t.status,
+            currentRound: t.currentRound,
+            endedAt: t.endedAt ? new Date(t.endedAt) : null,
+          },
+        }),
+        ...t.games.map((game) =>
+          this.prisma.tournamentGame.upsert({
+            where: {
+              tournamentId_round_table: {
+                tournamentId: t.id,
+                round: game.round,
+                table: game.table,
+              },
+            },
+            create: { tournamentId: t.id, ...game },
+            update: {
+              roomId: game.roomId,
+              status: game.status,
+              crewmatesWon: game.crewmatesWon,
+              winners: game.winners,
+            },
+          }),
+        ),
+        ...t.standings.map(({ address, ...standing }) =>
+          this.prisma.tournamentStanding.upsert({
+            where: {
+              tournamentId_walletAddress: {
+                tournamentId: t.id,
+                walletAddress: address,
+              },
+            },
+            create: { tournamentId: t.id, walletAddress: address, ...standing },
+            update: standing,
+          }),
+        ),
+      ]);
+      logger.debug(`Saved tournament ${t.id} (round ${t.currentRound})`);
+    });
+  }
+
+  async getTournament(id: string): Promise<TournamentState | null> {
+    if (!this.enabled) return null;
+
+    try {
+      const row = await this.prisma.tournament.findUnique({
+        where: { id },
+        include: { games: true, standings: true },
+      });
+      return row ? this.toTournamentState(row) : null;
+    } catch (error) {
+      logger.error("Failed to get tournament:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Most recent tournaments first, optionally only those with `status`
+   */
+  async getTournaments(
+    limit = 20,
+    status?: TournamentStatus,
+  ): Promise<TournamentState[]> {
+    if (!this.enabled) return [];
+
+    try {
+      const rows = await this.prisma.tournament.findMany({
+        where: status ? { status } : undefined,
+        orderBy: { createdAt: "desc" },
+        take: limit,
+        include: { games: true, standings: true },
+      });
+      return rows.map((row: TournamentRecord) => this.toTournamentState(row));
+    } catch (error) {
+      logger.error("Failed to get tournaments:", error);
+      return [];
+    }
+  }
+
+  private toTournamentState(row: TournamentRecord): TournamentState {
+    return {
+      id: row.id,
+      name: row.name,
+      format: row.format as TournamentFormat,
+      status: row.status as TournamentStatus,
+      totalRounds: row.totalRounds,
+      currentRound: row.currentRound,
+      tableSize: row.tableSize,
+      impostorCount: row.impostorCount,
+      wagerAmount: row.wagerAmount ?? undefined,
+      settings: row.settings as GameSettings,
+      creator: row.creator ?? undefined,
+      createdAt: row.createdAt.getTime(),
+      endedAt: row.endedAt?.getTime() ?? null,
+      games: row.games
+        .map((game) => ({
+          round: game.round,
+          table: game.table,
+          roomId: game.roomId,
+          players: game.players,
+          status: game.status as TournamentGame["status"],
+          crewmatesWon: game.crewmatesWon,
+          winners: game.winners,
+        }))
+        .sort((a, b) => a.round - b.round || a.table - b.table),
+      standings: row.standings
+        .map((standing) => ({
+          address: standing.walletAddress,
+          name: standing.name,
+          points: standing.points,
+          gamesPlayed: standing.gamesPlayed,
+          wins: standing.wins,
+          impostorGames: standing.impostorGames,
+          impostorWins: standing.impostorWins,
+          survived: standing.survived,
+          tasksCompleted: standing.tasksCompleted,
+        }))
+        .sort(compareStandings),
+    };
+  }
+
   // ============ Transaction Operations ============
 
   /**
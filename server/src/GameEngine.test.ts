@@ -0,0 +1,777 @@
+import { describe, expect, it } from "vitest";
+import {
+  GameEngine,
+  checkWinCondition,
+  tallyVotes,
+  type EngineEvent,
+  type EngineState,
+} from "./GameEngine.js";
+import { DEFAULT_GAME_SETTINGS } from "./gameSettings.js";
+import type { AssignedTask, GameAction, PlayerState } from "./types.js";
+
+const IMPOSTOR = "0x00000000000000000000000000000000000000a1";
+const ALICE = "0x00000000000000000000000000000000000000b1";
+const BOB = "0x00000000000000000000000000000000000000b2";
+const CAROL = "0x00000000000000000000000000000000000000b3";
+
+const engine = new GameEngine({ commit: 30000, reveal: 15000, ejection: 5000 });
+
+function player(address: string, location = 0): PlayerState {
+  return {
+    address,
+    colorId: 0,
+    location,
+    isAlive: true,
+    tasksCompleted: 0,
+    totalTasks: 0,
+    hasVoted: false,
+  };
+}
+
+function task(taskId: string, steps: number[]): AssignedTask {
+  return { taskId, name: taskId, steps, currentStep: 0, completed: false };
+}
+
+/**
+ * One impostor and three crewmates in the Cafeteria, in the reveal phase of
+ * round 1
+ */
+function makeState(overrides: Partial<EngineState> = {}): EngineState {
+  return {
+    phase: 3, // ActionReveal
+    round: 1,
+    phaseEndTime: 0,
+    players: [player(IMPOSTOR), player(ALICE), player(BOB), player(CAROL)],
+    impostors: [IMPOSTOR],
+    votes: {},
+    deadBodies: [],
+    settings: { ...DEFAULT_GAME_SETTINGS },
+    speakingOrder: [],
+    speakerIndex: 0,
+    tasks: {},
+    lastKillRound: {},
+    emergencyMeetingsUsed: {},
+    activeSabotage: null,
+    lastSabotageTime: -Infinity,
+    playersInVent: [],
+    playersOnCameras: [],
+    ...overrides,
+  };
+}
+
+function resolve(
+  state: EngineState,
+  actions: Array<[string, GameAction]>,
+  now = 1000,
+) {
+  return engine.apply(state, {
+    type: "resolve_actions",
+    now,
+    actions: actions.map(([player, action]) => ({ player, action })),
+  });
+}
+
+function find(state: EngineState, address: string): PlayerState {
+  return state.players.find((p) => p.address === address)!;
+}
+
+function ofType<T extends EngineEvent["type"]>(
+  events: EngineEvent[],
+  type: T,
+): Array<Extract<EngineEvent, { type: T }>> {
+  return events.filter(
+    (e): e is Extract<EngineEvent, { type: T }> => e.type === type,
+  );
+}
+
+describe("checkWinCondition", () => {
+  it("gives impostors the win once every crewmate is dead", () => {
+    const state = makeState();
+    for (const address of [ALICE, BOB, CAROL]) find(state, address).isAlive = false;
+
+    expect(checkWinCondition(state)).toEqual({
+      winner: "impostors",
+      reason: "kills",
+    });
+  });
+
+  it("gives impostors the win at parity", () => {
+    const state = makeState();
+    find(state, ALICE).isAlive = false;
+    find(state, BOB).isAlive = false;
+
+    expect(checkWinCondition(state).winner).toBe("impostors");
+  });
+
+  it("gives crewmates the win once every impostor is gone", () => {
+    const state = makeState();
+    find(state, IMPOSTOR).isAlive = false;
+
+    expect(checkWinCondition(state)).toEqual({
+      winner: "crewmates",
+      reason: "votes",
+    });
+  });
+
+  it("gives crewmates the win when every task is done", () => {
+    const state = makeState();
+    find(state, ALICE).tasksCompleted = 2;
+    find(state, ALICE).totalTasks = 2;
+
+    expect(checkWinCondition(state)).toEqual({
+      winner: "crewmates",
+      reason: "tasks",
+    });
+  });
+
+  it("has no winner mid-game", () => {
+    expect(checkWinCondition(makeState()).winner).toBeNull();
+  });
+});
+
+describe("tallyVotes", () => {
+  it("ejects the player with the most votes", () => {
+    expect(tallyVotes({ a: "x", b: "x", c: "y" })).toEqual({
+      ejected: "x",
+      tie: false,
+    });
+  });
+
+  it("ejects nobody on a tie or when skip wins", () => {
+    expect(tallyVotes({ a: "x", b: "y" })).toEqual({ ejected: null, tie: true });
+    expect(tallyVotes({ a: null, b: null, c: "x" }).ejected).toBeNull();
+  });
+});
+
+describe("GameEngine", () => {
+  it("never mutates the state it is given", () => {
+    const state = makeState();
+    const before = structuredClone(state);
+
+    resolve(state, [[IMPOSTOR, { type: 4, target: ALICE }]]);
+
+    expect(state).toEqual(before);
+  });
+
+  describe("action rounds", () => {
+    it("opens the first commit window when the game starts", () => {
+      const { state, events } = engine.apply(makeState({ phase: 0 }), {
+        type: "start_game",
+        now: 0,
+      });
+
+      expect(state.phase).toBe(2);
+      expect(state.phaseEndTime).toBe(30000);
+      expect(ofType(events, "phase_changed")).toHaveLength(1);
+    });
+
+    it("skips the reveal window when nobody committed", () => {
+      const { state, events } = engine.apply(makeState({ phase: 2 }), {
+        type: "close_commits",
+        now: 0,
+        commitCount: 0,
+      });
+
+      expect(state.phase).toBe(3);
+      expect(events).toEqual([{ type: "round_ready", round: 1 }]);
+    });
+
+    it("opens the next round once every action is resolved", () => {
+      const { state, events } = resolve(makeState(), [
+        [ALICE, { type: 1, destination: 1 }], // Admin
+      ]);
+
+      expect(state.round).toBe(2);
+      expect(state.phase).toBe(2);
+      expect(ofType(events, "round_resolved")).toEqual([
+        { type: "round_resolved", round: 1, resolvedCount: 1 },
+      ]);
+    });
+
+    it("rejects resolving outside the reveal phase", () => {
+      const state = makeState({ phase: 2 });
+      const result = resolve(state, []);
+
+      expect(result.state).toBe(state);
+      expect(result.events[0].type).toBe("rejected");
+    });
+  });
+
+  describe("movement", () => {
+    it("moves living players to adjacent rooms only", () => {
+      const { state, events } = resolve(makeState(), [
+        [ALICE, { type: 1, destination: 1 }], // Cafeteria -> Admin
+        [BOB, { type: 1, destination: 8 }], // Cafeteria -> Reactor
+      ]);
+
+      expect(find(state, ALICE).location).toBe(1);
+      expect(find(state, BOB).location).toBe(0);
+      expect(ofType(events, "action_rejected")).toMatchObject([
+        { player: BOB, code: "INVALID_MOVE" },
+      ]);
+    });
+
+    it("lets ghosts go anywhere", () => {
+      const start = makeState();
+      find(start, BOB).isAlive = false;
+
+      const { state } = resolve(start, [[BOB, { type: 1, destination: 8 }]]);
+
+      expect(find(state, BOB).location).toBe(8);
+    });
+  });
+
+  describe("kills", () => {
+    it("kills a crewmate in the same room and leaves a body", () => {
+      const { state, events } = resolve(makeState(), [
+        [IMPOSTOR, { type: 4, target: ALICE }],
+      ]);
+
+      expect(find(state, ALICE).isAlive).toBe(false);
+      expect(state.deadBodies).toEqual([
+        { victim: ALICE, location: 0, round: 1, reported: false },
+      ]);
+      expect(state.lastKillRound[IMPOSTOR]).toBe(1);
+      expect(ofType(events, "kill_occurred")[0].witnesses).toEqual([BOB, CAROL]);
+    });
+
+    it("resolves moves first, so a victim who walks away escapes", () => {
+      const { state, events } = resolve(makeState(), [
+        [IMPOSTOR, { type: 4, target: ALICE }],
+        [ALICE, { type: 1, destination: 1 }],
+      ]);
+
+      expect(find(state, ALICE).isAlive).toBe(true);
+      expect(ofType(events, "action_rejected")).toMatchObject([
+        { player: IMPOSTOR, code: "TARGET_NOT_IN_ROOM" },
+      ]);
+    });
+
+    it("enforces the kill cooldown in rounds", () => {
+      const start = makeState({ round: 2, lastKillRound: { [IMPOSTOR]: 1 } });
+
+      const { state, events } = resolve(start, [
+        [IMPOSTOR, { type: 4, target: ALICE }],
+      ]);
+
+      expect(find(state, ALICE).isAlive).toBe(true);
+      expect(ofType(events, "action_rejected")).toMatchObject([
+        { code: "KILL_COOLDOWN" },
+      ]);
+    });
+
+    it("only lets impostors kill", () => {
+      const { events } = resolve(makeState(), [
+        [ALICE, { type: 4, target: BOB }],
+      ]);
+
+      expect(ofType(events, "action_rejected")).toMatchObject([
+        { player: ALICE, code: "KILL_NOT_IMPOSTOR" },
+      ]);
+    });
+
+    it("hides a kill from crewmates when the lights are out", () => {
+      const start = makeState({
+        activeSabotage: {
+          type: 1, // Lights
+          startTime: 0,
+          endTime: 0,
+          fixProgress: {},
+          sabotager: IMPOSTOR,
+        },
+      });
+
+      const { events } = resolve(start, [[IMPOSTOR, { type: 4, target: ALICE }]]);
+
+      expect(ofType(events, "kill_occurred")[0].witnesses).toEqual([]);
+    });
+
+    it("ends the game and the round on the winning kill", () => {
+      const start = makeState();
+      find(start, BOB).isAlive = false;
+      find(start, CAROL).location = 1;
+
+      const { state, events } = resolve(start, [
+        [IMPOSTOR, { type: 4, target: ALICE }],
+        [CAROL, { type: 1, destination: 0 }],
+        [CAROL, { type: 5 }],
+      ]);
+
+      expect(ofType(events, "game_won")).toEqual([
+        { type: "game_won", winner: "impostors", reason: "kills" },
+      ]);
+      expect(ofType(events, "body_reported")).toEqual([]);
+      expect(state.phase).toBe(3); // The caller ends the game
+    });
+  });
+
+  describe("tasks", () => {
+    it("advances multi-step tasks one room at a time", () => {
+      const start = makeState({
+        tasks: { [ALICE]: [task("fuel_engines", [0, 5])] },
+      });
+      find(start, ALICE).totalTasks = 1;
+
+      const { state, events } = resolve(start, [[ALICE, { type: 2 }]]);
+
+      expect(state.tasks[ALICE][0].currentStep).toBe(1);
+      expect(find(state, ALICE).tasksCompleted).toBe(0);
+      expect(ofType(events, "task_progressed")).toMatchObject([
+        { player: ALICE, taskId: "fuel_engines", completed: false },
+      ]);
+    });
+
+    it("wins the game for the crew with the last task", () => {
+      const start = makeState({
+        tasks: { [ALICE]: [task("swipe_card", [0])] },
+      });
+      find(start, ALICE).totalTasks = 1;
+
+      const { state, events } = resolve(start, [[ALICE, { type: 2 }]]);
+
+      expect(find(state, ALICE).tasksCompleted).toBe(1);
+      expect(ofType(events, "game_won")).toEqual([
+        { type: "game_won", winner: "crewmates", reason: "tasks" },
+      ]);
+    });
+
+    it("rejects tasks in the wrong room and tasks for impostors", () => {
+      const start = makeState({
+        tasks: { [ALICE]: [task("start_reactor", [8])] },
+      });
+
+      const { events } = resolve(start, [
+        [ALICE, { type: 2 }],
+        [IMPOSTOR, { type: 2 }],
+      ]);
+
+      expect(ofType(events, "action_rejected").map((e) => e.code)).toEqual([
+        "NO_TASK_HERE",
+        "IMPOSTOR_CANNOT_TASK",
+      ]);
+    });
+  });
+
+  describe("meetings", () => {
+    it("reports a body in the reporter's room and stops the round", () => {
+      const start = makeState({
+        deadBodies: [{ victim: CAROL, location: 0, round: 1, reported: false }],
+      });
+      find(start, CAROL).isAlive = false;
+
+      const { state, events } = resolve(start, [
+        [ALICE, { type: 5 }],
+        [BOB, { type: 6 }],
+      ]);
+
+      expect(state.phase).toBe(4);
+      expect(state.round).toBe(1);
+      expect(state.deadBodies[0].reported).toBe(true);
+      expect(ofType(events, "body_reported")).toMatchObject([
+        { reporter: ALICE, victim: CAROL },
+      ]);
+      expect(ofType(events, "meeting_called")).toEqual([]);
+      expect(ofType(events, "round_resolved")[0].resolvedCount).toBe(1);
+    });
+
+    it("rejects reports with no body in the room", () => {
+      const { state, events } = resolve(makeState(), [[ALICE, { type: 5 }]]);
+
+      expect(state.phase).toBe(2);
+      expect(ofType(events, "action_rejected")).toMatchObject([
+        { code: "NO_BODY" },
+      ]);
+    });
+
+    it("limits emergency meetings per player", () => {
+      const start = makeState({ emergencyMeetingsUsed: { [ALICE]: 1 } });
+
+      const used = engine.apply(start, {
+        type: "call_meeting",
+        now: 0,
+        player: ALICE,
+      });
+      expect(used.state.phase).toBe(3);
+      expect(ofType(used.events, "action_rejected")).toMatchObject([
+        { code: "CANNOT_CALL_MEETING" },
+      ]);
+
+      const called = engine.apply(start, {
+        type: "call_meeting",
+        now: 0,
+        player: BOB,
+      });
+      expect(called.state.phase).toBe(4);
+      expect(called.state.emergencyMeetingsUsed[BOB]).toBe(1);
+      expect(ofType(called.events, "meeting_called")).toMatchObject([
+        { caller: BOB, meetingsRemaining: 0 },
+      ]);
+    });
+
+    it("only accepts direct actions during an action round", () => {
+      const { events } = engine.apply(makeState({ phase: 5 }), {
+        type: "call_meeting",
+        now: 0,
+        player: ALICE,
+      });
+
+      expect(events).toEqual([
+        {
+          type: "action_rejected",
+          player: ALICE,
+          code: "INVALID_PHASE",
+          reason: "Can only call meetings during action phase",
+        },
+      ]);
+    });
+
+    it("clears sabotage, vents and cameras when a meeting starts", () => {
+      const start = makeState({
+        activeSabotage: {
+          type: 4, // Comms
+          startTime: 0,
+          endTime: 0,
+          fixProgress: {},
+          sabotager: IMPOSTOR,
+        },
+        playersInVent: [IMPOSTOR],
+        playersOnCameras: [BOB],
+      });
+
+      const { state } = engine.apply(start, {
+        type: "call_meeting",
+        now: 0,
+        player: ALICE,
+      });
+
+      expect(state.activeSabotage).toBeNull();
+      expect(state.playersInVent).toEqual([]);
+      expect(state.playersOnCameras).toEqual([]);
+    });
+  });
+
+  describe("turn-based discussion", () => {
+    // Carol is dead; Bob calls the meeting, so the floor goes Bob, then on
+    // around the living in seat order
+    function meeting(overrides: Partial<EngineState["settings"]> = {}) {
+      const start = makeState({
+        settings: {
+          ...DEFAULT_GAME_SETTINGS,
+          discussionMode: "turns",
+          ...overrides,
+        },
+      });
+      find(start, CAROL).isAlive = false;
+      return engine.apply(start, { type: "call_meeting", now: 0, player: BOB });
+    }
+
+    it("gives the living the floor in turn, starting with the caller", () => {
+      const { state, events } = meeting();
+
+      expect(state.phase).toBe(4);
+      expect(state.speakingOrder).toEqual([BOB, IMPOSTOR, ALICE]);
+      expect(ofType(events, "speaker_changed")).toEqual([
+        {
+          type: "speaker_changed",
+          speaker: BOB,
+          turn: 0,
+          turns: 3,
+          round: 1,
+          phaseEndTime: 15000, // One speakingTime slot
+        },
+      ]);
+    });
+
+    it("passes the floor when the speaker is done or their slot runs out", () => {
+      const spoke = engine.apply(meeting().state, {
+        type: "end_turn",
+        now: 4000,
+        speaker: BOB,
+      });
+      expect(spoke.state.speakerIndex).toBe(1);
+      expect(ofType(spoke.events, "speaker_changed")).toMatchObject([
+        { speaker: IMPOSTOR, turn: 1, phaseEndTime: 19000 },
+      ]);
+
+      // The timer ends a slot without naming the speaker
+      const timedOut = engine.apply(spoke.state, { type: "end_turn", now: 19000 });
+      expect(ofType(timedOut.events, "speaker_changed")).toMatchObject([
+        { speaker: ALICE, turn: 2, phaseEndTime: 34000 },
+      ]);
+    });
+
+    it("only lets the speaker end their own turn", () => {
+      const { state } = meeting();
+
+      const { state: after, events } = engine.apply(state, {
+        type: "end_turn",
+        now: 1000,
+        speaker: ALICE,
+      });
+
+      expect(after).toBe(state);
+      expect(events).toMatchObject([
+        { type: "rejected", reason: "Not this player's turn" },
+      ]);
+    });
+
+    it("opens a rebuttal after the last slot, then voting", () => {
+      let { state } = meeting();
+      for (const now of [15000, 30000]) {
+        state = engine.apply(state, { type: "end_turn", now }).state;
+      }
+      const early = engine.apply(state, { type: "open_voting", now: 40000 });
+      expect(ofType(early.events, "rejected")).toMatchObject([
+        { reason: "Speaking slots are still open" },
+      ]);
+
+      const last = engine.apply(state, { type: "end_turn", now: 45000 });
+      expect(ofType(last.events, "speaker_changed")).toMatchObject([
+        { speaker: null, turn: 3, turns: 3, phaseEndTime: 65000 },
+      ]);
+      const extra = engine.apply(last.state, { type: "end_turn", now: 50000 });
+      expect(extra.events).toMatchObject([
+        { type: "rejected", reason: "Nobody has the floor" },
+      ]);
+
+      const voting = engine.apply(last.state, { type: "open_voting", now: 65000 }).state;
+      expect(voting.phase).toBe(5);
+      expect(voting.speakingOrder).toEqual([]);
+    });
+
+    it("goes straight to voting without a rebuttal", () => {
+      let { state } = meeting({ rebuttalTime: 0 });
+      for (const now of [15000, 30000, 45000]) {
+        state = engine.apply(state, { type: "end_turn", now }).state;
+      }
+
+      expect(state.phase).toBe(5);
+    });
+  });
+
+  describe("vents", () => {
+    it("lets impostors enter, travel and leave the vent network", () => {
+      const entered = resolve(makeState(), [[IMPOSTOR, { type: 7 }]]).state;
+      expect(entered.playersInVent).toEqual([IMPOSTOR]);
+
+      const moved = resolve(makeState({ ...entered, phase: 3 }), [
+        [IMPOSTOR, { type: 7, destination: 1 }], // Cafeteria -> Admin
+      ]).state;
+      expect(find(moved, IMPOSTOR).location).toBe(1);
+
+      const left = engine.apply(moved, {
+        type: "vent",
+        now: 0,
+        player: IMPOSTOR,
+        action: "exit",
+      }).state;
+      expect(left.playersInVent).toEqual([]);
+    });
+
+    it("keeps crewmates out and blocks kills from inside", () => {
+      const crew = resolve(makeState(), [[ALICE, { type: 7 }]]);
+      expect(ofType(crew.events, "action_rejected")).toMatchObject([
+        { code: "CANNOT_VENT" },
+      ]);
+
+      const hidden = resolve(makeState({ playersInVent: [IMPOSTOR] }), [
+        [IMPOSTOR, { type: 4, target: ALICE }],
+      ]);
+      expect(ofType(hidden.events, "action_rejected")).toMatchObject([
+        { code: "KILL_FROM_VENT" },
+      ]);
+    });
+  });
+
+  describe("sabotage", () => {
+    it("starts a critical sabotage with a deadline and a cooldown", () => {
+      const { state, events } = engine.apply(makeState(), {
+        type: "sabotage",
+        now: 1000,
+        player: IMPOSTOR,
+        sabotage: 2, // Reactor
+      });
+
+      expect(state.activeSabotage).toMatchObject({ type: 2, endTime: 46000 });
+      expect(ofType(events, "sabotage_started")).toMatchObject([
+        { sabotage: 2, timeLimit: 45, fixLocations: [8], endTime: 46000 },
+      ]);
+
+      const fixed = { ...state, activeSabotage: null };
+      const again = engine.apply(fixed, {
+        type: "sabotage",
+        now: 2000,
+        player: IMPOSTOR,
+        sabotage: 1,
+      });
+      expect(ofType(again.events, "action_rejected")).toMatchObject([
+        { code: "CANNOT_SABOTAGE", reason: "Sabotage on cooldown" },
+      ]);
+    });
+
+    it("needs two players to fix the reactor", () => {
+      let state = engine.apply(makeState(), {
+        type: "sabotage",
+        now: 0,
+        player: IMPOSTOR,
+        sabotage: 2, // Reactor
+      }).state;
+      find(state, ALICE).location = 8;
+      find(state, BOB).location = 8;
+
+      const first = engine.apply(state, {
+        type: "fix_sabotage",
+        now: 0,
+        player: ALICE,
+      });
+      expect(first.state.activeSabotage).not.toBeNull();
+      expect(first.events).toEqual([]);
+
+      state = first.state;
+      const second = engine.apply(state, {
+        type: "fix_sabotage",
+        now: 0,
+        player: BOB,
+      });
+      expect(second.state.activeSabotage).toBeNull();
+      expect(ofType(second.events, "sabotage_fixed")).toMatchObject([
+        { sabotage: 2, fixedBy: BOB, location: 8 },
+      ]);
+    });
+
+    it("wins for the impostors when a critical sabotage runs out", () => {
+      const state = engine.apply(makeState(), {
+        type: "sabotage",
+        now: 0,
+        player: IMPOSTOR,
+        sabotage: 3, // O2
+      }).state;
+
+      const early = engine.apply(state, { type: "sabotage_timeout", now: 29999 });
+      expect(early.events).toEqual([]);
+
+      const late = engine.apply(state, { type: "sabotage_timeout", now: 30000 });
+      expect(late.events).toEqual([
+        { type: "sabotage_failed", sabotage: 3 },
+        { type: "game_won", winner: "impostors", reason: "kills" },
+      ]);
+    });
+  });
+
+  describe("cameras", () => {
+    it("only works from Security", () => {
+      const start = makeState();
+      find(start, BOB).location = 7; // Security
+
+      const watching = engine.apply(start, {
+        type: "use_cameras",
+        now: 0,
+        player: BOB,
+        watching: true,
+      });
+      expect(watching.state.playersOnCameras).toEqual([BOB]);
+
+      const away = engine.apply(start, {
+        type: "use_cameras",
+        now: 0,
+        player: ALICE,
+        watching: true,
+      });
+      expect(ofType(away.events, "action_rejected")).toMatchObject([
+        { code: "WRONG_LOCATION" },
+      ]);
+    });
+  });
+
+  describe("voting", () => {
+    it("ejects the top candidate once everyone has voted", () => {
+      let state = makeState({ phase: 5 });
+      const events: EngineEvent[] = [];
+      for (const voter of [IMPOSTOR, ALICE, BOB, CAROL]) {
+        const result = engine.apply(state, {
+          type: "cast_vote",
+          now: 0,
+          voter,
+          target: voter === IMPOSTOR ? ALICE : IMPOSTOR,
+        });
+        state = result.state;
+        events.push(...result.events);
+      }
+
+      expect(state.phase).toBe(6);
+      expect(find(state, IMPOSTOR).isAlive).toBe(false);
+      expect(ofType(events, "player_ejected")).toMatchObject([
+        { address: IMPOSTOR, wasImpostor: true },
+      ]);
+
+      const after = engine.apply(state, { type: "finish_vote_result", now: 0 });
+      expect(ofType(after.events, "game_won")).toMatchObject([
+        { winner: "crewmates", reason: "votes" },
+      ]);
+    });
+
+    it("only counts votes for players who are still thought alive", () => {
+      const state = makeState({
+        phase: 5,
+        deadBodies: [
+          { victim: BOB, location: 0, round: 1, reported: true },
+          { victim: CAROL, location: 2, round: 1, reported: false },
+        ],
+      });
+      find(state, BOB).isAlive = false;
+      find(state, CAROL).isAlive = false;
+      const vote = (target: string) =>
+        engine.apply(state, { type: "cast_vote", now: 0, voter: ALICE, target });
+
+      for (const target of [BOB, "0x00000000000000000000000000000000000000ff"]) {
+        const { state: after, events } = vote(target);
+        expect(after).toBe(state);
+        expect(events).toMatchObject([
+          { type: "action_rejected", player: ALICE, code: "INVALID_TARGET" },
+        ]);
+      }
+
+      // Turning down a vote for Carol would tell Alice she is dead
+      expect(ofType(vote(CAROL).events, "vote_cast")).toMatchObject([{ target: CAROL }]);
+    });
+
+    it("starts the next round after a vote that decides nothing", () => {
+      const { state } = engine.apply(
+        makeState({
+          phase: 6,
+          deadBodies: [{ victim: CAROL, location: 0, round: 1, reported: true }],
+        }),
+        { type: "finish_vote_result", now: 0 },
+      );
+
+      expect(state.phase).toBe(2);
+      expect(state.round).toBe(2);
+      expect(state.deadBodies).toEqual([]);
+    });
+  });
+
+  describe("forfeits", () => {
+    it("takes a departed player out of the game without leaving a body", () => {
+      const { state, events } = engine.apply(makeState({ phase: 2 }), {
+        type: "forfeit",
+        address: ALICE,
+      });
+
+      expect(find(state, ALICE).isAlive).toBe(false);
+      expect(state.deadBodies).toEqual([]);
+      expect(events).toEqual([]);
+    });
+
+    it("decides the game when the departure leaves a winner", () => {
+      expect(
+        engine.apply(makeState({ phase: 4 }), { type: "forfeit", address: IMPOSTOR }).events,
+      ).toEqual([{ type: "game_won", winner: "crewmates", reason: "votes" }]);
+
+      const twoLeft = makeState({ phase: 2 });
+      find(twoLeft, BOB).isAlive = false;
+      expect(
+        engine.apply(twoLeft, { type: "forfeit", address: ALICE }).events,
+      ).toEqual([{ type: "game_won", winner: "impostors", reason: "kills" }]);
+    });
+  });
+});
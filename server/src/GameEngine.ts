@@ -0,0 +1,1462 @@
+import {
+  Location,
+  type AssignedTask,
+  type DeadBodyState,
+  type GameAction,
+  type GamePhase,
+  type GameSettings,
+  type PlayerState,
+  type SabotageType,
+} from "./types.js";
+
+// Sabotage rules. Critical time limits are overridden by room settings.
+interface SabotageConfig {
+  isCritical: boolean;
+  timeLimit: number; // Seconds (0 = until fixed manually)
+  fixLocations: Location[];
+  requiresMultipleFixes: boolean; // E.g., Reactor needs 2 players
+}
+
+const SABOTAGE_CONFIG: Record<number, SabotageConfig> = {
+  // SabotageType.Lights = 1
+  1: {
+    isCritical: false,
+    timeLimit: 0,
+    fixLocations: [3], // Electrical
+    requiresMultipleFixes: false,
+  },
+  // SabotageType.Reactor = 2
+  2: {
+    isCritical: true,
+    timeLimit: 45,
+    fixLocations: [8], // Reactor
+    requiresMultipleFixes: true, // Needs 2 players
+  },
+  // SabotageType.O2 = 3
+  3: {
+    isCritical: true,
+    timeLimit: 30,
+    fixLocations: [1, 8], // Admin, Reactor
+    requiresMultipleFixes: false, // Either location works
+  },
+  // SabotageType.Comms = 4
+  4: {
+    isCritical: false,
+    timeLimit: 0,
+    fixLocations: [1], // Admin
+    requiresMultipleFixes: false,
+  },
+};
+
+// Room adjacency map (The Skeld)
+// Location enum: Cafeteria=0, Admin=1, Storage=2, Electrical=3, MedBay=4, UpperEngine=5, LowerEngine=6, Security=7, Reactor=8
+const ROOM_ADJACENCY: Map<number, number[]> = new Map([
+  [0, [1, 2, 4, 5]],       // Cafeteria -> Admin, Storage, MedBay, UpperEngine
+  [1, [0, 2]],              // Admin -> Cafeteria, Storage
+  [2, [0, 1, 3, 6]],        // Storage -> Cafeteria, Admin, Electrical, LowerEngine
+  [3, [2, 6]],              // Electrical -> Storage, LowerEngine
+  [4, [0, 5]],              // MedBay -> Cafeteria, UpperEngine
+  [5, [0, 4, 8]],           // UpperEngine -> Cafeteria, MedBay, Reactor
+  [6, [2, 3, 8]],           // LowerEngine -> Storage, Electrical, Reactor
+  [7, [8]],                 // Security -> Reactor
+  [8, [5, 6, 7]],           // Reactor -> UpperEngine, LowerEngine, Security
+]);
+
+// Vent connections (for impostors) - locations connected by vents
+const VENT_CONNECTIONS: Map<number, number[]> = new Map([
+  [1, [0]],                 // Admin <-> Cafeteria
+  [0, [1]],                 // Cafeteria <-> Admin
+  [4, [3, 7]],              // MedBay <-> Electrical, Security
+  [3, [4, 7]],              // Electrical <-> MedBay, Security
+  [7, [4, 3]],              // Security <-> MedBay, Electrical
+  [8, [5, 6]],              // Reactor <-> UpperEngine, LowerEngine
+  [5, [8, 6]],              // UpperEngine <-> Reactor, LowerEngine
+  [6, [8, 5]],              // LowerEngine <-> Reactor, UpperEngine
+]);
+
+// Order in which revealed actions resolve within a round (ActionType values).
+// Movement settles first so kills, tasks and reports see final positions.
+const ACTION_RESOLUTION_ORDER: number[] = [
+  1, // Move
+  7, // Vent
+  9, // UseCams
+  4, // Kill
+  2, // DoTask
+  3, // FakeTask
+  8, // Sabotage
+  5, // Report
+  6, // CallMeeting
+];
+
+// Camera locations (rooms that cameras can see)
+export const CAMERA_LOCATIONS: number[] = [0, 2, 4, 8]; // Cafeteria, Storage, MedBay, Reactor
+
+const SECURITY = 7; // Where the camera monitors are
+
+/**
+ * Everything the phase machine, the action rules and the voting/win rules
+ * read. Plain data only, so a state can be copied, compared or replayed
+ * without a server around it.
+ */
+export interface EngineState {
+  phase: GamePhase;
+  round: number;
+  phaseEndTime: number; // Deadline of the current timed phase
+  players: PlayerState[];
+  impostors: string[]; // Lowercase addresses
+  votes: Record<string, string | null>; // Lowercase voter -> target (null = skip)
+  deadBodies: DeadBodyState[];
+  settings: GameSettings;
+  // Turn-based discussion: living players in speaking order (empty otherwise)
+  // and whose slot is open; speakerIndex === speakingOrder.length during the
+  // rebuttal
+  speakingOrder: string[];
+  speakerIndex: number;
+  tasks: Record<string, AssignedTask[]>; // Lowercase crewmate -> dealt tasks
+  lastKillRound: Record<string, number>; // Lowercase impostor -> round of their last kill
+  emergencyMeetingsUsed: Record<string, number>; // Lowercase player -> meetings called
+  activeSabotage: ActiveSabotage | null;
+  lastSabotageTime: number; // When the last sabotage started, in ms
+  playersInVent: string[]; // Lowercase addresses
+  playersOnCameras: string[]; // Lowercase addresses
+}
+
+// The action-round bookkeeping, kept between commands by whoever stores the game
+export type RuleState = Pick<
+  EngineState,
+  | "tasks"
+  | "lastKillRound"
+  | "emergencyMeetingsUsed"
+  | "activeSabotage"
+  | "lastSabotageTime"
+  | "playersInVent"
+  | "playersOnCameras"
+>;
+
+export interface ActiveSabotage {
+  type: SabotageType;
+  startTime: number;
+  endTime: number; // Critical sabotages only; 0 otherwise
+  fixProgress: Record<number, string[]>; // Fix location -> lowercase players who worked on it
+  sabotager: string;
+}
+
+// Lengths of the phases whose duration is not a game setting, in ms
+export interface PhaseDurations {
+  commit: number;
+  reveal: number;
+  ejection: number;
+}
+
+export interface WinConditionResult {
+  winner: "crewmates" | "impostors" | null;
+  reason?: "tasks" | "votes" | "kills";
+}
+
+// Commands carry the current time so that applying one never reads a clock
+export type EngineCommand =
+  | { type: "start_game"; now: number } // Lobby -> first commit window
+  | { type: "close_commits"; now: number; commitCount: number }
+  // Apply the round's revealed actions, then open the next round
+  | {
+      type: "resolve_actions";
+      now: number;
+      actions: Array<{ player: string; action: GameAction }>;
+    }
+  | { type: "end_turn"; now: number; speaker?: string } // Slot timed out, or the speaker spoke
+  | { type: "open_voting"; now: number }
+  | { type: "cast_vote"; now: number; voter: string; target: string | null }
+  | { type: "close_voting"; now: number }
+  | { type: "finish_vote_result"; now: number }
+  | { type: "sabotage_timeout"; now: number } // A critical sabotage's deadline passed
+  | { type: "check_win" }
+  | { type: "forfeit"; address: string } // A seat was given up mid-game
+  | { type: "end_game" }
+  // Sent directly, any time during an action round
+  | { type: "call_meeting"; now: number; player: string } // Emergency button
+  | { type: "sabotage"; now: number; player: string; sabotage: SabotageType }
+  | { type: "fix_sabotage"; now: number; player: string; location?: Location }
+  // Travel through vents is a revealed Vent action, like any other move
+  | { type: "vent"; now: number; player: string; action: "enter" | "exit" }
+  | { type: "use_cameras"; now: number; player: string; watching: boolean };
+
+type DirectCommand = Extract<EngineCommand, { player: string }>;
+
+// What each direct command does, for its "wrong phase" error
+const DIRECT_COMMAND_VERBS: Record<DirectCommand["type"], string> = {
+  call_meeting: "call meetings",
+  sabotage: "sabotage",
+  fix_sabotage: "fix sabotage",
+  vent: "use vents",
+  use_cameras: "use cameras",
+};
+
+export type EngineEvent =
+  | {
+      type: "phase_changed";
+      phase: GamePhase;
+      previousPhase: GamePhase;
+      round: number;
+      phaseEndTime: number;
+    }
+  | { type: "round_ready"; round: number } // Nothing to wait for; resolve now
+  | { type: "round_resolved"; round: number; resolvedCount: number }
+  | {
+      type: "player_moved";
+      address: string;
+      from: Location;
+      to: Location;
+      round: number;
+      ghost: boolean; // Ghosts ignore adjacency; only the dead see them move
+    }
+  | {
+      type: "kill_occurred";
+      killer: string;
+      victim: string;
+      location: Location;
+      round: number;
+      witnesses: string[]; // Who else saw it; everyone else learns of it from the report
+    }
+  | {
+      type: "body_reported";
+      reporter: string;
+      victim: string;
+      location: Location;
+      round: number;
+    }
+  | { type: "meeting_called"; caller: string; meetingsRemaining: number }
+  | {
+      type: "task_progressed";
+      player: string;
+      taskId: string;
+      completed: boolean; // False for the intermediate steps of multi-step tasks
+      tasksCompleted: number;
+      totalTasks: number;
+      totalProgress: number; // Percent of every crewmate's tasks
+    }
+  | {
+      type: "player_vented";
+      player: string;
+      action: "enter" | "exit" | "move";
+      from: Location;
+      to?: Location;
+    }
+  | {
+      type: "sabotage_started";
+      sabotage: SabotageType;
+      sabotager: string;
+      timeLimit: number;
+      fixLocations: Location[];
+      endTime: number; // 0 unless critical
+    }
+  | {
+      type: "sabotage_fixed";
+      sabotage: SabotageType;
+      fixedBy: string;
+      location: Location;
+    }
+  | { type: "sabotage_failed"; sabotage: SabotageType }
+  | { type: "cameras_changed"; player: string; watching: boolean }
+  | {
+      type: "speaker_changed";
+      speaker: string | null; // null: slots done, rebuttal open
+      turn: number;
+      turns: number;
+      round: number;
+      phaseEndTime: number;
+    }
+  | { type: "vote_cast"; voter: string; target: string | null; round: number }
+  | {
+      type: "voting_resolved";
+      ejected: string | null;
+      tie: boolean;
+      round: number;
+      phaseEndTime: number;
+    }
+  | {
+      type: "player_ejected";
+      address: string;
+      wasImpostor: boolean;
+      round: number;
+    }
+  | {
+      type: "game_won";
+      winner: "crewmates" | "impostors";
+      reason: "tasks" | "votes" | "kills";
+    }
+  | { type: "rejected"; command: EngineCommand["type"]; reason: string }
+  // A player's action broke a rule; tell that player why
+  | { type: "action_rejected"; player: string; code: string; reason: string };
+
+export interface EngineResult {
+  state: EngineState;
+  events: EngineEvent[];
+}
+
+/**
+ * Deterministic game rules: owns every phase transition, every action rule,
+ * the vote tally and the win check. `apply` never mutates its input and has no
+ * side effects; callers persist the returned state and turn the events into
+ * messages and timers.
+ */
+export class GameEngine {
+  constructor(private durations: PhaseDurations) {}
+
+  apply(state: EngineState, command: EngineCommand): EngineResult {
+    const next = cloneState(state);
+    const events: EngineEvent[] = [];
+
+    switch (command.type) {
+      case "start_game":
+        if (next.phase !== 0) {
+          return reject(state, command, "Game already started");
+        }
+        this.openCommits(next, command.now, events);
+        break;
+
+      case "close_commits":
+        if (next.phase !== 2) {
+          return reject(state, command, "Not in the commit phase");
+        }
+        next.phase = 3; // ActionReveal
+        if (command.commitCount === 0) {
+          // Nobody committed, so there is nothing to reveal
+          next.phaseEndTime = command.now;
+          events.push({ type: "round_ready", round: next.round });
+        } else {
+          next.phaseEndTime = command.now + this.durations.reveal;
+          events.push(phaseChanged(next, 2));
+        }
+        break;
+
+      case "resolve_actions":
+        if (next.phase !== 3) {
+          return reject(state, command, "Not in the reveal phase");
+        }
+        this.resolveActions(next, command.now, command.actions, events);
+        break;
+
+      case "call_meeting":
+      case "sabotage":
+      case "fix_sabotage":
+      case "vent":
+      case "use_cameras": {
+        if (next.phase !== 2 && next.phase !== 3) {
+          return refuseCommand(
+            state,
+            command,
+            "INVALID_PHASE",
+            `Can only ${DIRECT_COMMAND_VERBS[command.type]} during action phase`,
+          );
+        }
+        const player = findPlayer(next, command.player);
+        if (!player) {
+          return refuseCommand(
+            state,
+            command,
+            "NOT_IN_GAME",
+            "You are not a player in this game",
+          );
+        }
+        this.applyDirect(next, player, command, events);
+        break;
+      }
+
+      case "end_turn": {
+        const speaker = next.speakingOrder[next.speakerIndex];
+        if (next.phase !== 4 || !speaker) {
+          return reject(state, command, "Nobody has the floor");
+        }
+        if (
+          command.speaker &&
+          command.speaker.toLowerCase() !== speaker.toLowerCase()
+        ) {
+          return reject(state, command, "Not this player's turn");
+        }
+
+        next.speakerIndex++;
+        if (next.speakerIndex < next.speakingOrder.length) {
+          next.phaseEndTime = command.now + next.settings.speakingTime * 1000;
+        } else if (next.settings.rebuttalTime > 0) {
+          next.phaseEndTime = command.now + next.settings.rebuttalTime * 1000;
+        } else {
+          this.openVoting(next, command.now, events);
+          break;
+        }
+        events.push(speakerChanged(next));
+        break;
+      }
+
+      case "open_voting":
+        if (next.phase !== 4) {
+          return reject(state, command, "Not in the discussion phase");
+        }
+        if (next.speakerIndex < next.speakingOrder.length) {
+          return reject(state, command, "Speaking slots are still open");
+        }
+        this.openVoting(next, command.now, events);
+        break;
+
+      case "cast_vote": {
+        if (next.phase !== 5) {
+          return reject(state, command, "Not in the voting phase");
+        }
+        const voter = findPlayer(next, command.voter);
+        if (!voter || !voter.isAlive) {
+          return reject(state, command, "Only living players can vote");
+        }
+        // Anyone still thought alive can be voted for: turning down a vote
+        // for an unreported victim would give the kill away
+        const target = command.target ? findPlayer(next, command.target) : null;
+        if (target === undefined || (target && !seemsAlive(next, target))) {
+          const reason = target
+            ? `${target.address} is out of the game`
+            : `${command.target} is not a player in this game`;
+          return {
+            state,
+            events: [
+              {
+                type: "action_rejected",
+                player: voter.address,
+                code: "INVALID_TARGET",
+                reason,
+              },
+            ],
+          };
+        }
+
+        next.votes[voter.address.toLowerCase()] = command.target
+          ? command.target.toLowerCase()
+          : null;
+        voter.hasVoted = true;
+        events.push({
+          type: "vote_cast",
+          voter: voter.address,
+          target: command.target,
+          round: next.round,
+        });
+
+        const alive = next.players.filter((p) => p.isAlive);
+        if (alive.every((p) => p.hasVoted)) {
+          this.closeVoting(next, command.now, events);
+        }
+        break;
+      }
+
+      case "close_voting":
+        if (next.phase !== 5) {
+          return reject(state, command, "Not in the voting phase");
+        }
+        this.closeVoting(next, command.now, events);
+        break;
+
+      case "finish_vote_result":
+        if (next.phase !== 6) {
+          return reject(state, command, "No vote result is showing");
+        }
+        if (checkWin(next, events)) break;
+
+        // Reported bodies are cleaned up; unreported ones stay where they fell
+        next.deadBodies = next.deadBodies.filter((b) => !b.reported);
+        next.round++;
+        clearVotes(next);
+        this.openCommits(next, command.now, events);
+        break;
+
+      case "sabotage_timeout": {
+        const sabotage = next.activeSabotage;
+        // Fixed, cleared by a meeting, or replaced by a later sabotage
+        if (
+          next.phase === 0 ||
+          next.phase === 7 ||
+          !sabotage ||
+          sabotage.endTime === 0 ||
+          command.now < sabotage.endTime
+        ) {
+          return { state, events };
+        }
+        next.activeSabotage = null;
+        events.push({ type: "sabotage_failed", sabotage: sabotage.type });
+        events.push({ type: "game_won", winner: "impostors", reason: "kills" });
+        break;
+      }
+
+      case "check_win":
+        if (next.phase === 0 || next.phase === 7) return { state, events };
+        checkWin(next, events);
+        break;
+
+      case "forfeit": {
+        if (next.phase === 0 || next.phase === 7) return { state, events };
+        const player = findPlayer(next, command.address);
+        if (!player) return reject(state, command, "Not seated in this game");
+        // Out of the game, but nobody killed them: no body, nothing to report
+        player.isAlive = false;
+        checkWin(next, events);
+        break;
+      }
+
+      case "end_game":
+        next.phase = 7; // Ended
+        next.phaseEndTime = 0;
+        break;
+    }
+
+    return { state: next, events };
+  }
+
+  private openCommits(
+    state: EngineState,
+    now: number,
+    events: EngineEvent[],
+  ): void {
+    const previousPhase = state.phase;
+    state.phase = 2; // ActionCommit
+    state.phaseEndTime = now + this.durations.commit;
+    events.push(phaseChanged(state, previousPhase));
+  }
+
+  /**
+   * Apply revealed actions in resolution order (ties keep the given order).
+   * A meeting or a win stops the rest of the round; otherwise the next round
+   * opens.
+   */
+  private resolveActions(
+    state: EngineState,
+    now: number,
+    actions: Array<{ player: string; action: GameAction }>,
+    events: EngineEvent[],
+  ): void {
+    const round = state.round;
+    const ordered = [...actions].sort(
+      (a, b) => resolutionRank(a.action.type) - resolutionRank(b.action.type),
+    );
+
+    let resolvedCount = 0;
+    for (const { player: address, action } of ordered) {
+      if (state.phase !== 3 || hasWinner(events)) break;
+
+      const player = findPlayer(state, address);
+      if (!player) continue;
+
+      this.applyAction(state, player, action, now, events);
+      resolvedCount++;
+    }
+
+    events.push({ type: "round_resolved", round, resolvedCount });
+
+    if (state.phase === 3 && !hasWinner(events)) {
+      state.round++;
+      this.openCommits(state, now, events);
+    }
+  }
+
+  private applyAction(
+    state: EngineState,
+    player: PlayerState,
+    action: GameAction,
+    now: number,
+    events: EngineEvent[],
+  ): void {
+    switch (action.type) {
+      case 1: // Move
+        if (action.destination !== undefined) {
+          this.move(state, player, action.destination, events);
+        }
+        break;
+
+      case 2: // DoTask
+        this.doTask(state, player, events);
+        break;
+
+      case 4: // Kill
+        if (action.target) {
+          this.kill(state, player, action.target, events);
+        }
+        break;
+
+      case 5: // Report
+        this.reportBody(state, player, now, events);
+        break;
+
+      case 6: // CallMeeting
+        this.callMeeting(state, player, now, events);
+        break;
+
+      case 7: // Vent: enter, move through to the destination, or climb out
+        if (!state.playersInVent.includes(player.address.toLowerCase())) {
+          this.vent(state, player, "enter", undefined, events);
+        } else if (
+          action.destination !== undefined &&
+          action.destination !== player.location
+        ) {
+          this.vent(state, player, "move", action.destination, events);
+        } else {
+          this.vent(state, player, "exit", undefined, events);
+        }
+        break;
+
+      case 8: // Sabotage
+        if (action.sabotage) {
+          this.sabotage(state, player, action.sabotage, now, events);
+        }
+        break;
+
+      case 9: // UseCams
+        this.useCameras(state, player, true, events);
+        break;
+
+      // FakeTask, Skip and None have no effect
+    }
+  }
+
+  private applyDirect(
+    state: EngineState,
+    player: PlayerState,
+    command: DirectCommand,
+    events: EngineEvent[],
+  ): void {
+    switch (command.type) {
+      case "call_meeting":
+        this.callMeeting(state, player, command.now, events);
+        break;
+      case "sabotage":
+        this.sabotage(state, player, command.sabotage, command.now, events);
+        break;
+      case "fix_sabotage":
+        this.fixSabotage(state, player, command.location, events);
+        break;
+      case "vent":
+        this.vent(state, player, command.action, undefined, events);
+        break;
+      case "use_cameras":
+        this.useCameras(state, player, command.watching, events);
+        break;
+    }
+  }
+
+  // ============ ACTION RULES ============
+
+  private move(
+    state: EngineState,
+    player: PlayerState,
+    to: Location,
+    events: EngineEvent[],
+  ): void {
+    const from = player.location;
+
+    // Ghosts go anywhere; the living walk to an adjacent room or stay put
+    if (player.isAlive && from !== to && !ROOM_ADJACENCY.get(from)?.includes(to)) {
+      const adjacent = ROOM_ADJACENCY.get(from) ?? [];
+      refuse(
+        events,
+        player,
+        "INVALID_MOVE",
+        `Cannot move from ${Location[from]} to ${Location[to]}. Adjacent rooms: ${adjacent.map((r) => Location[r]).join(", ")}`,
+      );
+      return;
+    }
+
+    player.location = to;
+    events.push({
+      type: "player_moved",
+      address: player.address,
+      from,
+      to,
+      round: state.round,
+      ghost: !player.isAlive,
+    });
+  }
+
+  private kill(
+    state: EngineState,
+    killer: PlayerState,
+    victimAddress: string,
+    events: EngineEvent[],
+  ): void {
+    const killerKey = killer.address.toLowerCase();
+    if (!state.impostors.includes(killerKey)) {
+      refuse(events, killer, "KILL_NOT_IMPOSTOR", "Only impostors can kill");
+      return;
+    }
+
+    const cooldown = killCooldown(state, killerKey);
+    if (cooldown > 0) {
+      refuse(
+        events,
+        killer,
+        "KILL_COOLDOWN",
+        `Kill on cooldown. Wait ${cooldown} more round(s).`,
+      );
+      return;
+    }
+
+    if (!killer.isAlive) {
+      refuse(events, killer, "PLAYER_DEAD", "Dead players cannot kill");
+      return;
+    }
+    if (state.playersInVent.includes(killerKey)) {
+      refuse(events, killer, "KILL_FROM_VENT", "Cannot kill from inside a vent");
+      return;
+    }
+
+    const victim = findPlayer(state, victimAddress);
+    if (!victim || victim === killer) {
+      refuse(events, killer, "INVALID_TARGET", "Invalid kill target");
+      return;
+    }
+    if (!victim.isAlive) {
+      refuse(events, killer, "TARGET_DEAD", "Target is already dead");
+      return;
+    }
+    if (victim.location !== killer.location) {
+      refuse(
+        events,
+        killer,
+        "TARGET_NOT_IN_ROOM",
+        "Target is not in the same room as you",
+      );
+      return;
+    }
+
+    victim.isAlive = false;
+    state.deadBodies.push({
+      victim: victim.address,
+      location: killer.location,
+      round: state.round,
+      reported: false,
+    });
+    state.lastKillRound[killerKey] = state.round;
+
+    events.push({
+      type: "kill_occurred",
+      killer: killer.address,
+      victim: victim.address,
+      location: killer.location,
+      round: state.round,
+      witnesses: witnessesAt(state, killer.location).filter(
+        (address) => address !== killer.address && address !== victim.address,
+      ),
+    });
+    checkWin(state, events);
+  }
+
+  /**
+   * Advance the player's task whose next step is in their room. Ghost
+   * crewmates keep working; impostors only ever fake it.
+   */
+  private doTask(
+    state: EngineState,
+    player: PlayerState,
+    events: EngineEvent[],
+  ): void {
+    const key = player.address.toLowerCase();
+    if (state.impostors.includes(key)) {
+      refuse(
+        events,
+        player,
+        "IMPOSTOR_CANNOT_TASK",
+        "Impostors cannot complete real tasks",
+      );
+      return;
+    }
+    if (state.playersInVent.includes(key)) {
+      refuse(events, player, "IN_VENT", "Cannot do tasks while in a vent");
+      return;
+    }
+
+    const tasks = state.tasks[key] ?? [];
+    const task = tasks.find(
+      (t) => !t.completed && t.steps[t.currentStep] === player.location,
+    );
+    if (!task) {
+      refuse(
+        events,
+        player,
+        "NO_TASK_HERE",
+        "You have no task step to do in this room",
+      );
+      return;
+    }
+
+    task.currentStep++;
+    if (task.currentStep >= task.steps.length) {
+      // Only the final step moves the task bar
+      task.completed = true;
+      player.tasksCompleted = tasks.filter((t) => t.completed).length;
+      player.totalTasks = tasks.length;
+    }
+
+    const totalDone = state.players.reduce((sum, p) => sum + p.tasksCompleted, 0);
+    const totalRequired = state.players.reduce((sum, p) => sum + p.totalTasks, 0);
+    events.push({
+      type: "task_progressed",
+      player: player.address,
+      taskId: task.taskId,
+      completed: task.completed,
+      tasksCompleted: player.tasksCompleted,
+      totalTasks: player.totalTasks,
+      totalProgress: totalRequired > 0 ? (totalDone / totalRequired) * 100 : 0,
+    });
+
+    if (task.completed) {
+      checkWin(state, events);
+    }
+  }
+
+  /**
+   * Report an unreported body in the reporter's own room and start a meeting
+   */
+  private reportBody(
+    state: EngineState,
+    reporter: PlayerState,
+    now: number,
+    events: EngineEvent[],
+  ): void {
+    if (!reporter.isAlive) {
+      refuse(
+        events,
+        reporter,
+        "REPORTER_DEAD",
+        "Dead players cannot report bodies",
+      );
+      return;
+    }
+
+    const body = state.deadBodies.find(
+      (b) => b.location === reporter.location && !b.reported,
+    );
+    if (!body) {
+      refuse(events, reporter, "NO_BODY", "No unreported body at this location");
+      return;
+    }
+
+    body.reported = true;
+    events.push({
+      type: "body_reported",
+      reporter: reporter.address,
+      victim: body.victim,
+      location: body.location,
+      round: state.round,
+    });
+    this.startMeeting(state, now, reporter.address, events);
+  }
+
+  private callMeeting(
+    state: EngineState,
+    caller: PlayerState,
+    now: number,
+    events: EngineEvent[],
+  ): void {
+    if (!caller.isAlive) {
+      refuse(
+        events,
+        caller,
+        "CANNOT_CALL_MEETING",
+        "Dead players cannot call meetings",
+      );
+      return;
+    }
+
+    const key = caller.address.toLowerCase();
+    const used = state.emergencyMeetingsUsed[key] ?? 0;
+    if (used >= state.settings.emergencyMeetings) {
+      refuse(
+        events,
+        caller,
+        "CANNOT_CALL_MEETING",
+        "No emergency meetings remaining",
+      );
+      return;
+    }
+
+    state.emergencyMeetingsUsed[key] = used + 1;
+    events.push({
+      type: "meeting_called",
+      caller: caller.address,
+      meetingsRemaining: state.settings.emergencyMeetings - used - 1,
+    });
+    this.startMeeting(state, now, caller.address, events);
+  }
+
+  /**
+   * Impostors only. Entering needs a vent in the room; moving follows the
+   * vent network and takes the player with it.
+   */
+  private vent(
+    state: EngineState,
+    player: PlayerState,
+    action: "enter" | "exit" | "move",
+    to: Location | undefined,
+    events: EngineEvent[],
+  ): void {
+    if (!player.isAlive) {
+      refuse(events, player, "PLAYER_DEAD", "Dead players cannot use vents");
+      return;
+    }
+
+    const key = player.address.toLowerCase();
+    const inVent = state.playersInVent.includes(key);
+    const from = player.location;
+
+    switch (action) {
+      case "enter":
+        if (!state.impostors.includes(key)) {
+          refuse(events, player, "CANNOT_VENT", "Only impostors can use vents");
+          return;
+        }
+        if (inVent) {
+          refuse(events, player, "CANNOT_VENT", "Already in a vent");
+          return;
+        }
+        if (!VENT_CONNECTIONS.get(from)?.length) {
+          refuse(events, player, "CANNOT_VENT", "No vent at this location");
+          return;
+        }
+        state.playersInVent.push(key);
+        break;
+
+      case "exit":
+        if (!inVent) {
+          refuse(events, player, "NOT_IN_VENT", "Not currently in a vent");
+          return;
+        }
+        state.playersInVent = state.playersInVent.filter((p) => p !== key);
+        break;
+
+      case "move":
+        if (!inVent) {
+          refuse(
+            events,
+            player,
+            "NOT_IN_VENT",
+            "Must be in a vent to move between vents",
+          );
+          return;
+        }
+        if (to === undefined) {
+          refuse(events, player, "NO_TARGET", "Must specify target vent location");
+          return;
+        }
+        if (!state.impostors.includes(key)) {
+          refuse(events, player, "INVALID_VENT", "Only impostors can use vents");
+          return;
+        }
+        if (!VENT_CONNECTIONS.get(from)?.includes(to)) {
+          refuse(
+            events,
+            player,
+            "INVALID_VENT",
+            "No vent connection between these rooms",
+          );
+          return;
+        }
+        player.location = to;
+        break;
+    }
+
+    events.push({
+      type: "player_vented",
+      player: player.address,
+      action,
+      from,
+      to: action === "move" ? to : undefined,
+    });
+  }
+
+  /**
+   * Impostors only, one sabotage at a time, and not again until the cooldown
+   * has passed. Critical sabotages must be fixed before their deadline.
+   */
+  private sabotage(
+    state: EngineState,
+    player: PlayerState,
+    type: SabotageType,
+    now: number,
+    events: EngineEvent[],
+  ): void {
+    const key = player.address.toLowerCase();
+    if (!state.impostors.includes(key)) {
+      refuse(events, player, "CANNOT_SABOTAGE", "Only impostors can sabotage");
+      return;
+    }
+    if (state.activeSabotage) {
+      refuse(
+        events,
+        player,
+        "CANNOT_SABOTAGE",
+        "A sabotage is already in progress",
+      );
+      return;
+    }
+    if (now - state.lastSabotageTime < state.settings.sabotageCooldown * 1000) {
+      refuse(events, player, "CANNOT_SABOTAGE", "Sabotage on cooldown");
+      return;
+    }
+
+    const config = sabotageConfig(state.settings, type);
+    if (!config) {
+      refuse(events, player, "INVALID_SABOTAGE", "Invalid sabotage type");
+      return;
+    }
+
+    const endTime = config.isCritical ? now + config.timeLimit * 1000 : 0;
+    state.activeSabotage = {
+      type,
+      startTime: now,
+      endTime,
+      fixProgress: {},
+      sabotager: key,
+    };
+    state.lastSabotageTime = now;
+
+    events.push({
+      type: "sabotage_started",
+      sabotage: type,
+      sabotager: player.address,
+      timeLimit: config.timeLimit,
+      fixLocations: config.fixLocations,
+      endTime,
+    });
+  }
+
+  /**
+   * Work on the active sabotage from the player's own room. The Reactor needs
+   * two different players; everything else is fixed by one.
+   */
+  private fixSabotage(
+    state: EngineState,
+    player: PlayerState,
+    claimedLocation: Location | undefined,
+    events: EngineEvent[],
+  ): void {
+    if (!player.isAlive) {
+      refuse(events, player, "PLAYER_DEAD", "Dead players cannot fix sabotage");
+      return;
+    }
+
+    const location = player.location;
+    if (claimedLocation !== undefined && claimedLocation !== location) {
+      refuse(
+        events,
+        player,
+        "WRONG_LOCATION",
+        "Must be at the fix location to repair sabotage",
+      );
+      return;
+    }
+
+    const key = player.address.toLowerCase();
+    if (state.playersInVent.includes(key)) {
+      refuse(events, player, "IN_VENT", "Cannot fix sabotage from inside a vent");
+      return;
+    }
+
+    const sabotage = state.activeSabotage;
+    if (!sabotage) {
+      refuse(events, player, "NO_SABOTAGE", "No active sabotage to fix");
+      return;
+    }
+
+    const config = SABOTAGE_CONFIG[sabotage.type];
+    if (!config?.fixLocations.includes(location)) {
+      refuse(events, player, "FIX_FAILED", "Cannot fix sabotage at this location");
+      return;
+    }
+
+    const fixers = sabotage.fixProgress[location] ?? [];
+    if (!fixers.includes(key)) {
+      sabotage.fixProgress[location] = [...fixers, key];
+    }
+
+    const allFixers = new Set(Object.values(sabotage.fixProgress).flat());
+    if (config.requiresMultipleFixes && allFixers.size < 2) return;
+
+    state.activeSabotage = null;
+    events.push({
+      type: "sabotage_fixed",
+      sabotage: sabotage.type,
+      fixedBy: player.address,
+      location,
+    });
+  }
+
+  /**
+   * Start or stop watching the camera feed, which only works from Security
+   */
+  private useCameras(
+    state: EngineState,
+    player: PlayerState,
+    watching: boolean,
+    events: EngineEvent[],
+  ): void {
+    if (!player.isAlive) {
+      refuse(events, player, "PLAYER_DEAD", "Dead players cannot use cameras");
+      return;
+    }
+    if (player.location !== SECURITY) {
+      refuse(
+        events,
+        player,
+        "WRONG_LOCATION",
+        "Must be at Security to use cameras",
+      );
+      return;
+    }
+
+    const key = player.address.toLowerCase();
+    state.playersOnCameras = state.playersOnCameras.filter((p) => p !== key);
+    if (watching) {
+      state.playersOnCameras.push(key);
+    }
+    events.push({ type: "cameras_changed", player: player.address, watching });
+  }
+
+  // ============ MEETINGS AND VOTING ============
+
+  /**
+   * Move from the action round to discussion. Meetings end any sabotage and
+   * pull everyone out of vents and off the cameras.
+   */
+  private startMeeting(
+    state: EngineState,
+    now: number,
+    caller: string,
+    events: EngineEvent[],
+  ): void {
+    const previousPhase = state.phase;
+    state.phase = 4; // Discussion
+    state.activeSabotage = null;
+    state.playersInVent = [];
+    state.playersOnCameras = [];
+
+    if (state.settings.discussionMode === "turns") {
+      state.speakingOrder = speakingOrder(state, caller);
+      state.speakerIndex = 0;
+      state.phaseEndTime = now + state.settings.speakingTime * 1000;
+      events.push(phaseChanged(state, previousPhase));
+      events.push(speakerChanged(state));
+    } else {
+      state.phaseEndTime = now + state.settings.discussionTime * 1000;
+      events.push(phaseChanged(state, previousPhase));
+    }
+  }
+
+  private openVoting(
+    state: EngineState,
+    now: number,
+    events: EngineEvent[],
+  ): void {
+    state.phase = 5; // Voting
+    state.phaseEndTime = now + state.settings.votingTime * 1000;
+    state.speakingOrder = [];
+    state.speakerIndex = 0;
+    clearVotes(state);
+    events.push(phaseChanged(state, 4));
+  }
+
+  private closeVoting(
+    state: EngineState,
+    now: number,
+    events: EngineEvent[],
+  ): void {
+    const { ejected, tie } = tallyVotes(state.votes);
+
+    state.phase = 6; // VoteResult
+    state.phaseEndTime = now + this.durations.ejection;
+
+    const ejectedPlayer = ejected ? findPlayer(state, ejected) : undefined;
+    if (ejectedPlayer) {
+      ejectedPlayer.isAlive = false;
+      events.push({
+        type: "player_ejected",
+        address: ejectedPlayer.address,
+        wasImpostor: state.impostors.includes(
+          ejectedPlayer.address.toLowerCase(),
+        ),
+        round: state.round,
+      });
+    }
+
+    events.push({
+      type: "voting_resolved",
+      ejected: ejectedPlayer?.address ?? null,
+      tie,
+      round: state.round,
+      phaseEndTime: state.phaseEndTime,
+    });
+  }
+}
+
+/**
+ * Most votes wins; skipping counts as a candidate. A tie between players, or
+ * with skip, ejects nobody.
+ */
+export function tallyVotes(votes: Record<string, string | null>): {
+  ejected: string | null;
+  tie: boolean;
+} {
+  const voteCounts = new Map<string, number>();
+  let skipCount = 0;
+
+  for (const target of Object.values(votes)) {
+    if (target === null) {
+      skipCount++;
+    } else {
+      voteCounts.set(target, (voteCounts.get(target) || 0) + 1);
+    }
+  }
+
+  let maxVotes = skipCount;
+  let ejected: string | null = null;
+  let tie = false;
+
+  for (const [target, count] of voteCounts) {
+    if (count > maxVotes) {
+      maxVotes = count;
+      ejected = target;
+      tie = false;
+    } else if (count === maxVotes && ejected !== null) {
+      tie = true;
+    }
+  }
+
+  return { ejected: tie ? null : ejected, tie };
+}
+
+export function checkWinCondition(state: EngineState): WinConditionResult {
+  const alivePlayers = state.players.filter((p) => p.isAlive);
+  const aliveImpostors = alivePlayers.filter((p) =>
+    state.impostors.includes(p.address.toLowerCase()),
+  );
+  const aliveCrewmates = alivePlayers.length - aliveImpostors.length;
+
+  // Crewmates win if all impostors are ejected
+  if (aliveImpostors.length === 0) {
+    return { winner: "crewmates", reason: "votes" };
+  }
+
+  // Impostors win if they equal or outnumber crewmates, including once every
+  // crewmate is dead
+  if (aliveImpostors.length >= aliveCrewmates) {
+    return { winner: "impostors", reason: "kills" };
+  }
+
+  // Crewmates win if all tasks are completed
+  const totalTasksCompleted = state.players.reduce(
+    (sum, p) => sum + p.tasksCompleted,
+    0,
+  );
+  const totalTasksRequired = state.players.reduce(
+    (sum, p) => sum + p.totalTasks,
+    0,
+  );
+  if (totalTasksRequired > 0 && totalTasksCompleted >= totalTasksRequired) {
+    return { winner: "crewmates", reason: "tasks" };
+  }
+
+  return { winner: null };
+}
+
+/**
+ * Push a game_won event if the game is decided. Returns whether it was.
+ */
+function checkWin(state: EngineState, events: EngineEvent[]): boolean {
+  const result = checkWinCondition(state);
+  if (!result.winner) return false;
+
+  events.push({
+    type: "game_won",
+    winner: result.winner,
+    reason: result.reason!,
+  });
+  return true;
+}
+
+/**
+ * Who would see something happen in a room: anyone there who isn't hiding in a
+ * vent, and with the lights out only impostors
+ */
+function witnessesAt(state: EngineState, location: Location): string[] {
+  const lightsOut = state.activeSabotage?.type === 1;
+  return state.players
+    .filter((p) => {
+      const key = p.address.toLowerCase();
+      return (
+        p.location === location &&
+        !state.playersInVent.includes(key) &&
+        (!lightsOut || state.impostors.includes(key))
+      );
+    })
+    .map((p) => p.address);
+}
+
+function hasWinner(events: EngineEvent[]): boolean {
+  return events.some((e) => e.type === "game_won");
+}
+
+/**
+ * Rounds an impostor must still wait before killing again
+ */
+function killCooldown(state: EngineState, impostor: string): number {
+  const lastKill = state.lastKillRound[impostor];
+  if (lastKill === undefined) return 0;
+  return Math.max(0, state.settings.killCooldown - (state.round - lastKill));
+}
+
+/**
+ * Sabotage rules with critical time limits taken from the room settings
+ */
+function sabotageConfig(
+  settings: GameSettings,
+  type: SabotageType,
+): SabotageConfig | null {
+  const config = SABOTAGE_CONFIG[type];
+  if (!config) return null;
+
+  switch (type) {
+    case 2: // Reactor
+      return { ...config, timeLimit: settings.reactorTimeLimit };
+    case 3: // O2
+      return { ...config, timeLimit: settings.oxygenTimeLimit };
+    default:
+      return config;
+  }
+}
+
+function resolutionRank(type: number): number {
+  const idx = ACTION_RESOLUTION_ORDER.indexOf(type);
+  return idx === -1 ? ACTION_RESOLUTION_ORDER.length : idx;
+}
+
+function cloneState(state: EngineState): EngineState {
+  const sabotage = state.activeSabotage;
+  return {
+    ...state,
+    players: state.players.map((p) => ({ ...p })),
+    votes: { ...state.votes },
+    deadBodies: state.deadBodies.map((b) => ({ ...b })),
+    speakingOrder: [...state.speakingOrder],
+    tasks: Object.fromEntries(
+      Object.entries(state.tasks).map(([player, tasks]) => [
+        player,
+        tasks.map((t) => ({ ...t, steps: [...t.steps] })),
+      ]),
+    ),
+    lastKillRound: { ...state.lastKillRound },
+    emergencyMeetingsUsed: { ...state.emergencyMeetingsUsed },
+    activeSabotage: sabotage
+      ? {
+          ...sabotage,
+          fixProgress: Object.fromEntries(
+            Object.entries(sabotage.fixProgress).map(([loc, fixers]) => [
+              loc,
+              [...fixers],
+            ]),
+          ),
+        }
+      : null,
+    playersInVent: [...state.playersInVent],
+    playersOnCameras: [...state.playersOnCameras],
+  };
+}
+
+/**
+ * Alive, or dead in a way nobody has found out about yet
+ */
+function seemsAlive(state: EngineState, player: PlayerState): boolean {
+  return (
+    player.isAlive ||
+    state.deadBodies.some(
+      (b) =>
+        !b.reported && b.victim.toLowerCase() === player.address.toLowerCase(),
+    )
+  );
+}
+
+function findPlayer(
+  state: EngineState,
+  address: string,
+): PlayerState | undefined {
+  return state.players.find(
+    (p) => p.address.toLowerCase() === address.toLowerCase(),
+  );
+}
+
+function clearVotes(state: EngineState): void {
+  state.votes = {};
+  for (const player of state.players) {
+    player.hasVoted = false;
+  }
+}
+
+/**
+ * Living players in seat order, starting with whoever called the meeting. With
+ * no caller the first speaker rotates by round.
+ */
+function speakingOrder(state: EngineState, caller?: string): string[] {
+  const alive = state.players.filter((p) => p.isAlive).map((p) => p.address);
+  if (alive.length === 0) return [];
+
+  const callerIndex = caller
+    ? alive.findIndex((a) => a.toLowerCase() === caller.toLowerCase())
+    : -1;
+  const start = callerIndex >= 0 ? callerIndex : state.round % alive.length;
+  return [...alive.slice(start), ...alive.slice(0, start)];
+}
+
+function speakerChanged(state: EngineState): EngineEvent {
+  return {
+    type: "speaker_changed",
+    speaker: state.speakingOrder[state.speakerIndex] ?? null,
+    turn: state.speakerIndex,
+    turns: state.speakingOrder.length,
+    round: state.round,
+    phaseEndTime: state.phaseEndTime,
+  };
+}
+
+function phaseChanged(
+  state: EngineState,
+  previousPhase: GamePhase,
+): EngineEvent {
+  return {
+    type: "phase_changed",
+    phase: state.phase,
+    previousPhase,
+    round: state.round,
+    phaseEndTime: state.phaseEndTime,
+  };
+}
+
+function reject(
+  state: EngineState,
+  command: EngineCommand,
+  reason: string,
+): EngineResult {
+  return { state, events: [{ type: "rejected", command: command.type, reason }] };
+}
+
+/**
+ * Tell a player why their action was refused; the state is left as it was
+ */
+function refuse(
+  events: EngineEvent[],
+  player: PlayerState,
+  code: string,
+  reason: string,
+): void {
+  events.push({ type: "action_rejected", player: player.address, code, reason });
+}
+
+function refuseCommand(
+  state: EngineState,
+  command: DirectCommand,
+  code: string,
+  reason: string,
+): EngineResult {
+  return {
+    state,
+    events: [{ type: "action_rejected", player: command.player, code, reason }],
+  };
+}
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ServerMessage } from "./types.js";
+
+vi.hoisted(() => {
+  process.env.DATABASE_URL = "postgresql://test";
+  process.env.LOG_LEVEL = "error";
+});
+
+interface StoredEvent {
+  roomId: string;
+  sequence: number;
+  type: string;
+  audience: string[];
+}
+
+// The database behind a GameEvent table; `failures` rejects that many writes
+const db = vi.hoisted(() => ({
+  events: [] as StoredEvent[],
+  failures: 0,
+  writes: 0,
+}));
+
+vi.mock("@prisma/client", () => ({
+  GameStatus: {},
+  TransactionType: {},
+  PrismaClient: class {
+    gameEvent = {
+      createMany: async ({ data }: { data: StoredEvent[] }) => {
+        db.writes++;
+        if (db.failures > 0) {
+          db.failures--;
+          throw new Error("connection lost");
+        }
+        db.events.push(...data);
+        return { count: data.length };
+      },
+      aggregate: async ({ where }: { where: { roomId: string } }) => {
+        const sequences = db.events
+          .filter((e) => e.roomId === where.roomId)
+          .map((e) => e.sequence);
+        return {
+          _max: { sequence: sequences.length ? Math.max(...sequences) : null },
+        };
+      },
+    };
+  },
+}));
+
+const { GameEventLog } = await import("./GameEventLog.js");
+
+const ROOM = "room-1";
+
+function message(n: number): ServerMessage {
+  return { type: "server:error", code: "TEST", message: `#${n}` };
+}
+
+function stored(roomId = ROOM): number[] {
+  return db.events.filter((e) => e.roomId === roomId).map((e) => e.sequence);
+}
+
+let log: InstanceType<typeof GameEventLog>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  db.events = [];
+  db.failures = 0;
+  db.writes = 0;
+  log = new GameEventLog();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("GameEventLog", () => {
+  it("numbers each room's events from 0 and stores them in order", async () => {
+    expect(log.append(ROOM, message(0))).toBe(0);
+    expect(log.append(ROOM, message(1), ["0xabc"])).toBe(1);
+    expect(log.append("room-2", message(0))).toBe(0);
+    expect(log.append(ROOM, message(2))).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(stored()).toEqual([0, 1, 2]);
+    expect(stored("room-2")).toEqual([0]);
+    expect(db.events[1]).toMatchObject({ type: "server:error", audience: ["0xabc"] });
+    // The first event went alone; the rest waited for it and went together
+    expect(db.writes).toBe(2);
+  });
+
+  it("continues a restored room after its last stored event", async () => {
+    for (let i = 0; i < 3; i++) log.append(ROOM, message(i));
+    await vi.advanceTimersByTimeAsync(0);
+
+    const restarted = new GameEventLog();
+    await restarted.resume(ROOM);
+
+    expect(restarted.append(ROOM, message(3))).toBe(3);
+    await restarted.resume("room-2");
+    expect(restarted.append("room-2", message(0))).toBe(0);
+  });
+
+  it("retries a failed batch, keeping it ahead of events logged since", async () => {
+    db.failures = 2;
+    log.append(ROOM, message(0));
+    log.append(ROOM, message(1));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(stored()).toEqual([]);
+    log.append(ROOM, message(2));
+
+    // Backs off 1s, then 2s
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(stored()).toEqual([]);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(stored()).toEqual([0, 1, 2]);
+    expect(db.writes).toBe(3);
+
+    // Writes go straight through again
+    log.append(ROOM, message(3));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stored()).toEqual([0, 1, 2, 3]);
+  });
+
+  it("gives up on a batch after five attempts but still writes later events", async () => {
+    db.failures = 5;
+    log.append(ROOM, message(0));
+
+    await vi.advanceTimersByTimeAsync(1000 + 2000 + 3000 + 4000);
+    expect(db.writes).toBe(5);
+
+    log.append(ROOM, message(1));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stored()).toEqual([1]);
+  });
+});
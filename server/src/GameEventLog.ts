@@ -0,0 +1,53 @@
+import { createLogger } from "./logger.js";
+import { databaseService } from "./DatabaseService.js";
+import type { ServerMessage } from "./types.js";
+
+const logger = createLogger("game-event-log");
+
+/**
+ * Numbers every server message emitted for a room and persists it through
+ * DatabaseService, so finished games can be replayed and analysed later.
+ */
+export class GameEventLog {
+  // roomId -> next sequence number
+  private sequences: Map<string, number> = new Map();
+
+  /**
+   * Append a message to a room's log. `audience` lists the addresses it was
+   * delivered to when it was not sent to the whole room.
+   */
+  append(roomId: string, message: ServerMessage, audience?: string[]): number {
+    const sequence = this.sequences.get(roomId) ?? 0;
+    this.sequences.set(roomId, sequence + 1);
+
+    databaseService.logGameEvent({
+      roomId,
+      sequence,
+      type: message.type,
+      payload: message,
+      audience,
+    });
+
+    return sequence;
+  }
+
+  /**
+   * Continue a restored room's log after the last persisted event
+   */
+  async resume(roomId: string): Promise<void> {
+    const last = await databaseService.getLastEventSequence(roomId);
+    this.sequences.set(roomId, last + 1);
+  }
+
+  /**
+   * Drop a room's counter once the room itself is gone
+   */
+  forget(roomId: string): void {
+    if (this.sequences.delete(roomId)) {
+      logger.debug(`Closed event log for room ${roomId}`);
+    }
+  }
+}
+
+// Singleton instance
+export const gameEventLog = new GameEventLog();
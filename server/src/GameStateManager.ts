@@ -1,87 +1,44 @@
+import { ethers } from "ethers";
 import {
   type GameStateSnapshot,
   type PlayerState,
-  type DeadBodyState,
-  type GamePhase,
-  Location,
+  type GameAction,
+  type AssignedTask,
+  type GameSettings,
   type SabotageType,
 } from "./types.js";
+import { CAMERA_LOCATIONS, type RuleState } from "./GameEngine.js";
 import { createLogger } from "./logger.js";
+import { DEFAULT_GAME_SETTINGS } from "./gameSettings.js";
+import { shuffleWith } from "./fairness.js";
 
 const logger = createLogger("game-state-manager");
 
-// Game constants
-const KILL_COOLDOWN_ROUNDS = 2; // Impostors must wait 2 rounds between kills
-const MAX_EMERGENCY_MEETINGS_PER_PLAYER = 1; // Each player gets 1 emergency meeting
-const SABOTAGE_COOLDOWN_MS = 30000; // 30 seconds between sabotages
-
-// Sabotage configuration
-interface SabotageConfig {
-  isCritical: boolean;
-  timeLimit: number; // Seconds (0 = until fixed manually)
-  fixLocations: number[]; // Location enums
-  requiresMultipleFixes: boolean; // E.g., Reactor needs 2 players
+// Task catalog. Multi-step tasks must be done in the listed room order.
+export interface TaskDefinition {
+  id: string;
+  name: string;
+  steps: number[]; // Location enums
 }
 
-const SABOTAGE_CONFIG: Record<number, SabotageConfig> = {
-  // SabotageType.Lights = 1
-  1: {
-    isCritical: false,
-    timeLimit: 0,
-    fixLocations: [3], // Electrical
-    requiresMultipleFixes: false,
-  },
-  // SabotageType.Reactor = 2
-  2: {
-    isCritical: true,
-    timeLimit: 45,
-    fixLocations: [8], // Reactor
-    requiresMultipleFixes: true, // Needs 2 players
-  },
-  // SabotageType.O2 = 3
-  3: {
-    isCritical: true,
-    timeLimit: 30,
-    fixLocations: [1, 8], // Admin, Reactor
-    requiresMultipleFixes: false, // Either location works
-  },
-  // SabotageType.Comms = 4
-  4: {
-    isCritical: false,
-    timeLimit: 0,
-    fixLocations: [1], // Admin
-    requiresMultipleFixes: false,
-  },
-};
-
-// Room adjacency map (The Skeld)
-// Location enum: Cafeteria=0, Admin=1, Storage=2, Electrical=3, MedBay=4, UpperEngine=5, LowerEngine=6, Security=7, Reactor=8
-const ROOM_ADJACENCY: Map<number, number[]> = new Map([
-  [0, [1, 2, 4, 5]],       // Cafeteria -> Admin, Storage, MedBay, UpperEngine
-  [1, [0, 2]],              // Admin -> Cafeteria, Storage
-  [2, [0, 1, 3, 6]],        // Storage -> Cafeteria, Admin, Electrical, LowerEngine
-  [3, [2, 6]],              // Electrical -> Storage, LowerEngine
-  [4, [0, 5]],              // MedBay -> Cafeteria, UpperEngine
-  [5, [0, 4, 8]],           // UpperEngine -> Cafeteria, MedBay, Reactor
-  [6, [2, 3, 8]],           // LowerEngine -> Storage, Electrical, Reactor
-  [7, [8]],                 // Security -> Reactor
-  [8, [5, 6, 7]],           // Reactor -> UpperEngine, LowerEngine, Security
-]);
-
-// Vent connections (for impostors) - locations connected by vents
-const VENT_CONNECTIONS: Map<number, number[]> = new Map([
-  [1, [0]],                 // Admin <-> Cafeteria
-  [0, [1]],                 // Cafeteria <-> Admin
-  [4, [3, 7]],              // MedBay <-> Electrical, Security
-  [3, [4, 7]],              // Electrical <-> MedBay, Security
-  [7, [4, 3]],              // Security <-> MedBay, Electrical
-  [8, [5, 6]],              // Reactor <-> UpperEngine, LowerEngine
-  [5, [8, 6]],              // UpperEngine <-> Reactor, LowerEngine
-  [6, [8, 5]],              // LowerEngine <-> Reactor, UpperEngine
-]);
+export const TASK_DEFINITIONS: TaskDefinition[] = [
+  { id: "fix_wiring", name: "Fix Wiring", steps: [3] }, // Electrical
+  { id: "calibrate_distributor", name: "Calibrate Distributor", steps: [3] }, // Electrical
+  { id: "swipe_card", name: "Swipe Card", steps: [1] }, // Admin
+  { id: "submit_scan", name: "Submit Scan", steps: [4] }, // MedBay
+  { id: "inspect_sample", name: "Inspect Sample", steps: [4] }, // MedBay
+  { id: "align_upper_engine", name: "Align Upper Engine Output", steps: [5] }, // UpperEngine
+  { id: "align_lower_engine", name: "Align Lower Engine Output", steps: [6] }, // LowerEngine
+  { id: "start_reactor", name: "Start Reactor", steps: [8] }, // Reactor
+  { id: "unlock_manifolds", name: "Unlock Manifolds", steps: [8] }, // Reactor
+  { id: "upload_data", name: "Upload Data", steps: [3, 1] }, // Electrical -> Admin
+  { id: "fuel_engines", name: "Fuel Engines", steps: [2, 5] }, // Storage -> UpperEngine
+  { id: "empty_garbage", name: "Empty Garbage", steps: [0, 2] }, // Cafeteria -> Storage
+  { id: "divert_power", name: "Divert Power", steps: [3, 7] }, // Electrical -> Security
+];
 
 // Sabotage state
-interface SabotageState {
+export interface SabotageState {
   type: number; // SabotageType enum
   startTime: number;
   endTime: number; // For critical sabotages
@@ -89,25 +46,69 @@ interface SabotageState {
   sabotager: string;
 }
 
-// Camera locations (rooms that cameras can see)
-const CAMERA_LOCATIONS: number[] = [0, 2, 4, 8]; // Cafeteria, Storage, MedBay, Reactor
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
 // Internal game state tracking
 interface GameInternalState {
+  settings: GameSettings; // room rules (kill cooldown, meetings, sabotage timers)
   impostors: Set<string>; // addresses of impostors
   votes: Map<string, string | null>; // voter -> target (null = skip)
-  taskLocations: Map<string, number[]>; // player -> assigned task locations
+  tasks: Map<string, AssignedTask[]>; // player -> assigned tasks
   lastKillRound: Map<string, number>; // impostor -> last round they killed
   emergencyMeetingsUsed: Map<string, number>; // player -> meetings used
   activeSabotage: SabotageState | null; // current sabotage
   lastSabotageTime: number; // timestamp of last sabotage
   playersInVent: Set<string>; // players currently hiding in vents
   playersOnCameras: Set<string>; // players currently watching cameras
+  actionRound: number; // round the commitments below belong to
+  commitments: Map<string, string>; // player -> commitment hash
+  reveals: Map<string, GameAction>; // player -> verified revealed action
 }
 
-export interface WinConditionResult {
-  winner: "crewmates" | "impostors" | null;
-  reason?: "tasks" | "votes" | "kills";
+// GameInternalState with Maps and Sets flattened to arrays, for room snapshots
+export interface SerializedGameState {
+  snapshot: GameStateSnapshot;
+  internal: {
+    settings: GameSettings;
+    impostors: string[];
+    votes: Array<[string, string | null]>;
+    tasks: Array<[string, AssignedTask[]]>;
+    lastKillRound: Array<[string, number]>;
+    emergencyMeetingsUsed: Array<[string, number]>;
+    activeSabotage:
+      | (Omit<SabotageState, "fixProgress"> & {
+          fixProgress: Array<[number, string[]]>;
+        })
+      | null;
+    lastSabotageTime: number;
+    playersInVent: string[];
+    playersOnCameras: string[];
+    actionRound: number;
+    commitments: Array<[string, string]>;
+    reveals: Array<[string, GameAction]>;
+  };
+}
+
+/**
+ * Commitment hash of an action, shared by the server and its simulated agents
+ */
+export function hashGameAction(
+  action: GameAction,
+  salt: string,
+  player: string,
+): string {
+  return ethers.solidityPackedKeccak256(
+    ["uint8", "address", "uint8", "uint8", "uint8", "bytes32", "address"],
+    [
+      action.type,
+      action.target || ZERO_ADDRESS,
+      action.destination ?? 0,
+      action.taskId ?? 0,
+      action.sabotage ?? 0,
+      salt,
+      player,
+    ],
+  );
 }
 
 export class GameStateManager {
@@ -135,15 +136,19 @@ export class GameStateManager {
       };
       this.games.set(gameId, state);
       this.internalState.set(gameId, {
+        settings: { ...DEFAULT_GAME_SETTINGS },
         impostors: new Set(),
         votes: new Map(),
-        taskLocations: new Map(),
+        tasks: new Map(),
         lastKillRound: new Map(),
         emergencyMeetingsUsed: new Map(),
         activeSabotage: null,
         lastSabotageTime: 0,
         playersInVent: new Set(),
         playersOnCameras: new Set(),
+        actionRound: 0,
+        commitments: new Map(),
+        reveals: new Map(),
       });
       logger.info(`Created new game state: ${gameId}`);
     }
@@ -196,140 +201,6 @@ export class GameStateManager {
     );
   }
 
-  /**
-   * Update player position
-   */
-  updatePlayerPosition(
-    gameId: string,
-    address: string,
-    location: Location
-  ): Location | undefined {
-    const game = this.games.get(gameId);
-    if (!game) return undefined;
-
-    const player = game.players.find(
-      (p) => p.address.toLowerCase() === address.toLowerCase()
-    );
-    if (!player) return undefined;
-
-    const previousLocation = player.location;
-    player.location = location;
-
-    logger.debug(
-      `Player ${address} moved from ${previousLocation} to ${location} in game ${gameId}`
-    );
-    return previousLocation;
-  }
-
-  /**
-   * Mark player as dead
-   */
-  killPlayer(
-    gameId: string,
-    victimAddress: string,
-    location: Location,
-    round: number
-  ): boolean {
-    const game = this.games.get(gameId);
-    if (!game) return false;
-
-    const player = game.players.find(
-      (p) => p.address.toLowerCase() === victimAddress.toLowerCase()
-    );
-    if (!player || !player.isAlive) return false;
-
-    player.isAlive = false;
-
-    // Add dead body
-    const body: DeadBodyState = {
-      victim: victimAddress,
-      location,
-      round,
-      reported: false,
-    };
-    game.deadBodies.push(body);
-
-    // Update alive count
-    game.alivePlayers = game.players.filter((p) => p.isAlive).length;
-
-    logger.info(`Player ${victimAddress} killed at ${location} in game ${gameId}`);
-    return true;
-  }
-
-  /**
-   * Update game phase
-   */
-  updatePhase(
-    gameId: string,
-    phase: GamePhase,
-    round: number,
-    phaseEndTime: number
-  ): GamePhase | undefined {
-    const game = this.games.get(gameId);
-    if (!game) return undefined;
-
-    const previousPhase = game.phase;
-    game.phase = phase;
-    game.round = round;
-    game.phaseEndTime = phaseEndTime;
-
-    // Clear dead bodies when discussion starts (they get reported)
-    if (phase === 4 || phase === 5) {
-      // Discussion or Voting
-      for (const body of game.deadBodies) {
-        body.reported = true;
-      }
-    }
-
-    // Reset voted flags when voting ends
-    if (phase === 6) {
-      // VoteResult
-      for (const player of game.players) {
-        player.hasVoted = false;
-      }
-    }
-
-    logger.info(
-      `Game ${gameId} phase changed: ${previousPhase} -> ${phase} (round ${round})`
-    );
-    return previousPhase;
-  }
-
-  /**
-   * Record a vote
-   */
-  recordVote(gameId: string, voterAddress: string): boolean {
-    const game = this.games.get(gameId);
-    if (!game) return false;
-
-    const player = game.players.find(
-      (p) => p.address.toLowerCase() === voterAddress.toLowerCase()
-    );
-    if (!player) return false;
-
-    player.hasVoted = true;
-    return true;
-  }
-
-  /**
-   * Eject a player (from voting)
-   */
-  ejectPlayer(gameId: string, address: string): boolean {
-    const game = this.games.get(gameId);
-    if (!game) return false;
-
-    const player = game.players.find(
-      (p) => p.address.toLowerCase() === address.toLowerCase()
-    );
-    if (!player) return false;
-
-    player.isAlive = false;
-    game.alivePlayers = game.players.filter((p) => p.isAlive).length;
-
-    logger.info(`Player ${address} ejected from game ${gameId}`);
-    return true;
-  }
-
   /**
    * Update task progress
    */
@@ -459,273 +330,61 @@ export class GameStateManager {
     ).length;
   }
 
-  // ============ KILL COOLDOWN ============
-
-  /**
-   * Check if impostor can kill (cooldown elapsed)
-   */
-  canKill(gameId: string, killerAddress: string, currentRound: number): boolean {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return false;
-
-    const killerKey = killerAddress.toLowerCase();
-
-    // Must be an impostor
-    if (!internal.impostors.has(killerKey)) {
-      return false;
-    }
-
-    const lastKill = internal.lastKillRound.get(killerKey);
-    if (lastKill === undefined) {
-      // Never killed before, can kill
-      return true;
-    }
-
-    // Check if cooldown has elapsed
-    const roundsSinceKill = currentRound - lastKill;
-    return roundsSinceKill >= KILL_COOLDOWN_ROUNDS;
-  }
-
-  /**
-   * Record a kill for cooldown tracking
-   */
-  recordKill(gameId: string, killerAddress: string, currentRound: number): void {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return;
-
-    internal.lastKillRound.set(killerAddress.toLowerCase(), currentRound);
-    logger.debug(`Recorded kill by ${killerAddress} at round ${currentRound}`);
-  }
-
-  /**
-   * Get remaining cooldown rounds for an impostor
-   */
-  getKillCooldown(gameId: string, killerAddress: string, currentRound: number): number {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return 0;
-
-    const lastKill = internal.lastKillRound.get(killerAddress.toLowerCase());
-    if (lastKill === undefined) return 0;
-
-    const roundsSinceKill = currentRound - lastKill;
-    const remaining = KILL_COOLDOWN_ROUNDS - roundsSinceKill;
-    return Math.max(0, remaining);
-  }
-
-  // ============ MOVEMENT VALIDATION ============
+  // ============ ACTION RULE STATE ============
 
   /**
-   * Check if movement between two locations is valid (adjacent rooms)
+   * Copy a game's action-round bookkeeping out as plain data for the game engine
    */
-  isValidMove(from: Location, to: Location): boolean {
-    if (from === to) return true; // Staying in place is valid
-
-    const adjacent = ROOM_ADJACENCY.get(from);
-    return adjacent?.includes(to) ?? false;
-  }
-
-  /**
-   * Check if vent movement is valid (for impostors)
-   */
-  isValidVent(from: Location, to: Location): boolean {
-    const connected = VENT_CONNECTIONS.get(from);
-    return connected?.includes(to) ?? false;
-  }
-
-  /**
-   * Get adjacent rooms from a location
-   */
-  getAdjacentRooms(location: Location): Location[] {
-    return (ROOM_ADJACENCY.get(location) ?? []) as Location[];
-  }
-
-  /**
-   * Get vent-connected rooms from a location
-   */
-  getVentConnections(location: Location): Location[] {
-    return (VENT_CONNECTIONS.get(location) ?? []) as Location[];
-  }
-
-  /**
-   * Validate player movement with full context
-   * Returns { valid: boolean, reason?: string }
-   */
-  validateMovement(
-    gameId: string,
-    playerAddress: string,
-    from: Location,
-    to: Location,
-    isVent: boolean = false
-  ): { valid: boolean; reason?: string } {
-    const game = this.games.get(gameId);
+  getRuleState(gameId: string): RuleState {
     const internal = this.internalState.get(gameId);
-    if (!game || !internal) {
-      return { valid: false, reason: "Game not found" };
-    }
-
-    const player = game.players.find(
-      p => p.address.toLowerCase() === playerAddress.toLowerCase()
-    );
-    if (!player) {
-      return { valid: false, reason: "Player not in game" };
-    }
-
-    // Dead players (ghosts) can move anywhere
-    if (!player.isAlive) {
-      return { valid: true };
-    }
-
-    // Vent movement - only for impostors
-    if (isVent) {
-      if (!internal.impostors.has(playerAddress.toLowerCase())) {
-        return { valid: false, reason: "Only impostors can use vents" };
-      }
-      if (!this.isValidVent(from, to)) {
-        return { valid: false, reason: "No vent connection between these rooms" };
-      }
-      return { valid: true };
-    }
-
-    // Normal movement - must be adjacent
-    if (!this.isValidMove(from, to)) {
-      const adjacent = this.getAdjacentRooms(from);
-      return {
-        valid: false,
-        reason: `Cannot move from ${Location[from]} to ${Location[to]}. Adjacent rooms: ${adjacent.map(r => Location[r]).join(", ")}`,
-      };
-    }
+    const sabotage = internal?.activeSabotage;
 
-    return { valid: true };
+    return {
+      tasks: Object.fromEntries(internal?.tasks ?? []),
+      lastKillRound: Object.fromEntries(internal?.lastKillRound ?? []),
+      emergencyMeetingsUsed: Object.fromEntries(
+        internal?.emergencyMeetingsUsed ?? []
+      ),
+      activeSabotage: sabotage
+        ? { ...sabotage, fixProgress: Object.fromEntries(sabotage.fixProgress) }
+        : null,
+      lastSabotageTime: internal?.lastSabotageTime ?? 0,
+      playersInVent: [...(internal?.playersInVent ?? [])],
+      playersOnCameras: [...(internal?.playersOnCameras ?? [])],
+    };
   }
 
-  // ============ EMERGENCY MEETINGS ============
-
   /**
-   * Check if player can call an emergency meeting
+   * Store the bookkeeping the game engine returned
    */
-  canCallMeeting(gameId: string, playerAddress: string): { canCall: boolean; reason?: string; remaining: number } {
+  setRuleState(gameId: string, state: RuleState): void {
     const game = this.games.get(gameId);
     const internal = this.internalState.get(gameId);
-    if (!game || !internal) {
-      return { canCall: false, reason: "Game not found", remaining: 0 };
-    }
+    if (!game || !internal) return;
 
-    const player = game.players.find(
-      p => p.address.toLowerCase() === playerAddress.toLowerCase()
+    const sabotage = state.activeSabotage;
+    internal.tasks = new Map(Object.entries(state.tasks));
+    internal.lastKillRound = new Map(Object.entries(state.lastKillRound));
+    internal.emergencyMeetingsUsed = new Map(
+      Object.entries(state.emergencyMeetingsUsed)
     );
-    if (!player) {
-      return { canCall: false, reason: "Player not in game", remaining: 0 };
-    }
-
-    if (!player.isAlive) {
-      return { canCall: false, reason: "Dead players cannot call meetings", remaining: 0 };
-    }
-
-    const playerKey = playerAddress.toLowerCase();
-    const meetingsUsed = internal.emergencyMeetingsUsed.get(playerKey) ?? 0;
-    const remaining = MAX_EMERGENCY_MEETINGS_PER_PLAYER - meetingsUsed;
-
-    if (remaining <= 0) {
-      return { canCall: false, reason: "No emergency meetings remaining", remaining: 0 };
-    }
-
-    return { canCall: true, remaining };
-  }
-
-  /**
-   * Use an emergency meeting
-   */
-  useEmergencyMeeting(gameId: string, playerAddress: string): number {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return 0;
-
-    const playerKey = playerAddress.toLowerCase();
-    const meetingsUsed = (internal.emergencyMeetingsUsed.get(playerKey) ?? 0) + 1;
-    internal.emergencyMeetingsUsed.set(playerKey, meetingsUsed);
-
-    const remaining = MAX_EMERGENCY_MEETINGS_PER_PLAYER - meetingsUsed;
-    logger.info(`Emergency meeting called by ${playerAddress}, ${remaining} meetings remaining`);
-    return remaining;
-  }
-
-  /**
-   * Get remaining emergency meetings for a player
-   */
-  getRemainingMeetings(gameId: string, playerAddress: string): number {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return 0;
-
-    const meetingsUsed = internal.emergencyMeetingsUsed.get(playerAddress.toLowerCase()) ?? 0;
-    return MAX_EMERGENCY_MEETINGS_PER_PLAYER - meetingsUsed;
-  }
-
-  // ============ SABOTAGE SYSTEM ============
-
-  /**
-   * Check if sabotage can be started
-   */
-  canSabotage(gameId: string, sabotagerAddress: string): { canSabotage: boolean; reason?: string; cooldownRemaining?: number } {
-    const internal = this.internalState.get(gameId);
-    if (!internal) {
-      return { canSabotage: false, reason: "Game not found" };
-    }
-
-    // Must be an impostor
-    if (!internal.impostors.has(sabotagerAddress.toLowerCase())) {
-      return { canSabotage: false, reason: "Only impostors can sabotage" };
-    }
-
-    // No active sabotage
-    if (internal.activeSabotage) {
-      return { canSabotage: false, reason: "A sabotage is already in progress" };
-    }
-
-    // Check cooldown
-    const now = Date.now();
-    const timeSinceLastSabotage = now - internal.lastSabotageTime;
-    if (timeSinceLastSabotage < SABOTAGE_COOLDOWN_MS) {
-      const cooldownRemaining = Math.ceil((SABOTAGE_COOLDOWN_MS - timeSinceLastSabotage) / 1000);
-      return { canSabotage: false, reason: `Sabotage on cooldown`, cooldownRemaining };
-    }
-
-    return { canSabotage: true };
-  }
-
-  /**
-   * Start a sabotage
-   */
-  startSabotage(gameId: string, sabotagerAddress: string, sabotageType: number): SabotageState | null {
-    const internal = this.internalState.get(gameId);
-    const game = this.games.get(gameId);
-    if (!internal || !game) return null;
-
-    const config = SABOTAGE_CONFIG[sabotageType];
-    if (!config) return null;
-
-    const now = Date.now();
-    const endTime = config.isCritical ? now + (config.timeLimit * 1000) : 0;
-
-    const sabotage: SabotageState = {
-      type: sabotageType,
-      startTime: now,
-      endTime,
-      fixProgress: new Map(),
-      sabotager: sabotagerAddress.toLowerCase(),
-    };
-
-    internal.activeSabotage = sabotage;
-    internal.lastSabotageTime = now;
-    game.activeSabotage = sabotageType;
-
-    logger.info(`Sabotage started in game ${gameId}: type ${sabotageType} by ${sabotagerAddress}`);
-    return sabotage;
-  }
+    internal.activeSabotage = sabotage
+      ? {
+          ...sabotage,
+          fixProgress: new Map(
+            Object.entries(sabotage.fixProgress).map(
+              ([location, fixers]) => [Number(location), fixers]
+            )
+          ),
+        }
+      : null;
+    internal.lastSabotageTime = state.lastSabotageTime;
+    internal.playersInVent = new Set(state.playersInVent);
+    internal.playersOnCameras = new Set(state.playersOnCameras);
 
-  /**
-   * Get sabotage configuration
-   */
-  getSabotageConfig(sabotageType: number): SabotageConfig | null {
-    return SABOTAGE_CONFIG[sabotageType] ?? null;
+    game.activeSabotage = (sabotage?.type ?? 0) as SabotageType;
+    game.totalTasksCompleted = game.players.reduce((sum, p) => sum + p.tasksCompleted, 0);
+    game.totalTasksRequired = game.players.reduce((sum, p) => sum + p.totalTasks, 0);
   }
 
   /**
@@ -735,163 +394,6 @@ export class GameStateManager {
     return this.internalState.get(gameId)?.activeSabotage ?? null;
   }
 
-  /**
-   * Attempt to fix sabotage at a location
-   * Returns true if sabotage is now fully fixed
-   */
-  fixSabotage(gameId: string, playerAddress: string, location: number): { fixed: boolean; partialFix: boolean; reason?: string } {
-    const internal = this.internalState.get(gameId);
-    const game = this.games.get(gameId);
-    if (!internal || !game) {
-      return { fixed: false, partialFix: false, reason: "Game not found" };
-    }
-
-    const sabotage = internal.activeSabotage;
-    if (!sabotage) {
-      return { fixed: false, partialFix: false, reason: "No active sabotage" };
-    }
-
-    const config = SABOTAGE_CONFIG[sabotage.type];
-    if (!config) {
-      return { fixed: false, partialFix: false, reason: "Invalid sabotage type" };
-    }
-
-    // Check if this is a valid fix location
-    if (!config.fixLocations.includes(location)) {
-      return { fixed: false, partialFix: false, reason: "Cannot fix sabotage at this location" };
-    }
-
-    const playerKey = playerAddress.toLowerCase();
-
-    // Record this player's fix attempt at this location
-    if (!sabotage.fixProgress.has(location)) {
-      sabotage.fixProgress.set(location, []);
-    }
-    const fixersAtLocation = sabotage.fixProgress.get(location)!;
-    if (!fixersAtLocation.includes(playerKey)) {
-      fixersAtLocation.push(playerKey);
-    }
-
-    // Check if sabotage is fixed
-    let isFixed = false;
-
-    if (config.requiresMultipleFixes) {
-      // Reactor: need players at multiple fix points OR multiple players at same point
-      // For simplicity: need 2 different players to fix (at same location)
-      const totalFixers = new Set<string>();
-      for (const fixers of sabotage.fixProgress.values()) {
-        for (const fixer of fixers) {
-          totalFixers.add(fixer);
-        }
-      }
-      isFixed = totalFixers.size >= 2;
-    } else {
-      // Single fix needed at any valid location
-      isFixed = sabotage.fixProgress.size > 0;
-    }
-
-    if (isFixed) {
-      internal.activeSabotage = null;
-      game.activeSabotage = 0; // None
-      logger.info(`Sabotage fixed in game ${gameId}: type ${sabotage.type} by ${playerAddress}`);
-      return { fixed: true, partialFix: false };
-    }
-
-    return { fixed: false, partialFix: true };
-  }
-
-  /**
-   * Check if critical sabotage has timed out
-   */
-  checkSabotageTimeout(gameId: string): boolean {
-    const internal = this.internalState.get(gameId);
-    if (!internal?.activeSabotage) return false;
-
-    const sabotage = internal.activeSabotage;
-    const config = SABOTAGE_CONFIG[sabotage.type];
-
-    if (config?.isCritical && sabotage.endTime > 0 && Date.now() >= sabotage.endTime) {
-      return true; // Sabotage timed out - impostors win
-    }
-
-    return false;
-  }
-
-  /**
-   * Clear sabotage (e.g., when meeting is called)
-   */
-  clearSabotage(gameId: string): void {
-    const internal = this.internalState.get(gameId);
-    const game = this.games.get(gameId);
-    if (internal) {
-      internal.activeSabotage = null;
-    }
-    if (game) {
-      game.activeSabotage = 0;
-    }
-  }
-
-  // ============ VENT SYSTEM ============
-
-  /**
-   * Check if player can enter a vent at their current location
-   */
-  canEnterVent(gameId: string, playerAddress: string, location: Location): { canEnter: boolean; reason?: string } {
-    const internal = this.internalState.get(gameId);
-    if (!internal) {
-      return { canEnter: false, reason: "Game not found" };
-    }
-
-    const playerKey = playerAddress.toLowerCase();
-
-    // Must be an impostor
-    if (!internal.impostors.has(playerKey)) {
-      return { canEnter: false, reason: "Only impostors can use vents" };
-    }
-
-    // Must not already be in a vent
-    if (internal.playersInVent.has(playerKey)) {
-      return { canEnter: false, reason: "Already in a vent" };
-    }
-
-    // Check if location has a vent
-    const ventConnections = VENT_CONNECTIONS.get(location);
-    if (!ventConnections || ventConnections.length === 0) {
-      return { canEnter: false, reason: "No vent at this location" };
-    }
-
-    return { canEnter: true };
-  }
-
-  /**
-   * Enter a vent
-   */
-  enterVent(gameId: string, playerAddress: string): boolean {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return false;
-
-    internal.playersInVent.add(playerAddress.toLowerCase());
-    logger.info(`Player ${playerAddress} entered vent in game ${gameId}`);
-    return true;
-  }
-
-  /**
-   * Exit a vent
-   */
-  exitVent(gameId: string, playerAddress: string): boolean {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return false;
-
-    const playerKey = playerAddress.toLowerCase();
-    if (!internal.playersInVent.has(playerKey)) {
-      return false;
-    }
-
-    internal.playersInVent.delete(playerKey);
-    logger.info(`Player ${playerAddress} exited vent in game ${gameId}`);
-    return true;
-  }
-
   /**
    * Check if player is in a vent
    */
@@ -901,60 +403,6 @@ export class GameStateManager {
     return internal.playersInVent.has(playerAddress.toLowerCase());
   }
 
-  /**
-   * Force all players out of vents (e.g., when meeting starts)
-   */
-  clearAllVents(gameId: string): string[] {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return [];
-
-    const playersInVent = Array.from(internal.playersInVent);
-    internal.playersInVent.clear();
-    return playersInVent;
-  }
-
-  // ============ CAMERA SYSTEM ============
-
-  /**
-   * Get camera-monitored locations
-   */
-  getCameraLocations(): number[] {
-    return CAMERA_LOCATIONS;
-  }
-
-  /**
-   * Start watching cameras
-   */
-  startWatchingCameras(gameId: string, playerAddress: string): boolean {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return false;
-
-    internal.playersOnCameras.add(playerAddress.toLowerCase());
-    logger.info(`Player ${playerAddress} started watching cameras in game ${gameId}`);
-    return true;
-  }
-
-  /**
-   * Stop watching cameras
-   */
-  stopWatchingCameras(gameId: string, playerAddress: string): boolean {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return false;
-
-    internal.playersOnCameras.delete(playerAddress.toLowerCase());
-    logger.info(`Player ${playerAddress} stopped watching cameras in game ${gameId}`);
-    return true;
-  }
-
-  /**
-   * Check if player is watching cameras
-   */
-  isWatchingCameras(gameId: string, playerAddress: string): boolean {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return false;
-    return internal.playersOnCameras.has(playerAddress.toLowerCase());
-  }
-
   /**
    * Get count of players watching cameras
    */
@@ -1000,228 +448,258 @@ export class GameStateManager {
     return visiblePlayers;
   }
 
-  /**
-   * Clear all camera watchers (e.g., when meeting starts)
-   */
-  clearAllCameraWatchers(gameId: string): void {
-    const internal = this.internalState.get(gameId);
-    if (internal) {
-      internal.playersOnCameras.clear();
-    }
-  }
-
-  // ============ VOTING SYSTEM ============
+  // ============ COMMIT-REVEAL ACTIONS ============
 
   /**
-   * Initialize voting for a new round
+   * Start collecting commitments for a new action round
    */
-  initVoting(gameId: string): void {
+  beginActionRound(gameId: string, round: number): void {
     const internal = this.internalState.get(gameId);
     if (!internal) return;
 
-    internal.votes.clear();
-
-    const game = this.games.get(gameId);
-    if (game) {
-      for (const player of game.players) {
-        player.hasVoted = false;
-      }
-    }
-
-    logger.info(`Initialized voting for game ${gameId}`);
+    internal.actionRound = round;
+    internal.commitments.clear();
+    internal.reveals.clear();
   }
 
   /**
-   * Cast a vote
+   * Hash an action exactly like the agent SDK and the on-chain game do
    */
-  castVote(gameId: string, voter: string, target: string | null): boolean {
-    const game = this.games.get(gameId);
-    const internal = this.internalState.get(gameId);
-    if (!game || !internal) return false;
-
-    const voterPlayer = game.players.find(
-      p => p.address.toLowerCase() === voter.toLowerCase()
-    );
-    if (!voterPlayer || !voterPlayer.isAlive) return false;
-
-    internal.votes.set(voter.toLowerCase(), target ? target.toLowerCase() : null);
-    voterPlayer.hasVoted = true;
-
-    logger.debug(`Vote cast in game ${gameId}: ${voter} -> ${target || "skip"}`);
-    return true;
+  computeActionCommitment(action: GameAction, salt: string, player: string): string {
+    return hashGameAction(action, salt, player);
   }
 
   /**
-   * Check if all alive players have voted
+   * Record a player's hashed action for the current round
    */
-  allVotesCast(gameId: string): boolean {
-    const game = this.games.get(gameId);
+  recordCommitment(
+    gameId: string,
+    player: string,
+    round: number,
+    commitHash: string,
+  ): { accepted: boolean; reason?: string } {
     const internal = this.internalState.get(gameId);
-    if (!game || !internal) return false;
+    if (!internal) return { accepted: false, reason: "Game not found" };
+
+    if (round !== internal.actionRound) {
+      return { accepted: false, reason: `Commitments are for round ${internal.actionRound}` };
+    }
+    if (!ethers.isHexString(commitHash, 32)) {
+      return { accepted: false, reason: "Commitment must be a 32-byte hex hash" };
+    }
+
+    const playerKey = player.toLowerCase();
+    if (internal.commitments.has(playerKey)) {
+      return { accepted: false, reason: "Already committed this round" };
+    }
 
-    const alivePlayers = game.players.filter(p => p.isAlive);
-    return alivePlayers.every(p => internal.votes.has(p.address.toLowerCase()));
+    internal.commitments.set(playerKey, commitHash.toLowerCase());
+    return { accepted: true };
   }
 
   /**
-   * Tally votes and return ejected player (or null if tie/skip)
+   * Verify a reveal against the player's commitment and store it
    */
-  tallyVotes(gameId: string): string | null {
+  recordReveal(
+    gameId: string,
+    player: string,
+    round: number,
+    action: GameAction,
+    salt: string,
+  ): { accepted: boolean; reason?: string } {
     const internal = this.internalState.get(gameId);
-    if (!internal) return null;
-
-    const voteCounts = new Map<string, number>();
-    let skipCount = 0;
+    if (!internal) return { accepted: false, reason: "Game not found" };
 
-    for (const target of internal.votes.values()) {
-      if (target === null) {
-        skipCount++;
-      } else {
-        voteCounts.set(target, (voteCounts.get(target) || 0) + 1);
-      }
+    if (round !== internal.actionRound) {
+      return { accepted: false, reason: `Reveals are for round ${internal.actionRound}` };
     }
 
-    // Find max votes
-    let maxVotes = skipCount;
-    let ejected: string | null = null;
-    let isTie = false;
-
-    for (const [target, count] of voteCounts) {
-      if (count > maxVotes) {
-        maxVotes = count;
-        ejected = target;
-        isTie = false;
-      } else if (count === maxVotes) {
-        isTie = true;
-      }
+    const playerKey = player.toLowerCase();
+    const commitment = internal.commitments.get(playerKey);
+    if (!commitment) {
+      return { accepted: false, reason: "No commitment this round" };
+    }
+    if (internal.reveals.has(playerKey)) {
+      return { accepted: false, reason: "Already revealed this round" };
     }
 
-    if (isTie) {
-      logger.info(`Voting tie in game ${gameId}, no ejection`);
-      return null;
+    let computed: string;
+    try {
+      computed = this.computeActionCommitment(action, salt, player);
+    } catch (error) {
+      return { accepted: false, reason: "Malformed action or salt" };
     }
 
-    if (ejected) {
-      logger.info(`Voting result in game ${gameId}: ${ejected} ejected with ${maxVotes} votes`);
-    } else {
-      logger.info(`Voting result in game ${gameId}: skip with ${maxVotes} votes`);
+    if (computed.toLowerCase() !== commitment) {
+      logger.warn(`Reveal mismatch for ${player} in game ${gameId} round ${round}`);
+      return { accepted: false, reason: "Reveal does not match commitment" };
     }
 
-    return ejected;
+    internal.reveals.set(playerKey, action);
+    return { accepted: true };
   }
 
-  // ============ WIN CONDITIONS ============
-
   /**
-   * Check win condition
+   * Commitments this round, or only those from `players` when given
    */
-  checkWinCondition(gameId: string): WinConditionResult {
-    const game = this.games.get(gameId);
+  getCommitmentCount(gameId: string, players?: string[]): number {
     const internal = this.internalState.get(gameId);
-    if (!game || !internal) return { winner: null };
-
-    const aliveImpostors = this.getAliveImpostorCount(gameId);
-    const aliveCrewmates = this.getAliveCrewmateCount(gameId);
-
-    // Impostors win if they equal or outnumber crewmates
-    if (aliveImpostors >= aliveCrewmates && aliveCrewmates > 0) {
-      return { winner: "impostors", reason: "kills" };
-    }
-
-    // Crewmates win if all impostors are ejected
-    if (aliveImpostors === 0) {
-      return { winner: "crewmates", reason: "votes" };
-    }
-
-    // Crewmates win if all tasks are done
-    if (game.totalTasksRequired > 0 && game.totalTasksCompleted >= game.totalTasksRequired) {
-      return { winner: "crewmates", reason: "tasks" };
-    }
-
-    return { winner: null };
+    if (!internal) return 0;
+    if (!players) return internal.commitments.size;
+    return players.filter((p) => internal.commitments.has(p.toLowerCase())).length;
   }
 
-  // ============ BODY DETECTION ============
+  getRevealCount(gameId: string): number {
+    return this.internalState.get(gameId)?.reveals.size ?? 0;
+  }
 
   /**
-   * Get unreported bodies in a specific location
+   * Players who committed this round but have no valid reveal
    */
-  getUnreportedBodiesInRoom(gameId: string, location: Location): DeadBodyState[] {
-    const game = this.games.get(gameId);
-    if (!game) return [];
-
-    return game.deadBodies.filter(
-      body => body.location === location && !body.reported
+  getUnrevealedCommitters(gameId: string): string[] {
+    const internal = this.internalState.get(gameId);
+    if (!internal) return [];
+    return Array.from(internal.commitments.keys()).filter(
+      (p) => !internal.reveals.has(p),
     );
   }
 
   /**
-   * Mark a body as reported
+   * Revealed actions in reveal order; the game engine sorts them for resolution
    */
-  reportBody(gameId: string, victim: string): boolean {
-    const game = this.games.get(gameId);
-    if (!game) return false;
-
-    const body = game.deadBodies.find(
-      b => b.victim.toLowerCase() === victim.toLowerCase() && !b.reported
-    );
-    if (!body) return false;
+  getRevealedActions(gameId: string): Array<{ player: string; action: GameAction }> {
+    const internal = this.internalState.get(gameId);
+    if (!internal) return [];
 
-    body.reported = true;
-    logger.info(`Body reported in game ${gameId}: ${victim}`);
-    return true;
+    return Array.from(internal.reveals.entries()).map(([player, action]) => ({
+      player,
+      action,
+    }));
   }
 
-  // ============ TASK VALIDATION ============
+  // ============ SETTINGS ============
 
   /**
-   * Assign task locations to a player
+   * Apply a room's rules to its game
    */
-  assignTasks(gameId: string, player: string, taskLocations: number[]): void {
+  configureGame(gameId: string, settings: GameSettings): void {
+    this.getOrCreateGame(gameId);
     const internal = this.internalState.get(gameId);
     if (!internal) return;
 
-    internal.taskLocations.set(player.toLowerCase(), [...taskLocations]);
-    logger.debug(`Assigned tasks to ${player}: ${taskLocations.join(", ")}`);
+    internal.settings = { ...settings };
   }
 
   /**
-   * Get a player's assigned task locations
+   * Get the rules a game is played with
    */
-  getTaskLocations(gameId: string, player: string): number[] {
-    const internal = this.internalState.get(gameId);
-    if (!internal) return [];
-    return internal.taskLocations.get(player.toLowerCase()) || [];
+  getSettings(gameId: string): GameSettings {
+    return this.internalState.get(gameId)?.settings ?? DEFAULT_GAME_SETTINGS;
   }
 
+  // ============ TASKS ============
+
   /**
-   * Check if player can complete a task at location
+   * Deal `count` distinct tasks from the catalog to a player and reset their progress.
+   * Pass a seeded generator to make the deal reproducible.
    */
-  canCompleteTask(gameId: string, player: string, location: Location): boolean {
+  assignTasks(
+    gameId: string,
+    player: string,
+    count: number,
+    random: () => number = Math.random
+  ): AssignedTask[] {
     const internal = this.internalState.get(gameId);
-    if (!internal) return false;
+    if (!internal) return [];
 
-    const tasks = internal.taskLocations.get(player.toLowerCase());
-    if (!tasks) return false;
+    const pool = shuffleWith([...TASK_DEFINITIONS], random);
 
-    return tasks.includes(location);
+    const tasks: AssignedTask[] = pool.slice(0, count).map((def) => ({
+      taskId: def.id,
+      name: def.name,
+      steps: [...def.steps],
+      currentStep: 0,
+      completed: false,
+    }));
+
+    internal.tasks.set(player.toLowerCase(), tasks);
+    this.updateTaskProgress(gameId, player, 0, tasks.length);
+    logger.debug(
+      `Assigned tasks to ${player}: ${tasks.map((t) => t.taskId).join(", ")}`
+    );
+    return tasks;
   }
 
   /**
-   * Complete a task and remove it from the player's list
+   * Get a player's assigned tasks
    */
-  completeTask(gameId: string, player: string, location: Location): boolean {
+  getAssignedTasks(gameId: string, player: string): AssignedTask[] {
     const internal = this.internalState.get(gameId);
-    if (!internal) return false;
+    if (!internal) return [];
+    return internal.tasks.get(player.toLowerCase()) || [];
+  }
 
-    const tasks = internal.taskLocations.get(player.toLowerCase());
-    if (!tasks) return false;
+  // ============ SNAPSHOTS ============
 
-    const index = tasks.indexOf(location);
-    if (index === -1) return false;
+  /**
+   * Serialize a game's public and internal state to plain JSON
+   */
+  exportGame(gameId: string): SerializedGameState | null {
+    const snapshot = this.games.get(gameId);
+    const internal = this.internalState.get(gameId);
+    if (!snapshot || !internal) return null;
 
-    tasks.splice(index, 1);
-    return true;
+    const sabotage = internal.activeSabotage;
+    return {
+      snapshot,
+      internal: {
+        settings: internal.settings,
+        impostors: [...internal.impostors],
+        votes: [...internal.votes],
+        tasks: [...internal.tasks],
+        lastKillRound: [...internal.lastKillRound],
+        emergencyMeetingsUsed: [...internal.emergencyMeetingsUsed],
+        activeSabotage: sabotage
+          ? { ...sabotage, fixProgress: [...sabotage.fixProgress] }
+          : null,
+        lastSabotageTime: internal.lastSabotageTime,
+        playersInVent: [...internal.playersInVent],
+        playersOnCameras: [...internal.playersOnCameras],
+        actionRound: internal.actionRound,
+        commitments: [...internal.commitments],
+        reveals: [...internal.reveals],
+      },
+    };
+  }
+
+  /**
+   * Rebuild a game from exportGame() output, replacing any existing state.
+   * Returns the restored snapshot so callers can re-link player objects.
+   */
+  importGame(data: SerializedGameState): GameStateSnapshot {
+    const { snapshot, internal } = data;
+    const sabotage = internal.activeSabotage;
+
+    this.games.set(snapshot.gameId, snapshot);
+    this.internalState.set(snapshot.gameId, {
+      settings: internal.settings,
+      impostors: new Set(internal.impostors),
+      votes: new Map(internal.votes),
+      tasks: new Map(internal.tasks),
+      lastKillRound: new Map(internal.lastKillRound),
+      emergencyMeetingsUsed: new Map(internal.emergencyMeetingsUsed),
+      activeSabotage: sabotage
+        ? { ...sabotage, fixProgress: new Map(sabotage.fixProgress) }
+        : null,
+      lastSabotageTime: internal.lastSabotageTime,
+      playersInVent: new Set(internal.playersInVent),
+      playersOnCameras: new Set(internal.playersOnCameras),
+      actionRound: internal.actionRound,
+      commitments: new Map(internal.commitments),
+      reveals: new Map(internal.reveals),
+    });
+    logger.info(`Restored game state: ${snapshot.gameId}`);
+    return snapshot;
   }
 
   /**
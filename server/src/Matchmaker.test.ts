@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Matchmaker } from "./Matchmaker.js";
+import { VirtualScheduler } from "./Scheduler.js";
+
+const TIER = "1000";
+
+let clock: VirtualScheduler;
+let matchmaker: Matchmaker;
+
+function queue(address: string, rating = 1000, wagerAmount = TIER): void {
+  matchmaker.enqueue({ address, name: address, wagerAmount, rating });
+}
+
+function addresses(count: number, prefix = "agent"): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}-${i + 1}`);
+}
+
+beforeEach(() => {
+  clock = new VirtualScheduler(0);
+  // Defaults: 6 per match, 4 after a minute, band 100 growing 5/s up to 400
+  matchmaker = new Matchmaker(clock);
+});
+
+describe("Matchmaker.findMatches", () => {
+  it("fills a room as soon as enough agents of a tier wait", () => {
+    for (const address of addresses(7)) queue(address);
+
+    const matches = matchmaker.findMatches();
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].wagerAmount).toBe(TIER);
+    expect(matches[0].players.map((p) => p.address)).toEqual(addresses(6));
+    expect(matchmaker.entries().map((e) => e.address)).toEqual(["agent-7"]);
+  });
+
+  it("never mixes wager tiers", () => {
+    for (const address of addresses(3, "low")) queue(address, 1000, "1000");
+    for (const address of addresses(3, "high")) queue(address, 1000, "5000");
+
+    expect(matchmaker.findMatches()).toEqual([]);
+
+    for (const address of addresses(3, "late")) queue(address, 1000, "5000");
+    const matches = matchmaker.findMatches();
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].wagerAmount).toBe("5000");
+    expect(matches[0].players.every((p) => p.wagerAmount === "5000")).toBe(true);
+    expect(matchmaker.size).toBe(3);
+  });
+
+  it("widens the rating band the longer the anchor waits", () => {
+    queue("anchor", 1000);
+    for (const address of addresses(5)) queue(address, 1300);
+
+    // 300 apart: outside the starting band of 100
+    expect(matchmaker.findMatches()).toEqual([]);
+
+    // 100 + 39s * 5 = 295, still short
+    clock.advance(39000);
+    expect(matchmaker.findMatches()).toEqual([]);
+
+    // 100 + 40s * 5 = 300
+    clock.advance(1000);
+    const [match] = matchmaker.findMatches();
+    expect(match.players.map((p) => p.address)).toEqual(["anchor", ...addresses(5)]);
+  });
+
+  it("caps the band, so distant ratings are never matched", () => {
+    queue("anchor", 1000);
+    for (const address of addresses(5)) queue(address, 1500);
+
+    clock.advance(600000);
+
+    // The others settle for a room of their own; the anchor keeps waiting
+    const [match] = matchmaker.findMatches();
+    expect(match.players.map((p) => p.address)).toEqual(addresses(5));
+    expect(matchmaker.entries().map((e) => e.address)).toEqual(["anchor"]);
+  });
+
+  it("lets the next agent anchor a group when the longest-waiting can't be matched", () => {
+    queue("outlier", 2000);
+    for (const address of addresses(6)) queue(address, 1000);
+
+    const [match] = matchmaker.findMatches();
+
+    expect(match.players.map((p) => p.address)).toEqual(addresses(6));
+    expect(matchmaker.entries().map((e) => e.address)).toEqual(["outlier"]);
+  });
+
+  it("settles for minPlayersPerMatch once the anchor has waited maxWait", () => {
+    for (const address of addresses(4)) queue(address);
+
+    clock.advance(59999);
+    expect(matchmaker.findMatches()).toEqual([]);
+
+    clock.advance(1);
+    const [match] = matchmaker.findMatches();
+    expect(match.players.map((p) => p.address)).toEqual(addresses(4));
+    expect(matchmaker.size).toBe(0);
+  });
+
+  it("never forms a room below minPlayersPerMatch", () => {
+    for (const address of addresses(3)) queue(address);
+
+    clock.advance(600000);
+
+    expect(matchmaker.findMatches()).toEqual([]);
+    expect(matchmaker.size).toBe(3);
+  });
+
+  it("honours a custom configuration", () => {
+    matchmaker = new Matchmaker(clock, {
+      playersPerMatch: 3,
+      minPlayersPerMatch: 2,
+      maxWait: 5000,
+    });
+    for (const address of addresses(2)) queue(address);
+
+    expect(matchmaker.findMatches()).toEqual([]);
+    clock.advance(5000);
+    expect(matchmaker.findMatches()[0].players).toHaveLength(2);
+  });
+});
@@ -0,0 +1,179 @@
+import type { Clock } from "./Scheduler.js";
+
+export interface QueueEntry {
+  address: string;
+  name: string;
+  wagerAmount: string; // Tier, in wei; only equal tiers are matched together
+  rating: number;
+  queuedAt: number;
+}
+
+export interface MatchmakerConfig {
+  playersPerMatch: number; // Room size once enough compatible agents wait
+  minPlayersPerMatch: number; // Smallest room formed once the anchor has waited maxWait
+  maxWait: number; // ms before settling for a smaller room
+  ratingBand: number; // Rating gap allowed straight away
+  bandGrowthPerSecond: number; // Gap widens the longer an agent waits...
+  maxRatingBand: number; // ...up to this
+}
+
+export interface Match {
+  wagerAmount: string;
+  players: QueueEntry[]; // In queue order
+}
+
+export interface QueueStatus {
+  position: number; // 1-based, within the agent's wager tier
+  queueSize: number; // Agents waiting in the same tier
+  wagerAmount: string;
+  estimatedWait: number | null; // ms, null until a match has been made
+}
+
+export const DEFAULT_MATCHMAKER_CONFIG: MatchmakerConfig = {
+  playersPerMatch: 6,
+  minPlayersPerMatch: 4, // Smallest game created on-chain
+  maxWait: 60000,
+  ratingBand: 100,
+  bandGrowthPerSecond: 5,
+  maxRatingBand: 400,
+};
+
+const WAIT_HISTORY_SIZE = 20; // Recent matched waits the estimate averages
+
+/**
+ * Queue of agents waiting for a game. Agents are grouped by wager tier and
+ * matched with others whose rating is close to the longest-waiting agent's;
+ * the allowed gap widens with waiting time so nobody waits forever. Holds no
+ * connections or rooms: the server enqueues, calls findMatches and seats the
+ * returned groups.
+ */
+export class Matchmaker {
+  private queue: QueueEntry[] = [];
+  private recentWaits: number[] = [];
+  private config: MatchmakerConfig;
+
+  constructor(
+    private clock: Clock,
+    config: Partial<MatchmakerConfig> = {},
+  ) {
+    this.config = { ...DEFAULT_MATCHMAKER_CONFIG, ...config };
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  isQueued(address: string): boolean {
+    return this.indexOf(address) >= 0;
+  }
+
+  enqueue(entry: Omit<QueueEntry, "queuedAt">): QueueEntry {
+    this.dequeue(entry.address);
+    const queued: QueueEntry = { ...entry, queuedAt: this.clock.now() };
+    this.queue.push(queued);
+    return queued;
+  }
+
+  dequeue(address: string): boolean {
+    const index = this.indexOf(address);
+    if (index < 0) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  entries(): QueueEntry[] {
+    return [...this.queue];
+  }
+
+  status(address: string): QueueStatus | null {
+    const entry = this.queue[this.indexOf(address)];
+    if (!entry) return null;
+
+    const tier = this.queue.filter((e) => e.wagerAmount === entry.wagerAmount);
+    const averageWait =
+      this.recentWaits.length > 0
+        ? this.recentWaits.reduce((sum, w) => sum + w, 0) /
+          this.recentWaits.length
+        : null;
+
+    return {
+      position: tier.indexOf(entry) + 1,
+      queueSize: tier.length,
+      wagerAmount: entry.wagerAmount,
+      estimatedWait:
+        averageWait === null
+          ? null
+          : Math.max(
+              Math.round(averageWait - (this.clock.now() - entry.queuedAt)),
+              0,
+            ),
+    };
+  }
+
+  /**
+   * Take every group that can play now out of the queue. Within a tier the
+   * longest-waiting agent anchors each group; if it can't be matched yet the
+   * next one gets a turn.
+   */
+  findMatches(): Match[] {
+    const now = this.clock.now();
+    const matches: Match[] = [];
+    const tiers = new Set(this.queue.map((e) => e.wagerAmount));
+
+    for (const wagerAmount of tiers) {
+      let candidates = this.queue.filter((e) => e.wagerAmount === wagerAmount);
+
+      while (candidates.length > 0) {
+        const [anchor, ...rest] = candidates;
+        const band = this.bandFor(anchor, now);
+        const compatible = [
+          anchor,
+          ...rest.filter((e) => Math.abs(e.rating - anchor.rating) <= band),
+        ];
+
+        const size =
+          compatible.length >= this.config.playersPerMatch
+            ? this.config.playersPerMatch
+            : now - anchor.queuedAt >= this.config.maxWait &&
+                compatible.length >= this.config.minPlayersPerMatch
+              ? compatible.length
+              : 0;
+
+        if (size === 0) {
+          candidates = rest;
+          continue;
+        }
+
+        const players = compatible.slice(0, size);
+        matches.push({ wagerAmount, players });
+        for (const player of players) {
+          this.dequeue(player.address);
+          this.recordWait(now - player.queuedAt);
+        }
+        candidates = candidates.filter((e) => !players.includes(e));
+      }
+    }
+
+    return matches;
+  }
+
+  private bandFor(entry: QueueEntry, now: number): number {
+    const waitedSeconds = (now - entry.queuedAt) / 1000;
+    return Math.min(
+      this.config.ratingBand + waitedSeconds * this.config.bandGrowthPerSecond,
+      this.config.maxRatingBand,
+    );
+  }
+
+  private recordWait(wait: number): void {
+    this.recentWaits.push(wait);
+    if (this.recentWaits.length > WAIT_HISTORY_SIZE) {
+      this.recentWaits.shift();
+    }
+  }
+
+  private indexOf(address: string): number {
+    const key = address.toLowerCase();
+    return this.queue.findIndex((e) => e.address.toLowerCase() === key);
+  }
+}
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { parseRateLimits, RateLimiter, type RateLimits } from "./RateLimiter.js";
+import { VirtualScheduler } from "./Scheduler.js";
+
+const LIMITS: RateLimits = {
+  default: { capacity: 5, refillPerSecond: 1 },
+  chat: { capacity: 2, refillPerSecond: 0.5 },
+};
+
+let clock: VirtualScheduler;
+let limiter: RateLimiter;
+
+// How many of `count` back-to-back requests get through
+function burst(keys: string[], category: string, count: number): number {
+  let allowed = 0;
+  for (let i = 0; i < count; i++) {
+    if (limiter.take(keys, category).allowed) allowed++;
+  }
+  return allowed;
+}
+
+beforeEach(() => {
+  clock = new VirtualScheduler(0);
+  limiter = new RateLimiter(clock, LIMITS);
+});
+
+describe("RateLimiter.take", () => {
+  it("allows a burst up to capacity, then says when to retry", () => {
+    expect(burst(["conn:1"], "chat", 2)).toBe(2);
+
+    expect(limiter.take(["conn:1"], "chat")).toEqual({
+      allowed: false,
+      retryAfter: 2000, // One token at 0.5/s
+    });
+  });
+
+  it("refills continuously over the window", () => {
+    burst(["conn:1"], "chat", 2);
+
+    clock.advance(1999);
+    expect(limiter.take(["conn:1"], "chat")).toEqual({ allowed: false, retryAfter: 1 });
+
+    clock.advance(1);
+    expect(limiter.take(["conn:1"], "chat").allowed).toBe(true);
+    expect(limiter.take(["conn:1"], "chat").allowed).toBe(false);
+
+    // A long quiet spell refills to capacity, no further
+    clock.advance(60000);
+    expect(burst(["conn:1"], "chat", 10)).toBe(2);
+  });
+
+  it("limits each key and category separately, defaulting unknown categories", () => {
+    expect(burst(["conn:1"], "chat", 5)).toBe(2);
+
+    expect(burst(["conn:2"], "chat", 5)).toBe(2);
+    expect(burst(["conn:1"], "move", 10)).toBe(5);
+    expect(limiter.limitFor("move")).toBe(LIMITS.default);
+  });
+
+  it("spends from every key or none", () => {
+    // The address bucket is shared across connections
+    burst(["conn:1", "addr:a"], "chat", 2);
+
+    const refused = limiter.take(["conn:2", "addr:a"], "chat");
+    expect(refused.allowed).toBe(false);
+
+    // conn:2 kept its tokens, since the address had none to match them
+    expect(burst(["conn:2"], "chat", 5)).toBe(2);
+  });
+});
+
+describe("RateLimiter cleanup", () => {
+  it("forgets a key's buckets, so it starts full again", () => {
+    burst(["conn:1"], "chat", 2);
+    burst(["conn:10"], "chat", 2);
+
+    limiter.forget("conn:1");
+
+    expect(burst(["conn:1"], "chat", 5)).toBe(2);
+    expect(burst(["conn:10"], "chat", 5)).toBe(0);
+  });
+
+  it("prunes only buckets that have refilled", () => {
+    burst(["conn:1"], "chat", 2);
+    burst(["conn:2"], "chat", 1);
+
+    clock.advance(2000);
+    limiter.prune();
+
+    // conn:2 was full again and pruned; conn:1 kept its partial bucket
+    expect(burst(["conn:1"], "chat", 5)).toBe(1);
+    expect(burst(["conn:2"], "chat", 5)).toBe(2);
+  });
+});
+
+describe("parseRateLimits", () => {
+  it("overlays valid entries on the defaults", () => {
+    const { limits, error } = parseRateLimits(
+      JSON.stringify({
+        chat: { capacity: 10, refillPerSecond: 2 },
+        vote: { capacity: 1, refillPerSecond: 0.1 },
+      }),
+      LIMITS,
+    );
+
+    expect(error).toBeUndefined();
+    expect(limits).toEqual({
+      default: LIMITS.default,
+      chat: { capacity: 10, refillPerSecond: 2 },
+      vote: { capacity: 1, refillPerSecond: 0.1 },
+    });
+  });
+
+  it("ignores entries that aren't positive numbers", () => {
+    const { limits } = parseRateLimits(
+      JSON.stringify({
+        chat: { capacity: 0, refillPerSecond: 1 },
+        vote: { capacity: 5, refillPerSecond: -1 },
+        move: { capacity: "5", refillPerSecond: 1 },
+        default: null,
+      }),
+      LIMITS,
+    );
+
+    expect(limits).toEqual(LIMITS);
+  });
+
+  it("falls back to the defaults on bad JSON", () => {
+    expect(parseRateLimits(undefined, LIMITS)).toEqual({ limits: LIMITS });
+    expect(parseRateLimits("{oops", LIMITS)).toMatchObject({
+      limits: LIMITS,
+      error: expect.stringContaining("JSON"),
+    });
+    expect(parseRateLimits("42", LIMITS)).toEqual({
+      limits: LIMITS,
+      error: "Rate limits must be a JSON object",
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import type { Clock } from "./Scheduler.js";
+
+export interface RateLimit {
+  capacity: number; // Burst: requests allowed back to back
+  refillPerSecond: number; // Sustained rate once the burst is spent
+}
+
+// Keyed by category (a message type or route group); "default" covers the rest
+export type RateLimits = Record<string, RateLimit>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // ms until a token is available; 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets per (key, category). A key is whoever is being limited: a
+ * connection, a wallet address or an IP. Buckets start full and refill
+ * continuously, so a quiet client can always burst up to `capacity`.
+ */
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+
+  constructor(
+    private clock: Clock,
+    private limits: RateLimits,
+  ) {}
+
+  limitFor(category: string): RateLimit {
+    return this.limits[category] ?? this.limits.default;
+  }
+
+  /**
+   * Spend a token from every key's bucket for `category`. Nothing is spent
+   * unless all of them have one.
+   */
+  take(keys: string[], category: string): RateLimitResult {
+    const limit = this.limitFor(category);
+    const now = this.clock.now();
+
+    const buckets = keys.map((key) => this.refill(`${key}|${category}`, limit, now));
+    const empty = buckets.filter((b) => b.tokens < 1);
+    if (empty.length > 0) {
+      const missing = Math.max(...empty.map((b) => 1 - b.tokens));
+      return {
+        allowed: false,
+        retryAfter: Math.ceil((missing / limit.refillPerSecond) * 1000),
+      };
+    }
+
+    for (const bucket of buckets) {
+      bucket.tokens -= 1;
+    }
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  /**
+   * Drop every bucket belonging to `key`, e.g. when a connection closes
+   */
+  forget(key: string): void {
+    for (const id of this.buckets.keys()) {
+      if (id.startsWith(`${key}|`)) this.buckets.delete(id);
+    }
+  }
+
+  /**
+   * Drop buckets that have refilled completely; they'd start full anyway
+   */
+  prune(): void {
+    const now = this.clock.now();
+    for (const [id, bucket] of this.buckets) {
+      const limit = this.limitFor(id.slice(id.lastIndexOf("|") + 1));
+      if (this.refill(id, limit, now).tokens >= limit.capacity) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+
+  private refill(id: string, limit: RateLimit, now: number): Bucket {
+    let bucket = this.buckets.get(id);
+    if (!bucket) {
+      bucket = { tokens: limit.capacity, updatedAt: now };
+      this.buckets.set(id, bucket);
+      return bucket;
+    }
+
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(
+      bucket.tokens + elapsed * limit.refillPerSecond,
+      limit.capacity,
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
+
+/**
+ * Overlay limits from JSON (e.g. an env var such as
+ * `{"agent:chat":{"capacity":5,"refillPerSecond":1}}`) on the defaults.
+ * Entries that aren't positive numbers are ignored; a parse failure returns
+ * the defaults with the error.
+ */
+export function parseRateLimits(
+  json: string | undefined,
+  defaults: RateLimits,
+): { limits: RateLimits; error?: string } {
+  if (!json) return { limits: defaults };
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch (error) {
+    return { limits: defaults, error: String(error) };
+  }
+  if (typeof overrides !== "object" || overrides === null) {
+    return { limits: defaults, error: "Rate limits must be a JSON object" };
+  }
+
+  const limits: RateLimits = { ...defaults };
+  for (const [category, value] of Object.entries(overrides)) {
+    const { capacity, refillPerSecond } = (value ?? {}) as Partial<RateLimit>;
+    if (
+      typeof capacity === "number" &&
+      capacity >= 1 &&
+      typeof refillPerSecond === "number" &&
+      refillPerSecond > 0
+    ) {
+      limits[category] = { capacity, refillPerSecond };
+    }
+  }
+  return { limits };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { VirtualScheduler } from "./Scheduler.js";
+
+describe("VirtualScheduler", () => {
+  it("only moves time when advanced", () => {
+    const clock = new VirtualScheduler(1000);
+    let fired = false;
+    clock.setTimeout(() => (fired = true), 500);
+
+    expect(clock.now()).toBe(1000);
+    expect(clock.advance(499)).toBe(0);
+    expect(fired).toBe(false);
+
+    expect(clock.advance(1)).toBe(1);
+    expect(fired).toBe(true);
+    expect(clock.now()).toBe(1500);
+    expect(clock.pendingCount).toBe(0);
+  });
+
+  it("fires timers in due order, ties in scheduling order, at their due time", () => {
+    const clock = new VirtualScheduler(0);
+    const order: string[] = [];
+    clock.setTimeout(() => order.push(`late@${clock.now()}`), 300);
+    clock.setTimeout(() => order.push(`first@${clock.now()}`), 100);
+    clock.setTimeout(() => order.push(`second@${clock.now()}`), 100);
+
+    clock.advance(1000);
+
+    expect(order).toEqual(["first@100", "second@100", "late@300"]);
+    expect(clock.now()).toBe(1000);
+  });
+
+  it("fires timers that callbacks schedule within the same advance", () => {
+    const clock = new VirtualScheduler(0);
+    const times: number[] = [];
+    clock.setTimeout(() => {
+      times.push(clock.now());
+      clock.setTimeout(() => times.push(clock.now()), 50);
+    }, 100);
+
+    expect(clock.advance(200)).toBe(2);
+    expect(times).toEqual([100, 150]);
+  });
+
+  it("repeats intervals until cleared", () => {
+    const clock = new VirtualScheduler(0);
+    let ticks = 0;
+    const handle = clock.setInterval(() => ticks++, 2000);
+
+    clock.advance(10000);
+    expect(ticks).toBe(5);
+
+    clock.clearInterval(handle);
+    clock.advance(10000);
+    expect(ticks).toBe(5);
+  });
+
+  it("drops cleared timeouts", () => {
+    const clock = new VirtualScheduler(0);
+    let fired = false;
+    const handle = clock.setTimeout(() => (fired = true), 100);
+
+    clock.clearTimeout(handle);
+    clock.clearTimeout(null);
+    clock.advance(1000);
+
+    expect(fired).toBe(false);
+  });
+
+  it("runs everything left with runAll, stopping repeating timers at the limit", () => {
+    const clock = new VirtualScheduler(0);
+    const order: number[] = [];
+    clock.setTimeout(() => order.push(1), 60000);
+    clock.setTimeout(() => order.push(2), 120000);
+
+    expect(clock.runAll()).toBe(2);
+    expect(order).toEqual([1, 2]);
+    expect(clock.now()).toBe(120000);
+
+    clock.setInterval(() => undefined, 1000);
+    expect(clock.runAll(10)).toBe(10);
+    expect(clock.now()).toBe(130000);
+  });
+});
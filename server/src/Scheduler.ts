@@ -0,0 +1,185 @@
+export type TimerHandle = number;
+
+export interface Clock {
+  now(): number; // Milliseconds since the epoch, like Date.now()
+}
+
+/**
+ * Source of time and timers for game logic. Everything that waits on a phase,
+ * lobby or sabotage deadline goes through one of these so that tests and
+ * simulations can swap in virtual time.
+ */
+export interface Scheduler extends Clock {
+  setTimeout(callback: () => void, delay: number): TimerHandle;
+  clearTimeout(handle: TimerHandle | null | undefined): void;
+  setInterval(callback: () => void, interval: number): TimerHandle;
+  clearInterval(handle: TimerHandle | null | undefined): void;
+}
+
+/**
+ * Wall-clock time backed by the Node.js timers
+ */
+export class RealTimeScheduler implements Scheduler {
+  private nextId = 1;
+  private timers: Map<TimerHandle, NodeJS.Timeout> = new Map();
+
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    const handle = this.nextId++;
+    this.timers.set(
+      handle,
+      setTimeout(() => {
+        this.timers.delete(handle);
+        callback();
+      }, delay),
+    );
+    return handle;
+  }
+
+  clearTimeout(handle: TimerHandle | null | undefined): void {
+    if (handle == null) return;
+    clearTimeout(this.timers.get(handle));
+    this.timers.delete(handle);
+  }
+
+  setInterval(callback: () => void, interval: number): TimerHandle {
+    const handle = this.nextId++;
+    this.timers.set(handle, setInterval(callback, interval));
+    return handle;
+  }
+
+  clearInterval(handle: TimerHandle | null | undefined): void {
+    if (handle == null) return;
+    clearInterval(this.timers.get(handle));
+    this.timers.delete(handle);
+  }
+}
+
+interface VirtualTimer {
+  dueAt: number;
+  callback: () => void;
+  interval: number | null; // Set for repeating timers
+}
+
+/**
+ * Time that only moves when told to. Timers fire synchronously from
+ * advance()/runAll() in due order (ties in scheduling order), with now()
+ * reporting each timer's due time while it runs. Async work a callback starts
+ * settles once the caller next awaits.
+ */
+export class VirtualScheduler implements Scheduler {
+  private currentTime: number;
+  private nextId = 1;
+  private timers: Map<TimerHandle, VirtualTimer> = new Map();
+
+  constructor(startTime: number = Date.now()) {
+    this.currentTime = startTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    return this.schedule(callback, delay, null);
+  }
+
+  clearTimeout(handle: TimerHandle | null | undefined): void {
+    if (handle != null) this.timers.delete(handle);
+  }
+
+  setInterval(callback: () => void, interval: number): TimerHandle {
+    // A zero interval would never let time move on
+    return this.schedule(callback, interval, Math.max(interval, 1));
+  }
+
+  clearInterval(handle: TimerHandle | null | undefined): void {
+    if (handle != null) this.timers.delete(handle);
+  }
+
+  /**
+   * Number of timers still waiting to fire
+   */
+  get pendingCount(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Move time forward by `ms`, firing every timer that falls due on the way.
+   * Returns how many callbacks ran.
+   */
+  advance(ms: number): number {
+    const target = this.currentTime + Math.max(ms, 0);
+    let fired = 0;
+
+    for (let next = this.nextDue(target); next; next = this.nextDue(target)) {
+      this.fire(next);
+      fired++;
+    }
+
+    this.currentTime = target;
+    return fired;
+  }
+
+  /**
+   * Jump from timer to timer until none are left, or `limit` callbacks have
+   * run (repeating timers never run out on their own). Returns how many ran.
+   */
+  runAll(limit: number = 10000): number {
+    let fired = 0;
+
+    for (
+      let next = this.nextDue(Infinity);
+      next && fired < limit;
+      next = this.nextDue(Infinity)
+    ) {
+      this.fire(next);
+      fired++;
+    }
+
+    return fired;
+  }
+
+  private schedule(
+    callback: () => void,
+    delay: number,
+    interval: number | null,
+  ): TimerHandle {
+    const handle = this.nextId++;
+    this.timers.set(handle, {
+      dueAt: this.currentTime + Math.max(delay, interval === null ? 0 : 1),
+      callback,
+      interval,
+    });
+    return handle;
+  }
+
+  private nextDue(until: number): [TimerHandle, VirtualTimer] | null {
+    let earliest: [TimerHandle, VirtualTimer] | null = null;
+    for (const entry of this.timers) {
+      if (entry[1].dueAt > until) continue;
+      if (!earliest || entry[1].dueAt < earliest[1].dueAt) {
+        earliest = entry;
+      }
+    }
+    return earliest;
+  }
+
+  private fire([handle, timer]: [TimerHandle, VirtualTimer]): void {
+    this.currentTime = Math.max(this.currentTime, timer.dueAt);
+
+    if (timer.interval === null) {
+      this.timers.delete(handle);
+    } else {
+      timer.dueAt += timer.interval;
+    }
+
+    timer.callback();
+  }
+}
+
+// Singleton instance
+export const realTimeScheduler = new RealTimeScheduler();
@@ -22,6 +22,12 @@ interface GameWager {
   settled: boolean;
 }
 
+export interface SerializedGameWager {
+  wagers: Array<[string, string]>; // [address, wei]
+  totalPot: string;
+  settled: boolean;
+}
+
 /**
  * Service for managing agent wagers
  * Balances are queried from on-chain, wagers tracked in-memory for active games
@@ -266,6 +272,37 @@ export class WagerService {
     return this.gameWagers.get(gameId) ?? null;
   }
 
+  /**
+   * Serialize a game's wagers for a room snapshot (amounts as wei strings)
+   */
+  exportGameWager(gameId: string): SerializedGameWager | null {
+    const gameWager = this.gameWagers.get(gameId);
+    if (!gameWager) return null;
+
+    return {
+      wagers: Array.from(gameWager.wagers, ([address, amount]) => [
+        address,
+        amount.toString(),
+      ]),
+      totalPot: gameWager.totalPot.toString(),
+      settled: gameWager.settled,
+    };
+  }
+
+  /**
+   * Rebuild a game's wagers from a room snapshot after a restart
+   */
+  restoreGameWager(gameId: string, data: SerializedGameWager): void {
+    this.gameWagers.set(gameId, {
+      gameId,
+      wagers: new Map(
+        data.wagers.map(([address, amount]) => [address, BigInt(amount)]),
+      ),
+      totalPot: BigInt(data.totalPot),
+      settled: data.settled,
+    });
+  }
+
   /**
    * Get total pot for a game
    */
@@ -0,0 +1,826 @@
+import { EventEmitter } from "events";
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { verifyGameFairness } from "./fairness.js";
+import { hashGameAction, TASK_DEFINITIONS } from "./GameStateManager.js";
+import { VirtualScheduler } from "./Scheduler.js";
+import {
+  ActionType,
+  Location,
+  Role,
+  type ClientMessage,
+  type GameAction,
+  type GameSettings,
+  type ServerMessage,
+} from "./types.js";
+
+vi.hoisted(() => {
+  process.env.DISABLE_WAGERS = "true";
+  process.env.LOG_LEVEL = "error";
+});
+
+// Persistence is off, as when DATABASE_URL is unset; every write is a no-op,
+// and reads find nothing unless a test spies on them
+vi.mock("./DatabaseService.js", () => {
+  const noop = (name: string | symbol) =>
+    name === "isEnabled" ? () => false : async () => undefined;
+  return {
+    databaseService: new Proxy({} as Record<string | symbol, unknown>, {
+      get: (spies, name) => spies[name] ?? noop(name),
+      getOwnPropertyDescriptor: (spies, name) =>
+        Reflect.getOwnPropertyDescriptor(spies, name) ?? {
+          configurable: true,
+          writable: true,
+          value: noop(name),
+        },
+    }),
+  };
+});
+
+// Needs Privy credentials at import; agents here bring their own wallets, or
+// prove a managed one with OPERATOR_KEY
+const OPERATOR_KEY = "operator-key";
+vi.mock("./PrivyWalletService.js", () => ({
+  privyWalletService: {
+    isEnabled: () => false,
+    verifyOperatorOwnership: async (key: string) => key === "operator-key",
+  },
+}));
+
+const { WebSocketRelayServer } = await import("./WebSocketServer.js");
+const { databaseService } = await import("./DatabaseService.js");
+
+type Server = InstanceType<typeof WebSocketRelayServer>;
+
+// What the ws server does for each new socket and on start()
+interface ServerInternals {
+  handleConnection(ws: FakeSocket): void;
+  startMatchmaking(): void;
+  serializeRoom(roomId: string): unknown; // What the snapshot timer saves
+}
+
+/**
+ * Stands in for a client's socket: records what the server sends and lets
+ * the test deliver messages
+ */
+class FakeSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  received: ServerMessage[] = [];
+
+  send(data: string): void {
+    this.received.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = WebSocket.CLOSED;
+    this.emit("close");
+  }
+
+  deliver(message: ClientMessage): void {
+    this.emit("message", Buffer.from(JSON.stringify(message)));
+  }
+
+  messages<T extends ServerMessage["type"]>(
+    type: T,
+  ): Array<Extract<ServerMessage, { type: T }>> {
+    return this.received.filter(
+      (m): m is Extract<ServerMessage, { type: T }> => m.type === type,
+    );
+  }
+
+  last<T extends ServerMessage["type"]>(
+    type: T,
+  ): Extract<ServerMessage, { type: T }> | undefined {
+    return this.messages(type).at(-1);
+  }
+}
+
+interface Agent {
+  socket: FakeSocket;
+  address: string;
+}
+
+let clock: VirtualScheduler;
+let server: Server;
+
+/**
+ * Let message handlers and the async work timers start run to completion
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+async function advance(ms: number): Promise<void> {
+  clock.advance(ms);
+  await settle();
+}
+
+/**
+ * Connect a wallet and sign the welcome challenge
+ */
+async function connectAgent(): Promise<Agent> {
+  const wallet = ethers.Wallet.createRandom();
+  const socket = new FakeSocket();
+  (server as unknown as ServerInternals).handleConnection(socket);
+
+  const welcome = socket.last("server:welcome")!;
+  socket.deliver({
+    type: "agent:authenticate",
+    address: wallet.address,
+    signature: wallet.signMessageSync(welcome.authChallenge.message),
+  });
+  await settle();
+
+  return { socket, address: wallet.address };
+}
+
+/**
+ * Four agents seated in a room the first one created, with the game started
+ */
+async function startGame(
+  settings?: Partial<GameSettings>,
+): Promise<{ agents: Agent[]; roomId: string }> {
+  const agents = [];
+  for (let i = 0; i < 4; i++) agents.push(await connectAgent());
+
+  agents[0].socket.deliver({
+    type: "client:create_room",
+    maxPlayers: 4,
+    impostorCount: 1,
+    minPlayers: 4,
+    settings,
+  });
+  await settle();
+  const roomId = agents[0].socket.last("server:room_created")!.room.roomId;
+
+  for (const [i, agent] of agents.entries()) {
+    agent.socket.deliver({ type: "agent:join_game", gameId: roomId, colorId: i });
+  }
+  await settle();
+  agents[0].socket.deliver({ type: "client:start_game", roomId });
+  await settle();
+
+  return { agents, roomId };
+}
+
+/**
+ * The game's impostor and its crewmates, from the roles each agent was dealt
+ */
+function splitRoles(agents: Agent[]): { impostor: Agent; crew: Agent[] } {
+  const isImpostor = (a: Agent) =>
+    a.socket.last("server:role_assigned")!.role === Role.Impostor;
+  return {
+    impostor: agents.find(isImpostor)!,
+    crew: agents.filter((a) => !isImpostor(a)),
+  };
+}
+
+/**
+ * Commit to an action; returns the reveal to deliver in the reveal window
+ */
+function commit(
+  agent: Agent,
+  gameId: string,
+  round: number,
+  action: GameAction,
+): () => void {
+  const salt = ethers.hexlify(ethers.randomBytes(32));
+  agent.socket.deliver({
+    type: "agent:commit_action",
+    gameId,
+    round,
+    commitHash: hashGameAction(action, salt, agent.address),
+  });
+  return () =>
+    agent.socket.deliver({ type: "agent:reveal_action", gameId, round, action, salt });
+}
+
+/**
+ * Round 1 with only the impostor acting: a kill in the Cafeteria, where
+ * everyone starts. Returns once round 2 has opened.
+ */
+async function killInFirstRound(
+  gameId: string,
+  impostor: Agent,
+  victim: Agent,
+): Promise<void> {
+  const reveal = commit(impostor, gameId, 1, {
+    type: ActionType.Kill,
+    target: victim.address,
+  });
+  await advance(30000);
+  reveal();
+  await settle();
+}
+
+/**
+ * Snapshot a room as the snapshot timer would, then replace the server with a
+ * fresh one that restores it. The old server's timers stay on the old clock.
+ */
+async function restart(roomId: string): Promise<void> {
+  const data = JSON.parse(
+    JSON.stringify((server as unknown as ServerInternals).serializeRoom(roomId)),
+  );
+  server.stop();
+
+  clock = new VirtualScheduler(clock.now());
+  server = new WebSocketRelayServer({ port: 0, scheduler: clock });
+  vi.spyOn(databaseService, "getRoomSnapshots").mockResolvedValue([{ roomId, data }]);
+  await server.restoreRooms();
+}
+
+/**
+ * Reconnect a player on a new socket with the session token they were given
+ */
+async function resume(agent: Agent): Promise<FakeSocket> {
+  const socket = new FakeSocket();
+  (server as unknown as ServerInternals).handleConnection(socket);
+  socket.deliver({
+    type: "client:resume",
+    sessionToken: agent.socket.last("server:authenticated")!.sessionToken!,
+  });
+  await settle();
+  return socket;
+}
+
+beforeEach(() => {
+  clock = new VirtualScheduler(Date.now());
+  server = new WebSocketRelayServer({ port: 0, scheduler: clock });
+});
+
+afterEach(() => {
+  server.stop();
+  vi.restoreAllMocks();
+});
+
+describe("WebSocketRelayServer timers", () => {
+  it("closes commits, then reveals, then opens the next round on time", async () => {
+    const { agents, roomId } = await startGame();
+    const [{ socket }] = agents;
+    expect(socket.last("server:phase_changed")).toMatchObject({
+      phase: 2, // ActionCommit
+      round: 1,
+      phaseEndTime: clock.now() + 30000,
+    });
+
+    socket.deliver({
+      type: "agent:commit_action",
+      gameId: roomId,
+      round: 1,
+      commitHash: `0x${"ab".repeat(32)}`,
+    });
+    await settle();
+
+    await advance(29999);
+    expect(socket.last("server:phase_changed")!.phase).toBe(2);
+
+    await advance(1);
+    expect(socket.last("server:phase_changed")).toMatchObject({
+      phase: 3, // ActionReveal
+      round: 1,
+    });
+
+    // Nobody reveals, so the round resolves when the window closes
+    await advance(15000);
+    expect(socket.last("server:round_resolved")).toMatchObject({
+      round: 1,
+      resolvedCount: 0,
+      forfeited: [agents[0].address.toLowerCase()],
+    });
+    expect(socket.last("server:phase_changed")).toMatchObject({
+      phase: 2,
+      round: 2,
+    });
+  });
+
+  it("skips the reveal window when nobody committed", async () => {
+    const { agents } = await startGame();
+    const [{ socket }] = agents;
+
+    await advance(30000);
+
+    expect(socket.messages("server:phase_changed").map((m) => m.phase)).toEqual([
+      2, 2,
+    ]);
+    expect(socket.last("server:phase_changed")!.round).toBe(2);
+  });
+
+  it("runs a meeting through discussion, voting and the result", async () => {
+    const { agents, roomId } = await startGame();
+    const [{ socket }] = agents;
+    const phases = () => socket.messages("server:phase_changed").map((m) => m.phase);
+
+    socket.deliver({ type: "agent:call_meeting", gameId: roomId });
+    await settle();
+    expect(socket.last("server:phase_changed")).toMatchObject({
+      phase: 4, // Discussion
+      phaseEndTime: clock.now() + 30000,
+    });
+
+    await advance(30000);
+    expect(socket.last("server:phase_changed")).toMatchObject({
+      phase: 5, // Voting
+      phaseEndTime: clock.now() + 30000,
+    });
+
+    // Nobody votes, so voting closes on its timer with no ejection, and the
+    // result is held for the ejection screen before the next round
+    await advance(30000);
+    expect(socket.last("server:player_ejected")).toBeUndefined();
+    await advance(4999);
+    expect(phases().at(-1)).toBe(5);
+
+    await advance(1);
+    expect(socket.last("server:phase_changed")).toMatchObject({
+      phase: 2,
+      previousPhase: 6, // VoteResult
+      round: 2,
+    });
+    expect(phases()).toEqual([2, 4, 5, 2]);
+  });
+
+  it("settles for a smaller match on the matchmaking interval once the wait runs out", async () => {
+    (server as unknown as ServerInternals).startMatchmaking();
+    const agents = [];
+    for (let i = 0; i < 4; i++) agents.push(await connectAgent());
+    for (const agent of agents) {
+      agent.socket.deliver({ type: "client:queue" });
+    }
+    await settle();
+
+    // Four of six seats: nothing until the longest wait reaches a minute
+    await advance(59999);
+    expect(agents[0].socket.last("server:match_found")).toBeUndefined();
+
+    await advance(1);
+    for (const agent of agents) {
+      expect(agent.socket.last("server:match_found")).toMatchObject({
+        players: agents.map((a) => a.address),
+        waited: 60000,
+      });
+    }
+  });
+});
+
+describe("WebSocketRelayServer commit-reveal", () => {
+  it("keeps the commit window open until every living player commits", async () => {
+    const { agents, roomId } = await startGame();
+    const { impostor, crew } = splitRoles(agents);
+    const [victim, ...living] = crew;
+
+    await killInFirstRound(roomId, impostor, victim);
+    expect(impostor.socket.last("server:kill_occurred")).toMatchObject({
+      victim: victim.address,
+    });
+    expect(impostor.socket.last("server:phase_changed")).toMatchObject({ phase: 2, round: 2 });
+
+    // The ghost's commitment doesn't stand in for the last living player's
+    const idle: GameAction = { type: ActionType.Skip };
+    commit(victim, roomId, 2, idle);
+    commit(impostor, roomId, 2, idle);
+    commit(living[0], roomId, 2, idle);
+    await settle();
+    expect(impostor.socket.last("server:phase_changed")).toMatchObject({ phase: 2, round: 2 });
+
+    commit(living[1], roomId, 2, idle);
+    await settle();
+    expect(impostor.socket.last("server:phase_changed")).toMatchObject({ phase: 3, round: 2 });
+  });
+});
+
+describe("WebSocketRelayServer visibility", () => {
+  it("keeps an unreported kill from everyone who didn't see it", async () => {
+    const { agents, roomId } = await startGame();
+    const { impostor, crew } = splitRoles(agents);
+    const [victim, witness, away] = crew;
+    const spectator = new FakeSocket();
+    (server as unknown as ServerInternals).handleConnection(spectator);
+    spectator.deliver({ type: "client:join_room", roomId, asSpectator: true });
+
+    // Moves resolve before kills, so `away` has left the Cafeteria by then
+    const reveals = [
+      commit(impostor, roomId, 1, { type: ActionType.Kill, target: victim.address }),
+      commit(witness, roomId, 1, { type: ActionType.Skip }),
+      commit(away, roomId, 1, { type: ActionType.Move, destination: Location.Admin }),
+    ];
+    await advance(30000);
+    // Every reveal is in, so the round resolves at once
+    for (const reveal of reveals) reveal();
+    await settle();
+
+    for (const { socket } of [impostor, victim, witness]) {
+      expect(socket.last("server:kill_occurred")).toMatchObject({ victim: victim.address });
+    }
+    expect(spectator.last("server:kill_occurred")).toMatchObject({ victim: victim.address });
+    expect(away.socket.messages("server:kill_occurred")).toEqual([]);
+
+    // The victim's ghost still counts as alive in the tally the room sees
+    const drift = commit(victim, roomId, 2, {
+      type: ActionType.Move,
+      destination: Location.Electrical,
+    });
+    await settle();
+    expect(away.socket.last("server:action_committed")).toMatchObject({
+      player: victim.address,
+      committedCount: 1,
+      expectedCount: 4,
+    });
+
+    // and only the dead see it drift through walls
+    await advance(30000);
+    drift();
+    await settle();
+
+    const ghostMove = { address: victim.address, to: Location.Electrical, round: 2 };
+    expect(victim.socket.last("server:player_moved")).toMatchObject(ghostMove);
+    expect(spectator.last("server:player_moved")).toMatchObject(ghostMove);
+    for (const { socket } of [impostor, witness, away]) {
+      expect(socket.messages("server:player_moved").filter((m) => m.round === 2)).toEqual([]);
+    }
+  });
+  it("gives spectators who join mid-game the engine's view of the game", async () => {
+    const { agents, roomId } = await startGame();
+    const { impostor, crew } = splitRoles(agents);
+    await killInFirstRound(roomId, impostor, crew[0]);
+
+    const spectator = new FakeSocket();
+    (server as unknown as ServerInternals).handleConnection(spectator);
+    spectator.deliver({ type: "client:join_room", roomId, asSpectator: true });
+    await settle();
+
+    expect(spectator.last("server:game_state")!.state).toMatchObject({
+      phase: 2,
+      round: 2,
+      phaseEndTime: clock.now() + 30000,
+      alivePlayers: 3,
+      deadBodies: [{ victim: crew[0].address, location: Location.Cafeteria, reported: false }],
+    });
+  });
+});
+
+describe("WebSocketRelayServer reconnection", () => {
+  it("counts a player who never comes back as out of the game", async () => {
+    const { agents } = await startGame();
+    const { impostor, crew } = splitRoles(agents);
+
+    impostor.socket.close();
+    await settle();
+    expect(crew[0].socket.last("server:player_disconnected")).toMatchObject({
+      address: impostor.address,
+    });
+
+    await advance(59999);
+    expect(crew[0].socket.last("server:game_ended")).toBeUndefined();
+
+    // With the only impostor gone, the crew wins
+    await advance(1);
+    expect(crew[0].socket.last("server:player_left")).toMatchObject({
+      address: impostor.address,
+    });
+    expect(crew[0].socket.last("server:game_ended")).toMatchObject({
+      crewmatesWon: true,
+    });
+  });
+
+  it("brings a resumed player up to date with the game they left", async () => {
+    const { agents, roomId } = await startGame();
+    const { impostor, crew } = splitRoles(agents);
+    const [victim, caller, dropped] = crew;
+    await killInFirstRound(roomId, impostor, victim);
+    caller.socket.deliver({ type: "agent:call_meeting", gameId: roomId });
+    await settle();
+
+    dropped.socket.close();
+    await advance(10000);
+    const socket = await resume(dropped);
+
+    expect(socket.last("server:session_resumed")).toMatchObject({ roomId });
+    // Mid-discussion, with the unreported kill still hidden
+    expect(socket.last("server:game_state")!.state).toMatchObject({
+      phase: 4,
+      round: 2,
+      phaseEndTime: caller.socket.last("server:phase_changed")!.phaseEndTime,
+      alivePlayers: 4,
+      deadBodies: [],
+    });
+  });
+});
+
+describe("WebSocketRelayServer turn-based discussion", () => {
+  it("keeps the floor for the speaker and passes it when they speak or time out", async () => {
+    const { agents, roomId } = await startGame({ discussionMode: "turns" });
+    const [host, caller, next, last] = agents;
+
+    caller.socket.deliver({ type: "agent:call_meeting", gameId: roomId });
+    await settle();
+    expect(host.socket.last("server:discussion_turn")).toMatchObject({
+      speaker: caller.address,
+      turn: 0,
+      turns: 4,
+    });
+
+    next.socket.deliver({ type: "agent:chat", gameId: roomId, message: "Me first" });
+    await settle();
+    expect(next.socket.last("server:error")).toMatchObject({ code: "NOT_YOUR_TURN" });
+    expect(host.socket.messages("server:chat")).toEqual([]);
+
+    caller.socket.deliver({ type: "agent:chat", gameId: roomId, message: "I called it" });
+    await settle();
+    expect(host.socket.last("server:chat")).toMatchObject({
+      sender: caller.address,
+      message: "I called it",
+    });
+    expect(host.socket.last("server:discussion_turn")).toMatchObject({
+      speaker: next.address,
+      turn: 1,
+    });
+    expect(next.socket.last("server:your_turn_to_speak")).toMatchObject({ turn: 1 });
+
+    // Silence uses up the slot
+    await advance(15000);
+    expect(host.socket.last("server:discussion_turn")).toMatchObject({
+      speaker: last.address,
+      turn: 2,
+    });
+    next.socket.deliver({ type: "agent:chat", gameId: roomId, message: "Wait" });
+    await settle();
+    expect(next.socket.last("server:error")).toMatchObject({ code: "NOT_YOUR_TURN" });
+  });
+});
+
+describe("WebSocketRelayServer crash recovery", () => {
+  it("restores the seats a lobby had, not everyone who ever joined it", async () => {
+    const agents = [];
+    for (let i = 0; i < 3; i++) agents.push(await connectAgent());
+    agents[0].socket.deliver({ type: "client:create_room", maxPlayers: 4, impostorCount: 1 });
+    await settle();
+    const roomId = agents[0].socket.last("server:room_created")!.room.roomId;
+    for (const [i, agent] of agents.entries()) {
+      agent.socket.deliver({ type: "agent:join_game", gameId: roomId, colorId: i });
+    }
+    await settle();
+    agents[2].socket.deliver({ type: "agent:leave_game", gameId: roomId });
+    await settle();
+
+    await restart(roomId);
+
+    expect(server.getRoom(roomId)!.players.map((p) => p.address)).toEqual([
+      agents[0].address,
+      agents[1].address,
+    ]);
+  });
+
+  it("holds every seat of a running game until its player resumes", async () => {
+    const { agents, roomId } = await startGame();
+    const { impostor, crew } = splitRoles(agents);
+    const [victim, returning] = crew;
+    await killInFirstRound(roomId, impostor, victim);
+
+    await restart(roomId);
+    expect(server.getRoom(roomId)!.players.every((p) => p.disconnected)).toBe(true);
+
+    const socket = await resume(returning);
+    expect(socket.last("server:game_state")!.state).toMatchObject({ phase: 2, round: 2 });
+
+    // Nobody else comes back, so their seats are forfeited and, with the
+    // impostor gone, the crew wins
+    await advance(59999);
+    expect(socket.last("server:game_ended")).toBeUndefined();
+    await advance(1);
+    expect(socket.messages("server:player_left").map((m) => m.address)).toContain(
+      impostor.address,
+    );
+    expect(socket.last("server:game_ended")).toMatchObject({ crewmatesWon: true });
+  });
+});
+
+describe("WebSocketRelayServer fairness", () => {
+  it("deals roles and tasks that the revealed seed reproduces", async () => {
+    const { agents, roomId } = await startGame();
+    const { impostor, crew } = splitRoles(agents);
+    const seedHash = agents[0].socket.last("server:room_created")!.room.seedHash;
+
+    // Committed to, but not revealed, while the game runs
+    expect(server.getFairness(roomId)).toEqual({
+      seedHash,
+      joinOrder: agents.map((a) => a.address),
+      impostorCount: 1,
+      tasksPerPlayer: expect.any(Number),
+    });
+
+    impostor.socket.deliver({ type: "agent:leave_game", gameId: roomId });
+    await settle();
+    const { seed } = crew[0].socket.last("server:game_ended")!;
+    const fairness = server.getFairness(roomId)!;
+    expect(fairness).toMatchObject({ seed, seedHash });
+
+    const verification = verifyGameFairness(
+      { ...fairness, seed: seed! },
+      TASK_DEFINITIONS.map((t) => t.id),
+    );
+    expect(verification.seedMatchesHash).toBe(true);
+    expect(verification.impostors).toEqual([impostor.address]);
+    expect(Object.keys(verification.tasks)).toEqual(crew.map((a) => a.address));
+    for (const agent of crew) {
+      const dealt = agent.socket.last("server:tasks_assigned")!.tasks;
+      expect(dealt.map((t) => t.taskId)).toEqual(verification.tasks[agent.address]);
+    }
+  });
+});
+
+describe("WebSocketRelayServer identity", () => {
+  it("accepts each challenge signature only once", async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const socket = new FakeSocket();
+    (server as unknown as ServerInternals).handleConnection(socket);
+    const signed: ClientMessage = {
+      type: "agent:authenticate",
+      address: wallet.address,
+      signature: wallet.signMessageSync(socket.last("server:welcome")!.authChallenge.message),
+    };
+
+    socket.deliver(signed);
+    await settle();
+    expect(socket.last("server:authenticated")).toMatchObject({ address: wallet.address });
+
+    socket.deliver(signed);
+    await settle();
+    expect(socket.last("server:error")).toMatchObject({ code: "AUTH_REJECTED" });
+    expect(socket.messages("server:authenticated")).toHaveLength(1);
+  });
+
+  it("holds messages sent behind an operator-key authentication until it settles", async () => {
+    const host = await connectAgent();
+    host.socket.deliver({ type: "client:create_room", maxPlayers: 4, impostorCount: 1 });
+    await settle();
+    const roomId = host.socket.last("server:room_created")!.room.roomId;
+
+    const managed = ethers.Wallet.createRandom().address;
+    const socket = new FakeSocket();
+    (server as unknown as ServerInternals).handleConnection(socket);
+    socket.deliver({ type: "agent:authenticate", address: managed, operatorKey: OPERATOR_KEY });
+    socket.deliver({ type: "agent:join_game", gameId: roomId, colorId: 1 });
+    await settle();
+
+    // Seated as the managed wallet, not let in as an anonymous spectator
+    expect(server.getRoom(roomId)!.players.map((p) => p.address)).toContain(managed);
+  });
+
+  it("rejects a vote cast in another agent's name", async () => {
+    const { agents, roomId } = await startGame();
+    const [forger, victim, target] = agents;
+    forger.socket.deliver({ type: "agent:call_meeting", gameId: roomId });
+    await advance(30000); // Discussion
+    expect(forger.socket.last("server:phase_changed")!.phase).toBe(5);
+
+    forger.socket.deliver({
+      type: "agent:vote",
+      gameId: roomId,
+      voter: victim.address,
+      target: target.address,
+      round: 1,
+    });
+    await settle();
+
+    expect(forger.socket.last("server:error")).toMatchObject({
+      code: "IDENTITY_MISMATCH",
+    });
+    expect(forger.socket.messages("server:vote_cast")).toEqual([]);
+
+    // Naming yourself, or nobody, is fine
+    forger.socket.deliver({
+      type: "agent:vote",
+      gameId: roomId,
+      voter: forger.address.toLowerCase(),
+      target: target.address,
+      round: 1,
+    });
+    await settle();
+
+    expect(victim.socket.messages("server:vote_cast")).toMatchObject([
+      { voter: forger.address, target: target.address },
+    ]);
+  });
+
+  it("rejects votes from connections without a wallet", async () => {
+    const { agents, roomId } = await startGame();
+    agents[0].socket.deliver({ type: "agent:call_meeting", gameId: roomId });
+    await advance(30000);
+
+    const spectator = new FakeSocket();
+    (server as unknown as ServerInternals).handleConnection(spectator);
+    spectator.deliver({
+      type: "agent:vote",
+      gameId: roomId,
+      voter: agents[1].address,
+      target: null,
+      round: 1,
+    });
+    await settle();
+
+    expect(spectator.last("server:error")).toMatchObject({
+      code: "NOT_AUTHENTICATED",
+    });
+    expect(agents[0].socket.messages("server:vote_cast")).toEqual([]);
+  });
+
+  it.each([
+    ["agent:kill", (agents: Agent[]) => ({ victim: agents[1].address, round: 1 })],
+    ["agent:task_complete", () => ({})],
+    ["agent:report_body", () => ({ round: 1 })],
+    ["agent:vent", () => ({ action: "move", targetLocation: Location.Admin })],
+  ] as const)("rejects a direct %s in favour of commit-reveal", async (type, fields) => {
+    const { agents, roomId } = await startGame();
+    const [{ socket }] = agents;
+    const before = socket.received.length;
+
+    socket.deliver({ type, gameId: roomId, ...fields(agents) } as ClientMessage);
+    await settle();
+
+    expect(socket.received.slice(before)).toEqual([
+      expect.objectContaining({ type: "server:error", code: "USE_COMMIT_REVEAL" }),
+    ]);
+    for (const agent of agents) {
+      expect(agent.socket.messages("server:kill_occurred")).toEqual([]);
+      expect(agent.socket.messages("server:task_completed")).toEqual([]);
+      expect(agent.socket.messages("server:body_reported")).toEqual([]);
+    }
+  });
+});
+
+describe("WebSocketRelayServer ingress", () => {
+  it("rejects frames that aren't JSON", async () => {
+    const { socket } = await connectAgent();
+
+    socket.emit("message", Buffer.from("{not json"));
+    await settle();
+
+    expect(socket.last("server:error")).toMatchObject({
+      code: "INVALID_MESSAGE",
+      message: "Failed to parse message",
+    });
+  });
+
+  it("lists every field that fails its schema, and drops the message", async () => {
+    const { socket } = await connectAgent();
+
+    socket.emit(
+      "message",
+      Buffer.from(
+        JSON.stringify({ type: "client:create_room", maxPlayers: "four", wagerAmount: 5 }),
+      ),
+    );
+    await settle();
+
+    expect(socket.last("server:error")).toEqual({
+      type: "server:error",
+      code: "INVALID_MESSAGE",
+      message: "Message failed validation",
+      details: [
+        { path: "maxPlayers", message: "must be a number" },
+        { path: "wagerAmount", message: "must be a string" },
+      ],
+    });
+    expect(socket.messages("server:room_created")).toEqual([]);
+  });
+
+  it("rate-limits a message type per wallet, across reconnects", async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const connect = async () => {
+      const socket = new FakeSocket();
+      (server as unknown as ServerInternals).handleConnection(socket);
+      socket.deliver({
+        type: "agent:authenticate",
+        address: wallet.address,
+        signature: wallet.signMessageSync(socket.last("server:welcome")!.authChallenge.message),
+      });
+      await settle();
+      return socket;
+    };
+    // The refusal a chat message got, if it was rate-limited
+    const chat = async (socket: FakeSocket) => {
+      const before = socket.received.length;
+      socket.deliver({ type: "agent:chat", gameId: "no-room", message: "hi" });
+      await settle();
+      return socket.received
+        .slice(before)
+        .find((m) => m.type === "server:error" && m.code === "RATE_LIMITED");
+    };
+
+    // Three back to back, then one every two seconds
+    const first = await connect();
+    for (let i = 0; i < 3; i++) {
+      expect(await chat(first)).toBeUndefined();
+    }
+    expect(await chat(first)).toMatchObject({ retryAfter: 2000 });
+
+    const second = await connect();
+    expect(await chat(second)).toBeDefined();
+
+    await advance(2000);
+    expect(await chat(second)).toBeUndefined();
+  });
+});
@@ -4,35 +4,126 @@ import { v4 as uuidv4 } from "uuid";
 import type {
   ClientMessage,
   ServerMessage,
+  ServerErrorMessage,
   RoomState,
   PlayerState,
   Location,
   GamePhase,
   DeadBodyState,
+  GameStateSnapshot,
   AgentStats,
   SabotageType,
+  AuthChallenge,
+  GameAction,
+  GameSettings,
+  LeaderboardSort,
+  TournamentGame,
+  TournamentState,
 } from "./types.js";
 import { createLogger } from "./logger.js";
-import { GameStateManager, WinConditionResult } from "./GameStateManager.js";
+import {
+  GameStateManager,
+  type SerializedGameState,
+} from "./GameStateManager.js";
+import {
+  GameEngine,
+  type EngineCommand,
+  type EngineEvent,
+  type EngineState,
+} from "./GameEngine.js";
+import {
+  realTimeScheduler,
+  type Scheduler,
+  type TimerHandle,
+} from "./Scheduler.js";
+import { Matchmaker, type Match } from "./Matchmaker.js";
 import { privyWalletService } from "./PrivyWalletService.js";
-import { wagerService } from "./WagerService.js";
+import { wagerService, type SerializedGameWager } from "./WagerService.js";
 import { contractService } from "./ContractService.js";
 import { databaseService } from "./DatabaseService.js";
+import { authService, type SerializedSession } from "./AuthService.js";
+import { gameEventLog } from "./GameEventLog.js";
+import {
+  DEFAULT_GAME_SETTINGS,
+  validateGameSettings,
+} from "./gameSettings.js";
+import { DEFAULT_RATING, rateGame } from "./rating.js";
+import { validateChatClaims } from "./chatClaims.js";
+import { MAX_MESSAGE_BYTES, validateClientMessage } from "@amongus/protocol";
+import {
+  parseRateLimits,
+  RateLimiter,
+  type RateLimits,
+} from "./RateLimiter.js";
+import {
+  applyGameResult,
+  emptyStanding,
+  isDecided,
+  pairRound,
+  type TournamentOptions,
+} from "./tournament.js";
+import {
+  generateGameSeed,
+  hashSeed,
+  roleRandom,
+  selectImpostors,
+  taskRandom,
+  type GameFairness,
+} from "./fairness.js";
 
 const logger = createLogger("websocket-server");
 
 // Room management constants
 const MAX_PLAYERS_PER_ROOM = 10;
-const MIN_PLAYERS_TO_START = 1; // Changed from 2 to 1 for solo testing
-const LOBBY_WAITING_DURATION = 120000; // 2 minutes to wait for other agents
-const DISCUSSION_DURATION = 30000; // 30 seconds
-const VOTING_DURATION = 30000; // 30 seconds
+// Default per-room minimum; rooms may ask for fewer (down to 1, for solo testing)
+const MIN_PLAYERS_TO_START = parseInt(
+  process.env.MIN_PLAYERS_TO_START || "4",
+  10,
+);
+const LOBBY_COUNTDOWN_DURATION = 10000; // Once everyone seated is ready
+const COMMIT_DURATION = 30000; // 30 seconds to commit an action
+const REVEAL_DURATION = 15000; // 15 seconds to reveal it
 const EJECTION_DURATION = 5000; // 5 seconds
+const SNAPSHOT_INTERVAL = 5000; // How often live rooms are persisted
+const MAX_RESUMABLE_SNAPSHOT_AGE = 5 * 60 * 1000; // Older games are refunded instead
+const RESUME_GRACE_PERIOD = 15000; // Minimum time left on a restored phase, for reconnects
+const MATCHMAKING_INTERVAL = 2000; // How often the queue is re-checked as rating bands widen
+const MATCH_JOIN_DURATION = 30000; // Time matched agents have to join their room
+const TOURNAMENT_JOIN_DURATION = 120000; // Time entrants have to join each round's room
+const TOURNAMENT_ROUND_DELAY = 15000; // Pause between rounds so results can be seen
+const MAX_RESTORED_TOURNAMENTS = 100;
 const MAX_ROOMS = 100;
 
 // TEMPORARY: Disable wager system to allow free play
 const WAGERS_DISABLED = process.env.DISABLE_WAGERS === "true";
 
+// Spectators may only request every player's role when this is set, and
+// never with the address of a player seated in the room
+const GOD_VIEW_ENABLED = process.env.ENABLE_SPECTATOR_GOD_VIEW === "true";
+
+// How long a dropped player's seat in a running game is held for client:resume
+const RECONNECT_GRACE_PERIOD = parseInt(
+  process.env.RECONNECT_GRACE_MS || "60000",
+  10,
+);
+
+// Token buckets per connection and, once authenticated, per address, by
+// message type. WS_RATE_LIMITS (JSON, same shape) overrides entries.
+const DEFAULT_WS_RATE_LIMITS: RateLimits = {
+  default: { capacity: 20, refillPerSecond: 5 },
+  "agent:chat": { capacity: 3, refillPerSecond: 0.5 },
+  "agent:action_result": { capacity: 10, refillPerSecond: 4 },
+  "client:authenticate": { capacity: 5, refillPerSecond: 0.2 },
+  "agent:authenticate": { capacity: 5, refillPerSecond: 0.2 },
+  "client:resume": { capacity: 5, refillPerSecond: 0.2 },
+  "client:create_room": { capacity: 3, refillPerSecond: 0.05 },
+  "operator:create_agent": { capacity: 3, refillPerSecond: 0.05 },
+};
+const WS_RATE_LIMITS = parseRateLimits(
+  process.env.WS_RATE_LIMITS,
+  DEFAULT_WS_RATE_LIMITS,
+);
+
 interface Client {
   id: string;
   ws: WebSocket;
@@ -41,11 +132,15 @@ interface Client {
   roomId?: string;
   isAgent: boolean;
   colorId?: number;
+  godView?: boolean; // Spectator sees roles in game state snapshots
+  authChallenge?: AuthChallenge; // Outstanding nonce challenge, consumed on each attempt
+  authenticating?: Promise<void>; // An agent:authenticate still being checked
 }
 
 export interface WebSocketServerConfig {
   port: number;
   host?: string;
+  scheduler?: Scheduler; // Real time unless a test or simulation passes its own
 }
 
 // Extended room state with game mechanics
@@ -55,9 +150,35 @@ interface ExtendedRoomState extends RoomState {
   deadBodies: DeadBodyState[];
   currentRound: number;
   currentPhase: GamePhase;
-  phaseTimer: NodeJS.Timeout | null;
-  lobbyLocked: boolean; // True after lobby waiting period expires
-  lobbyTimer: NodeJS.Timeout | null; // Timer for lobby waiting period
+  phaseTimer: TimerHandle | null;
+  lobbyLocked: boolean; // True once the game has started; no more seats
+  lobbyTimer: TimerHandle | null; // Lobby countdown or matchmade join deadline
+  seed: string; // Secret until the game ends; room.seedHash commits to it
+  fairness: GameFairness | null; // Seed all role and task draws derive from, set at start
+  phaseEndTime: number; // Deadline of the current timed phase, for re-arming after a restart
+  speakingOrder: string[]; // Turn-based discussion only; see EngineState
+  speakerIndex: number;
+}
+
+// Everything needed to rebuild a room after a restart. Timers are not stored;
+// they are re-armed from phaseEndTime.
+interface RoomSnapshot {
+  room: RoomState;
+  impostors: string[];
+  votes: Array<[string, string | null]>;
+  deadBodies: DeadBodyState[];
+  currentRound: number;
+  currentPhase: GamePhase;
+  phaseEndTime: number;
+  speakingOrder?: string[]; // Missing from snapshots taken before turn-based discussion
+  speakerIndex?: number;
+  lobbyLocked: boolean;
+  seed?: string; // Missing from snapshots taken before seeds were committed at creation
+  fairness: GameFairness | null;
+  game: SerializedGameState | null;
+  wager: SerializedGameWager | null;
+  sessions?: SerializedSession[]; // Seated players' sessions, by token hash; missing from older snapshots
+  savedAt: number;
 }
 
 export class WebSocketRelayServer {
@@ -67,17 +188,37 @@ export class WebSocketRelayServer {
   private extendedState: Map<string, ExtendedRoomState> = new Map();
   private agentStats: Map<string, AgentStats> = new Map(); // Track agent statistics
   private gameStateManager: GameStateManager;
+  private matchmaker: Matchmaker;
+  private engine = new GameEngine({
+    commit: COMMIT_DURATION,
+    reveal: REVEAL_DURATION,
+    ejection: EJECTION_DURATION,
+  });
   private config: WebSocketServerConfig;
+  private scheduler: Scheduler;
+  private snapshotTimer: TimerHandle | null = null;
+  private matchmakingTimer: TimerHandle | null = null;
+  private seatReleaseTimers: Map<string, TimerHandle> = new Map(); // "roomId:address" -> timer
+  private tournaments: Map<string, TournamentState> = new Map();
+  private tournamentTimers: Map<string, TimerHandle> = new Map(); // Pause before the next round
+  private rateLimiter: RateLimiter;
 
   constructor(config: WebSocketServerConfig) {
     this.config = config;
+    this.scheduler = config.scheduler ?? realTimeScheduler;
+    this.rateLimiter = new RateLimiter(this.scheduler, WS_RATE_LIMITS.limits);
+    if (WS_RATE_LIMITS.error) {
+      logger.warn(`Ignoring WS_RATE_LIMITS: ${WS_RATE_LIMITS.error}`);
+    }
     this.gameStateManager = new GameStateManager();
+    this.matchmaker = new Matchmaker(this.scheduler);
   }
 
   start(): void {
     this.wss = new WSServer({
       port: this.config.port,
       host: this.config.host || "0.0.0.0",
+      maxPayload: MAX_MESSAGE_BYTES,
     });
 
     this.wss.on("listening", () => {
@@ -96,6 +237,9 @@ export class WebSocketRelayServer {
     this.wss.on("error", (error) => {
       logger.error(`Server error: ${error}`);
     });
+
+    this.startSnapshots();
+    this.startMatchmaking();
   }
 
   /**
@@ -103,7 +247,10 @@ export class WebSocketRelayServer {
    * Use this for platforms like Render that only expose a single port.
    */
   attachToServer(httpServer: HttpServer): void {
-    this.wss = new WSServer({ server: httpServer });
+    this.wss = new WSServer({
+      server: httpServer,
+      maxPayload: MAX_MESSAGE_BYTES,
+    });
 
     logger.info("WebSocket server attached to HTTP server (shared port)");
 
@@ -114,6 +261,9 @@ export class WebSocketRelayServer {
     this.wss.on("error", (error) => {
       logger.error(`Server error: ${error}`);
     });
+
+    this.startSnapshots();
+    this.startMatchmaking();
   }
 
   // ============ ROOM MANAGEMENT ============
@@ -125,6 +275,22 @@ export class WebSocketRelayServer {
   }
 
   stop(): void {
+    if (this.matchmakingTimer) {
+      this.scheduler.clearInterval(this.matchmakingTimer);
+      this.matchmakingTimer = null;
+    }
+
+    for (const timer of this.tournamentTimers.values()) {
+      this.scheduler.clearTimeout(timer);
+    }
+    this.tournamentTimers.clear();
+
+    if (this.snapshotTimer) {
+      this.scheduler.clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+      this.snapshotRooms(); // Final snapshot, flushed by databaseService.disconnect()
+    }
+
     if (this.wss) {
       this.wss.close();
       logger.info("Server stopped");
@@ -137,37 +303,70 @@ export class WebSocketRelayServer {
       id: clientId,
       ws,
       isAgent: false,
+      authChallenge: authService.createChallenge(clientId),
     };
     this.clients.set(clientId, client);
 
     logger.info(`Client connected: ${clientId}`);
 
-    // Send welcome + room list + leaderboard
+    // Send welcome (with auth challenge) + room list + leaderboard
     this.send(client, {
       type: "server:welcome",
       connectionId: clientId,
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
+      authChallenge: client.authChallenge!,
     });
 
     this.send(client, {
       type: "server:room_list",
-      rooms: Array.from(this.rooms.values()),
+      rooms: Array.from(this.rooms.values()).map((r) =>
+        this.publicRoomView(r),
+      ),
     });
 
     // Send current leaderboard
     this.send(client, {
       type: "server:leaderboard",
       agents: this.getLeaderboard(10),
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     });
 
     ws.on("message", (data) => {
+      let parsed: unknown;
       try {
-        const message = JSON.parse(data.toString()) as ClientMessage;
-        this.handleMessage(client, message);
+        parsed = JSON.parse(data.toString());
       } catch (error) {
         logger.error(`Invalid message from ${clientId}: ${error}`);
         this.sendError(client, "INVALID_MESSAGE", "Failed to parse message");
+        return;
+      }
+
+      const message = validateClientMessage(parsed);
+      if ("issues" in message) {
+        logger.debug(
+          `Rejected message from ${clientId}: ${JSON.stringify(message.issues)}`,
+        );
+        this.sendError(client, "INVALID_MESSAGE", "Message failed validation", {
+          details: message.issues,
+        });
+        return;
+      }
+      if (!this.allowMessage(client, message.type)) return;
+
+      const run = () =>
+        this.handleMessage(client, message).catch((error) => {
+          logger.error(`Error handling ${message.type} from ${clientId}: ${error}`);
+        });
+      // Messages sent right behind an authentication wait for it to settle,
+      // so they run as the wallet it proves (an operator key check is async)
+      const handled = client.authenticating
+        ? client.authenticating.then(run)
+        : run();
+      if (message.type === "agent:authenticate") {
+        const pending: Promise<void> = handled.then(() => {
+          if (client.authenticating === pending) client.authenticating = undefined;
+        });
+        client.authenticating = pending;
       }
     });
 
@@ -189,6 +388,16 @@ export class WebSocketRelayServer {
     switch (message.type) {
       // New client messages
       case "client:authenticate":
+        if (
+          message.address &&
+          !this.verifyChallengeSignature(
+            client,
+            message.address,
+            message.signature,
+          )
+        ) {
+          break;
+        }
         this.handleAuthenticate(client, message.address, message.name);
         break;
 
@@ -198,6 +407,8 @@ export class WebSocketRelayServer {
           message.maxPlayers,
           message.impostorCount,
           message.wagerAmount,
+          message.settings,
+          message.minPlayers,
         );
         break;
 
@@ -207,6 +418,7 @@ export class WebSocketRelayServer {
           message.roomId,
           message.colorId,
           message.asSpectator,
+          message.godView,
         );
         break;
 
@@ -218,13 +430,31 @@ export class WebSocketRelayServer {
         this.handleStartGame(client, message.roomId);
         break;
 
+      case "client:ready":
+        this.handleReady(client, message.roomId, message.ready ?? true);
+        break;
+
+      case "client:resume":
+        this.handleResume(client, message.sessionToken, message.roomId);
+        break;
+
+      case "client:queue":
+        await this.handleQueue(client, message.wagerAmount);
+        break;
+
+      case "client:dequeue":
+        this.handleDequeue(client);
+        break;
+
       // Legacy agent messages (for backwards compat)
       case "agent:authenticate":
-        this.handleAgentAuthenticate(
+        await this.handleAgentAuthenticate(
           client,
           message.address,
           message.name,
           message.requestWallet,
+          message.signature,
+          message.operatorKey,
         );
         break;
 
@@ -241,24 +471,16 @@ export class WebSocketRelayServer {
         this.handleLeaveRoom(client, message.gameId);
         break;
 
-      // Game action messages
+      // Game action messages. Moves, tasks, kills and reports only happen
+      // through commit-reveal, so they can't be sent directly.
       case "agent:position_update":
-        this.handlePositionUpdate(
-          client,
-          message.gameId,
-          message.location,
-          message.round,
-        );
-        break;
-
       case "agent:kill":
-        await this.handleKill(
+      case "agent:task_complete":
+      case "agent:report_body":
+        this.sendError(
           client,
-          message.gameId,
-          message.killer,
-          message.victim,
-          message.location,
-          message.round,
+          "USE_COMMIT_REVEAL",
+          `${message.type} is not accepted; commit and reveal the action with agent:commit_action and agent:reveal_action`,
         );
         break;
 
@@ -268,37 +490,25 @@ export class WebSocketRelayServer {
           message.gameId,
           message.voter,
           message.target,
-          message.round,
-        );
-        break;
-
-      case "agent:task_complete":
-        await this.handleTaskComplete(
-          client,
-          message.gameId,
-          message.player,
-          message.tasksCompleted,
-          message.totalTasks,
         );
         break;
 
-      case "agent:phase_change":
-        this.handlePhaseChange(
+      case "agent:commit_action":
+        this.handleCommitAction(
           client,
           message.gameId,
-          message.phase,
           message.round,
-          message.phaseEndTime,
+          message.commitHash,
         );
         break;
 
-      case "agent:report_body":
-        this.handleReportBody(
+      case "agent:reveal_action":
+        await this.handleRevealAction(
           client,
           message.gameId,
-          message.reporter,
-          message.bodyLocation,
           message.round,
+          message.action,
+          message.salt,
         );
         break;
 
@@ -338,7 +548,7 @@ export class WebSocketRelayServer {
         break;
 
       case "agent:chat":
-        this.handleChat(client, message.gameId, message.message);
+        this.handleChat(client, message.gameId, message.message, message.claims);
         break;
 
       case "agent:sabotage":
@@ -350,12 +560,7 @@ export class WebSocketRelayServer {
         break;
 
       case "agent:vent":
-        this.handleVent(
-          client,
-          message.gameId,
-          message.action,
-          message.targetLocation,
-        );
+        this.handleVent(client, message.gameId, message.action);
         break;
 
       case "agent:use_cameras":
@@ -386,6 +591,73 @@ export class WebSocketRelayServer {
     }
   }
 
+  /**
+   * Check an EIP-191 signature by `address` over the connection's challenge.
+   * Synchronous so that messages queued right behind authenticate see the result.
+   */
+  private verifyChallengeSignature(
+    client: Client,
+    address: string,
+    signature?: string,
+  ): boolean {
+    // Each challenge is single-use, whether the attempt succeeds or not
+    const challenge = client.authChallenge;
+    client.authChallenge = undefined;
+
+    const result = authService.verifySignature(challenge, address, signature);
+    if (result.valid) return true;
+
+    this.rejectAuthentication(client, address, result.reason);
+    return false;
+  }
+
+  /**
+   * Privy-managed agent wallets have no local key, so the owning operator key
+   * stands in for a signature
+   */
+  private async verifyOperatorKey(
+    client: Client,
+    address: string,
+    operatorKey: string,
+  ): Promise<boolean> {
+    client.authChallenge = undefined;
+
+    try {
+      const owned = await privyWalletService.verifyOperatorOwnership(
+        operatorKey,
+        address,
+      );
+      if (owned) return true;
+    } catch (error) {
+      logger.error(`Operator ownership check failed for ${address}:`, error);
+    }
+
+    this.rejectAuthentication(
+      client,
+      address,
+      "Operator key does not own this agent wallet",
+    );
+    return false;
+  }
+
+  private rejectAuthentication(
+    client: Client,
+    address: string,
+    reason: string,
+  ): void {
+    logger.warn(
+      `Authentication rejected for ${client.id} claiming ${address}: ${reason}`,
+    );
+    this.sendError(client, "AUTH_REJECTED", reason);
+
+    // Issue a fresh challenge so the client can retry on this connection
+    client.authChallenge = authService.createChallenge(client.id);
+    this.send(client, {
+      type: "server:auth_challenge",
+      authChallenge: client.authChallenge,
+    });
+  }
+
   /**
    * Handle agent authentication with optional automatic wallet creation
    */
@@ -394,9 +666,16 @@ export class WebSocketRelayServer {
     address?: string,
     name?: string,
     requestWallet?: boolean,
+    signature?: string,
+    operatorKey?: string,
   ): Promise<void> {
-    // If agent already has an address, use normal authentication
+    // If agent already has an address, it must prove ownership first
     if (address) {
+      const verified =
+        operatorKey && !signature
+          ? await this.verifyOperatorKey(client, address, operatorKey)
+          : this.verifyChallengeSignature(client, address, signature);
+      if (!verified) return;
       this.handleAuthenticate(client, address, name);
       this.send(client, {
         type: "server:authenticated",
@@ -404,7 +683,8 @@ export class WebSocketRelayServer {
         address,
         name: client.name || address.slice(0, 8),
         isNewWallet: false,
-        timestamp: Date.now(),
+        sessionToken: authService.createSession(address, client.name),
+        timestamp: this.scheduler.now(),
       });
       return;
     }
@@ -417,14 +697,14 @@ export class WebSocketRelayServer {
           success: false,
           error:
             "Wallet creation service not available. Please provide your own wallet address.",
-          timestamp: Date.now(),
+          timestamp: this.scheduler.now(),
         });
         return;
       }
 
       try {
         // Generate a unique identifier for this agent
-        const agentIdentifier = `auto_${client.id}_${Date.now()}`;
+        const agentIdentifier = `auto_${client.id}_${this.scheduler.now()}`;
 
         logger.info(
           `Creating automatic wallet for agent: ${name || client.id}`,
@@ -452,7 +732,7 @@ export class WebSocketRelayServer {
             success: true,
             address: result.address,
             userId: result.userId,
-            timestamp: Date.now(),
+            timestamp: this.scheduler.now(),
           });
 
           // Also send authenticated confirmation
@@ -462,7 +742,11 @@ export class WebSocketRelayServer {
             address: result.address,
             name: client.name,
             isNewWallet: true,
-            timestamp: Date.now(),
+            sessionToken: authService.createSession(
+              result.address,
+              client.name,
+            ),
+            timestamp: this.scheduler.now(),
           });
         } else {
           this.send(client, {
@@ -470,7 +754,7 @@ export class WebSocketRelayServer {
             success: false,
             error:
               "Failed to create wallet. Please try again or provide your own wallet address.",
-            timestamp: Date.now(),
+            timestamp: this.scheduler.now(),
           });
         }
       } catch (error) {
@@ -482,7 +766,7 @@ export class WebSocketRelayServer {
             error instanceof Error
               ? error.message
               : "Unknown error creating wallet",
-          timestamp: Date.now(),
+          timestamp: this.scheduler.now(),
         });
       }
       return;
@@ -497,6 +781,7 @@ export class WebSocketRelayServer {
     roomId: string,
     colorId?: number,
     asSpectator?: boolean,
+    godView?: boolean,
   ): void {
     const room = this.rooms.get(roomId);
     if (!room) {
@@ -504,6 +789,14 @@ export class WebSocketRelayServer {
       return;
     }
 
+    // A player who already holds a seat here is reconnecting, not joining
+    const seat =
+      !asSpectator && client.address
+        ? room.players.find(
+            (p) => p.address.toLowerCase() === client.address!.toLowerCase(),
+          )
+        : undefined;
+
     // Check if room has ended - prevent any new joins (except spectators viewing results)
     if (room.phase === "ended" && !asSpectator) {
       this.sendError(
@@ -514,9 +807,14 @@ export class WebSocketRelayServer {
       return;
     }
 
-    // Check if lobby is locked (after waiting period expired)
+    // Seats close when the game starts; roles are dealt to the final roster
     const extended = this.extendedState.get(roomId);
-    if (extended?.lobbyLocked && !asSpectator && client.isAgent) {
+    if (
+      (room.phase === "playing" || extended?.lobbyLocked) &&
+      !asSpectator &&
+      client.isAgent &&
+      !seat
+    ) {
       this.sendError(
         client,
         "LOBBY_LOCKED",
@@ -525,6 +823,24 @@ export class WebSocketRelayServer {
       return;
     }
 
+    // Matchmade rooms only seat the agents they were made for
+    if (
+      room.reservedFor &&
+      !asSpectator &&
+      client.isAgent &&
+      !seat &&
+      !room.reservedFor.some(
+        (a) => a.toLowerCase() === client.address?.toLowerCase(),
+      )
+    ) {
+      this.sendError(
+        client,
+        "ROOM_RESERVED",
+        "This room is reserved for matched agents. Send client:queue to be matched.",
+      );
+      return;
+    }
+
     // Leave previous room if any
     if (client.roomId && client.roomId !== roomId) {
       this.handleLeaveRoom(client, client.roomId);
@@ -533,12 +849,33 @@ export class WebSocketRelayServer {
     client.roomId = roomId;
     client.colorId = colorId;
 
+    if (seat) {
+      this.handlePlayerReconnect(client, roomId, seat);
+      return;
+    }
+
     if (asSpectator || !client.isAgent) {
       // Join as spectator
       if (!room.spectators.includes(client.id)) {
         room.spectators.push(client.id);
       }
-      logger.info(`Spectator ${client.name} joined room ${roomId}`);
+      client.godView = !!godView && GOD_VIEW_ENABLED;
+      if (client.godView && this.isSeated(room, client.address)) {
+        client.godView = false;
+        this.sendError(
+          client,
+          "GOD_VIEW_REFUSED",
+          "Players seated in this room can't watch it with god view",
+        );
+      }
+      logger.info(
+        `Spectator ${client.name} joined room ${roomId}${client.godView ? " (god view)" : ""}`,
+      );
+
+      // Catch up on a game already in progress
+      if (room.phase === "playing") {
+        this.sendGameState(client, roomId);
+      }
     } else {
       // Join as player - enforce both room.maxPlayers and global limit
       const effectiveMaxPlayers = Math.min(
@@ -554,6 +891,15 @@ export class WebSocketRelayServer {
         return;
       }
 
+      // Picking a room by hand gives up a place in the matchmaking queue
+      if (client.address && this.matchmaker.dequeue(client.address)) {
+        this.send(client, {
+          type: "server:queue_left",
+          reason: "joined_room",
+          timestamp: this.scheduler.now(),
+        });
+      }
+
       // Check if agent has wagered (in-memory first, then on-chain)
       // SKIP WAGER CHECKS IF DISABLED
       if (!WAGERS_DISABLED) {
@@ -605,6 +951,58 @@ export class WebSocketRelayServer {
     this.broadcastRoomList();
   }
 
+  /**
+   * Re-attach a seated player on a new connection and replay their private state
+   */
+  private handlePlayerReconnect(
+    client: Client,
+    roomId: string,
+    seat: PlayerState,
+  ): void {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    // Detach any stale connection still bound to this seat so that its close
+    // event doesn't vacate the seat and broadcasts reach the new socket
+    for (const other of this.clients.values()) {
+      if (
+        other !== client &&
+        other.address?.toLowerCase() === seat.address.toLowerCase()
+      ) {
+        other.address = undefined;
+        other.isAgent = false;
+        other.roomId = undefined;
+      }
+    }
+
+    client.colorId = seat.colorId;
+    logger.info(`Player ${client.name} reconnected to room ${roomId}`);
+
+    // Cancel a pending seat release from the reconnect grace period
+    const key = `${roomId}:${seat.address.toLowerCase()}`;
+    this.scheduler.clearTimeout(this.seatReleaseTimers.get(key));
+    this.seatReleaseTimers.delete(key);
+    if (seat.disconnected) {
+      seat.disconnected = false;
+      this.broadcastToRoom(roomId, {
+        type: "server:player_reconnected",
+        gameId: roomId,
+        address: seat.address,
+      });
+    }
+
+    this.send(client, {
+      type: "server:room_update",
+      room: this.publicRoomView(room),
+    });
+    if (room.phase === "playing") {
+      this.sendRoleAssignment(client, roomId);
+      this.sendTaskAssignment(client, roomId);
+      this.sendGameState(client, roomId);
+      this.sendSpeakingTurn(client, roomId);
+    }
+  }
+
   /**
    * Check on-chain wager and complete join if valid
    */
@@ -684,7 +1082,7 @@ export class WebSocketRelayServer {
           currentBalance: currentBalance.toString(),
           canAfford: canAfford,
           vaultAddress: contractService.getVaultAddress() || "",
-          timestamp: Date.now(),
+          timestamp: this.scheduler.now(),
         });
         logger.info(
           `Player ${client.name} needs to wager before joining room ${roomId} (sent server:wager_required with gameId=${roomId})`,
@@ -708,7 +1106,7 @@ export class WebSocketRelayServer {
         currentBalance: currentBalance.toString(),
         canAfford: canAfford,
         vaultAddress: contractService.getVaultAddress() || "",
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
     }
   }
@@ -720,12 +1118,19 @@ export class WebSocketRelayServer {
     // Remove from spectators
     room.spectators = room.spectators.filter((id) => id !== client.id);
 
-    // Remove from players
     const playerIndex = room.players.findIndex(
       (p) => p.address === client.address || p.address === client.id,
     );
-    if (playerIndex >= 0) {
-      room.players.splice(playerIndex, 1);
+
+    if (playerIndex >= 0 && room.phase === "playing") {
+      this.forfeitSeat(roomId, room.players[playerIndex]);
+    } else if (playerIndex >= 0) {
+      // Remove from players
+      const [player] = room.players.splice(playerIndex, 1);
+      room.readyPlayers = room.readyPlayers.filter(
+        (a) => a !== player.address.toLowerCase(),
+      );
+      this.gameStateManager.removePlayer(roomId, player.address);
 
       // Broadcast player left
       this.broadcastToRoom(roomId, {
@@ -733,19 +1138,27 @@ export class WebSocketRelayServer {
         gameId: roomId,
         address: client.address || client.id,
       });
+
+      // Fewer players or one fewer ready: the countdown may no longer hold
+      this.updateLobbyCountdown(roomId);
     }
 
     client.roomId = undefined;
     logger.info(`Client ${client.name} left room ${roomId}`);
 
-    // Dynamic room cleanup: Delete room if it's empty in lobby or ended phase
+    // Dynamic room cleanup: Delete room if it's empty in lobby or ended phase.
+    // Reserved rooms stay open for the rest of their players until the join
+    // deadline.
     if (
       room.players.length === 0 &&
       room.spectators.length === 0 &&
-      (room.phase === "lobby" || room.phase === "ended")
+      (room.phase === "ended" || (room.phase === "lobby" && !room.reservedFor))
     ) {
       this.rooms.delete(roomId);
       this.extendedState.delete(roomId);
+      this.gameStateManager.deleteGame(roomId);
+      gameEventLog.forget(roomId);
+      databaseService.deleteRoomSnapshot(roomId);
       logger.info(`Room ${roomId} deleted (empty in ${room.phase} phase)`);
     }
 
@@ -757,7 +1170,27 @@ export class WebSocketRelayServer {
     maxPlayers = 10,
     impostorCount = 2,
     wagerAmount?: string,
+    settings?: unknown,
+    minPlayers?: number,
   ): RoomState | { error: string } {
+    const gameSettings = validateGameSettings(settings);
+    if ("error" in gameSettings) {
+      return gameSettings;
+    }
+
+    const roomMaxPlayers = Math.min(maxPlayers, MAX_PLAYERS_PER_ROOM);
+    const roomMinPlayers =
+      minPlayers ?? Math.min(MIN_PLAYERS_TO_START, roomMaxPlayers);
+    if (
+      !Number.isInteger(roomMinPlayers) ||
+      roomMinPlayers < 1 ||
+      roomMinPlayers > roomMaxPlayers
+    ) {
+      return {
+        error: `minPlayers must be a whole number between 1 and ${roomMaxPlayers}`,
+      };
+    }
+
     // Limit: one active room per creator
     if (creatorAddress) {
       const existingRoom = Array.from(this.rooms.values()).find(
@@ -775,16 +1208,24 @@ export class WebSocketRelayServer {
     }
 
     const roomId = `room-${uuidv4().slice(0, 6)}`;
+    // Commit to the seed before anyone joins, so it can't be picked to suit
+    // the roster
+    const seed = generateGameSeed();
     const room: RoomState = {
       roomId,
       players: [],
       spectators: [],
-      maxPlayers: Math.min(maxPlayers, MAX_PLAYERS_PER_ROOM),
+      maxPlayers: roomMaxPlayers,
       impostorCount,
       phase: "lobby",
-      createdAt: Date.now(),
+      createdAt: this.scheduler.now(),
       creator: creatorAddress,
       wagerAmount: wagerAmount || wagerService.getWagerAmount().toString(),
+      settings: gameSettings,
+      minPlayers: roomMinPlayers,
+      readyPlayers: [],
+      countdownEndTime: null,
+      seedHash: hashSeed(seed),
     };
 
     const extended: ExtendedRoomState = {
@@ -796,12 +1237,17 @@ export class WebSocketRelayServer {
       currentPhase: room.phase as any, // Lobby
       phaseTimer: null,
       lobbyLocked: false, // Lobby open for joins
-      lobbyTimer: null, // Will be set when first player joins
+      lobbyTimer: null, // Set when the countdown starts
+      seed,
+      fairness: null,
+      phaseEndTime: 0,
+      speakingOrder: [],
+      speakerIndex: 0,
     };
 
     this.rooms.set(roomId, room);
     this.extendedState.set(roomId, extended);
-    this.gameStateManager.getOrCreateGame(roomId);
+    this.gameStateManager.configureGame(roomId, gameSettings);
 
     // Register game in database
     databaseService.createGame(roomId);
@@ -819,12 +1265,16 @@ export class WebSocketRelayServer {
     maxPlayers = 10,
     impostorCount = 2,
     wagerAmount?: string,
+    settings?: Partial<GameSettings>,
+    minPlayers?: number,
   ): void {
     const result = this.createRoom(
       client.address,
       maxPlayers,
       impostorCount,
       wagerAmount,
+      settings,
+      minPlayers,
     );
 
     if ("error" in result) {
@@ -856,11 +1306,33 @@ export class WebSocketRelayServer {
       return;
     }
 
-    if (room.players.length < MIN_PLAYERS_TO_START) {
+    if (room.reservedFor) {
+      this.sendError(
+        client,
+        "NOT_HOST",
+        "Matchmade rooms start once every matched agent has joined",
+      );
+      return;
+    }
+
+    // Rooms without a creator (created over the API) can be started by anyone
+    if (
+      room.creator &&
+      room.creator.toLowerCase() !== client.address?.toLowerCase()
+    ) {
+      this.sendError(
+        client,
+        "NOT_HOST",
+        "Only the room creator can start the game",
+      );
+      return;
+    }
+
+    if (room.players.length < room.minPlayers) {
       this.sendError(
         client,
         "NOT_ENOUGH_PLAYERS",
-        `Need at least ${MIN_PLAYERS_TO_START} players to start`,
+        `Need at least ${room.minPlayers} players to start`,
       );
       return;
     }
@@ -869,88 +1341,644 @@ export class WebSocketRelayServer {
     this.startGameInternal(roomId);
   }
 
-  private onPlayerJoinedRoom(roomId: string): void {
+  private handleReady(client: Client, roomId: string, ready: boolean): void {
     const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
+    if (!room) {
+      this.sendError(client, "ROOM_NOT_FOUND", `Room ${roomId} not found`);
+      return;
+    }
 
-    // If first player joins (and we're in lobby), start game immediately and begin lobby timer
-    if (room.players.length === 1 && room.phase === "lobby") {
-      logger.info(
-        `First player joined room ${roomId}, starting game and opening lobby for ${LOBBY_WAITING_DURATION / 1000}s`,
+    if (room.phase !== "lobby") {
+      this.sendError(client, "INVALID_PHASE", "Game already started");
+      return;
+    }
+
+    const address = client.address?.toLowerCase();
+    if (
+      !address ||
+      !room.players.some((p) => p.address.toLowerCase() === address)
+    ) {
+      this.sendError(
+        client,
+        "NOT_IN_ROOM",
+        "Join the room as a player before readying up",
       );
+      return;
+    }
 
-      // Start the game immediately so player can interact
-      this.startGameInternal(roomId);
+    const wasReady = room.readyPlayers.includes(address);
+    if (ready && !wasReady) {
+      room.readyPlayers.push(address);
+    } else if (!ready && wasReady) {
+      room.readyPlayers = room.readyPlayers.filter((a) => a !== address);
+    }
 
-      // Start lobby waiting timer (2 minutes)
-      extended.lobbyTimer = setTimeout(() => {
-        extended.lobbyLocked = true;
-        logger.info(`Room ${roomId} lobby locked after waiting period`);
-        this.broadcastToRoom(roomId, {
-          type: "server:lobby_locked",
-          gameId: roomId,
-          message: "Lobby is now locked. No more players can join.",
-        });
-      }, LOBBY_WAITING_DURATION);
+    this.broadcastToRoom(roomId, {
+      type: "server:player_ready",
+      gameId: roomId,
+      address: client.address!,
+      ready,
+      readyCount: room.readyPlayers.length,
+      playerCount: room.players.length,
+    });
+
+    this.updateLobbyCountdown(roomId);
+  }
 
+  private onPlayerJoinedRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room || room.phase !== "lobby") return;
+
+    // Matchmade rooms wait for their whole group (or the join deadline)
+    if (room.reservedFor) {
+      if (room.players.length >= room.reservedFor.length) {
+        logger.info(`All ${room.players.length} matched agents joined ${roomId}`);
+        this.startGameInternal(roomId);
+      }
+      return;
+    }
+
+    // The newcomer isn't ready yet, so a running countdown stops
+    this.updateLobbyCountdown(roomId);
+  }
+
+  /**
+   * Start the lobby countdown once enough players are seated and all of them
+   * are ready, and cancel it as soon as that stops being true
+   */
+  private updateLobbyCountdown(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    const extended = this.extendedState.get(roomId);
+    if (!room || !extended || room.phase !== "lobby" || room.reservedFor) {
       return;
     }
 
-    // Auto-start if reached max players (during lobby waiting period)
-    if (room.players.length >= room.maxPlayers && !extended.lobbyLocked) {
+    const readyCount = room.players.filter((p) =>
+      room.readyPlayers.includes(p.address.toLowerCase()),
+    ).length;
+    const shouldRun =
+      room.players.length >= room.minPlayers &&
+      readyCount === room.players.length;
+
+    if (shouldRun === (room.countdownEndTime !== null)) return;
+
+    if (shouldRun) {
+      room.countdownEndTime = this.scheduler.now() + LOBBY_COUNTDOWN_DURATION;
+      extended.lobbyTimer = this.scheduler.setTimeout(() => {
+        extended.lobbyTimer = null;
+        logger.info(`Countdown ended in ${roomId}, starting game`);
+        this.startGameInternal(roomId);
+      }, LOBBY_COUNTDOWN_DURATION);
       logger.info(
-        `Room ${roomId} is full (${room.players.length} players), locking lobby early`,
+        `All ${room.players.length} players ready in ${roomId}, starting in ${LOBBY_COUNTDOWN_DURATION / 1000}s`,
       );
-      // Lock lobby early if full
-      if (extended.lobbyTimer) {
-        clearTimeout(extended.lobbyTimer);
-        extended.lobbyTimer = null;
-      }
-      extended.lobbyLocked = true;
+    } else {
+      this.clearLobbyCountdown(roomId);
+      logger.info(`Countdown cancelled in ${roomId}`);
     }
+
+    this.broadcastToRoom(roomId, {
+      type: "server:lobby_countdown",
+      gameId: roomId,
+      startsAt: room.countdownEndTime,
+      readyCount,
+      playerCount: room.players.length,
+      minPlayers: room.minPlayers,
+      timestamp: this.scheduler.now(),
+    });
+    this.broadcastRoomList();
   }
 
-  private startGameInternal(roomId: string): void {
+  private clearLobbyCountdown(roomId: string): void {
     const room = this.rooms.get(roomId);
-    if (!room) return;
+    const extended = this.extendedState.get(roomId);
+    if (extended?.lobbyTimer) {
+      this.scheduler.clearTimeout(extended.lobbyTimer);
+      extended.lobbyTimer = null;
+    }
+    if (room) {
+      room.countdownEndTime = null;
+    }
+  }
 
-    if (room.players.length < MIN_PLAYERS_TO_START) {
-      logger.warn(
-        `Cannot start ${roomId}: only ${room.players.length} players`,
+  // ============ MATCHMAKING ============
+
+  private async handleQueue(
+    client: Client,
+    wagerAmount?: string,
+  ): Promise<void> {
+    if (!client.address || !client.isAgent) {
+      this.sendError(
+        client,
+        "NOT_AUTHENTICATED",
+        "Must authenticate as an agent before queueing",
       );
       return;
     }
 
-    room.phase = "playing";
+    const room = client.roomId ? this.rooms.get(client.roomId) : undefined;
+    if (
+      room &&
+      room.phase !== "ended" &&
+      room.players.some(
+        (p) => p.address.toLowerCase() === client.address!.toLowerCase(),
+      )
+    ) {
+      this.sendError(
+        client,
+        "ALREADY_IN_ROOM",
+        `Leave room ${room.roomId} before queueing`,
+      );
+      return;
+    }
 
-    // Assign impostors randomly
-    const impostorCount = Math.min(
-      room.impostorCount,
-      Math.floor(room.players.length / 3),
-    );
-    const impostorIndices = new Set<number>();
-    while (impostorIndices.size < impostorCount) {
-      impostorIndices.add(Math.floor(Math.random() * room.players.length));
+    if (wagerAmount !== undefined && !/^\d+$/.test(wagerAmount)) {
+      this.sendError(client, "INVALID_WAGER", "wagerAmount must be in wei");
+      return;
     }
+    const tier = wagerAmount ?? wagerService.getWagerAmount().toString();
 
-    const impostorAddresses: string[] = [];
-    for (const idx of impostorIndices) {
-      impostorAddresses.push(room.players[idx].address);
+    // The wager is taken when joining the matched room; don't match an agent
+    // who couldn't pay it
+    if (!WAGERS_DISABLED) {
+      const balance = await wagerService.getBalance(client.address);
+      if (balance < BigInt(tier)) {
+        this.sendError(
+          client,
+          "INSUFFICIENT_BALANCE",
+          `Queueing for a ${tier} wei game needs that much deposited (balance: ${balance})`,
+        );
+        return;
+      }
     }
 
-    // Initialize or update extended room state
-    const existingExtended = this.extendedState.get(roomId);
-    const extended: ExtendedRoomState = {
-      ...room,
-      impostors: new Set(impostorAddresses.map((a) => a.toLowerCase())),
-      votes: new Map(),
-      deadBodies: [],
+    const stats = this.getOrCreateAgentStats(client.address, client.name);
+    this.matchmaker.enqueue({
+      address: client.address,
+      name: stats.name,
+      wagerAmount: tier,
+      rating: stats.rating,
+    });
+    logger.info(
+      `${stats.name} queued for a ${tier} wei game (rating ${Math.round(stats.rating)}, ${this.matchmaker.size} queued)`,
+    );
+
+    this.sendQueueStatus(client);
+    this.runMatchmaking();
+  }
+
+  private handleDequeue(client: Client): void {
+    if (!client.address || !this.matchmaker.dequeue(client.address)) {
+      this.sendError(client, "NOT_QUEUED", "Not in the matchmaking queue");
+      return;
+    }
+
+    this.send(client, {
+      type: "server:queue_left",
+      reason: "dequeued",
+      timestamp: this.scheduler.now(),
+    });
+    this.broadcastQueueStatus();
+  }
+
+  private startMatchmaking(): void {
+    if (this.matchmakingTimer) return;
+
+    this.matchmakingTimer = this.scheduler.setInterval(() => {
+      this.runMatchmaking();
+    }, MATCHMAKING_INTERVAL);
+  }
+
+  /**
+   * Seat every group the queue can form now, then tell the agents still
+   * waiting where they stand
+   */
+  private runMatchmaking(): void {
+    if (this.matchmaker.size === 0) return;
+
+    const matches = this.matchmaker.findMatches();
+    for (const match of matches) {
+      this.createMatchRoom(match);
+    }
+
+    if (matches.length > 0) {
+      this.broadcastQueueStatus();
+    }
+  }
+
+  private createMatchRoom(match: Match): void {
+    const players = match.players.map((p) => p.address);
+    const result = this.createRoom(
+      undefined,
+      players.length,
+      players.length >= 7 ? 2 : 1,
+      match.wagerAmount,
+    );
+
+    if ("error" in result) {
+      // Put the group back at the front of the queue rather than lose it
+      logger.error(`Failed to create match room: ${result.error}`);
+      for (const player of match.players) {
+        this.matchmaker.enqueue(player);
+      }
+      return;
+    }
+
+    const roomId = result.roomId;
+    result.reservedFor = players;
+    const joinDeadline = this.scheduler.now() + MATCH_JOIN_DURATION;
+    this.armMatchStart(roomId, MATCH_JOIN_DURATION);
+
+    const averageRating =
+      match.players.reduce((sum, p) => sum + p.rating, 0) /
+      match.players.length;
+    logger.info(
+      `Matched ${players.length} agents into ${roomId} (${match.wagerAmount} wei, average rating ${Math.round(averageRating)})`,
+    );
+
+    for (const player of match.players) {
+      const client = this.findClientByAddress(player.address);
+      if (!client) continue;
+      this.send(client, {
+        type: "server:match_found",
+        roomId,
+        players,
+        wagerAmount: match.wagerAmount,
+        averageRating,
+        waited: this.scheduler.now() - player.queuedAt,
+        joinDeadline,
+        timestamp: this.scheduler.now(),
+      });
+    }
+  }
+
+  /**
+   * Start a matchmade game with whoever has joined once `delay` ms have
+   * passed, or drop the room and requeue whoever came if that is fewer than
+   * its minimum
+   */
+  private armMatchStart(roomId: string, delay: number): void {
+    const extended = this.extendedState.get(roomId);
+    if (!extended) return;
+
+    extended.lobbyTimer = this.scheduler.setTimeout(() => {
+      extended.lobbyTimer = null;
+      const room = this.rooms.get(roomId);
+      if (!room || room.phase !== "lobby") return;
+
+      if (room.players.length >= room.minPlayers) {
+        logger.info(
+          `Join deadline passed for ${roomId}, starting with ${room.players.length} of ${room.reservedFor?.length} matched agents`,
+        );
+        this.startGameInternal(roomId);
+        return;
+      }
+
+      logger.info(
+        `Only ${room.players.length} matched agents joined ${roomId}, removing it`,
+      );
+      // Tournament entrants who missed their game just lose it
+      const joined = this.findTournamentGame(roomId)
+        ? []
+        : room.players.map((p) => p.address);
+      wagerService.refundGame(roomId);
+      this.deleteRoom(roomId);
+      for (const address of joined) {
+        const stats = this.getOrCreateAgentStats(address);
+        this.matchmaker.enqueue({
+          address,
+          name: stats.name,
+          wagerAmount: room.wagerAmount || wagerService.getWagerAmount().toString(),
+          rating: stats.rating,
+        });
+      }
+      this.broadcastQueueStatus();
+    }, delay);
+  }
+
+  // ============ TOURNAMENTS ============
+
+  /**
+   * Register a tournament and pair its first round. Each table plays in a
+   * room reserved for its players; names default to the agents' known names.
+   */
+  createTournament(
+    request: TournamentOptions & {
+      names?: Record<string, string>; // Lowercase address -> display name
+      creator?: string;
+      wagerAmount?: string;
+      settings?: unknown;
+    },
+  ): TournamentState | { error: string } {
+    const settings = validateGameSettings(request.settings);
+    if ("error" in settings) {
+      return settings;
+    }
+
+    const tournament: TournamentState = {
+      id: `tournament-${uuidv4().slice(0, 8)}`,
+      name: request.name,
+      format: request.format,
+      status: "active",
+      totalRounds: request.rounds,
+      currentRound: 0,
+      tableSize: request.tableSize,
+      impostorCount: request.impostorCount,
+      wagerAmount: request.wagerAmount,
+      settings,
+      creator: request.creator,
+      createdAt: this.scheduler.now(),
+      endedAt: null,
+      games: [],
+      standings: request.entrants.map((address) =>
+        emptyStanding(
+          address,
+          this.getOrCreateAgentStats(address, request.names?.[address]).name,
+        ),
+      ),
+    };
+    this.tournaments.set(tournament.id, tournament);
+
+    logger.info(
+      `Tournament ${tournament.id} "${tournament.name}" created: ${tournament.format}, ${tournament.standings.length} entrants, ${tournament.totalRounds} rounds`,
+    );
+    this.startTournamentRound(tournament);
+    return tournament;
+  }
+
+  getTournament(id: string): TournamentState | undefined {
+    return this.tournaments.get(id);
+  }
+
+  /**
+   * Tournaments this process knows about, newest first
+   */
+  getTournaments(): TournamentState[] {
+    return Array.from(this.tournaments.values()).sort(
+      (a, b) => b.createdAt - a.createdAt,
+    );
+  }
+
+  /**
+   * Pair the next round and open a reserved room for every table
+   */
+  private startTournamentRound(tournament: TournamentState): void {
+    tournament.currentRound++;
+    const round = tournament.currentRound;
+    const tables = pairRound(
+      tournament,
+      round,
+      (address) => this.getOrCreateAgentStats(address).rating,
+    );
+    const joinDeadline = this.scheduler.now() + TOURNAMENT_JOIN_DURATION;
+
+    tables.forEach((players, table) => {
+      const game: TournamentGame = {
+        round,
+        table,
+        roomId: null,
+        players,
+        status: "pending",
+        crewmatesWon: null,
+        winners: [],
+      };
+      tournament.games.push(game);
+
+      const result = this.createRoom(
+        undefined,
+        players.length,
+        tournament.impostorCount,
+        tournament.wagerAmount,
+        tournament.settings,
+        Math.min(MIN_PLAYERS_TO_START, players.length),
+      );
+      if ("error" in result) {
+        logger.error(
+          `Failed to create room for ${tournament.id} round ${round} table ${table}: ${result.error}`,
+        );
+        game.status = "cancelled";
+        return;
+      }
+
+      result.reservedFor = players;
+      game.roomId = result.roomId;
+      this.armMatchStart(result.roomId, TOURNAMENT_JOIN_DURATION);
+
+      for (const address of players) {
+        const client = this.findClientByAddress(address);
+        if (!client) continue;
+        this.send(client, {
+          type: "server:tournament_game",
+          tournamentId: tournament.id,
+          name: tournament.name,
+          round,
+          totalRounds: tournament.totalRounds,
+          roomId: result.roomId,
+          players,
+          joinDeadline,
+          timestamp: this.scheduler.now(),
+        });
+      }
+    });
+
+    logger.info(
+      `Tournament ${tournament.id} round ${round}/${tournament.totalRounds} paired into ${tables.length} tables`,
+    );
+    databaseService.saveTournament(tournament);
+    this.advanceTournament(tournament); // Every room may have failed
+  }
+
+  private findTournamentGame(
+    roomId: string,
+  ): { tournament: TournamentState; game: TournamentGame } | undefined {
+    for (const tournament of this.tournaments.values()) {
+      if (tournament.status !== "active") continue;
+      const game = tournament.games.find((g) => g.roomId === roomId);
+      if (game) return { tournament, game };
+    }
+    return undefined;
+  }
+
+  private markTournamentGameStarted(roomId: string): void {
+    const entry = this.findTournamentGame(roomId);
+    if (!entry || entry.game.status !== "pending") return;
+
+    entry.game.status = "playing";
+    databaseService.saveTournament(entry.tournament);
+  }
+
+  /**
+   * Score a finished tournament game and move the tournament on
+   */
+  private recordTournamentGame(
+    roomId: string,
+    crewmatesWon: boolean,
+    winners: string[],
+  ): void {
+    const entry = this.findTournamentGame(roomId);
+    const room = this.rooms.get(roomId);
+    const extended = this.extendedState.get(roomId);
+    if (!entry || !room || !extended) return;
+
+    const { tournament, game } = entry;
+    const winnerKeys = winners.map((w) => w.toLowerCase());
+    game.status = "completed";
+    game.crewmatesWon = crewmatesWon;
+    game.winners = winnerKeys;
+
+    applyGameResult(
+      tournament,
+      room.players.map((p) => ({
+        address: p.address,
+        isImpostor: extended.impostors.has(p.address.toLowerCase()),
+        won: winnerKeys.includes(p.address.toLowerCase()),
+        survived: p.isAlive,
+        tasksCompleted: p.tasksCompleted,
+      })),
+    );
+
+    logger.info(
+      `Tournament ${tournament.id} round ${game.round} table ${game.table} finished (${crewmatesWon ? "crewmates" : "impostors"} won)`,
+    );
+    databaseService.saveTournament(tournament);
+    this.advanceTournament(tournament);
+  }
+
+  /**
+   * A tournament room went away before its game finished; nobody scores
+   */
+  private cancelTournamentGame(roomId: string): void {
+    const entry = this.findTournamentGame(roomId);
+    if (
+      !entry ||
+      (entry.game.status !== "pending" && entry.game.status !== "playing")
+    ) {
+      return;
+    }
+
+    entry.game.status = "cancelled";
+    logger.info(
+      `Tournament ${entry.tournament.id} round ${entry.game.round} table ${entry.game.table} cancelled`,
+    );
+    databaseService.saveTournament(entry.tournament);
+    this.advanceTournament(entry.tournament);
+  }
+
+  /**
+   * Once every game of the current round is over, pair the next round after
+   * a pause, or finish the tournament if it has run its rounds or a series
+   * is already decided
+   */
+  private advanceTournament(tournament: TournamentState): void {
+    if (
+      tournament.status !== "active" ||
+      this.tournamentTimers.has(tournament.id) ||
+      tournament.games.some(
+        (g) =>
+          g.round === tournament.currentRound &&
+          (g.status === "pending" || g.status === "playing"),
+      )
+    ) {
+      return;
+    }
+
+    if (
+      tournament.currentRound >= tournament.totalRounds ||
+      isDecided(tournament)
+    ) {
+      tournament.status = "completed";
+      tournament.endedAt = this.scheduler.now();
+      logger.info(
+        `Tournament ${tournament.id} completed after ${tournament.currentRound} rounds, won by ${tournament.standings[0]?.name}`,
+      );
+      databaseService.saveTournament(tournament);
+      return;
+    }
+
+    this.tournamentTimers.set(
+      tournament.id,
+      this.scheduler.setTimeout(() => {
+        this.tournamentTimers.delete(tournament.id);
+        this.startTournamentRound(tournament);
+      }, TOURNAMENT_ROUND_DELAY),
+    );
+  }
+
+  private sendQueueStatus(client: Client): void {
+    if (!client.address) return;
+    const status = this.matchmaker.status(client.address);
+    const stats = this.agentStats.get(client.address.toLowerCase());
+    if (!status || !stats) return;
+
+    this.send(client, {
+      type: "server:queue_status",
+      ...status,
+      rating: stats.rating,
+      timestamp: this.scheduler.now(),
+    });
+  }
+
+  private broadcastQueueStatus(): void {
+    for (const entry of this.matchmaker.entries()) {
+      const client = this.findClientByAddress(entry.address);
+      if (client) {
+        this.sendQueueStatus(client);
+      }
+    }
+  }
+
+  private startGameInternal(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    const lobby = this.extendedState.get(roomId);
+    if (!room || !lobby) return;
+
+    if (room.players.length < room.minPlayers) {
+      logger.warn(
+        `Cannot start ${roomId}: only ${room.players.length} of ${room.minPlayers} players`,
+      );
+      return;
+    }
+
+    this.clearLobbyCountdown(roomId);
+    room.phase = "playing";
+    this.markTournamentGameStarted(roomId);
+
+    // Draw impostors from the seed committed to at room creation; the seed
+    // itself is revealed at game end so anyone can recompute the draw
+    const impostorCount = Math.min(
+      room.impostorCount,
+      Math.floor(room.players.length / 3),
+    );
+    const seed = lobby.seed;
+    const fairness: GameFairness = {
+      seed,
+      seedHash: hashSeed(seed),
+      joinOrder: room.players.map((p) => p.address),
+      impostorCount,
+      tasksPerPlayer: room.settings.tasksPerPlayer,
+    };
+    const impostorAddresses = selectImpostors(
+      fairness.joinOrder,
+      impostorCount,
+      roleRandom(seed),
+    );
+
+    // Initialize or update extended room state
+    const extended: ExtendedRoomState = {
+      ...room,
+      impostors: new Set(impostorAddresses.map((a) => a.toLowerCase())),
+      votes: new Map(),
+      deadBodies: [],
       currentRound: 1,
-      currentPhase: 2, // ActionCommit
+      currentPhase: 0, // Lobby until the first action round opens
       phaseTimer: null,
-      lobbyLocked: existingExtended?.lobbyLocked ?? false,
-      lobbyTimer: existingExtended?.lobbyTimer ?? null,
+      lobbyLocked: true, // Roles below are dealt to this roster
+      lobbyTimer: null,
+      seed,
+      fairness,
+      phaseEndTime: 0,
+      speakingOrder: [],
+      speakerIndex: 0,
     };
     this.extendedState.set(roomId, extended);
 
@@ -958,14 +1986,14 @@ export class WebSocketRelayServer {
     this.gameStateManager.getOrCreateGame(roomId);
     this.gameStateManager.assignImpostors(roomId, impostorAddresses);
 
-    // Assign tasks to players (locations 1-8, excluding cafeteria which is 0)
+    // Deal named tasks from the catalog to crewmates
     for (const player of room.players) {
       if (!extended.impostors.has(player.address.toLowerCase())) {
-        const taskLocations = this.generateTaskLocations(10);
         this.gameStateManager.assignTasks(
           roomId,
           player.address,
-          taskLocations,
+          fairness.tasksPerPlayer,
+          taskRandom(seed, player.address),
         );
       }
     }
@@ -984,6 +2012,12 @@ export class WebSocketRelayServer {
         colorId: p.colorId,
         wagerAmount,
       })),
+      {
+        seedHash: fairness.seedHash,
+        joinOrder: fairness.joinOrder,
+        impostorCount,
+        tasksPerPlayer: fairness.tasksPerPlayer,
+      },
     );
 
     // Create game on-chain (async, don't block game flow)
@@ -1010,341 +2044,459 @@ export class WebSocketRelayServer {
       );
     }
 
-    // Broadcast game start (phase change)
+    // Broadcast game start (phase change to round 1 ActionCommit)
+    this.startActionRound(roomId);
+
+    // Send room update
+    this.broadcastToRoom(roomId, { type: "server:room_update", room });
     this.broadcastToRoom(roomId, {
-      type: "server:phase_changed",
+      type: "server:lobby_locked",
       gameId: roomId,
-      phase: 2, // ActionCommit
-      previousPhase: 0,
-      round: 1,
-      phaseEndTime: Date.now() + 60000,
-      timestamp: Date.now(),
+      message: "Game has started. No more players can join.",
     });
 
-    // Send room update
-    this.broadcastToRoom(roomId, { type: "server:room_update", room });
+    // Tell each player their role and tasks privately
+    for (const player of room.players) {
+      const client = this.findClientByAddress(player.address);
+      if (client) {
+        this.sendRoleAssignment(client, roomId);
+        this.sendTaskAssignment(client, roomId);
+      }
+    }
 
     // Send initial game state to all clients (including frontend)
-    const gameState = this.gameStateManager.getGame(roomId);
-    if (gameState) {
-      this.broadcastToRoom(roomId, {
-        type: "server:game_state",
-        gameId: roomId,
-        state: gameState,
-      });
-    }
+    this.broadcastGameState(roomId);
 
     this.broadcastRoomList();
   }
 
-  private generateTaskLocations(count: number): number[] {
-    const locations: number[] = [];
-    const available = [1, 2, 3, 4, 5, 6, 7, 8]; // All rooms except Cafeteria
-    for (let i = 0; i < count; i++) {
-      // Allow repeat locations for counts > 8
-      const idx = Math.floor(Math.random() * available.length);
-      locations.push(available[idx]);
-    }
-    return locations;
-  }
-
-  private handlePositionUpdate(
+  private handleVote(
     client: Client,
     roomId: string,
-    location: Location,
-    round: number,
+    claimedVoter: string | undefined,
+    target: string | null,
   ): void {
-    const room = this.rooms.get(roomId);
-    if (!room) return;
-
-    const player = room.players.find((p) => p.address === client.address);
-    if (!player) return;
+    const voter = this.resolveActor(client, claimedVoter, "voter");
+    if (!voter) return;
 
-    const previousLocation = player.location;
+    // Once every living player has voted the engine resolves straight away
+    this.runEngine(roomId, {
+      type: "cast_vote",
+      now: this.scheduler.now(),
+      voter,
+      target,
+    });
+  }
 
-    // Validate movement (skip if same location)
-    if (previousLocation !== location) {
-      const validation = this.gameStateManager.validateMovement(
-        roomId,
-        client.address!,
-        previousLocation,
-        location,
-        false, // not a vent
+  /**
+   * The acting player is always the authenticated connection. A payload that
+   * names someone else is a spoofing attempt and is rejected outright.
+   */
+  private resolveActor(
+    client: Client,
+    claimed: string | undefined,
+    field: string,
+  ): string | null {
+    if (!client.address) {
+      this.sendError(
+        client,
+        "NOT_AUTHENTICATED",
+        "Authenticate with a wallet before taking game actions",
       );
+      return null;
+    }
 
-      if (!validation.valid) {
-        this.send(client, {
-          type: "server:error",
-          code: "INVALID_MOVE",
-          message: validation.reason || "Invalid movement",
-        });
-        return;
-      }
+    if (claimed && claimed.toLowerCase() !== client.address.toLowerCase()) {
+      logger.warn(
+        `Identity mismatch from ${client.id}: ${field} ${claimed} != authenticated ${client.address}`,
+      );
+      this.sendError(
+        client,
+        "IDENTITY_MISMATCH",
+        `${field} does not match your authenticated address`,
+      );
+      return null;
     }
 
-    player.location = location;
+    return client.address;
+  }
 
-    this.broadcastToRoom(roomId, {
-      type: "server:player_moved",
-      gameId: roomId,
-      address: client.address!,
-      from: previousLocation,
-      to: location,
-      round,
-      timestamp: Date.now(),
-    });
+  private handleDisconnect(client: Client): void {
+    if (client.address) {
+      this.matchmaker.dequeue(client.address);
+    }
+    if (client.roomId && !this.holdSeat(client, client.roomId)) {
+      this.handleLeaveRoom(client, client.roomId);
+    }
+    this.clients.delete(client.id);
+    this.rateLimiter.forget(`conn:${client.id}`);
+    this.rateLimiter.prune(); // Address buckets outlive connections until refilled
+    logger.info(`Client disconnected: ${client.id}`);
   }
 
-  private async handleKill(
-    client: Client,
-    roomId: string,
-    killer: string,
-    victim: string,
-    location: Location,
-    round: number,
-  ): Promise<void> {
-    const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
-
-    // Validate killer is an impostor
-    if (!this.gameStateManager.isImpostor(roomId, killer)) {
-      this.send(client, {
-        type: "server:error",
-        code: "KILL_NOT_IMPOSTOR",
-        message: "Only impostors can kill",
-      });
-      return;
+  /**
+   * Spend a token for this message type from the connection's bucket and,
+   * once authenticated, the address's, so reconnecting doesn't reset a quota.
+   * Tells the client when to retry if either is empty.
+   */
+  private allowMessage(client: Client, type: ClientMessage["type"]): boolean {
+    const keys = [`conn:${client.id}`];
+    if (client.address) {
+      keys.push(`addr:${client.address.toLowerCase()}`);
     }
 
-    // Check kill cooldown
-    if (!this.gameStateManager.canKill(roomId, killer, round)) {
-      const cooldown = this.gameStateManager.getKillCooldown(
-        roomId,
-        killer,
-        round,
-      );
-      this.send(client, {
-        type: "server:error",
-        code: "KILL_COOLDOWN",
-        message: `Kill on cooldown. Wait ${cooldown} more round(s).`,
+    const result = this.rateLimiter.take(keys, type);
+    if (!result.allowed) {
+      this.sendError(client, "RATE_LIMITED", `Too many ${type} messages`, {
+        retryAfter: result.retryAfter,
       });
-      return;
     }
+    return result.allowed;
+  }
 
-    const victimPlayer = room.players.find((p) => p.address === victim);
-    if (victimPlayer) {
-      victimPlayer.isAlive = false;
+  /**
+   * Keep a dropped player's seat in a running game for the reconnect grace
+   * period, then release it. Returns false if there is no seat to hold.
+   */
+  private holdSeat(client: Client, roomId: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (
+      !room ||
+      room.phase !== "playing" ||
+      !client.address ||
+      RECONNECT_GRACE_PERIOD <= 0
+    ) {
+      return false;
     }
 
-    // Track dead body
-    const body: DeadBodyState = {
-      victim,
-      location,
-      round,
-      reported: false,
-    };
-    extended.deadBodies.push(body);
-
-    // Record kill for cooldown tracking
-    this.gameStateManager.recordKill(roomId, killer, round);
+    const seat = room.players.find(
+      (p) => p.address.toLowerCase() === client.address!.toLowerCase(),
+    );
+    if (!seat) return false;
 
+    const graceEndTime = this.armSeatRelease(roomId, seat);
     this.broadcastToRoom(roomId, {
-      type: "server:kill_occurred",
+      type: "server:player_disconnected",
       gameId: roomId,
-      killer,
-      victim,
-      location,
-      round,
-      timestamp: Date.now(),
+      address: seat.address,
+      graceEndTime,
     });
+    logger.info(
+      `Holding seat for ${seat.address} in room ${roomId} until ${new Date(graceEndTime).toISOString()}`,
+    );
+    return true;
+  }
 
-    logger.info(`Kill in room ${roomId}: ${killer} killed ${victim}`);
+  /**
+   * Mark a seat disconnected and forfeit it unless its player reconnects
+   * within the grace period. Returns when the grace period ends.
+   */
+  private armSeatRelease(roomId: string, seat: PlayerState): number {
+    seat.disconnected = true;
+    const key = `${roomId}:${seat.address.toLowerCase()}`;
+    this.scheduler.clearTimeout(this.seatReleaseTimers.get(key));
+    this.seatReleaseTimers.set(
+      key,
+      this.scheduler.setTimeout(() => {
+        this.seatReleaseTimers.delete(key);
+        if (!seat.disconnected) return;
+        logger.info(
+          `Reconnect grace period expired for ${seat.address} in room ${roomId}`,
+        );
+        this.forfeitSeat(roomId, seat);
+      }, RECONNECT_GRACE_PERIOD),
+    );
+    return this.scheduler.now() + RECONNECT_GRACE_PERIOD;
+  }
 
-    // Record kill for agent stats
-    this.recordKill(killer);
+  /**
+   * Give up a seat mid-game. The seat stays for the record and the payout,
+   * but its player is out: they count as dead, which may decide the game.
+   */
+  private forfeitSeat(roomId: string, seat: PlayerState): void {
+    const room = this.rooms.get(roomId);
+    if (!room || room.phase !== "playing") return;
 
-    // Check win condition
-    await this.checkAndHandleWinCondition(roomId);
+    seat.disconnected = true;
+    this.broadcastToRoom(roomId, {
+      type: "server:player_left",
+      gameId: roomId,
+      address: seat.address,
+    });
+    // Fire and forget; the game may end while the client is already gone
+    this.endGameIfWon(
+      roomId,
+      this.runEngine(roomId, { type: "forfeit", address: seat.address }),
+    );
   }
 
-  private handleVote(
+  /**
+   * Authenticate a new connection from a session token and reclaim the
+   * player's seat, if they still hold one
+   */
+  private handleResume(
     client: Client,
-    roomId: string,
-    voter: string,
-    target: string | null,
-    round: number,
+    sessionToken: string,
+    roomId?: string,
   ): void {
-    const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
-
-    // Only accept votes during voting phase
-    if (extended.currentPhase !== 5) {
-      logger.warn(
-        `Vote rejected: not in voting phase (current: ${extended.currentPhase})`,
+    const session = authService.resolveSession(sessionToken);
+    if (!session) {
+      this.sendError(
+        client,
+        "RESUME_REJECTED",
+        "Unknown or expired session token",
       );
       return;
     }
 
-    const voterPlayer = room.players.find((p) => p.address === voter);
-    if (!voterPlayer || !voterPlayer.isAlive) return;
+    client.authChallenge = undefined;
+    this.handleAuthenticate(client, session.address, session.name);
+
+    const address = session.address.toLowerCase();
+    const holdsSeat = (room: RoomState) =>
+      room.phase !== "ended" &&
+      room.players.some((p) => p.address.toLowerCase() === address);
+    const room = roomId
+      ? this.rooms.get(roomId)
+      : Array.from(this.rooms.values()).find(holdsSeat);
+    const seat =
+      room && holdsSeat(room)
+        ? room.players.find((p) => p.address.toLowerCase() === address)
+        : undefined;
 
-    // Record the vote
-    extended.votes.set(
-      voter.toLowerCase(),
-      target ? target.toLowerCase() : null,
-    );
-    voterPlayer.hasVoted = true;
-
-    this.broadcastToRoom(roomId, {
-      type: "server:vote_cast",
-      gameId: roomId,
-      voter,
-      target,
-      round,
-      timestamp: Date.now(),
+    this.send(client, {
+      type: "server:session_resumed",
+      address: session.address,
+      roomId: seat ? room!.roomId : null,
+      sessionToken,
+      timestamp: this.scheduler.now(),
     });
 
-    // Check if all votes are in
-    const alivePlayers = room.players.filter((p) => p.isAlive);
-    const votedCount = alivePlayers.filter((p) => p.hasVoted).length;
+    if (room && seat) {
+      client.roomId = room.roomId;
+      this.handlePlayerReconnect(client, room.roomId, seat);
+    }
+  }
 
-    if (votedCount >= alivePlayers.length) {
-      // All votes are in, resolve immediately
-      if (extended.phaseTimer) {
-        clearTimeout(extended.phaseTimer);
-        extended.phaseTimer = null;
-      }
-      this.resolveVoting(roomId);
+  private send(client: Client, message: ServerMessage): void {
+    if (client.ws.readyState === WebSocket.OPEN) {
+      client.ws.send(JSON.stringify(message));
     }
   }
 
-  private async handleTaskComplete(
+  private sendError(
+    client: Client,
+    code: string,
+    message: string,
+    extra?: Pick<ServerErrorMessage, "details" | "retryAfter">,
+  ): void {
+    this.send(client, { type: "server:error", code, message, ...extra });
+  }
+
+  /**
+   * Send game information meant for one player only, logging it for the room
+   */
+  private sendPrivate(
     client: Client,
     roomId: string,
-    player: string,
-    tasksCompleted: number,
-    totalTasks: number,
-    location?: Location,
-  ): Promise<void> {
+    message: ServerMessage,
+  ): void {
+    gameEventLog.append(
+      roomId,
+      message,
+      client.address ? [client.address] : [],
+    );
+    this.send(client, message);
+  }
+
+  /**
+   * Send to everyone in a room. When `canSee` is given, players it rejects are
+   * skipped; spectators always receive everything. Every broadcast is appended
+   * to the room's event log.
+   */
+  private broadcastToRoom(
+    roomId: string,
+    message: ServerMessage,
+    canSee?: (player: PlayerState) => boolean,
+  ): void {
     const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
+    if (!room) return;
 
-    // Only allow during ActionCommit phase
-    if (extended.currentPhase !== 2) {
-      return;
-    }
+    gameEventLog.append(
+      roomId,
+      message,
+      canSee
+        ? room.players.filter((p) => canSee(p)).map((p) => p.address)
+        : undefined,
+    );
 
-    const playerState = room.players.find((p) => p.address === player);
-    if (!playerState) return;
+    // Send to all players who can see this event
+    for (const player of room.players) {
+      if (canSee && !canSee(player)) continue;
+      const client = this.findClientByAddress(player.address);
+      if (client) this.send(client, message);
+    }
 
-    // Impostors cannot complete real tasks (they can only fake)
-    if (this.gameStateManager.isImpostor(roomId, player)) {
-      this.send(client, {
-        type: "server:error",
-        code: "IMPOSTOR_CANNOT_TASK",
-        message: "Impostors cannot complete real tasks",
-      });
-      return;
+    // Send to all spectators
+    for (const specId of room.spectators) {
+      const client = this.clients.get(specId);
+      if (client) this.send(client, message);
     }
+  }
 
-    // Both alive crewmates and ghost crewmates can complete tasks
-    playerState.tasksCompleted = tasksCompleted;
-    playerState.totalTasks = totalTasks;
+  /**
+   * Send a player their role; impostors also learn their teammates
+   */
+  private sendRoleAssignment(client: Client, roomId: string): void {
+    const room = this.rooms.get(roomId);
+    const extended = this.extendedState.get(roomId);
+    if (!room || !extended || !client.address) return;
 
-    // Calculate total progress
-    const totalDone = room.players.reduce(
-      (sum, p) => sum + p.tasksCompleted,
-      0,
-    );
-    const totalRequired = room.players.reduce(
-      (sum, p) => sum + p.totalTasks,
-      0,
-    );
-    const progress = totalRequired > 0 ? (totalDone / totalRequired) * 100 : 0;
+    const me = client.address.toLowerCase();
+    const isImpostor = extended.impostors.has(me);
 
-    this.broadcastToRoom(roomId, {
-      type: "server:task_completed",
+    this.sendPrivate(client, roomId, {
+      type: "server:role_assigned",
       gameId: roomId,
-      player,
-      tasksCompleted,
-      totalTasks,
-      totalProgress: progress,
-      timestamp: Date.now(),
+      role: isImpostor ? 2 : 1, // Impostor : Crewmate
+      teammates: isImpostor
+        ? room.players
+            .map((p) => p.address)
+            .filter(
+              (a) =>
+                a.toLowerCase() !== me &&
+                extended.impostors.has(a.toLowerCase()),
+            )
+        : undefined,
+      timestamp: this.scheduler.now(),
     });
+  }
 
-    // Check if all tasks are done
-    if (progress >= 100) {
-      await this.endGame(roomId, true, "tasks");
-    }
+  /**
+   * Send a crewmate their task list and progress. Impostors have no real tasks.
+   */
+  private sendTaskAssignment(client: Client, roomId: string): void {
+    if (!client.address) return;
+    if (this.gameStateManager.isImpostor(roomId, client.address)) return;
+
+    this.sendPrivate(client, roomId, {
+      type: "server:tasks_assigned",
+      gameId: roomId,
+      tasks: this.gameStateManager.getAssignedTasks(roomId, client.address),
+      timestamp: this.scheduler.now(),
+    });
   }
 
-  private handlePhaseChange(
-    client: Client,
-    roomId: string,
-    phase: GamePhase,
-    round: number,
-    phaseEndTime: number,
-  ): void {
+  /**
+   * Send the current snapshot. Roles are only attached for god-view spectators;
+   * players don't see deaths nobody has reported yet.
+   */
+  private sendGameState(client: Client, roomId: string): void {
     const room = this.rooms.get(roomId);
-    if (!room) return;
-
-    const previousPhase = room.phase === "lobby" ? 0 : 2;
+    const extended = this.extendedState.get(roomId);
+    if (!room || !extended) return;
 
-    if (phase === 7) {
-      room.phase = "ended";
+    const isSpectator = room.spectators.includes(client.id);
+    let snapshot = this.gameSnapshot(
+      isSpectator ? room : this.publicRoomView(room),
+      extended,
+    );
+    if (!isSpectator) {
+      snapshot = {
+        ...snapshot,
+        deadBodies: snapshot.deadBodies.filter((b) => b.reported),
+      };
+    } else if (client.godView && !this.isSeated(room, client.address)) {
+      snapshot = {
+        ...snapshot,
+        roles: Object.fromEntries(
+          room.players.map((p) => [
+            p.address,
+            extended.impostors.has(p.address.toLowerCase()) ? 2 : 1,
+          ]),
+        ),
+      };
     }
 
-    this.broadcastToRoom(roomId, {
-      type: "server:phase_changed",
+    this.send(client, {
+      type: "server:game_state",
       gameId: roomId,
-      phase,
-      previousPhase,
-      round,
-      phaseEndTime,
-      timestamp: Date.now(),
+      state: snapshot,
     });
   }
 
-  private handleDisconnect(client: Client): void {
-    if (client.roomId) {
-      this.handleLeaveRoom(client, client.roomId);
-    }
-    this.clients.delete(client.id);
-    logger.info(`Client disconnected: ${client.id}`);
+  /**
+   * The game as the engine last left it, with `room`'s view of the players
+   */
+  private gameSnapshot(
+    room: RoomState,
+    extended: ExtendedRoomState,
+  ): GameStateSnapshot {
+    const sabotage = this.gameStateManager.getActiveSabotage(room.roomId);
+
+    return {
+      gameId: room.roomId,
+      phase: extended.currentPhase,
+      round: extended.currentRound,
+      phaseEndTime: extended.phaseEndTime,
+      players: room.players,
+      deadBodies: extended.deadBodies,
+      alivePlayers: room.players.filter((p) => p.isAlive).length,
+      totalTasksCompleted: room.players.reduce((n, p) => n + p.tasksCompleted, 0),
+      totalTasksRequired: room.players.reduce((n, p) => n + p.totalTasks, 0),
+      activeSabotage: (sabotage?.type ?? 0) as SabotageType,
+    };
   }
 
-  private send(client: Client, message: ServerMessage): void {
-    if (client.ws.readyState === WebSocket.OPEN) {
-      client.ws.send(JSON.stringify(message));
-    }
+  /**
+   * Whether `address` holds a seat in the room
+   */
+  private isSeated(room: RoomState, address: string | undefined): boolean {
+    if (!address) return false;
+    return room.players.some(
+      (p) => p.address.toLowerCase() === address.toLowerCase(),
+    );
   }
 
-  private sendError(client: Client, code: string, message: string): void {
-    this.send(client, { type: "server:error", code, message });
+  /**
+   * Room as seen by players: victims of unreported kills still look alive
+   */
+  private publicRoomView(room: RoomState): RoomState {
+    const extended = this.extendedState.get(room.roomId);
+    const hidden = new Set(
+      (extended?.deadBodies ?? [])
+        .filter((b) => !b.reported)
+        .map((b) => b.victim.toLowerCase()),
+    );
+    if (hidden.size === 0) return room;
+
+    return {
+      ...room,
+      players: room.players.map((p) =>
+        hidden.has(p.address.toLowerCase()) ? { ...p, isAlive: true } : p,
+      ),
+    };
   }
 
-  private broadcastToRoom(roomId: string, message: ServerMessage): void {
+  private broadcastGameState(roomId: string): void {
     const room = this.rooms.get(roomId);
     if (!room) return;
 
-    // Send to all players
     for (const player of room.players) {
       const client = this.findClientByAddress(player.address);
-      if (client) this.send(client, message);
+      if (client) this.sendGameState(client, roomId);
     }
 
-    // Send to all spectators
     for (const specId of room.spectators) {
       const client = this.clients.get(specId);
-      if (client) this.send(client, message);
+      if (client) this.sendGameState(client, roomId);
     }
   }
 
   private broadcastRoomList(): void {
-    const roomList = Array.from(this.rooms.values());
+    const roomList = Array.from(this.rooms.values()).map((r) =>
+      this.publicRoomView(r),
+    );
     const stats = this.getStats();
     for (const client of this.clients.values()) {
       this.send(client, { type: "server:room_list", rooms: roomList, stats });
@@ -1360,89 +2512,25 @@ export class WebSocketRelayServer {
     return undefined;
   }
 
-  // ============ BODY REPORTING ============
+  // ============ MEETINGS ============
 
-  private handleReportBody(
-    client: Client,
-    roomId: string,
-    reporter: string,
-    bodyLocation: Location,
-    round: number,
-  ): void {
-    const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
-
-    // Only allow during ActionCommit phase
-    if (extended.currentPhase !== 2) {
-      this.send(client, {
-        type: "server:error",
-        code: "INVALID_PHASE",
-        message: "Can only report bodies during action phase",
-      });
-      return;
-    }
-
-    // Validate reporter is alive
-    const reporterPlayer = room.players.find(
-      (p) => p.address.toLowerCase() === reporter.toLowerCase(),
-    );
-    if (!reporterPlayer || !reporterPlayer.isAlive) {
-      this.send(client, {
-        type: "server:error",
-        code: "REPORTER_DEAD",
-        message: "Dead players cannot report bodies",
-      });
-      return;
-    }
-
-    // Validate reporter is at the body location
-    if (reporterPlayer.location !== bodyLocation) {
-      this.send(client, {
-        type: "server:error",
-        code: "NOT_AT_BODY",
-        message: "You must be at the body's location to report it",
-      });
-      return;
-    }
-
-    // Find unreported body at this location
-    const body = extended.deadBodies.find(
-      (b) => b.location === bodyLocation && !b.reported,
-    );
-
-    if (!body) {
-      this.send(client, {
-        type: "server:error",
-        code: "NO_BODY",
-        message: "No unreported body at this location",
-      });
-      return;
-    }
-
-    // Mark body as reported
-    body.reported = true;
+  private handleCallMeeting(client: Client, roomId: string): void {
+    const caller = this.resolveActor(client, undefined, "caller");
+    if (!caller) return;
 
-    // Broadcast body reported
-    this.broadcastToRoom(roomId, {
-      type: "server:body_reported",
-      gameId: roomId,
-      reporter,
-      victim: body.victim,
-      location: bodyLocation,
-      round,
-      timestamp: Date.now(),
+    this.runEngine(roomId, {
+      type: "call_meeting",
+      now: this.scheduler.now(),
+      player: caller,
     });
-
-    logger.info(
-      `Body reported in room ${roomId}: ${reporter} found ${body.victim}`,
-    );
-
-    // Start discussion phase
-    this.startDiscussionPhase(roomId);
   }
 
-  private handleCallMeeting(client: Client, roomId: string): void {
+  private handleChat(
+    client: Client,
+    roomId: string,
+    message: string,
+    rawClaims?: unknown,
+  ): void {
     const room = this.rooms.get(roomId);
     const extended = this.extendedState.get(roomId);
     if (!room || !extended) return;
@@ -1451,135 +2539,96 @@ export class WebSocketRelayServer {
       this.send(client, {
         type: "server:error",
         code: "NOT_AUTHENTICATED",
-        message: "Must be authenticated to call meeting",
+        message: "Must be authenticated to chat",
       });
       return;
     }
 
-    // Only allow during ActionCommit phase
-    if (extended.currentPhase !== 2) {
+    // Only allow during Discussion or Voting phase
+    if (extended.currentPhase !== 4 && extended.currentPhase !== 5) {
       this.send(client, {
         type: "server:error",
         code: "INVALID_PHASE",
-        message: "Can only call meetings during action phase",
-      });
-      return;
-    }
-
-    // Check if player can call meeting
-    const canCall = this.gameStateManager.canCallMeeting(
-      roomId,
-      client.address,
-    );
-    if (!canCall.canCall) {
-      this.send(client, {
-        type: "server:error",
-        code: "CANNOT_CALL_MEETING",
-        message: canCall.reason || "Cannot call emergency meeting",
+        message: "Chat is only available during discussion and voting phases",
       });
       return;
     }
 
-    // Use the meeting
-    const remaining = this.gameStateManager.useEmergencyMeeting(
-      roomId,
-      client.address,
-    );
-
-    // Broadcast meeting called
-    this.broadcastToRoom(roomId, {
-      type: "server:meeting_called",
-      gameId: roomId,
-      caller: client.address,
-      meetingsRemaining: remaining,
-      timestamp: Date.now(),
-    });
-
-    logger.info(
-      `Emergency meeting called in room ${roomId} by ${client.address}`,
+    // Find sender player
+    const senderPlayer = room.players.find(
+      (p) => p.address.toLowerCase() === client.address!.toLowerCase(),
     );
+    if (!senderPlayer) return;
 
-    // Start discussion phase
-    this.startDiscussionPhase(roomId);
-  }
-
-  private handleChat(client: Client, roomId: string, message: string): void {
-    const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
-
-    if (!client.address) {
+    // Turn-based discussion: only the speaker may talk until the rebuttal.
+    // Ghost chat doesn't reach the living, so it stays open.
+    const speaker = extended.speakingOrder[extended.speakerIndex];
+    const turnsRunning =
+      extended.currentPhase === 4 && speaker !== undefined && senderPlayer.isAlive;
+    if (turnsRunning && speaker.toLowerCase() !== client.address.toLowerCase()) {
       this.send(client, {
         type: "server:error",
-        code: "NOT_AUTHENTICATED",
-        message: "Must be authenticated to chat",
+        code: "NOT_YOUR_TURN",
+        message: `Wait for your speaking slot (${speaker} has the floor)`,
       });
       return;
     }
 
-    // Only allow during Discussion or Voting phase
-    if (extended.currentPhase !== 4 && extended.currentPhase !== 5) {
+    // Claims are all-or-nothing: one bad reference drops the whole message
+    const claims = validateChatClaims(rawClaims, {
+      sender: client.address,
+      players: room.players.map((p) => p.address),
+      round: extended.currentRound,
+    });
+    if ("error" in claims) {
       this.send(client, {
         type: "server:error",
-        code: "INVALID_PHASE",
-        message: "Chat is only available during discussion and voting phases",
+        code: "INVALID_CLAIM",
+        message: claims.error,
       });
       return;
     }
 
-    // Find sender player
-    const senderPlayer = room.players.find(
-      (p) => p.address.toLowerCase() === client.address!.toLowerCase(),
-    );
-    if (!senderPlayer) return;
-
     // Sanitize message (limit length, remove dangerous content)
-    const sanitizedMessage = message.slice(0, 200).trim();
-    if (!sanitizedMessage) return;
+    const sanitizedMessage =
+      typeof message === "string" ? message.slice(0, 200).trim() : "";
+    if (!sanitizedMessage && claims.length === 0) return;
 
     const isGhostChat = !senderPlayer.isAlive;
     const senderName = client.name || client.address.slice(0, 8);
 
-    // Broadcast to appropriate players
-    if (isGhostChat) {
-      // Ghost chat - only send to other dead players and spectators
-      for (const [clientId, targetClient] of this.clients) {
-        if (targetClient.roomId !== roomId) continue;
-
-        const targetPlayer = room.players.find(
-          (p) =>
-            p.address?.toLowerCase() === targetClient.address?.toLowerCase(),
-        );
-
-        // Send to dead players or spectators (non-players)
-        if (!targetPlayer || !targetPlayer.isAlive) {
-          this.send(targetClient, {
-            type: "server:chat",
-            gameId: roomId,
-            sender: client.address,
-            senderName,
-            message: sanitizedMessage,
-            isGhostChat: true,
-            timestamp: Date.now(),
-          });
-        }
-      }
-    } else {
-      // Living player chat - broadcast to everyone
-      this.broadcastToRoom(roomId, {
+    // Ghost chat only reaches other dead players (and spectators);
+    // living player chat reaches everyone
+    this.broadcastToRoom(
+      roomId,
+      {
         type: "server:chat",
         gameId: roomId,
         sender: client.address,
         senderName,
         message: sanitizedMessage,
-        isGhostChat: false,
-        timestamp: Date.now(),
-      });
-    }
+        ...(claims.length > 0 && { claims }),
+        isGhostChat,
+        timestamp: this.scheduler.now(),
+      },
+      isGhostChat ? (p) => !p.isAlive : undefined,
+    );
 
     logger.debug(
-      `Chat in room ${roomId} from ${senderName}: ${sanitizedMessage.slice(0, 50)}...`,
+      `Chat in room ${roomId} from ${senderName}: ${sanitizedMessage.slice(0, 50)}...` +
+        (claims.length > 0
+          ? ` [${claims.map((c) => c.kind).join(", ")}]`
+          : ""),
     );
+
+    // Saying something ends the speaker's slot
+    if (turnsRunning) {
+      this.runEngine(roomId, {
+        type: "end_turn",
+        now: this.scheduler.now(),
+        speaker: client.address,
+      });
+    }
   }
 
   // ============ SABOTAGE SYSTEM ============
@@ -1589,363 +2638,85 @@ export class WebSocketRelayServer {
     roomId: string,
     sabotageType: SabotageType,
   ): void {
-    const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
-
-    if (!client.address) {
-      this.send(client, {
-        type: "server:error",
-        code: "NOT_AUTHENTICATED",
-        message: "Must be authenticated to sabotage",
-      });
-      return;
-    }
-
-    // Only allow during ActionCommit phase
-    if (extended.currentPhase !== 2) {
-      this.send(client, {
-        type: "server:error",
-        code: "INVALID_PHASE",
-        message: "Can only sabotage during action phase",
-      });
-      return;
-    }
-
-    // Check if can sabotage
-    const canSabotage = this.gameStateManager.canSabotage(
-      roomId,
-      client.address,
-    );
-    if (!canSabotage.canSabotage) {
-      this.send(client, {
-        type: "server:error",
-        code: "CANNOT_SABOTAGE",
-        message: canSabotage.reason || "Cannot sabotage",
-      });
-      return;
-    }
-
-    // Get sabotage config
-    const config = this.gameStateManager.getSabotageConfig(sabotageType);
-    if (!config) {
-      this.send(client, {
-        type: "server:error",
-        code: "INVALID_SABOTAGE",
-        message: "Invalid sabotage type",
-      });
-      return;
-    }
-
-    // Start sabotage
-    const sabotage = this.gameStateManager.startSabotage(
-      roomId,
-      client.address,
-      sabotageType,
-    );
-    if (!sabotage) {
-      this.send(client, {
-        type: "server:error",
-        code: "SABOTAGE_FAILED",
-        message: "Failed to start sabotage",
-      });
-      return;
-    }
+    const player = this.resolveActor(client, undefined, "player");
+    if (!player) return;
 
-    // Broadcast sabotage started
-    this.broadcastToRoom(roomId, {
-      type: "server:sabotage_started",
-      gameId: roomId,
-      sabotageType,
-      sabotager: client.address,
-      timeLimit: config.timeLimit,
-      fixLocations: config.fixLocations as Location[],
-      timestamp: Date.now(),
+    this.runEngine(roomId, {
+      type: "sabotage",
+      now: this.scheduler.now(),
+      player,
+      sabotage: sabotageType,
     });
-
-    logger.info(
-      `Sabotage started in room ${roomId}: type ${sabotageType} by ${client.address}`,
-    );
-
-    // Set up critical sabotage timer
-    if (config.isCritical && config.timeLimit > 0) {
-      setTimeout(() => {
-        this.checkCriticalSabotage(roomId);
-      }, config.timeLimit * 1000);
-    }
   }
 
   private handleFixSabotage(
     client: Client,
     roomId: string,
-    location: Location,
+    claimedLocation: Location | undefined,
   ): void {
-    const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
-
-    if (!client.address) {
-      this.send(client, {
-        type: "server:error",
-        code: "NOT_AUTHENTICATED",
-        message: "Must be authenticated to fix sabotage",
-      });
-      return;
-    }
-
-    // Only allow during ActionCommit phase
-    if (extended.currentPhase !== 2) {
-      this.send(client, {
-        type: "server:error",
-        code: "INVALID_PHASE",
-        message: "Can only fix sabotage during action phase",
-      });
-      return;
-    }
-
-    // Get player and verify they're alive and at the right location
-    const player = room.players.find(
-      (p) => p.address.toLowerCase() === client.address!.toLowerCase(),
-    );
-    if (!player || !player.isAlive) {
-      this.send(client, {
-        type: "server:error",
-        code: "PLAYER_DEAD",
-        message: "Dead players cannot fix sabotage",
-      });
-      return;
-    }
-
-    if (player.location !== location) {
-      this.send(client, {
-        type: "server:error",
-        code: "WRONG_LOCATION",
-        message: "Must be at the fix location to repair sabotage",
-      });
-      return;
-    }
-
-    // Attempt to fix
-    const sabotage = this.gameStateManager.getActiveSabotage(roomId);
-    if (!sabotage) {
-      this.send(client, {
-        type: "server:error",
-        code: "NO_SABOTAGE",
-        message: "No active sabotage to fix",
-      });
-      return;
-    }
-
-    const result = this.gameStateManager.fixSabotage(
-      roomId,
-      client.address,
-      location,
-    );
-
-    if (result.fixed) {
-      // Sabotage fully fixed
-      this.broadcastToRoom(roomId, {
-        type: "server:sabotage_fixed",
-        gameId: roomId,
-        sabotageType: sabotage.type as SabotageType,
-        fixedBy: client.address,
-        location,
-        timestamp: Date.now(),
-      });
-      logger.info(`Sabotage fixed in room ${roomId} by ${client.address}`);
-    } else if (result.partialFix) {
-      // Partial fix (e.g., for Reactor)
-      logger.debug(
-        `Partial sabotage fix in room ${roomId} by ${client.address} at location ${location}`,
-      );
-    } else if (result.reason) {
-      this.send(client, {
-        type: "server:error",
-        code: "FIX_FAILED",
-        message: result.reason,
-      });
-    }
-  }
+    const player = this.resolveActor(client, undefined, "player");
+    if (!player) return;
 
-  private async checkCriticalSabotage(roomId: string): Promise<void> {
-    const timedOut = this.gameStateManager.checkSabotageTimeout(roomId);
-    if (timedOut) {
-      const sabotage = this.gameStateManager.getActiveSabotage(roomId);
-      if (sabotage) {
-        // Impostors win by critical sabotage
-        this.broadcastToRoom(roomId, {
-          type: "server:sabotage_failed",
-          gameId: roomId,
-          sabotageType: sabotage.type as SabotageType,
-          reason: "timeout",
-          timestamp: Date.now(),
-        });
-        logger.info(
-          `Critical sabotage timed out in room ${roomId} - Impostors win`,
-        );
-        this.endGame(roomId, false, "kills").catch((err) => {
-          logger.error(`Error ending game after sabotage timeout:`, err);
-        }); // Impostors win - fire and forget since this might be from a timer
-      }
-    }
+    // Fixes happen where the player actually is; a claimed location must match
+    this.runEngine(roomId, {
+      type: "fix_sabotage",
+      now: this.scheduler.now(),
+      player,
+      location: claimedLocation,
+    });
   }
 
-  // ============ VENT SYSTEM ============
-
-  private handleVent(
-    client: Client,
-    roomId: string,
-    action: "enter" | "exit" | "move",
-    targetLocation?: Location,
-  ): void {
-    const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
-
-    if (!client.address) {
-      this.send(client, {
-        type: "server:error",
-        code: "NOT_AUTHENTICATED",
-        message: "Must be authenticated to use vents",
-      });
-      return;
-    }
-
-    // Only allow during ActionCommit phase
-    if (extended.currentPhase !== 2) {
-      this.send(client, {
-        type: "server:error",
-        code: "INVALID_PHASE",
-        message: "Can only use vents during action phase",
-      });
-      return;
-    }
-
-    // Get player
-    const player = room.players.find(
-      (p) => p.address.toLowerCase() === client.address!.toLowerCase(),
+  /**
+   * Check a critical sabotage once its deadline has passed
+   */
+  private armSabotageTimer(roomId: string, endTime: number): void {
+    this.scheduler.setTimeout(
+      () => {
+        this.checkCriticalSabotage(roomId);
+      },
+      Math.max(endTime - this.scheduler.now(), 0),
     );
-    if (!player || !player.isAlive) {
-      this.send(client, {
-        type: "server:error",
-        code: "PLAYER_DEAD",
-        message: "Dead players cannot use vents",
-      });
-      return;
-    }
-
-    const currentLocation = player.location;
-
-    switch (action) {
-      case "enter": {
-        const canEnter = this.gameStateManager.canEnterVent(
-          roomId,
-          client.address,
-          currentLocation,
-        );
-        if (!canEnter.canEnter) {
-          this.send(client, {
-            type: "server:error",
-            code: "CANNOT_VENT",
-            message: canEnter.reason || "Cannot enter vent",
-          });
-          return;
-        }
-
-        this.gameStateManager.enterVent(roomId, client.address);
-
-        // Broadcast to impostors and spectators only
-        this.broadcastVentAction(
-          roomId,
-          client.address,
-          "enter",
-          currentLocation,
-        );
-        logger.info(
-          `Player ${client.address} entered vent at ${currentLocation} in room ${roomId}`,
-        );
-        break;
-      }
-
-      case "exit": {
-        if (!this.gameStateManager.isInVent(roomId, client.address)) {
-          this.send(client, {
-            type: "server:error",
-            code: "NOT_IN_VENT",
-            message: "Not currently in a vent",
-          });
-          return;
-        }
-
-        this.gameStateManager.exitVent(roomId, client.address);
-
-        // Broadcast to impostors and spectators only
-        this.broadcastVentAction(
-          roomId,
-          client.address,
-          "exit",
-          currentLocation,
-        );
-        logger.info(
-          `Player ${client.address} exited vent at ${currentLocation} in room ${roomId}`,
-        );
-        break;
-      }
-
-      case "move": {
-        if (!this.gameStateManager.isInVent(roomId, client.address)) {
-          this.send(client, {
-            type: "server:error",
-            code: "NOT_IN_VENT",
-            message: "Must be in a vent to move between vents",
-          });
-          return;
-        }
-
-        if (targetLocation === undefined) {
-          this.send(client, {
-            type: "server:error",
-            code: "NO_TARGET",
-            message: "Must specify target vent location",
-          });
-          return;
-        }
+  }
 
-        // Validate vent connection
-        const validation = this.gameStateManager.validateMovement(
-          roomId,
-          client.address,
-          currentLocation,
-          targetLocation,
-          true, // isVent = true
-        );
+  private checkCriticalSabotage(roomId: string): void {
+    // Fire and forget since this runs from a timer
+    this.endGameIfWon(
+      roomId,
+      this.runEngine(roomId, {
+        type: "sabotage_timeout",
+        now: this.scheduler.now(),
+      }),
+    ).catch((err) => {
+      logger.error(`Error ending game after sabotage timeout:`, err);
+    });
+  }
 
-        if (!validation.valid) {
-          this.send(client, {
-            type: "server:error",
-            code: "INVALID_VENT",
-            message: validation.reason || "Cannot move to that vent",
-          });
-          return;
-        }
+  // ============ VENT SYSTEM ============
 
-        // Update player location
-        player.location = targetLocation;
+  private handleVent(
+    client: Client,
+    roomId: string,
+    action: "enter" | "exit" | "move",
+  ): void {
+    const player = this.resolveActor(client, undefined, "player");
+    if (!player) return;
 
-        // Broadcast to impostors and spectators only
-        this.broadcastVentAction(
-          roomId,
-          client.address,
-          "move",
-          currentLocation,
-          targetLocation,
-        );
-        logger.info(
-          `Player ${client.address} moved through vent from ${currentLocation} to ${targetLocation} in room ${roomId}`,
-        );
-        break;
-      }
+    // Travel is movement, so it is committed and revealed with the round
+    if (action === "move") {
+      this.sendError(
+        client,
+        "USE_COMMIT_REVEAL",
+        "agent:vent move is not accepted; commit and reveal a Vent action with the destination instead",
+      );
+      return;
     }
+
+    this.runEngine(roomId, {
+      type: "vent",
+      now: this.scheduler.now(),
+      player,
+      action,
+    });
   }
 
   private broadcastVentAction(
@@ -1966,7 +2737,7 @@ export class WebSocketRelayServer {
       action,
       fromLocation,
       toLocation,
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     };
 
     // Only send to impostors and spectators (not crewmates)
@@ -1996,76 +2767,21 @@ export class WebSocketRelayServer {
     roomId: string,
     action: "start" | "stop",
   ): void {
-    const room = this.rooms.get(roomId);
-    const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
-
-    if (!client.address) {
-      this.send(client, {
-        type: "server:error",
-        code: "NOT_AUTHENTICATED",
-        message: "Must be authenticated to use cameras",
-      });
-      return;
-    }
-
-    // Only allow during ActionCommit phase
-    if (extended.currentPhase !== 2) {
-      this.send(client, {
-        type: "server:error",
-        code: "INVALID_PHASE",
-        message: "Can only use cameras during action phase",
-      });
-      return;
-    }
-
-    // Get player and verify they're alive and at Security
-    const player = room.players.find(
-      (p) => p.address.toLowerCase() === client.address!.toLowerCase(),
-    );
-    if (!player || !player.isAlive) {
-      this.send(client, {
-        type: "server:error",
-        code: "PLAYER_DEAD",
-        message: "Dead players cannot use cameras",
-      });
-      return;
-    }
-
-    // Must be at Security (location 7) to use cameras
-    if (player.location !== 7) {
-      this.send(client, {
-        type: "server:error",
-        code: "WRONG_LOCATION",
-        message: "Must be at Security to use cameras",
-      });
-      return;
-    }
-
-    if (action === "start") {
-      this.gameStateManager.startWatchingCameras(roomId, client.address);
-
-      // Send initial camera feed
-      this.sendCameraFeed(client, roomId);
-
-      logger.info(
-        `Player ${client.address} started watching cameras in room ${roomId}`,
-      );
-    } else {
-      this.gameStateManager.stopWatchingCameras(roomId, client.address);
-      logger.info(
-        `Player ${client.address} stopped watching cameras in room ${roomId}`,
-      );
-    }
+    const player = this.resolveActor(client, undefined, "player");
+    if (!player) return;
 
-    // Broadcast camera status change (red light indicator)
-    this.broadcastCameraStatus(roomId);
+    this.runEngine(roomId, {
+      type: "use_cameras",
+      now: this.scheduler.now(),
+      player,
+      watching: action === "start",
+    });
   }
 
   private sendCameraFeed(client: Client, roomId: string): void {
     const playersVisible = this.gameStateManager.getPlayersOnCameras(roomId);
 
-    this.send(client, {
+    this.sendPrivate(client, roomId, {
       type: "server:camera_feed",
       gameId: roomId,
       playersVisible: playersVisible.map((p) => ({
@@ -2073,7 +2789,7 @@ export class WebSocketRelayServer {
         location: p.location as Location,
         isAlive: p.isAlive,
       })),
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     });
   }
 
@@ -2086,281 +2802,647 @@ export class WebSocketRelayServer {
       gameId: roomId,
       camerasInUse,
       watcherCount,
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     });
   }
 
   // ============ PHASE MANAGEMENT ============
 
-  private startDiscussionPhase(roomId: string): void {
+  /**
+   * The engine's view of a room, built fresh for every command
+   */
+  private engineState(
+    room: RoomState,
+    extended: ExtendedRoomState,
+  ): EngineState {
+    return {
+      phase: extended.currentPhase,
+      round: extended.currentRound,
+      phaseEndTime: extended.phaseEndTime,
+      players: room.players,
+      impostors: [...extended.impostors],
+      votes: Object.fromEntries(extended.votes),
+      deadBodies: extended.deadBodies,
+      settings: room.settings,
+      speakingOrder: extended.speakingOrder,
+      speakerIndex: extended.speakerIndex,
+      ...this.gameStateManager.getRuleState(room.roomId),
+    };
+  }
+
+  /**
+   * Apply a command to a room through the game engine, write the new state
+   * back, and carry out the resulting events. Returns the events so callers
+   * can react to a win.
+   */
+  private runEngine(roomId: string, command: EngineCommand): EngineEvent[] {
     const room = this.rooms.get(roomId);
     const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
+    if (!room || !extended) return [];
 
-    // Clear any existing timer
-    if (extended.phaseTimer) {
-      clearTimeout(extended.phaseTimer);
+    const { state, events } = this.engine.apply(
+      this.engineState(room, extended),
+      command,
+    );
+
+    extended.currentPhase = state.phase;
+    extended.currentRound = state.round;
+    extended.phaseEndTime = state.phaseEndTime;
+    extended.votes = new Map(Object.entries(state.votes));
+    extended.deadBodies = state.deadBodies;
+    extended.speakingOrder = state.speakingOrder;
+    extended.speakerIndex = state.speakerIndex;
+    // Update in place: the game state manager holds the same player objects
+    state.players.forEach((player, i) => {
+      Object.assign(room.players[i], player);
+    });
+    this.gameStateManager.setRuleState(roomId, state);
+
+    for (const event of events) {
+      this.handleEngineEvent(roomId, event);
     }
+    return events;
+  }
+
+  private handleEngineEvent(roomId: string, event: EngineEvent): void {
+    const room = this.rooms.get(roomId);
+    const extended = this.extendedState.get(roomId);
+    if (!room || !extended) return;
 
-    // Clear any active sabotage (meetings reset sabotages)
-    this.gameStateManager.clearSabotage(roomId);
+    switch (event.type) {
+      case "phase_changed":
+        if (event.phase === 2) {
+          this.gameStateManager.beginActionRound(roomId, event.round);
+        }
 
-    // Force all players out of vents
-    this.gameStateManager.clearAllVents(roomId);
+        this.broadcastToRoom(roomId, {
+          type: "server:phase_changed",
+          gameId: roomId,
+          phase: event.phase,
+          previousPhase: event.previousPhase,
+          round: event.round,
+          phaseEndTime: event.phaseEndTime,
+          seedHash:
+            event.previousPhase === 0 ? extended.fairness?.seedHash : undefined,
+          timestamp: this.scheduler.now(),
+        });
 
-    // Stop all camera watchers
-    this.gameStateManager.clearAllCameraWatchers(roomId);
+        logger.info(
+          `Room ${roomId} entered phase ${event.phase} (round ${event.round})`,
+        );
+        this.armPhaseTimer(roomId, event.phaseEndTime - this.scheduler.now());
+        break;
 
-    const previousPhase = extended.currentPhase;
-    extended.currentPhase = 4; // Discussion
+      case "speaker_changed": {
+        this.broadcastToRoom(roomId, {
+          type: "server:discussion_turn",
+          gameId: roomId,
+          speaker: event.speaker,
+          turn: event.turn,
+          turns: event.turns,
+          round: event.round,
+          turnEndTime: event.phaseEndTime,
+          timestamp: this.scheduler.now(),
+        });
 
-    const phaseEndTime = Date.now() + DISCUSSION_DURATION;
+        const speaker = event.speaker && this.findClientByAddress(event.speaker);
+        if (speaker) {
+          this.sendSpeakingTurn(speaker, roomId);
+        }
 
-    this.broadcastToRoom(roomId, {
-      type: "server:phase_changed",
-      gameId: roomId,
-      phase: 4,
-      previousPhase,
-      round: extended.currentRound,
-      phaseEndTime,
-      timestamp: Date.now(),
-    });
+        logger.info(
+          event.speaker
+            ? `Room ${roomId}: ${event.speaker} has the floor (${event.turn + 1}/${event.turns})`
+            : `Room ${roomId}: rebuttal open`,
+        );
+        this.armPhaseTimer(roomId, event.phaseEndTime - this.scheduler.now());
+        break;
+      }
+
+      case "round_ready":
+        this.resolveActionRound(roomId).catch((err) => {
+          logger.error(`Error resolving round in room ${roomId}:`, err);
+        });
+        break;
+
+      case "round_resolved": {
+        const forfeited = this.gameStateManager.getUnrevealedCommitters(roomId);
+        this.broadcastToRoom(roomId, {
+          type: "server:round_resolved",
+          gameId: roomId,
+          round: event.round,
+          resolvedCount: event.resolvedCount,
+          forfeited,
+          timestamp: this.scheduler.now(),
+        });
+
+        logger.info(
+          `Round ${event.round} resolved in room ${roomId}: ${event.resolvedCount} actions, ${forfeited.length} forfeited`,
+        );
+        break;
+      }
+
+      case "player_moved":
+        // Ghost movement, like ghost chat, only reaches the dead (and spectators)
+        this.broadcastToRoom(
+          roomId,
+          {
+            type: "server:player_moved",
+            gameId: roomId,
+            address: event.address,
+            from: event.from,
+            to: event.to,
+            round: event.round,
+            timestamp: this.scheduler.now(),
+          },
+          event.ghost ? (p) => !p.isAlive : undefined,
+        );
+        break;
+
+      case "kill_occurred": {
+        // Only witnesses learn about the kill now; everyone else finds out when
+        // the body is reported. Spectators always see it.
+        const seenBy = [event.killer, event.victim, ...event.witnesses].map(
+          (a) => a.toLowerCase(),
+        );
+        this.broadcastToRoom(
+          roomId,
+          {
+            type: "server:kill_occurred",
+            gameId: roomId,
+            killer: event.killer,
+            victim: event.victim,
+            location: event.location,
+            round: event.round,
+            timestamp: this.scheduler.now(),
+          },
+          (p) => seenBy.includes(p.address.toLowerCase()),
+        );
+
+        logger.info(
+          `Kill in room ${roomId}: ${event.killer} killed ${event.victim}`,
+        );
+
+        // Record kill for agent stats
+        this.recordKill(event.killer);
+        break;
+      }
+
+      case "body_reported":
+        this.broadcastToRoom(roomId, {
+          type: "server:body_reported",
+          gameId: roomId,
+          reporter: event.reporter,
+          victim: event.victim,
+          location: event.location,
+          round: event.round,
+          timestamp: this.scheduler.now(),
+        });
+
+        logger.info(
+          `Body reported in room ${roomId}: ${event.reporter} found ${event.victim}`,
+        );
+        break;
+
+      case "meeting_called":
+        this.broadcastToRoom(roomId, {
+          type: "server:meeting_called",
+          gameId: roomId,
+          caller: event.caller,
+          meetingsRemaining: event.meetingsRemaining,
+          timestamp: this.scheduler.now(),
+        });
+
+        logger.info(
+          `Emergency meeting called in room ${roomId} by ${event.caller}`,
+        );
+        break;
+
+      case "task_progressed": {
+        const client = this.findClientByAddress(event.player);
+        if (client) this.sendTaskAssignment(client, roomId);
+
+        // Intermediate steps of multi-step tasks don't move the task bar
+        if (event.completed) {
+          this.broadcastToRoom(roomId, {
+            type: "server:task_completed",
+            gameId: roomId,
+            player: event.player,
+            tasksCompleted: event.tasksCompleted,
+            totalTasks: event.totalTasks,
+            totalProgress: event.totalProgress,
+            timestamp: this.scheduler.now(),
+          });
+        }
+        break;
+      }
+
+      case "player_vented":
+        // Impostors and spectators only
+        this.broadcastVentAction(
+          roomId,
+          event.player,
+          event.action,
+          event.from,
+          event.to,
+        );
+        logger.info(
+          `Player ${event.player} vent ${event.action} at ${event.from} in room ${roomId}`,
+        );
+        break;
+
+      case "sabotage_started":
+        this.broadcastToRoom(roomId, {
+          type: "server:sabotage_started",
+          gameId: roomId,
+          sabotageType: event.sabotage,
+          sabotager: event.sabotager,
+          timeLimit: event.timeLimit,
+          fixLocations: event.fixLocations,
+          timestamp: this.scheduler.now(),
+        });
+
+        logger.info(
+          `Sabotage started in room ${roomId}: type ${event.sabotage} by ${event.sabotager}`,
+        );
+
+        if (event.endTime > 0) {
+          this.armSabotageTimer(roomId, event.endTime);
+        }
+        break;
+
+      case "sabotage_fixed":
+        this.broadcastToRoom(roomId, {
+          type: "server:sabotage_fixed",
+          gameId: roomId,
+          sabotageType: event.sabotage,
+          fixedBy: event.fixedBy,
+          location: event.location,
+          timestamp: this.scheduler.now(),
+        });
+        logger.info(`Sabotage fixed in room ${roomId} by ${event.fixedBy}`);
+        break;
 
-    logger.info(`Discussion phase started in room ${roomId}`);
+      case "sabotage_failed":
+        this.broadcastToRoom(roomId, {
+          type: "server:sabotage_failed",
+          gameId: roomId,
+          sabotageType: event.sabotage,
+          reason: "timeout",
+          timestamp: this.scheduler.now(),
+        });
+        logger.info(
+          `Critical sabotage timed out in room ${roomId} - Impostors win`,
+        );
+        break;
+
+      case "cameras_changed": {
+        const client = this.findClientByAddress(event.player);
+        if (client && event.watching) this.sendCameraFeed(client, roomId);
+
+        logger.info(
+          `Player ${event.player} ${event.watching ? "started" : "stopped"} watching cameras in room ${roomId}`,
+        );
+        // Red light indicator
+        this.broadcastCameraStatus(roomId);
+        break;
+      }
+
+      case "vote_cast":
+        this.broadcastToRoom(roomId, {
+          type: "server:vote_cast",
+          gameId: roomId,
+          voter: event.voter,
+          target: room.settings.anonymousVotes ? undefined : event.target,
+          round: event.round,
+          timestamp: this.scheduler.now(),
+        });
+        break;
+
+      case "player_ejected":
+        this.broadcastToRoom(roomId, {
+          type: "server:player_ejected",
+          gameId: roomId,
+          ejected: event.address,
+          wasImpostor: room.settings.confirmEjects
+            ? event.wasImpostor
+            : undefined,
+          round: event.round,
+          timestamp: this.scheduler.now(),
+        });
+
+        logger.info(
+          `Player ejected in room ${roomId}: ${event.address} (${event.wasImpostor ? "Impostor" : "Crewmate"})`,
+        );
+        break;
+
+      case "voting_resolved":
+        if (event.tie) {
+          logger.info(`Voting tie in room ${roomId}, no ejection`);
+        }
+        // Hold the result on screen before moving on
+        this.armPhaseTimer(roomId, event.phaseEndTime - this.scheduler.now());
+        break;
+
+      case "game_won":
+        logger.info(
+          `Win condition in room ${roomId}: ${event.winner} (${event.reason})`,
+        );
+        break;
+
+      case "rejected":
+        logger.warn(
+          `Rejected ${event.command} in room ${roomId}: ${event.reason}`,
+        );
+        break;
 
-    // Set timer to transition to voting
-    extended.phaseTimer = setTimeout(() => {
-      this.startVotingPhase(roomId);
-    }, DISCUSSION_DURATION);
+      case "action_rejected": {
+        const client = this.findClientByAddress(event.player);
+        if (client) this.sendError(client, event.code, event.reason);
+        break;
+      }
+    }
   }
 
-  private startVotingPhase(roomId: string): void {
-    const room = this.rooms.get(roomId);
+  /**
+   * (Re)start the timer that moves a room out of its current phase
+   */
+  private armPhaseTimer(roomId: string, delay: number): void {
     const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return;
+    if (!extended) return;
 
-    // Clear any existing timer
     if (extended.phaseTimer) {
-      clearTimeout(extended.phaseTimer);
+      this.scheduler.clearTimeout(extended.phaseTimer);
     }
 
-    const previousPhase = extended.currentPhase;
-    extended.currentPhase = 5; // Voting
+    extended.phaseTimer = this.scheduler.setTimeout(
+      () => {
+        extended.phaseTimer = null;
+        this.onPhaseTimeout(roomId);
+      },
+      Math.max(delay, 0),
+    );
+  }
+
+  private onPhaseTimeout(roomId: string): void {
+    const extended = this.extendedState.get(roomId);
+    if (!extended) return;
 
-    // Initialize voting
-    extended.votes.clear();
-    for (const player of room.players) {
-      player.hasVoted = false;
+    switch (extended.currentPhase) {
+      case 2: // ActionCommit
+        this.startRevealPhase(roomId);
+        break;
+      case 3: // ActionReveal
+        this.resolveActionRound(roomId).catch((err) => {
+          logger.error(`Error resolving round in room ${roomId}:`, err);
+        });
+        break;
+      case 4: // Discussion
+        this.runEngine(roomId, {
+          // Turn-based: the speaker's slot ran out; open voting after the rebuttal
+          type:
+            extended.speakerIndex < extended.speakingOrder.length
+              ? "end_turn"
+              : "open_voting",
+          now: this.scheduler.now(),
+        });
+        break;
+      case 5: // Voting
+        this.runEngine(roomId, {
+          type: "close_voting",
+          now: this.scheduler.now(),
+        });
+        break;
+      case 6: // VoteResult
+        this.endGameIfWon(
+          roomId,
+          this.runEngine(roomId, {
+            type: "finish_vote_result",
+            now: this.scheduler.now(),
+          }),
+        ).catch((err) => {
+          logger.error(`Error ending game after ejection:`, err);
+        });
+        break;
     }
+  }
 
-    const phaseEndTime = Date.now() + VOTING_DURATION;
+  /**
+   * Tell a player their speaking slot is open, if it is
+   */
+  private sendSpeakingTurn(client: Client, roomId: string): void {
+    const extended = this.extendedState.get(roomId);
+    const speaker = extended?.speakingOrder[extended.speakerIndex];
+    if (
+      !extended ||
+      extended.currentPhase !== 4 ||
+      speaker?.toLowerCase() !== client.address?.toLowerCase()
+    ) {
+      return;
+    }
 
-    this.broadcastToRoom(roomId, {
-      type: "server:phase_changed",
+    this.sendPrivate(client, roomId, {
+      type: "server:your_turn_to_speak",
       gameId: roomId,
-      phase: 5,
-      previousPhase,
+      turn: extended.speakerIndex,
+      turns: extended.speakingOrder.length,
       round: extended.currentRound,
-      phaseEndTime,
-      timestamp: Date.now(),
+      deadline: extended.phaseEndTime,
+      timestamp: this.scheduler.now(),
     });
+  }
+
+  // ============ COMMIT-REVEAL ROUNDS ============
 
-    logger.info(`Voting phase started in room ${roomId}`);
+  /**
+   * Open the first commit window of a game
+   */
+  private startActionRound(roomId: string): void {
+    this.runEngine(roomId, { type: "start_game", now: this.scheduler.now() });
+  }
 
-    // Set timer to resolve voting
-    extended.phaseTimer = setTimeout(() => {
-      this.resolveVoting(roomId);
-    }, VOTING_DURATION);
+  /**
+   * Close commitments and open the reveal window. Skipped if nobody committed.
+   */
+  private startRevealPhase(roomId: string): void {
+    this.runEngine(roomId, {
+      type: "close_commits",
+      now: this.scheduler.now(),
+      commitCount: this.gameStateManager.getCommitmentCount(roomId),
+    });
   }
 
-  private resolveVoting(roomId: string): void {
+  private handleCommitAction(
+    client: Client,
+    roomId: string,
+    round: number,
+    commitHash: string,
+  ): void {
     const room = this.rooms.get(roomId);
     const extended = this.extendedState.get(roomId);
     if (!room || !extended) return;
 
-    // Clear any existing timer
-    if (extended.phaseTimer) {
-      clearTimeout(extended.phaseTimer);
-      extended.phaseTimer = null;
-    }
-
-    // Tally votes
-    const voteCounts = new Map<string, number>();
-    let skipCount = 0;
-
-    for (const target of extended.votes.values()) {
-      if (target === null) {
-        skipCount++;
-      } else {
-        voteCounts.set(target, (voteCounts.get(target) || 0) + 1);
-      }
-    }
-
-    // Find max votes
-    let maxVotes = skipCount;
-    let ejected: string | null = null;
-    let isTie = false;
+    const player = this.resolveActor(client, undefined, "player");
+    if (!player) return;
 
-    for (const [target, count] of voteCounts) {
-      if (count > maxVotes) {
-        maxVotes = count;
-        ejected = target;
-        isTie = false;
-      } else if (count === maxVotes && ejected !== null) {
-        isTie = true;
-      }
+    if (extended.currentPhase !== 2) {
+      this.sendError(
+        client,
+        "INVALID_PHASE",
+        "Actions can only be committed during the commit phase",
+      );
+      return;
     }
 
-    if (isTie) {
-      ejected = null;
-      logger.info(`Voting tie in room ${roomId}, no ejection`);
+    const playerState = room.players.find(
+      (p) => p.address.toLowerCase() === player.toLowerCase(),
+    );
+    if (!playerState) {
+      this.sendError(client, "NOT_IN_GAME", "You are not a player in this game");
+      return;
     }
 
-    const previousPhase = extended.currentPhase;
-    extended.currentPhase = 6; // VoteResult
-
-    // Eject player if there was a majority
-    let wasImpostor = false;
-    if (ejected) {
-      const ejectedPlayer = room.players.find(
-        (p) => p.address.toLowerCase() === ejected!.toLowerCase(),
+    const result = this.gameStateManager.recordCommitment(
+      roomId,
+      player,
+      round,
+      commitHash,
+    );
+    if (!result.accepted) {
+      this.sendError(
+        client,
+        "COMMIT_REJECTED",
+        result.reason || "Commitment rejected",
       );
-      if (ejectedPlayer) {
-        ejectedPlayer.isAlive = false;
-        wasImpostor = extended.impostors.has(ejected.toLowerCase());
-      }
+      return;
+    }
 
-      this.broadcastToRoom(roomId, {
-        type: "server:player_ejected",
-        gameId: roomId,
-        ejected,
-        wasImpostor,
-        round: extended.currentRound,
-        timestamp: Date.now(),
-      });
+    // Ghosts may commit (e.g. tasks) but the round never waits on them, nor
+    // do their commitments stand in for a living player's
+    const living = room.players.filter((p) => p.isAlive).map((p) => p.address);
+    const expectedCount = living.length;
+    const committedCount = this.gameStateManager.getCommitmentCount(
+      roomId,
+      living,
+    );
 
-      logger.info(
-        `Player ejected in room ${roomId}: ${ejected} (${wasImpostor ? "Impostor" : "Crewmate"})`,
-      );
-    }
+    // The tally everyone sees counts who looks alive, so an unreported
+    // victim's silence doesn't give the kill away
+    const seemAlive = this.publicRoomView(room)
+      .players.filter((p) => p.isAlive)
+      .map((p) => p.address);
+    this.broadcastToRoom(roomId, {
+      type: "server:action_committed",
+      gameId: roomId,
+      round,
+      player: playerState.address,
+      committedCount: this.gameStateManager.getCommitmentCount(
+        roomId,
+        seemAlive,
+      ),
+      expectedCount: seemAlive.length,
+      timestamp: this.scheduler.now(),
+    });
 
-    // Check win condition
-    const winResult = this.checkWinCondition(roomId);
-    if (winResult.winner) {
-      // Delay game end to show ejection
-      setTimeout(() => {
-        this.endGame(
-          roomId,
-          winResult.winner === "crewmates",
-          winResult.reason!,
-        ).catch((err) => {
-          logger.error(`Error ending game after ejection:`, err);
-        });
-      }, EJECTION_DURATION);
-      return;
+    if (committedCount >= expectedCount) {
+      this.startRevealPhase(roomId);
     }
-
-    // Return to ActionCommit phase after ejection screen
-    setTimeout(() => {
-      this.returnToActionPhase(roomId);
-    }, EJECTION_DURATION);
   }
 
-  private returnToActionPhase(roomId: string): void {
+  private async handleRevealAction(
+    client: Client,
+    roomId: string,
+    round: number,
+    action: GameAction,
+    salt: string,
+  ): Promise<void> {
     const room = this.rooms.get(roomId);
     const extended = this.extendedState.get(roomId);
     if (!room || !extended) return;
 
-    // Clear bodies that were reported
-    extended.deadBodies = extended.deadBodies.filter((b) => !b.reported);
-
-    // Increment round
-    extended.currentRound++;
+    const player = this.resolveActor(client, undefined, "player");
+    if (!player) return;
 
-    const previousPhase = extended.currentPhase;
-    extended.currentPhase = 2; // ActionCommit
+    if (extended.currentPhase !== 3) {
+      this.sendError(
+        client,
+        "INVALID_PHASE",
+        "Actions can only be revealed during the reveal phase",
+      );
+      return;
+    }
 
-    // Reset vote states
-    extended.votes.clear();
-    for (const player of room.players) {
-      player.hasVoted = false;
+    const result = this.gameStateManager.recordReveal(
+      roomId,
+      player,
+      round,
+      action,
+      salt,
+    );
+    if (!result.accepted) {
+      this.sendError(
+        client,
+        "REVEAL_REJECTED",
+        result.reason || "Reveal rejected",
+      );
+      return;
     }
 
+    const expectedCount = this.gameStateManager.getCommitmentCount(roomId);
+    const revealedCount = this.gameStateManager.getRevealCount(roomId);
+
     this.broadcastToRoom(roomId, {
-      type: "server:phase_changed",
+      type: "server:action_revealed",
       gameId: roomId,
-      phase: 2,
-      previousPhase,
-      round: extended.currentRound,
-      phaseEndTime: Date.now() + 60000,
-      timestamp: Date.now(),
+      round,
+      player,
+      revealedCount,
+      expectedCount,
+      timestamp: this.scheduler.now(),
     });
 
-    logger.info(
-      `Returned to ActionCommit phase in room ${roomId}, round ${extended.currentRound}`,
-    );
+    if (revealedCount >= expectedCount) {
+      await this.resolveActionRound(roomId);
+    }
   }
 
-  // ============ WIN CONDITIONS ============
-
-  private checkWinCondition(roomId: string): WinConditionResult {
-    const room = this.rooms.get(roomId);
+  /**
+   * Apply every verified reveal at once, in resolution order, then move on to
+   * the next round unless a meeting was called or the game ended
+   */
+  private async resolveActionRound(roomId: string): Promise<void> {
     const extended = this.extendedState.get(roomId);
-    if (!room || !extended) return { winner: null };
-
-    const alivePlayers = room.players.filter((p) => p.isAlive);
-    const aliveImpostors = alivePlayers.filter((p) =>
-      extended.impostors.has(p.address.toLowerCase()),
-    );
-    const aliveCrewmates = alivePlayers.filter(
-      (p) => !extended.impostors.has(p.address.toLowerCase()),
-    );
-
-    // Impostors win if they equal or outnumber crewmates
-    if (
-      aliveImpostors.length >= aliveCrewmates.length &&
-      aliveCrewmates.length > 0
-    ) {
-      logger.info(
-        `Win condition: Impostors (${aliveImpostors.length}) >= Crewmates (${aliveCrewmates.length})`,
-      );
-      return { winner: "impostors", reason: "kills" };
-    }
+    if (!extended || extended.currentPhase !== 3) return; // ActionReveal
 
-    // Crewmates win if all impostors are ejected
-    if (aliveImpostors.length === 0) {
-      logger.info(`Win condition: All impostors eliminated`);
-      return { winner: "crewmates", reason: "votes" };
+    if (extended.phaseTimer) {
+      this.scheduler.clearTimeout(extended.phaseTimer);
+      extended.phaseTimer = null;
     }
 
-    // Crewmates win if all tasks are completed
-    const totalTasksCompleted = room.players.reduce(
-      (sum, p) => sum + p.tasksCompleted,
-      0,
-    );
-    const totalTasksRequired = room.players.reduce(
-      (sum, p) => sum + p.totalTasks,
-      0,
+    await this.endGameIfWon(
+      roomId,
+      this.runEngine(roomId, {
+        type: "resolve_actions",
+        now: this.scheduler.now(),
+        actions: this.gameStateManager.getRevealedActions(roomId),
+      }),
     );
-
-    if (totalTasksRequired > 0 && totalTasksCompleted >= totalTasksRequired) {
-      logger.info(
-        `Win condition: All tasks completed (${totalTasksCompleted}/${totalTasksRequired})`,
-      );
-      return { winner: "crewmates", reason: "tasks" };
-    }
-
-    return { winner: null };
   }
 
-  private async checkAndHandleWinCondition(roomId: string): Promise<void> {
-    const winResult = this.checkWinCondition(roomId);
-    if (winResult.winner) {
-      await this.endGame(
-        roomId,
-        winResult.winner === "crewmates",
-        winResult.reason!,
-      );
+  // ============ WIN CONDITIONS ============
+
+  private async endGameIfWon(
+    roomId: string,
+    events: EngineEvent[],
+  ): Promise<void> {
+    for (const event of events) {
+      if (event.type === "game_won") {
+        await this.endGame(
+          roomId,
+          event.winner === "crewmates",
+          event.reason,
+        );
+      }
     }
   }
 
@@ -2375,7 +3457,7 @@ export class WebSocketRelayServer {
 
     // Clear any timers
     if (extended?.phaseTimer) {
-      clearTimeout(extended.phaseTimer);
+      this.scheduler.clearTimeout(extended.phaseTimer);
       extended.phaseTimer = null;
     }
 
@@ -2404,6 +3486,7 @@ export class WebSocketRelayServer {
       winners,
       losers,
     );
+    this.recordTournamentGame(roomId, crewmatesWon, winners);
     const totalPot = wagerService.getGamePot(roomId);
 
     // Settle game on-chain (async, don't block game flow)
@@ -2426,6 +3509,7 @@ export class WebSocketRelayServer {
         isAlive: p.isAlive,
       })),
       winningsPerPlayer: wagerResult.winningsPerPlayer,
+      seed: extended?.fairness?.seed,
     });
 
     // Settle game on-chain only if it was created on-chain (4+ players)
@@ -2458,9 +3542,8 @@ export class WebSocketRelayServer {
     }
 
     room.phase = "ended";
-    if (extended) {
-      extended.currentPhase = 7; // Ended
-    }
+    this.runEngine(roomId, { type: "end_game" });
+    databaseService.deleteRoomSnapshot(roomId); // Nothing left to resume
 
     // Broadcast game ended with wager info
     this.broadcastToRoom(roomId, {
@@ -2472,7 +3555,8 @@ export class WebSocketRelayServer {
       losers,
       totalPot: totalPot.toString(),
       winningsPerPlayer: wagerResult.winningsPerPlayer.toString(),
-      timestamp: Date.now(),
+      seed: extended?.fairness?.seed,
+      timestamp: this.scheduler.now(),
     });
 
     // Send individual balance updates to each player
@@ -2485,7 +3569,7 @@ export class WebSocketRelayServer {
           address: player.address,
           balance: balance.toString(),
           wagerAmount: wagerService.getWagerAmount().toString(),
-          timestamp: Date.now(),
+          timestamp: this.scheduler.now(),
         });
       }
     }
@@ -2496,7 +3580,7 @@ export class WebSocketRelayServer {
 
     // Auto-remove all players and spectators from the ended room after a short delay
     // This gives clients time to receive the game_ended event before being removed
-    setTimeout(() => {
+    this.scheduler.setTimeout(() => {
       // Remove all players from the room
       for (const player of [...room.players]) {
         const client = this.findClientByAddress(player.address);
@@ -2520,9 +3604,12 @@ export class WebSocketRelayServer {
     }, 5000); // 5 second delay to let clients receive game_ended event
 
     // Dynamic room cleanup: Delete room after delay
-    setTimeout(() => {
+    this.scheduler.setTimeout(() => {
       this.rooms.delete(roomId);
       this.extendedState.delete(roomId);
+      this.gameStateManager.deleteGame(roomId);
+      gameEventLog.forget(roomId);
+      databaseService.deleteRoomSnapshot(roomId);
       logger.info(`Room ${roomId} deleted after game end`);
       this.broadcastRoomList();
     }, 60000); // Reduced to 1 minute since players are already removed
@@ -2570,6 +3657,9 @@ export class WebSocketRelayServer {
         playing: activeGames,
         totalPlayers,
       },
+      matchmaking: {
+        queued: this.matchmaker.size,
+      },
       limits: {
         maxPlayersPerRoom: MAX_PLAYERS_PER_ROOM,
         minPlayersToStart: MIN_PLAYERS_TO_START,
@@ -2581,12 +3671,28 @@ export class WebSocketRelayServer {
 
   // Get all rooms (for external access)
   getRooms(): RoomState[] {
-    return Array.from(this.rooms.values());
+    return Array.from(this.rooms.values()).map((r) => this.publicRoomView(r));
   }
 
   // Get a specific room by ID
   getRoom(roomId: string): RoomState | undefined {
-    return this.rooms.get(roomId);
+    const room = this.rooms.get(roomId);
+    return room ? this.publicRoomView(room) : undefined;
+  }
+
+  // Get a live game's fairness record. The seed is withheld until the game ends.
+  getFairness(roomId: string): GameFairness | Omit<GameFairness, "seed"> | undefined {
+    const room = this.rooms.get(roomId);
+    const fairness = this.extendedState.get(roomId)?.fairness;
+    if (!room || !fairness) return undefined;
+
+    if (room.phase === "ended") return { ...fairness };
+    return {
+      seedHash: fairness.seedHash,
+      joinOrder: fairness.joinOrder,
+      impostorCount: fairness.impostorCount,
+      tasksPerPlayer: fairness.tasksPerPlayer,
+    };
   }
 
   // Get agent stats by address (for external access)
@@ -2610,7 +3716,10 @@ export class WebSocketRelayServer {
         tasksCompleted: 0,
         timesImpostor: 0,
         timesCrewmate: 0,
-        lastSeen: Date.now(),
+        rating: DEFAULT_RATING,
+        crewmateRating: DEFAULT_RATING,
+        impostorRating: DEFAULT_RATING,
+        lastSeen: this.scheduler.now(),
       };
       this.agentStats.set(key, stats);
     }
@@ -2618,7 +3727,7 @@ export class WebSocketRelayServer {
     if (name) {
       stats.name = name;
     }
-    stats.lastSeen = Date.now();
+    stats.lastSeen = this.scheduler.now();
     return stats;
   }
 
@@ -2657,17 +3766,41 @@ export class WebSocketRelayServer {
       }
     }
 
+    const changes = rateGame(
+      room.players.map((player) => {
+        const stats = this.getOrCreateAgentStats(player.address);
+        return {
+          address: stats.address,
+          isImpostor: extended.impostors.has(stats.address),
+          rating: stats.rating,
+          crewmateRating: stats.crewmateRating,
+          impostorRating: stats.impostorRating,
+        };
+      }),
+      crewmatesWon,
+    );
+    for (const change of changes) {
+      Object.assign(this.getOrCreateAgentStats(change.address), change.after);
+    }
+    databaseService.recordRatings(roomId, changes);
+
     logger.info(
       `Game stats recorded for ${room.players.length} players in room ${roomId}`,
     );
     this.broadcastLeaderboard();
   }
 
-  getLeaderboard(limit: number = 10): AgentStats[] {
+  getLeaderboard(
+    limit: number = 10,
+    sort: LeaderboardSort = "wins",
+  ): AgentStats[] {
     const allStats = Array.from(this.agentStats.values());
 
-    // Sort by wins, then by win rate, then by games played
+    // Sort by wins (or rating), then by win rate, then by games played
     allStats.sort((a, b) => {
+      if (sort === "rating" && b.rating !== a.rating) {
+        return b.rating - a.rating;
+      }
       if (b.wins !== a.wins) return b.wins - a.wins;
       const aWinRate = a.gamesPlayed > 0 ? a.wins / a.gamesPlayed : 0;
       const bWinRate = b.gamesPlayed > 0 ? b.wins / b.gamesPlayed : 0;
@@ -2683,7 +3816,7 @@ export class WebSocketRelayServer {
     const message: ServerMessage = {
       type: "server:leaderboard",
       agents: leaderboard,
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     };
     for (const client of this.clients.values()) {
       this.send(client, message);
@@ -2698,10 +3831,10 @@ export class WebSocketRelayServer {
     // Clear any timers
     const extended = this.extendedState.get(roomId);
     if (extended?.phaseTimer) {
-      clearTimeout(extended.phaseTimer);
+      this.scheduler.clearTimeout(extended.phaseTimer);
     }
     if (extended?.lobbyTimer) {
-      clearTimeout(extended.lobbyTimer);
+      this.scheduler.clearTimeout(extended.lobbyTimer);
     }
 
     // Cancel game on-chain if it was playing
@@ -2718,6 +3851,8 @@ export class WebSocketRelayServer {
         });
     }
 
+    this.cancelTournamentGame(roomId);
+
     // Notify all clients in the room
     this.broadcastToRoom(roomId, {
       type: "server:error",
@@ -2741,11 +3876,297 @@ export class WebSocketRelayServer {
 
     this.rooms.delete(roomId);
     this.extendedState.delete(roomId);
+    this.gameStateManager.deleteGame(roomId);
+    gameEventLog.forget(roomId);
+    databaseService.deleteRoomSnapshot(roomId);
     this.broadcastRoomList();
     logger.info(`Room ${roomId} manually deleted`);
     return true;
   }
 
+  // ============ CRASH RECOVERY ============
+
+  private startSnapshots(): void {
+    if (!databaseService.isEnabled() || this.snapshotTimer) return;
+
+    this.snapshotTimer = this.scheduler.setInterval(() => {
+      this.snapshotRooms();
+    }, SNAPSHOT_INTERVAL);
+  }
+
+  /**
+   * Persist every lobby and in-progress room
+   */
+  private snapshotRooms(): void {
+    for (const room of this.rooms.values()) {
+      if (room.phase === "ended") continue;
+
+      const snapshot = this.serializeRoom(room.roomId);
+      if (snapshot) {
+        databaseService.saveRoomSnapshot(room.roomId, room.phase, snapshot);
+      }
+    }
+  }
+
+  private serializeRoom(roomId: string): RoomSnapshot | null {
+    const room = this.rooms.get(roomId);
+    const extended = this.extendedState.get(roomId);
+    if (!room || !extended) return null;
+
+    return {
+      room,
+      impostors: [...extended.impostors],
+      votes: [...extended.votes],
+      deadBodies: extended.deadBodies,
+      currentRound: extended.currentRound,
+      currentPhase: extended.currentPhase,
+      phaseEndTime: extended.phaseEndTime,
+      speakingOrder: extended.speakingOrder,
+      speakerIndex: extended.speakerIndex,
+      lobbyLocked: extended.lobbyLocked,
+      seed: extended.seed,
+      fairness: extended.fairness,
+      game: this.gameStateManager.exportGame(roomId),
+      wager: wagerService.exportGameWager(roomId),
+      sessions: authService.exportSessions(room.players.map((p) => p.address)),
+      savedAt: this.scheduler.now(),
+    };
+  }
+
+  /**
+   * Load the ratings of agents who have played before, so that new games rate
+   * them from where they left off. Call once on boot.
+   */
+  async restoreAgentRatings(): Promise<void> {
+    const agents = await databaseService.getAllAgents();
+
+    for (const agent of agents) {
+      if (agent.gamesPlayed === 0) continue;
+      const stats = this.getOrCreateAgentStats(agent.walletAddress, agent.name);
+      stats.rating = agent.rating;
+      stats.crewmateRating = agent.crewmateRating;
+      stats.impostorRating = agent.impostorRating;
+    }
+
+    if (this.agentStats.size > 0) {
+      logger.info(`Loaded ratings for ${this.agentStats.size} agents`);
+    }
+  }
+
+  /**
+   * Rebuild rooms from the snapshots left by the previous process. Call once on
+   * boot, before accepting connections. Games that can't be resumed are
+   * cancelled and their wagers refunded.
+   */
+  async restoreRooms(): Promise<void> {
+    const rows = await databaseService.getRoomSnapshots();
+
+    for (const row of rows) {
+      const snapshot = row.data as unknown as RoomSnapshot;
+      const roomId = row.roomId;
+
+      if (snapshot.wager) {
+        wagerService.restoreGameWager(roomId, snapshot.wager);
+      }
+
+      const age = this.scheduler.now() - snapshot.savedAt;
+      if (age > MAX_RESUMABLE_SNAPSHOT_AGE || !snapshot.game) {
+        this.abandonRoom(
+          snapshot,
+          !snapshot.game ? "missing game state" : "snapshot too old",
+        );
+        continue;
+      }
+
+      try {
+        await this.restoreRoom(snapshot);
+      } catch (error) {
+        logger.error(`Failed to restore room ${roomId}:`, error);
+        this.rooms.delete(roomId);
+        this.extendedState.delete(roomId);
+        this.gameStateManager.deleteGame(roomId);
+        this.abandonRoom(snapshot, "restore failed");
+      }
+    }
+
+    if (rows.length > 0) {
+      logger.info(
+        `Crash recovery: ${this.rooms.size} of ${rows.length} rooms restored`,
+      );
+    }
+  }
+
+  /**
+   * Pick up tournaments that were still running. Call once on boot, after
+   * restoreRooms: games whose room didn't come back are cancelled and the
+   * tournament moves on.
+   */
+  async restoreTournaments(): Promise<void> {
+    const tournaments = await databaseService.getTournaments(
+      MAX_RESTORED_TOURNAMENTS,
+      "active",
+    );
+
+    for (const tournament of tournaments) {
+      this.tournaments.set(tournament.id, tournament);
+      for (const game of tournament.games) {
+        if (
+          (game.status === "pending" || game.status === "playing") &&
+          !(game.roomId && this.rooms.has(game.roomId))
+        ) {
+          game.status = "cancelled";
+        }
+      }
+      databaseService.saveTournament(tournament);
+      this.advanceTournament(tournament);
+    }
+
+    if (tournaments.length > 0) {
+      logger.info(`Crash recovery: ${tournaments.length} tournaments resumed`);
+    }
+  }
+
+  private async restoreRoom(snapshot: RoomSnapshot): Promise<void> {
+    const game = snapshot.game!;
+    const roomId = snapshot.room.roomId;
+
+    // The game was frozen while the server was down, so push every deadline
+    // back by the downtime
+    const downtime = Math.max(0, this.scheduler.now() - snapshot.savedAt);
+    const sabotage = game.internal.activeSabotage;
+    if (sabotage) {
+      sabotage.startTime += downtime;
+      if (sabotage.endTime > 0) {
+        sabotage.endTime = Math.max(
+          sabotage.endTime + downtime,
+          this.scheduler.now() + RESUME_GRACE_PERIOD,
+        );
+      }
+    }
+    if (game.internal.lastSabotageTime > 0) {
+      game.internal.lastSabotageTime += downtime;
+    }
+
+    const phaseEndTime =
+      snapshot.phaseEndTime > 0
+        ? Math.max(
+            snapshot.phaseEndTime + downtime,
+            this.scheduler.now() + RESUME_GRACE_PERIOD,
+          )
+        : 0;
+
+    // The room's roster is the seat list; the GameStateManager shares its
+    // player objects, as it did before the restart
+    const restored = this.gameStateManager.importGame(game);
+    restored.players = snapshot.room.players;
+    // Snapshots taken before seeds were committed at creation: a started game
+    // keeps its seed, a lobby commits to a new one
+    const seed = snapshot.seed ?? snapshot.fairness?.seed ?? generateGameSeed();
+    const room: RoomState = {
+      ...snapshot.room,
+      // Settings added since the snapshot was taken take their defaults
+      settings: { ...DEFAULT_GAME_SETTINGS, ...snapshot.room.settings },
+      spectators: [], // Connection IDs don't survive a restart
+      // Snapshots taken before lobbies had ready checks lack these
+      minPlayers: snapshot.room.minPlayers ?? MIN_PLAYERS_TO_START,
+      readyPlayers: snapshot.room.readyPlayers ?? [],
+      countdownEndTime: null, // Restarted below if everyone is still ready
+      seedHash: hashSeed(seed),
+    };
+
+    const extended: ExtendedRoomState = {
+      ...room,
+      impostors: new Set(snapshot.impostors),
+      votes: new Map(snapshot.votes),
+      deadBodies: snapshot.deadBodies,
+      currentRound: snapshot.currentRound,
+      currentPhase: snapshot.currentPhase,
+      phaseTimer: null,
+      lobbyLocked: snapshot.lobbyLocked,
+      lobbyTimer: null,
+      seed,
+      fairness: snapshot.fairness,
+      phaseEndTime,
+      speakingOrder: snapshot.speakingOrder ?? [],
+      speakerIndex: snapshot.speakerIndex ?? 0,
+    };
+
+    this.rooms.set(roomId, room);
+    this.extendedState.set(roomId, extended);
+    authService.restoreSessions(snapshot.sessions ?? []);
+    await gameEventLog.resume(roomId);
+
+    if (room.reservedFor && room.phase === "lobby") {
+      this.armMatchStart(roomId, MATCH_JOIN_DURATION);
+    } else if (room.phase === "lobby") {
+      this.updateLobbyCountdown(roomId);
+    }
+    if (room.phase === "playing") {
+      this.rearmTimers(roomId);
+      // Nobody is connected yet: every seat is held as if its player dropped
+      if (RECONNECT_GRACE_PERIOD > 0) {
+        for (const seat of room.players) this.armSeatRelease(roomId, seat);
+      }
+    }
+
+    logger.info(
+      `Restored room ${roomId} (${room.phase}, phase ${extended.currentPhase}, round ${extended.currentRound}, ${room.players.length} players)`,
+    );
+  }
+
+  /**
+   * Restart the timer that ends the current phase, plus any critical sabotage
+   */
+  private rearmTimers(roomId: string): void {
+    const extended = this.extendedState.get(roomId);
+    if (!extended) return;
+
+    const remaining = Math.max(
+      extended.phaseEndTime - this.scheduler.now(),
+      RESUME_GRACE_PERIOD,
+    );
+
+    if (extended.currentPhase === 0) {
+      // Lobby: the first action round never opened
+      this.startActionRound(roomId);
+    } else if (extended.currentPhase !== 7) {
+      this.armPhaseTimer(roomId, remaining);
+    }
+
+    const sabotage = this.gameStateManager.getActiveSabotage(roomId);
+    if (sabotage && sabotage.endTime > 0) {
+      this.armSabotageTimer(roomId, sabotage.endTime);
+    }
+  }
+
+  /**
+   * Give up on a game from a snapshot: refund wagers, cancel it on-chain and in
+   * the database, and drop the snapshot
+   */
+  private abandonRoom(snapshot: RoomSnapshot, reason: string): void {
+    const roomId = snapshot.room.roomId;
+    logger.warn(`Cannot resume room ${roomId} (${reason}), cancelling`);
+
+    wagerService.refundGame(roomId);
+
+    // Only games with 4+ players were created on-chain
+    if (snapshot.room.phase === "playing" && snapshot.room.players.length >= 4) {
+      contractService
+        .cancelGame(roomId)
+        .then((success) => {
+          if (!success) {
+            logger.warn(`Failed to cancel game ${roomId} on-chain`);
+          }
+        })
+        .catch((err) => {
+          logger.error(`Error cancelling game ${roomId} on-chain:`, err);
+        });
+    }
+
+    databaseService.cancelGame(roomId);
+    databaseService.deleteRoomSnapshot(roomId);
+  }
+
   // ============ OPERATOR / PRIVY HANDLERS ============
 
   private async handleCreateAgent(
@@ -2758,7 +4179,7 @@ export class WebSocketRelayServer {
         success: false,
         error:
           "Privy wallet service not configured. Set PRIVY_APP_ID and PRIVY_APP_SECRET.",
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
       return;
     }
@@ -2769,7 +4190,7 @@ export class WebSocketRelayServer {
         type: "server:agent_created",
         success: false,
         error: "Invalid operator key format. Must start with 'oper_'",
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
       return;
     }
@@ -2783,7 +4204,7 @@ export class WebSocketRelayServer {
           success: true,
           agentAddress: result.address,
           userId: result.userId,
-          timestamp: Date.now(),
+          timestamp: this.scheduler.now(),
         });
         logger.info(
           `Agent wallet created for operator ${operatorKey}: ${result.address}`,
@@ -2793,7 +4214,7 @@ export class WebSocketRelayServer {
           type: "server:agent_created",
           success: false,
           error: "Failed to create agent wallet",
-          timestamp: Date.now(),
+          timestamp: this.scheduler.now(),
         });
       }
     } catch (error) {
@@ -2802,7 +4223,7 @@ export class WebSocketRelayServer {
         type: "server:agent_created",
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
     }
   }
@@ -2816,7 +4237,7 @@ export class WebSocketRelayServer {
       this.send(client, {
         type: "server:agent_list",
         agents: [],
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
       return;
     }
@@ -2831,7 +4252,7 @@ export class WebSocketRelayServer {
         userId: a.userId,
         createdAt: a.createdAt,
       })),
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     });
   }
 
@@ -2848,7 +4269,7 @@ export class WebSocketRelayServer {
         success: false,
         agentAddress,
         error: "Invalid operator key",
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
       return;
     }
@@ -2866,7 +4287,7 @@ export class WebSocketRelayServer {
         success: false,
         agentAddress,
         error: "Agent not owned by this operator",
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
       return;
     }
@@ -2879,7 +4300,7 @@ export class WebSocketRelayServer {
         success: false,
         agentAddress,
         error: "No balance to withdraw",
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
       return;
     }
@@ -2895,7 +4316,7 @@ export class WebSocketRelayServer {
       success: true,
       agentAddress,
       txHash: "pending_implementation",
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     });
   }
 
@@ -2936,7 +4357,7 @@ export class WebSocketRelayServer {
         address: client.address,
         amount: amount,
         newBalance: balance.toString(),
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
 
       logger.info(`Deposit confirmed for ${client.address}: ${amount} wei`);
@@ -2996,7 +4417,7 @@ export class WebSocketRelayServer {
           customWagerAmount || wagerService.getWagerAmount()
         ).toString(),
         currentBalance: balance.toString(),
-        timestamp: Date.now(),
+        timestamp: this.scheduler.now(),
       });
       return;
     }
@@ -3009,7 +4430,7 @@ export class WebSocketRelayServer {
       amount: wagerService.getWagerAmount().toString(),
       newBalance: balance.toString(),
       totalPot: wagerService.getGamePot(gameId).toString(),
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     });
 
     // Broadcast updated pot to room
@@ -3018,7 +4439,7 @@ export class WebSocketRelayServer {
       gameId,
       totalPot: wagerService.getGamePot(gameId).toString(),
       playerCount: wagerService.getGameWager(gameId)?.wagers.size || 0,
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     });
 
     logger.info(`Wager accepted for ${client.address} in game ${gameId}`);
@@ -3048,7 +4469,7 @@ export class WebSocketRelayServer {
       totalWon: balanceInfo?.totalWon.toString() || "0",
       totalLost: balanceInfo?.totalLost.toString() || "0",
       wagerAmount: wagerService.getWagerAmount().toString(),
-      timestamp: Date.now(),
+      timestamp: this.scheduler.now(),
     });
   }
 }
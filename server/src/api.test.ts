@@ -0,0 +1,203 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  hashSeed,
+  roleRandom,
+  selectImpostors,
+  type GameFairness,
+} from "./fairness.js";
+import type { WebSocketRelayServer } from "./WebSocketServer.js";
+
+vi.hoisted(() => {
+  process.env.DISABLE_WAGERS = "true";
+  process.env.LOG_LEVEL = "error";
+});
+
+// Stands in for the database the routes read from
+vi.mock("./DatabaseService.js", () => ({
+  databaseService: {
+    isEnabled: vi.fn(() => true),
+    getGameByRoomId: vi.fn(async () => null),
+    getGameEvents: vi.fn(async () => []),
+  },
+}));
+
+// Needs Privy credentials at import
+vi.mock("./PrivyWalletService.js", () => ({
+  privyWalletService: { isEnabled: () => false },
+}));
+
+const { createApiServer } = await import("./api.js");
+const { databaseService } = await import("./DatabaseService.js");
+
+const ROOM = "room-1";
+
+// The live rooms behind the routes
+const wsServer = {
+  getFairness: vi.fn(() => undefined),
+};
+
+let server: Server;
+let baseUrl: string;
+
+async function get(path: string): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+function storedGame(status: string) {
+  return { roomId: ROOM, status, participants: [] } as never;
+}
+
+function storedEvents(...sequences: number[]) {
+  return sequences.map((sequence) => ({
+    sequence,
+    type: "server:phase_changed",
+    payload: {},
+    audience: [],
+    createdAt: new Date(0),
+  })) as never;
+}
+
+beforeAll(async () => {
+  server = createApiServer(wsServer as unknown as WebSocketRelayServer).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.mocked(databaseService.isEnabled).mockReturnValue(true);
+  vi.mocked(databaseService.getGameByRoomId).mockResolvedValue(null);
+  vi.mocked(databaseService.getGameEvents).mockClear().mockResolvedValue([]);
+  wsServer.getFairness.mockReturnValue(undefined);
+});
+
+describe("GET /api/games/:roomId/events", () => {
+  it("needs a database", async () => {
+    vi.mocked(databaseService.isEnabled).mockReturnValue(false);
+
+    expect((await get(`/api/games/${ROOM}/events`)).status).toBe(503);
+  });
+
+  it("404s for an unknown game", async () => {
+    expect((await get(`/api/games/${ROOM}/events`)).status).toBe(404);
+  });
+
+  it("withholds the log with a 409 until the game has ended", async () => {
+    for (const status of ["CREATED", "ACTIVE"]) {
+      vi.mocked(databaseService.getGameByRoomId).mockResolvedValue(storedGame(status));
+
+      const { status: code, body } = await get(`/api/games/${ROOM}/events`);
+
+      expect(code).toBe(409);
+      expect(body.error).toMatch(/once the game has ended/);
+    }
+    expect(databaseService.getGameEvents).not.toHaveBeenCalled();
+  });
+
+  it("serves the log of a settled or cancelled game", async () => {
+    vi.mocked(databaseService.getGameEvents).mockResolvedValue(storedEvents(0, 1, 2));
+
+    for (const status of ["SETTLED", "CANCELLED"]) {
+      vi.mocked(databaseService.getGameByRoomId).mockResolvedValue(storedGame(status));
+
+      const { status: code, body } = await get(`/api/games/${ROOM}/events`);
+
+      expect(code).toBe(200);
+      expect(body.roomId).toBe(ROOM);
+      expect(body.events.map((e: { sequence: number }) => e.sequence)).toEqual([0, 1, 2]);
+      expect(body.nextAfter).toBeNull();
+    }
+    expect(databaseService.getGameEvents).toHaveBeenCalledWith(ROOM, -1, 500);
+  });
+
+  it("pages with after and a capped limit", async () => {
+    vi.mocked(databaseService.getGameByRoomId).mockResolvedValue(storedGame("SETTLED"));
+    vi.mocked(databaseService.getGameEvents).mockResolvedValue(storedEvents(5, 6));
+
+    const { body } = await get(`/api/games/${ROOM}/events?after=4&limit=2`);
+    expect(databaseService.getGameEvents).toHaveBeenCalledWith(ROOM, 4, 2);
+    // A full page: there may be more after its last event
+    expect(body.nextAfter).toBe(6);
+
+    await get(`/api/games/${ROOM}/events?limit=5000`);
+    expect(databaseService.getGameEvents).toHaveBeenLastCalledWith(ROOM, -1, 1000);
+  });
+});
+
+describe("GET /api/games/:roomId/fairness", () => {
+  const SEED = "c".repeat(64);
+  const JOIN_ORDER = ["0xA1", "0xB2", "0xC3", "0xD4", "0xE5", "0xF6"];
+  const fairness: GameFairness = {
+    seed: SEED,
+    seedHash: hashSeed(SEED),
+    joinOrder: JOIN_ORDER,
+    impostorCount: 2,
+    tasksPerPlayer: 3,
+  };
+  const impostors = selectImpostors(JOIN_ORDER, 2, roleRandom(SEED));
+
+  // A finished game as stored, with the roles it recorded for each seat
+  function storedFairnessGame(recordedImpostors: string[]) {
+    return {
+      roomId: ROOM,
+      status: "SETTLED",
+      ...fairness,
+      participants: JOIN_ORDER.map((walletAddress) => ({
+        isImpostor: recordedImpostors.includes(walletAddress),
+        agent: { walletAddress: walletAddress.toLowerCase() },
+      })),
+    } as never;
+  }
+
+  it("404s without a fairness record", async () => {
+    expect((await get(`/api/games/${ROOM}/fairness`)).status).toBe(404);
+  });
+
+  it("shows only the commitment while the game runs", async () => {
+    const { seed: _seed, ...committed } = fairness;
+    wsServer.getFairness.mockReturnValue(committed as never);
+
+    const { status, body } = await get(`/api/games/${ROOM}/fairness`);
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ roomId: ROOM, revealed: false, ...committed });
+  });
+
+  it("recomputes the draws from a live game's revealed seed", async () => {
+    wsServer.getFairness.mockReturnValue(fairness as never);
+
+    const { body } = await get(`/api/games/${ROOM}/fairness`);
+
+    expect(body).toMatchObject({ revealed: true, seed: SEED });
+    expect(body.verification).toMatchObject({
+      seedMatchesHash: true,
+      impostors,
+      rolesMatch: null, // No stored roles to compare against
+    });
+    expect(Object.keys(body.verification.tasks)).toHaveLength(4);
+  });
+
+  it("checks a stored game's recorded roles against the seed's draw", async () => {
+    vi.mocked(databaseService.getGameByRoomId).mockResolvedValue(
+      storedFairnessGame(impostors),
+    );
+    const honest = await get(`/api/games/${ROOM}/fairness`);
+    expect(honest.body.verification).toMatchObject({
+      seedMatchesHash: true,
+      rolesMatch: true,
+    });
+
+    const crewmate = JOIN_ORDER.find((a) => !impostors.includes(a))!;
+    vi.mocked(databaseService.getGameByRoomId).mockResolvedValue(
+      storedFairnessGame([impostors[0], crewmate]),
+    );
+    const tampered = await get(`/api/games/${ROOM}/fairness`);
+    expect(tampered.body.verification.rolesMatch).toBe(false);
+  });
+});
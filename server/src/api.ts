@@ -7,9 +7,42 @@ import type { WebSocketRelayServer } from "./WebSocketServer.js";
 
 import { databaseService } from "./DatabaseService.js";
 import { Operator } from "@prisma/client";
+import { TASK_DEFINITIONS } from "./GameStateManager.js";
+import { verifyGameFairness, type GameFairness } from "./fairness.js";
+import { validateTournamentOptions } from "./tournament.js";
+import {
+  parseRateLimits,
+  RateLimiter,
+  type RateLimits,
+} from "./RateLimiter.js";
+import { realTimeScheduler } from "./Scheduler.js";
+import { buildAsyncApiDocument } from "@amongus/protocol";
+import type { LeaderboardSort, TournamentState } from "./types.js";
 
 const logger = createLogger("api");
 
+const GAME_STATUSES = ["CREATED", "ACTIVE", "SETTLED", "CANCELLED"] as const;
+type GameStatus = (typeof GAME_STATUSES)[number];
+
+// Roles and private events stay hidden until a game reaches one of these
+const ENDED_GAME_STATUSES: readonly string[] = ["SETTLED", "CANCELLED"];
+
+function isGameStatus(value: string): value is GameStatus {
+  return (GAME_STATUSES as readonly string[]).includes(value);
+}
+const LEADERBOARD_SORTS: LeaderboardSort[] = ["wins", "rating"];
+
+// Token buckets per client IP: "read" for GET/HEAD, "write" for everything
+// else. API_RATE_LIMITS (JSON, same shape) overrides entries.
+const DEFAULT_API_RATE_LIMITS: RateLimits = {
+  default: { capacity: 60, refillPerSecond: 10 },
+  write: { capacity: 10, refillPerSecond: 0.5 },
+};
+const RATE_LIMIT_PRUNE_INTERVAL = 60000;
+
+// Proxies in front of the server (e.g. 1 on Render) so req.ip is the client's
+const TRUST_PROXY_HOPS = parseInt(process.env.TRUST_PROXY_HOPS || "0", 10);
+
 // ============ OPERATOR KEY STORAGE ============
 // Use databaseService for operator storage.
 // This replaces the previous in-memory registeredOperators Map.
@@ -112,6 +145,24 @@ async function requirePrivyAuth(
   next();
 }
 
+// Middleware to spend a token from the caller's bucket, or answer 429
+function rateLimit(limiter: RateLimiter) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const category =
+      req.method === "GET" || req.method === "HEAD" ? "read" : "write";
+    const result = limiter.take([`ip:${req.ip}`], category);
+    if (!result.allowed) {
+      res.setHeader("Retry-After", Math.ceil(result.retryAfter / 1000));
+      res.status(429).json({
+        error: "Too many requests",
+        retryAfter: result.retryAfter,
+      });
+      return;
+    }
+    next();
+  };
+}
+
 async function requireOperatorAuth(
   req: AuthenticatedRequest,
   res: Response,
@@ -141,9 +192,23 @@ export function createApiServer(
   wsServer: WebSocketRelayServer,
 ): express.Express {
   const app = express();
+  if (TRUST_PROXY_HOPS > 0) {
+    app.set("trust proxy", TRUST_PROXY_HOPS);
+  }
+
+  const rateLimits = parseRateLimits(
+    process.env.API_RATE_LIMITS,
+    DEFAULT_API_RATE_LIMITS,
+  );
+  if (rateLimits.error) {
+    logger.warn(`Ignoring API_RATE_LIMITS: ${rateLimits.error}`);
+  }
+  const limiter = new RateLimiter(realTimeScheduler, rateLimits.limits);
+  setInterval(() => limiter.prune(), RATE_LIMIT_PRUNE_INTERVAL).unref();
 
   // Middleware
   app.use(cors());
+  app.use("/api", rateLimit(limiter)); // Before body parsing; /health is exempt
   app.use(express.json());
 
   // Request logging
@@ -164,7 +229,8 @@ export function createApiServer(
     "/api/rooms",
     requirePrivyAuth as any,
     async (req: PrivyAuthenticatedRequest, res: Response) => {
-      const { maxPlayers, impostorCount, wagerAmount } = req.body;
+      const { maxPlayers, impostorCount, wagerAmount, settings, minPlayers } =
+        req.body;
       const { walletAddress } = req.privyUser!;
 
       try {
@@ -173,6 +239,8 @@ export function createApiServer(
           maxPlayers,
           impostorCount,
           wagerAmount,
+          settings,
+          minPlayers,
         );
 
         if ("error" in result) {
@@ -191,6 +259,8 @@ export function createApiServer(
             createdAt: result.createdAt,
             creator: result.creator,
             wagerAmount: result.wagerAmount,
+            settings: result.settings,
+            minPlayers: result.minPlayers,
           },
         });
       } catch (error) {
@@ -219,6 +289,12 @@ export function createApiServer(
         creator: room.creator,
         createdAt: room.createdAt,
         wagerAmount: room.wagerAmount,
+        settings: room.settings,
+        reservedFor: room.reservedFor,
+        minPlayers: room.minPlayers,
+        readyPlayers: room.readyPlayers,
+        countdownEndTime: room.countdownEndTime,
+        seedHash: room.seedHash,
       })),
       stats,
     });
@@ -244,6 +320,170 @@ export function createApiServer(
         creator: room.creator,
         createdAt: room.createdAt,
         wagerAmount: room.wagerAmount,
+        settings: room.settings,
+        reservedFor: room.reservedFor,
+        minPlayers: room.minPlayers,
+        readyPlayers: room.readyPlayers,
+        countdownEndTime: room.countdownEndTime,
+        seedHash: room.seedHash,
+      });
+    },
+  );
+
+  // ============ GAME HISTORY ============
+
+  // List past and in-progress games, newest first
+  app.get("/api/games", async (req: Request, res: Response) => {
+    if (!databaseService.isEnabled()) {
+      res.status(503).json({ error: "Game history requires a database" });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+    const status = req.query.status as string | undefined;
+
+    if (status !== undefined && !isGameStatus(status)) {
+      res.status(400).json({
+        error: `status must be one of ${GAME_STATUSES.join(", ")}`,
+      });
+      return;
+    }
+
+    const { games, total } = await databaseService.getGameHistory({
+      limit,
+      offset,
+      status,
+    });
+
+    res.json({
+      games: games.map((game) => ({
+        roomId: game.roomId,
+        status: game.status,
+        crewmatesWon: game.crewmatesWon,
+        winReason: game.winReason,
+        totalPot: game.totalPot,
+        createdAt: game.createdAt,
+        startedAt: game.startedAt,
+        endedAt: game.endedAt,
+        players: game.participants.map((p) => ({
+          address: p.agent.walletAddress,
+          name: p.agent.name,
+          colorId: p.colorId,
+          // Omitted while the game is live, so the list can't give roles away
+          isImpostor: ENDED_GAME_STATUSES.includes(game.status)
+            ? p.isImpostor
+            : undefined,
+          kills: p.kills,
+          tasksCompleted: p.tasksCompleted,
+          isWinner: p.isWinner,
+        })),
+      })),
+      total,
+      limit,
+      offset,
+    });
+  });
+
+  // Ordered event log for one game. Page with ?after=<last sequence seen>
+  app.get(
+    "/api/games/:roomId/events",
+    async (req: Request<{ roomId: string }>, res: Response) => {
+      if (!databaseService.isEnabled()) {
+        res.status(503).json({ error: "Game history requires a database" });
+        return;
+      }
+
+      const { roomId } = req.params;
+
+      const game = await databaseService.getGameByRoomId(roomId);
+      if (!game) {
+        res.status(404).json({ error: "Game not found" });
+        return;
+      }
+
+      // The log includes private events (roles, unwitnessed kills), so it is
+      // only served once the game is over. The stored status is checked
+      // rather than the live room, which is gone after a restart.
+      if (!ENDED_GAME_STATUSES.includes(game.status)) {
+        res
+          .status(409)
+          .json({ error: "Replay is available once the game has ended" });
+        return;
+      }
+
+      const parsedAfter = parseInt(req.query.after as string);
+      const after = Number.isNaN(parsedAfter) ? -1 : parsedAfter;
+      const limit = Math.min(parseInt(req.query.limit as string) || 500, 1000);
+
+      const events = await databaseService.getGameEvents(roomId, after, limit);
+
+      res.json({
+        roomId,
+        events,
+        nextAfter:
+          events.length === limit ? events[events.length - 1].sequence : null,
+      });
+    },
+  );
+
+  // Seed commitment for a game, plus roles and tasks recomputed from the
+  // revealed seed once the game has ended
+  app.get(
+    "/api/games/:roomId/fairness",
+    async (req: Request<{ roomId: string }>, res: Response) => {
+      const { roomId } = req.params;
+
+      let fairness: GameFairness | Omit<GameFairness, "seed"> | undefined =
+        wsServer.getFairness(roomId);
+      let recordedImpostors: string[] | null = null;
+
+      if (!fairness || !("seed" in fairness)) {
+        const game = await databaseService.getGameByRoomId(roomId);
+        if (game?.seedHash) {
+          fairness = {
+            seedHash: game.seedHash,
+            joinOrder: game.joinOrder,
+            impostorCount: game.impostorCount ?? 0,
+            tasksPerPlayer: game.tasksPerPlayer ?? 0,
+            ...(game.seed && { seed: game.seed }),
+          };
+          // Roles are only recorded for registered agents
+          recordedImpostors = game.participants
+            .filter((p) => p.isImpostor)
+            .map((p) => p.agent.walletAddress);
+        }
+      }
+
+      if (!fairness) {
+        res.status(404).json({ error: "No fairness record for this game" });
+        return;
+      }
+
+      if (!("seed" in fairness)) {
+        res.json({ roomId, revealed: false, ...fairness });
+        return;
+      }
+
+      const verification = verifyGameFairness(
+        fairness,
+        TASK_DEFINITIONS.map((t) => t.id),
+      );
+      const computed = new Set(
+        verification.impostors.map((a) => a.toLowerCase()),
+      );
+
+      res.json({
+        roomId,
+        revealed: true,
+        ...fairness,
+        verification: {
+          ...verification,
+          rolesMatch:
+            recordedImpostors === null
+              ? null
+              : recordedImpostors.every((a) => computed.has(a.toLowerCase())),
+        },
       });
     },
   );
@@ -253,18 +493,28 @@ export function createApiServer(
   // Get leaderboard
   app.get("/api/leaderboard", (req: Request, res: Response) => {
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
-    const leaderboard = wsServer.getLeaderboard(limit);
+    const sort = ((req.query.sort as string) || "wins") as LeaderboardSort;
+
+    if (!LEADERBOARD_SORTS.includes(sort)) {
+      res.status(400).json({
+        error: `sort must be one of ${LEADERBOARD_SORTS.join(", ")}`,
+      });
+      return;
+    }
+
+    const leaderboard = wsServer.getLeaderboard(limit, sort);
 
     res.json({
       agents: leaderboard,
+      sort,
       timestamp: Date.now(),
     });
   });
 
-  // Get specific agent stats
+  // Get specific agent stats, with their latest rating changes
   app.get(
     "/api/agents/:address/stats",
-    (req: Request<{ address: string }>, res: Response) => {
+    async (req: Request<{ address: string }>, res: Response) => {
       const stats = wsServer.getAgentStats(req.params.address);
 
       if (!stats) {
@@ -272,7 +522,117 @@ export function createApiServer(
         return;
       }
 
-      res.json(stats);
+      const ratingHistory = await databaseService.getRatingHistory(
+        req.params.address,
+      );
+
+      res.json({ ...stats, ratingHistory });
+    },
+  );
+
+  // ============ TOURNAMENTS ============
+
+  // Create a tournament between registered agents (requires Privy auth)
+  app.post(
+    "/api/tournaments",
+    requirePrivyAuth as any,
+    async (req: PrivyAuthenticatedRequest, res: Response) => {
+      const options = validateTournamentOptions(
+        req.body,
+        wsServer.getStats().limits.maxPlayersPerRoom,
+      );
+      if ("error" in options) {
+        res.status(400).json({ error: options.error });
+        return;
+      }
+
+      try {
+        // Entrants must have been registered by an operator
+        const names: Record<string, string> = {};
+        if (databaseService.isEnabled()) {
+          const unregistered: string[] = [];
+          for (const address of options.entrants) {
+            const agent = await databaseService.getAgentByWallet(address);
+            if (agent) {
+              names[address] = agent.name;
+            } else {
+              unregistered.push(address);
+            }
+          }
+          if (unregistered.length > 0) {
+            res.status(400).json({
+              error: "Every entrant must be a registered agent",
+              unregistered,
+            });
+            return;
+          }
+        }
+
+        const result = wsServer.createTournament({
+          ...options,
+          names,
+          creator: req.privyUser!.walletAddress,
+          wagerAmount: req.body.wagerAmount,
+          settings: req.body.settings,
+        });
+
+        if ("error" in result) {
+          res.status(400).json({ error: result.error });
+          return;
+        }
+
+        res.status(201).json({ success: true, tournament: result });
+      } catch (error) {
+        logger.error("Error creating tournament via API:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    },
+  );
+
+  // List tournaments, newest first, with each one's current leader
+  app.get("/api/tournaments", async (req: Request, res: Response) => {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const live = wsServer.getTournaments();
+    const stored = await databaseService.getTournaments(limit);
+    const tournaments = [
+      ...live,
+      ...stored.filter((t) => !live.some((l) => l.id === t.id)),
+    ]
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+
+    res.json({
+      tournaments: tournaments.map((t: TournamentState) => ({
+        id: t.id,
+        name: t.name,
+        format: t.format,
+        status: t.status,
+        totalRounds: t.totalRounds,
+        currentRound: t.currentRound,
+        entrants: t.standings.length,
+        leader: t.standings[0] ?? null,
+        createdAt: t.createdAt,
+        endedAt: t.endedAt,
+      })),
+      timestamp: Date.now(),
+    });
+  });
+
+  // Get a tournament's games (by round and table) and ranked standings
+  app.get(
+    "/api/tournaments/:id",
+    async (req: Request<{ id: string }>, res: Response) => {
+      const tournament =
+        wsServer.getTournament(req.params.id) ??
+        (await databaseService.getTournament(req.params.id));
+
+      if (!tournament) {
+        res.status(404).json({ error: "Tournament not found" });
+        return;
+      }
+
+      res.json(tournament);
     },
   );
 
@@ -664,6 +1024,13 @@ export function createApiServer(
     });
   });
 
+  // AsyncAPI document for the WebSocket protocol, with JSON Schemas of every
+  // client message. PUBLIC_WS_URL, if set, is listed as the server.
+  const protocolDocument = buildAsyncApiDocument(process.env.PUBLIC_WS_URL);
+  app.get("/api/protocol", (_req: Request, res: Response) => {
+    res.json(protocolDocument);
+  });
+
   // Error handler
   app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
     logger.error("API error:", err);
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { MAX_CLAIMS_PER_MESSAGE, validateChatClaims } from "./chatClaims.js";
+import { Location } from "./types.js";
+
+const SENDER = "0xAaAa000000000000000000000000000000000001";
+const OTHER = "0xBbBb000000000000000000000000000000000002";
+const STRANGER = "0xCcCc000000000000000000000000000000000003";
+
+const context = { sender: SENDER, players: [SENDER, OTHER], round: 3 };
+
+function validate(...claims: unknown[]) {
+  return validateChatClaims(claims, context);
+}
+
+describe("validateChatClaims", () => {
+  it("accepts claims about the game, in the room's spelling of addresses", () => {
+    expect(
+      validate(
+        { kind: "accuse", target: OTHER.toLowerCase(), reason: "near_body", round: 2 },
+        { kind: "sighting", target: OTHER, location: Location.Electrical },
+        { kind: "defend" },
+      ),
+    ).toEqual([
+      { kind: "accuse", target: OTHER, reason: "near_body", round: 2 },
+      // Sightings and alibis default to the current round
+      { kind: "sighting", target: OTHER, location: Location.Electrical, round: 3 },
+      // Defending with no target defends the sender
+      { kind: "defend", target: SENDER },
+    ]);
+  });
+
+  it("treats a missing claims field as no claims", () => {
+    expect(validateChatClaims(undefined, context)).toEqual([]);
+    expect(validateChatClaims(null, context)).toEqual([]);
+  });
+
+  it("rejects a claim about a player who isn't in the game", () => {
+    expect(validate({ kind: "accuse", target: STRANGER })).toEqual({
+      error: "claims[0]: target must be a player in this game",
+    });
+  });
+
+  it("rejects a claim about a round that hasn't happened", () => {
+    expect(validate({ kind: "alibi", location: Location.Admin, round: 4 })).toEqual({
+      error: "claims[0]: round must be an integer between 1 and 3",
+    });
+    expect(validate({ kind: "alibi", location: Location.Admin, round: 0 })).toHaveProperty(
+      "error",
+    );
+  });
+
+  it("rejects a claim about a place that isn't on the map", () => {
+    expect(validate({ kind: "alibi", location: 9 })).toEqual({
+      error: "claims[0]: location must be a Location value (0-8)",
+    });
+  });
+
+  it("rejects accusing, vouching for or sighting yourself", () => {
+    for (const kind of ["accuse", "vouch", "sighting"]) {
+      expect(
+        validate({ kind, target: SENDER.toLowerCase(), location: Location.Cafeteria }),
+      ).toEqual({ error: `claims[0]: Cannot ${kind} yourself` });
+    }
+  });
+
+  it("rejects claims missing what their kind needs", () => {
+    expect(validate({ kind: "vouch" })).toEqual({ error: "claims[0]: vouch needs a target" });
+    expect(validate({ kind: "alibi" })).toEqual({ error: "claims[0]: alibi needs a location" });
+    expect(validate({ kind: "alibi", target: OTHER, location: 0 })).toEqual({
+      error: "claims[0]: alibi takes no target",
+    });
+  });
+
+  it("rejects malformed claims and reports which one failed", () => {
+    expect(validate({ kind: "defend" }, { kind: "lie" })).toEqual({
+      error: "claims[1]: kind must be one of: accuse, defend, vouch, alibi, sighting",
+    });
+    expect(validate({ kind: "defend", confidence: 1 })).toEqual({
+      error: "claims[0]: Unknown field: confidence",
+    });
+    expect(validate({ kind: "accuse", target: OTHER, reason: "vibes" })).toHaveProperty(
+      "error",
+    );
+    expect(validate("accuse")).toEqual({ error: "claims[0]: must be an object" });
+    expect(validateChatClaims({ kind: "defend" }, context)).toEqual({
+      error: "claims must be an array",
+    });
+  });
+
+  it("caps the claims per message", () => {
+    const claims = Array.from({ length: MAX_CLAIMS_PER_MESSAGE + 1 }, () => ({
+      kind: "defend",
+    }));
+
+    expect(validateChatClaims(claims, context)).toEqual({
+      error: `At most ${MAX_CLAIMS_PER_MESSAGE} claims per message`,
+    });
+  });
+});
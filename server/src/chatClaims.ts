@@ -0,0 +1,153 @@
+import { Location } from "./types.js";
+import type { ChatClaim, ChatClaimKind, ChatClaimReason } from "./types.js";
+
+export const CHAT_CLAIM_KINDS: ChatClaimKind[] = [
+  "accuse",
+  "defend",
+  "vouch",
+  "alibi",
+  "sighting",
+];
+
+export const CHAT_CLAIM_REASONS: ChatClaimReason[] = [
+  "near_body",
+  "no_tasks",
+  "suspicious_movement",
+  "saw_vent",
+  "inconsistent",
+  "following",
+  "self_report",
+];
+
+export const MAX_CLAIMS_PER_MESSAGE = 3;
+
+const CLAIM_FIELDS = ["kind", "target", "reason", "location", "round"];
+
+export interface ClaimContext {
+  sender: string;
+  players: string[]; // Addresses as seated in the room
+  round: number; // Current action round
+}
+
+/**
+ * Check the claims attached to a chat message and fill in their defaults.
+ * Every player, location and round a claim mentions must exist in the game;
+ * targets come back as the room's spelling of the address.
+ */
+export function validateChatClaims(
+  input: unknown,
+  context: ClaimContext,
+): ChatClaim[] | { error: string } {
+  if (input === undefined || input === null) return [];
+
+  if (!Array.isArray(input)) {
+    return { error: "claims must be an array" };
+  }
+  if (input.length > MAX_CLAIMS_PER_MESSAGE) {
+    return { error: `At most ${MAX_CLAIMS_PER_MESSAGE} claims per message` };
+  }
+
+  const claims: ChatClaim[] = [];
+  for (const [i, raw] of input.entries()) {
+    const claim = validateClaim(raw, context);
+    if ("error" in claim) {
+      return { error: `claims[${i}]: ${claim.error}` };
+    }
+    claims.push(claim);
+  }
+  return claims;
+}
+
+function validateClaim(
+  raw: unknown,
+  context: ClaimContext,
+): ChatClaim | { error: string } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { error: "must be an object" };
+  }
+  const body = raw as Record<string, unknown>;
+
+  const unknown = Object.keys(body).find((key) => !CLAIM_FIELDS.includes(key));
+  if (unknown) {
+    return { error: `Unknown field: ${unknown}` };
+  }
+
+  if (!CHAT_CLAIM_KINDS.includes(body.kind as ChatClaimKind)) {
+    return { error: `kind must be one of: ${CHAT_CLAIM_KINDS.join(", ")}` };
+  }
+  const claim: ChatClaim = { kind: body.kind as ChatClaimKind };
+  const sender = context.sender.toLowerCase();
+
+  if (body.target !== undefined) {
+    const target =
+      typeof body.target === "string"
+        ? context.players.find(
+            (p) => p.toLowerCase() === (body.target as string).toLowerCase(),
+          )
+        : undefined;
+    if (!target) {
+      return { error: "target must be a player in this game" };
+    }
+    claim.target = target;
+  }
+
+  switch (claim.kind) {
+    case "accuse":
+    case "vouch":
+    case "sighting":
+      if (!claim.target) {
+        return { error: `${claim.kind} needs a target` };
+      }
+      if (claim.target.toLowerCase() === sender) {
+        return { error: `Cannot ${claim.kind} yourself` };
+      }
+      break;
+    case "defend":
+      claim.target ??= context.players.find((p) => p.toLowerCase() === sender);
+      break;
+    case "alibi":
+      // An alibi is always about the sender
+      if (claim.target) {
+        return { error: "alibi takes no target" };
+      }
+      break;
+  }
+
+  if (body.reason !== undefined) {
+    if (!CHAT_CLAIM_REASONS.includes(body.reason as ChatClaimReason)) {
+      return {
+        error: `reason must be one of: ${CHAT_CLAIM_REASONS.join(", ")}`,
+      };
+    }
+    claim.reason = body.reason as ChatClaimReason;
+  }
+
+  if (body.location !== undefined) {
+    if (
+      !Number.isInteger(body.location) ||
+      Location[body.location as number] === undefined
+    ) {
+      return { error: "location must be a Location value (0-8)" };
+    }
+    claim.location = body.location as Location;
+  } else if (claim.kind === "alibi" || claim.kind === "sighting") {
+    return { error: `${claim.kind} needs a location` };
+  }
+
+  if (body.round !== undefined) {
+    if (
+      !Number.isInteger(body.round) ||
+      (body.round as number) < 1 ||
+      (body.round as number) > context.round
+    ) {
+      return {
+        error: `round must be an integer between 1 and ${context.round}`,
+      };
+    }
+    claim.round = body.round as number;
+  } else if (claim.kind === "alibi" || claim.kind === "sighting") {
+    claim.round = context.round;
+  }
+
+  return claim;
+}
@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  createSeededRandom,
+  generateGameSeed,
+  hashSeed,
+  roleRandom,
+  selectImpostors,
+  shuffleWith,
+  taskRandom,
+  verifyGameFairness,
+  type GameFairness,
+} from "./fairness.js";
+
+const SEED = "a".repeat(64);
+const PLAYERS = ["0xA1", "0xB2", "0xC3", "0xD4", "0xE5", "0xF6"];
+const CATALOG = ["t1", "t2", "t3", "t4", "t5", "t6", "t7", "t8"];
+
+function draws(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => random());
+}
+
+describe("createSeededRandom", () => {
+  it("repeats the same draws for the same seed and stream", () => {
+    expect(draws(createSeededRandom(SEED, "roles"), 10)).toEqual(
+      draws(createSeededRandom(SEED, "roles"), 10),
+    );
+  });
+
+  it("draws from sha256(seed:stream:n), as documented for outside verifiers", () => {
+    const [first, second] = draws(createSeededRandom(SEED, "roles"), 2);
+    const expected = (n: number) =>
+      createHash("sha256").update(`${SEED}:roles:${n}`).digest().readUInt32BE(0) /
+      0x100000000;
+
+    expect(first).toBe(expected(0));
+    expect(second).toBe(expected(1));
+  });
+
+  it("gives other seeds and streams other draws, all in [0, 1)", () => {
+    const roles = draws(createSeededRandom(SEED, "roles"), 100);
+
+    expect(draws(createSeededRandom(SEED, "tasks"), 100)).not.toEqual(roles);
+    expect(draws(createSeededRandom("b".repeat(64), "roles"), 100)).not.toEqual(roles);
+    expect(roles.every((n) => n >= 0 && n < 1)).toBe(true);
+  });
+});
+
+describe("selectImpostors", () => {
+  it("picks the requested number of distinct players from the join order", () => {
+    for (let i = 0; i < 50; i++) {
+      const impostors = selectImpostors(PLAYERS, 2, roleRandom(generateGameSeed()));
+
+      expect(impostors).toHaveLength(2);
+      expect(new Set(impostors).size).toBe(2);
+      expect(impostors.every((a) => PLAYERS.includes(a))).toBe(true);
+    }
+  });
+
+  it("picks the same impostors for the same seed", () => {
+    expect(selectImpostors(PLAYERS, 2, roleRandom(SEED))).toEqual(
+      selectImpostors(PLAYERS, 2, roleRandom(SEED)),
+    );
+  });
+
+  it("skips repeated draws instead of picking a player twice", () => {
+    const rolls = [0.1, 0.1, 0.9];
+    expect(selectImpostors(PLAYERS, 2, () => rolls.shift()!)).toEqual(["0xA1", "0xF6"]);
+  });
+});
+
+describe("shuffleWith", () => {
+  it("permutes the items in place", () => {
+    const items = [...CATALOG];
+
+    expect(shuffleWith(items, createSeededRandom(SEED, "x"))).toBe(items);
+    expect([...items].sort()).toEqual(CATALOG);
+  });
+});
+
+describe("verifyGameFairness", () => {
+  const fairness: GameFairness = {
+    seed: SEED,
+    seedHash: hashSeed(SEED),
+    joinOrder: PLAYERS,
+    impostorCount: 2,
+    tasksPerPlayer: 3,
+  };
+
+  it("recomputes the roles and task deals the seed produces", () => {
+    const verification = verifyGameFairness(fairness, CATALOG);
+    const impostors = selectImpostors(PLAYERS, 2, roleRandom(SEED));
+
+    expect(verification.seedMatchesHash).toBe(true);
+    expect(verification.impostors).toEqual(impostors);
+    // Only crewmates are dealt tasks, each from their own stream
+    expect(Object.keys(verification.tasks).sort()).toEqual(
+      PLAYERS.filter((p) => !impostors.includes(p)).sort(),
+    );
+    for (const [player, tasks] of Object.entries(verification.tasks)) {
+      expect(tasks).toEqual(
+        shuffleWith([...CATALOG], taskRandom(SEED, player)).slice(0, 3),
+      );
+    }
+  });
+
+  it("deals a player the same tasks whoever else is in the game", () => {
+    const crewmate = Object.keys(verifyGameFairness(fairness, CATALOG).tasks)[0];
+    const smaller = verifyGameFairness(
+      { ...fairness, joinOrder: [crewmate, "0x99"], impostorCount: 0 },
+      CATALOG,
+    );
+
+    expect(smaller.tasks[crewmate]).toEqual(
+      verifyGameFairness(fairness, CATALOG).tasks[crewmate],
+    );
+  });
+
+  it("flags a seed that doesn't match the published hash", () => {
+    expect(
+      verifyGameFairness({ ...fairness, seed: "b".repeat(64) }, CATALOG).seedMatchesHash,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Everything needed to recompute a game's random draws. The seed stays secret
+ * until the game ends; only its hash is published, from room creation on.
+ */
+export interface GameFairness {
+  seed: string; // 32 random bytes, hex
+  seedHash: string; // sha256(seed), hex
+  joinOrder: string[]; // Player addresses in room order at game start
+  impostorCount: number; // Impostors actually dealt
+  tasksPerPlayer: number;
+}
+
+export interface FairnessVerification {
+  seedMatchesHash: boolean;
+  impostors: string[];
+  tasks: Record<string, string[]>; // Crewmate address -> task ids
+}
+
+export function generateGameSeed(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function hashSeed(seed: string): string {
+  return createHash("sha256").update(seed).digest("hex");
+}
+
+/**
+ * Deterministic [0, 1) generator: the n-th draw of a stream is the first 32 bits
+ * of sha256("<seed>:<stream>:<n>"), so it can be reproduced in any language
+ */
+export function createSeededRandom(seed: string, stream: string): () => number {
+  let counter = 0;
+  return () => {
+    const digest = createHash("sha256")
+      .update(`${seed}:${stream}:${counter++}`)
+      .digest();
+    return digest.readUInt32BE(0) / 0x100000000;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle in place using the given generator
+ */
+export function shuffleWith<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Pick `count` distinct impostors from the join order
+ */
+export function selectImpostors(
+  joinOrder: string[],
+  count: number,
+  random: () => number,
+): string[] {
+  const indices = new Set<number>();
+  while (indices.size < count) {
+    indices.add(Math.floor(random() * joinOrder.length));
+  }
+  return [...indices].map((idx) => joinOrder[idx]);
+}
+
+/**
+ * Generator for a player's task deal. Each player gets their own stream so a
+ * deal doesn't depend on who else is in the game.
+ */
+export function taskRandom(seed: string, player: string): () => number {
+  return createSeededRandom(seed, `tasks:${player.toLowerCase()}`);
+}
+
+export function roleRandom(seed: string): () => number {
+  return createSeededRandom(seed, "roles");
+}
+
+/**
+ * Recompute roles and task deals from a revealed seed. `taskCatalog` is the
+ * ordered list of task ids the server deals from.
+ */
+export function verifyGameFairness(
+  fairness: GameFairness,
+  taskCatalog: string[],
+): FairnessVerification {
+  const impostors = selectImpostors(
+    fairness.joinOrder,
+    fairness.impostorCount,
+    roleRandom(fairness.seed),
+  );
+  const impostorSet = new Set(impostors.map((a) => a.toLowerCase()));
+
+  const tasks: Record<string, string[]> = {};
+  for (const player of fairness.joinOrder) {
+    if (impostorSet.has(player.toLowerCase())) continue;
+    tasks[player] = shuffleWith(
+      [...taskCatalog],
+      taskRandom(fairness.seed, player),
+    ).slice(0, fairness.tasksPerPlayer);
+  }
+
+  return {
+    seedMatchesHash: hashSeed(fairness.seed) === fairness.seedHash,
+    impostors,
+    tasks,
+  };
+}
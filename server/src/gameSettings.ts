@@ -0,0 +1,86 @@
+import type { GameSettings } from "./types.js";
+
+// Defaults match the rules every room used before settings were configurable
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  killCooldown: 2,
+  discussionTime: 30,
+  discussionMode: "open",
+  speakingTime: 15,
+  rebuttalTime: 20,
+  votingTime: 30,
+  tasksPerPlayer: 10,
+  emergencyMeetings: 1,
+  confirmEjects: true,
+  anonymousVotes: false,
+  sabotageCooldown: 30,
+  reactorTimeLimit: 45,
+  oxygenTimeLimit: 30,
+};
+
+// Inclusive [min, max] for each numeric setting
+const NUMERIC_LIMITS: Record<string, [number, number]> = {
+  killCooldown: [0, 10], // Rounds
+  discussionTime: [5, 300], // Seconds
+  speakingTime: [5, 120], // Seconds
+  rebuttalTime: [0, 300], // Seconds; 0 goes straight to voting
+  votingTime: [5, 300], // Seconds
+  tasksPerPlayer: [1, 13], // Size of the GameStateManager task catalog
+  emergencyMeetings: [0, 9],
+  sabotageCooldown: [0, 300], // Seconds
+  reactorTimeLimit: [10, 180], // Seconds
+  oxygenTimeLimit: [10, 180], // Seconds
+};
+
+const BOOLEAN_SETTINGS = ["confirmEjects", "anonymousVotes"];
+
+// Allowed values for each string setting
+const CHOICE_SETTINGS: Record<string, string[]> = {
+  discussionMode: ["open", "turns"],
+};
+
+/**
+ * Merge a partial settings object over the defaults, rejecting unknown keys,
+ * wrong types and out-of-range values
+ */
+export function validateGameSettings(
+  input: unknown,
+): GameSettings | { error: string } {
+  if (input === undefined || input === null) {
+    return { ...DEFAULT_GAME_SETTINGS };
+  }
+
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "settings must be an object" };
+  }
+
+  const settings: GameSettings = { ...DEFAULT_GAME_SETTINGS };
+
+  for (const [key, value] of Object.entries(input)) {
+    const limits = NUMERIC_LIMITS[key];
+    if (limits) {
+      const [min, max] = limits;
+      if (!Number.isInteger(value) || value < min || value > max) {
+        return {
+          error: `settings.${key} must be an integer between ${min} and ${max}`,
+        };
+      }
+      (settings as unknown as Record<string, unknown>)[key] = value;
+    } else if (BOOLEAN_SETTINGS.includes(key)) {
+      if (typeof value !== "boolean") {
+        return { error: `settings.${key} must be a boolean` };
+      }
+      (settings as unknown as Record<string, unknown>)[key] = value;
+    } else if (CHOICE_SETTINGS[key]) {
+      if (!CHOICE_SETTINGS[key].includes(value as string)) {
+        return {
+          error: `settings.${key} must be one of: ${CHOICE_SETTINGS[key].join(", ")}`,
+        };
+      }
+      (settings as unknown as Record<string, unknown>)[key] = value;
+    } else {
+      return { error: `Unknown setting: ${key}` };
+    }
+  }
+
+  return settings;
+}
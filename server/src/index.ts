@@ -17,6 +17,15 @@ async function main() {
   // Create WebSocket server
   const wsServer = new WebSocketRelayServer({ port: WS_PORT, host: HOST });
 
+  // Carry agent ratings over from previous runs
+  await wsServer.restoreAgentRatings();
+
+  // Bring back rooms that were live when the previous process stopped
+  await wsServer.restoreRooms();
+
+  // Resume running tournaments; games whose room is gone are cancelled
+  await wsServer.restoreTournaments();
+
   // Create HTTP API server (Express app)
   const apiServer = createApiServer(wsServer);
 
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  ActionType,
+  buildAsyncApiDocument,
+  CLIENT_MESSAGE_SCHEMAS,
+  clientMessageJsonSchema,
+  validateClientMessage,
+} from "./types.js";
+
+// The wire protocol is shared with agents and the frontend through
+// @amongus/protocol; these check its validators as the server applies them
+
+const ROOM = "room-1";
+const ADDRESS = "0x00000000000000000000000000000000000000a1";
+const BYTES32 = `0x${"ab".repeat(32)}`;
+
+function issues(input: unknown) {
+  const result = validateClientMessage(input);
+  return "issues" in result ? result.issues : [];
+}
+
+describe("validateClientMessage", () => {
+  it("passes well-formed messages through unchanged", () => {
+    const messages = [
+      { type: "client:dequeue" },
+      { type: "agent:join_game", gameId: ROOM, colorId: 3 },
+      { type: "agent:vote", gameId: ROOM, target: null, round: 2 },
+      {
+        type: "agent:reveal_action",
+        gameId: ROOM,
+        round: 1,
+        action: { type: ActionType.Kill, target: ADDRESS },
+        salt: BYTES32,
+      },
+      // Fields outside the schema are the handlers' business
+      { type: "client:leave_room", roomId: ROOM, extra: true },
+    ];
+
+    for (const message of messages) {
+      expect(validateClientMessage(message)).toBe(message);
+    }
+  });
+
+  it("rejects anything but an object with a known type", () => {
+    for (const input of [null, "agent:chat", [], 42]) {
+      expect(issues(input)).toEqual([{ path: "", message: "must be an object" }]);
+    }
+    expect(issues({ type: "agent:teleport" })).toEqual([
+      { path: "type", message: "Unknown message type: agent:teleport" },
+    ]);
+    expect(issues({})).toEqual([{ path: "type", message: "Unknown message type: undefined" }]);
+    // Not fooled by inherited keys
+    expect(issues({ type: "toString" })).toHaveLength(1);
+  });
+
+  it("reports every bad field, not just the first", () => {
+    expect(issues({ type: "agent:commit_action", round: -1, commitHash: "0x12" })).toEqual([
+      { path: "gameId", message: "is required" },
+      { path: "round", message: "must be at least 0" },
+      { path: "commitHash", message: "must match /^0x[0-9a-fA-F]{64}$/" },
+    ]);
+  });
+
+  it("checks types, ranges, patterns and enums", () => {
+    const problem = (message: Record<string, unknown>) => issues(message)[0]?.message;
+
+    expect(problem({ type: "agent:join_game", gameId: ROOM, colorId: "red" })).toBe(
+      "must be a number",
+    );
+    expect(problem({ type: "agent:join_game", gameId: ROOM, colorId: 1.5 })).toBe(
+      "must be an integer",
+    );
+    expect(problem({ type: "agent:join_game", gameId: ROOM, colorId: 12 })).toBe(
+      "must be at most 11",
+    );
+    expect(problem({ type: "agent:join_game", gameId: ROOM, colorId: NaN })).toBe(
+      "must be a number",
+    );
+    expect(problem({ type: "agent:leave_game", gameId: "x".repeat(65) })).toBe(
+      "must be at most 64 characters",
+    );
+    expect(problem({ type: "agent:deposit", amount: "1e18" })).toMatch(/^must match/);
+    expect(problem({ type: "agent:use_cameras", gameId: ROOM, action: "peek" })).toBe(
+      "must be one of: start, stop",
+    );
+    expect(problem({ type: "client:ready", roomId: ROOM, ready: "yes" })).toBe(
+      "must be a boolean",
+    );
+    expect(problem({ type: "client:create_room", settings: [] })).toBe("must be an object");
+  });
+
+  it("only allows null where a field is nullable", () => {
+    expect(issues({ type: "agent:vote", gameId: ROOM, target: null, round: 1 })).toEqual([]);
+    expect(issues({ type: "agent:join_game", gameId: null, colorId: 1 })).toEqual([
+      { path: "gameId", message: "must not be null" },
+    ]);
+  });
+
+  it("checks nested objects and array items, with their paths", () => {
+    expect(
+      issues({
+        type: "agent:reveal_action",
+        gameId: ROOM,
+        round: 1,
+        action: { type: 99, destination: 42 },
+        salt: BYTES32,
+      }),
+    ).toEqual([
+      { path: "action.type", message: expect.stringMatching(/^must be one of: 0, 1/) },
+      { path: "action.destination", message: expect.stringMatching(/^must be one of/) },
+    ]);
+
+    expect(
+      issues({ type: "agent:chat", gameId: ROOM, message: "hi", claims: [{}, "accuse"] }),
+    ).toEqual([{ path: "claims[1]", message: "must be an object" }]);
+    expect(
+      issues({ type: "agent:chat", gameId: ROOM, message: "", claims: Array(11).fill({}) }),
+    ).toEqual([{ path: "claims", message: "must have at most 10 items" }]);
+  });
+});
+
+describe("AsyncAPI document", () => {
+  it("documents every client message with the schema the server checks", () => {
+    const document = buildAsyncApiDocument("ws://localhost:8082") as {
+      channels: Record<string, { publish: { message: { oneOf: unknown[] } } }>;
+      components: { messages: Record<string, { name: string; payload: unknown }> };
+    };
+    const types = Object.keys(CLIENT_MESSAGE_SCHEMAS) as Array<
+      keyof typeof CLIENT_MESSAGE_SCHEMAS
+    >;
+
+    expect(document.channels["/"].publish.message.oneOf).toHaveLength(types.length);
+    for (const type of types) {
+      expect(document.components.messages[type.replace(":", "_")]).toMatchObject({
+        name: type,
+        payload: clientMessageJsonSchema(type),
+      });
+    }
+  });
+
+  it("marks required and nullable fields as the validator does", () => {
+    expect(clientMessageJsonSchema("agent:vote")).toMatchObject({
+      required: ["type", "gameId", "target", "round"],
+      properties: {
+        type: { const: "agent:vote" },
+        voter: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" },
+        target: { anyOf: [{ type: "string" }, { type: "null" }] },
+      },
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RATING,
+  expectedScore,
+  rateGame,
+  type RatedPlayer,
+  type RatingChange,
+} from "./rating.js";
+
+function player(
+  address: string,
+  isImpostor: boolean,
+  ratings: Partial<RatedPlayer> = {},
+): RatedPlayer {
+  return {
+    address,
+    isImpostor,
+    rating: DEFAULT_RATING,
+    crewmateRating: DEFAULT_RATING,
+    impostorRating: DEFAULT_RATING,
+    ...ratings,
+  };
+}
+
+// Four crewmates and one impostor, everyone new
+function lobby(): RatedPlayer[] {
+  return [
+    player("imp", true),
+    ...["c1", "c2", "c3", "c4"].map((a) => player(a, false)),
+  ];
+}
+
+function change(changes: RatingChange[], address: string): RatingChange {
+  return changes.find((c) => c.address === address)!;
+}
+
+describe("expectedScore", () => {
+  it("is even between equals and 10:1 at a 400 point gap", () => {
+    expect(expectedScore(1200, 1200)).toBe(0.5);
+    expect(expectedScore(1600, 1200)).toBeCloseTo(10 / 11);
+    expect(expectedScore(1600, 1200) + expectedScore(1200, 1600)).toBeCloseTo(1);
+  });
+});
+
+describe("rateGame", () => {
+  it("moves evenly matched sides by half the K-factor", () => {
+    const changes = rateGame(lobby(), true);
+
+    for (const address of ["c1", "c2", "c3", "c4"]) {
+      expect(change(changes, address)).toMatchObject({
+        role: "crewmate",
+        won: true,
+        after: { rating: 1216, crewmateRating: 1216, impostorRating: 1200 },
+      });
+    }
+    expect(change(changes, "imp")).toMatchObject({
+      role: "impostor",
+      won: false,
+      after: { rating: 1184, crewmateRating: 1200, impostorRating: 1184 },
+    });
+  });
+
+  it("gives the winners exactly what the losers lose", () => {
+    const players = [
+      player("imp", true, { rating: 1350, impostorRating: 1500 }),
+      player("c1", false, { rating: 1100, crewmateRating: 1050 }),
+      player("c2", false, { rating: 1250, crewmateRating: 1300 }),
+    ];
+
+    for (const crewmatesWon of [true, false]) {
+      const changes = rateGame(players, crewmatesWon);
+      const impostor = change(changes, "imp");
+      const crewmate = change(changes, "c1");
+
+      expect(crewmate.after.rating - crewmate.before.rating).toBeCloseTo(
+        impostor.before.rating - impostor.after.rating,
+      );
+      expect(crewmate.after.crewmateRating - crewmate.before.crewmateRating).toBeCloseTo(
+        impostor.before.impostorRating - impostor.after.impostorRating,
+      );
+    }
+  });
+
+  it("mirrors the result: swapping the winner swaps the signs", () => {
+    const won = change(rateGame(lobby(), true), "c1");
+    const lost = change(rateGame(lobby(), false), "c1");
+
+    expect(won.after.rating - DEFAULT_RATING).toBeCloseTo(DEFAULT_RATING - lost.after.rating);
+  });
+
+  it("rewards an upset more than an expected win", () => {
+    const strongImpostor = [
+      player("imp", true, { rating: 1600, impostorRating: 1600 }),
+      player("c1", false),
+    ];
+
+    const upset = change(rateGame(strongImpostor, true), "c1");
+    const expected = change(rateGame(strongImpostor, false), "imp");
+
+    expect(upset.after.rating - upset.before.rating).toBeCloseTo(32 * (10 / 11));
+    expect(expected.after.rating - expected.before.rating).toBeCloseTo(32 * (1 / 11));
+  });
+
+  it("rates each role only against the other role", () => {
+    // A great impostor playing crew is rated as crew, not as an impostor
+    const players = [
+      player("imp", true),
+      player("c1", false, { impostorRating: 2000 }),
+    ];
+
+    const crewmate = change(rateGame(players, false), "c1");
+
+    expect(crewmate.after.crewmateRating).toBe(1184);
+    expect(crewmate.after.impostorRating).toBe(2000);
+  });
+
+  it("skips games without both roles", () => {
+    expect(rateGame([player("c1", false), player("c2", false)], true)).toEqual([]);
+    expect(rateGame([player("imp", true)], false)).toEqual([]);
+  });
+});
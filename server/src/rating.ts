@@ -0,0 +1,94 @@
+export const DEFAULT_RATING = 1200;
+const K_FACTOR = 32; // Most a team can gain or lose in one game
+const RATING_SCALE = 400; // Gap at which the favourite is expected to win 10:1
+
+export interface Ratings {
+  rating: number; // Overall, across both roles
+  crewmateRating: number;
+  impostorRating: number;
+}
+
+export interface RatedPlayer extends Ratings {
+  address: string;
+  isImpostor: boolean;
+}
+
+export interface RatingChange {
+  address: string;
+  role: "crewmate" | "impostor";
+  won: boolean;
+  before: Ratings;
+  after: Ratings;
+}
+
+/**
+ * Chance that a side rated `rating` beats one rated `opponent`
+ */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + Math.pow(10, (opponent - rating) / RATING_SCALE));
+}
+
+/**
+ * Team Elo for one finished game. Each side is rated by the average of its
+ * members, every member takes the whole team's gain or loss, and the role
+ * ratings only ever meet the other role (crewmate ratings against impostor
+ * ratings), so a strong impostor isn't marked down for losing as crew.
+ */
+export function rateGame(
+  players: RatedPlayer[],
+  crewmatesWon: boolean,
+): RatingChange[] {
+  const crewmates = players.filter((p) => !p.isImpostor);
+  const impostors = players.filter((p) => p.isImpostor);
+  if (crewmates.length === 0 || impostors.length === 0) return [];
+
+  const crewScore = crewmatesWon ? 1 : 0;
+  const overallDelta = teamDelta(
+    average(crewmates, (p) => p.rating),
+    average(impostors, (p) => p.rating),
+    crewScore,
+  );
+  const roleDelta = teamDelta(
+    average(crewmates, (p) => p.crewmateRating),
+    average(impostors, (p) => p.impostorRating),
+    crewScore,
+  );
+
+  return players.map((player) => {
+    // Deltas are from the crew's side; impostors move the other way
+    const sign = player.isImpostor ? -1 : 1;
+    const before: Ratings = {
+      rating: player.rating,
+      crewmateRating: player.crewmateRating,
+      impostorRating: player.impostorRating,
+    };
+    const after: Ratings = {
+      ...before,
+      rating: player.rating + sign * overallDelta,
+    };
+    if (player.isImpostor) {
+      after.impostorRating -= roleDelta;
+    } else {
+      after.crewmateRating += roleDelta;
+    }
+
+    return {
+      address: player.address,
+      role: player.isImpostor ? "impostor" : "crewmate",
+      won: player.isImpostor ? !crewmatesWon : crewmatesWon,
+      before,
+      after,
+    };
+  });
+}
+
+function teamDelta(rating: number, opponent: number, score: number): number {
+  return K_FACTOR * (score - expectedScore(rating, opponent));
+}
+
+function average(
+  players: RatedPlayer[],
+  pick: (player: RatedPlayer) => number,
+): number {
+  return players.reduce((sum, p) => sum + pick(p), 0) / players.length;
+}
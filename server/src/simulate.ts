@@ -21,9 +21,6 @@ const simulator = new AgentSimulator({
   roomId,
   agentCount,
   impostorCount,
-  moveInterval: 3000,
-  taskInterval: 5000,
-  killInterval: 8000,
 });
 
 // Handle graceful shutdown
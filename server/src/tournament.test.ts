@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GAME_SETTINGS } from "./gameSettings.js";
+import {
+  applyGameResult,
+  emptyStanding,
+  isDecided,
+  MIN_TABLE_SIZE,
+  pairRound,
+  tableSizes,
+  validateTournamentOptions,
+} from "./tournament.js";
+import type { TournamentFormat, TournamentGame, TournamentState } from "./types.js";
+
+// "p01", "p02", ... rated so that p01 is the strongest
+function entrants(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `p${String(i + 1).padStart(2, "0")}`);
+}
+
+function rating(address: string): number {
+  return 2000 - parseInt(address.slice(1), 10);
+}
+
+function tournament(
+  format: TournamentFormat,
+  count: number,
+  tableSize = 6,
+): TournamentState {
+  return {
+    id: "t-1",
+    name: "Test Cup",
+    format,
+    status: "active",
+    totalRounds: 5,
+    currentRound: 0,
+    tableSize,
+    impostorCount: 1,
+    settings: DEFAULT_GAME_SETTINGS,
+    createdAt: 0,
+    endedAt: null,
+    games: [],
+    standings: entrants(count).map((a) => emptyStanding(a, a)),
+  };
+}
+
+// Record a round as played, so later rounds can pair against it
+function play(state: TournamentState, round: number): string[][] {
+  const tables = pairRound(state, round, rating);
+  state.games.push(
+    ...tables.map(
+      (players, table): TournamentGame => ({
+        round,
+        table,
+        roomId: null,
+        players,
+        status: "completed",
+        crewmatesWon: true,
+        winners: [],
+      }),
+    ),
+  );
+  state.currentRound = round;
+  return tables;
+}
+
+function win(state: TournamentState, ...addresses: string[]): void {
+  applyGameResult(
+    state,
+    addresses.map((address) => ({
+      address,
+      isImpostor: false,
+      won: true,
+      survived: true,
+      tasksCompleted: 0,
+    })),
+  );
+}
+
+describe("tableSizes", () => {
+  it("seats everyone, with no byes and no table below the minimum", () => {
+    for (let count = MIN_TABLE_SIZE; count <= 40; count++) {
+      const sizes = tableSizes(count, 6);
+
+      expect(sizes.reduce((a, b) => a + b, 0)).toBe(count);
+      expect(Math.min(...sizes)).toBeGreaterThanOrEqual(MIN_TABLE_SIZE);
+      expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("lets a table run over rather than leave a short one", () => {
+    expect(tableSizes(12, 6)).toEqual([6, 6]);
+    expect(tableSizes(13, 6)).toEqual([5, 4, 4]);
+    // Two tables would need one of 3
+    expect(tableSizes(7, 6)).toEqual([7]);
+  });
+});
+
+describe("pairRound", () => {
+  it("seats every entrant exactly once, whatever the format and round", () => {
+    for (const format of ["best_of", "round_robin", "swiss"] as const) {
+      for (const count of [4, 7, 9, 13, 20]) {
+        const state = tournament(format, count);
+        for (let round = 1; round <= 4; round++) {
+          const seated = play(state, round).flat();
+          expect(seated.sort(), `${format}, ${count} entrants, round ${round}`).toEqual(
+            entrants(count),
+          );
+        }
+      }
+    }
+  });
+
+  it("spreads ratings across tables in the first round, snake order", () => {
+    expect(pairRound(tournament("round_robin", 12), 1, rating)).toEqual([
+      ["p01", "p04", "p05", "p08", "p09", "p12"],
+      ["p02", "p03", "p06", "p07", "p10", "p11"],
+    ]);
+  });
+
+  it("groups Swiss by rating, then by points", () => {
+    const state = tournament("swiss", 8, 4);
+    expect(play(state, 1)).toEqual([
+      ["p01", "p02", "p03", "p04"],
+      ["p05", "p06", "p07", "p08"],
+    ]);
+
+    win(state, "p07", "p08", "p05", "p06");
+
+    expect(pairRound(state, 2, rating)).toEqual([
+      ["p05", "p06", "p07", "p08"],
+      ["p01", "p02", "p03", "p04"],
+    ]);
+  });
+
+  it("keeps a series at its first round's tables", () => {
+    const state = tournament("best_of", 12);
+    const first = play(state, 1);
+
+    expect(pairRound(state, 2, rating)).toEqual(first);
+    expect(pairRound(state, 3, rating)).toEqual(first);
+  });
+
+  it("has a round robin mix tables toward players who haven't met", () => {
+    const state = tournament("round_robin", 8, 4);
+    const [firstTable] = play(state, 1);
+
+    // Round 2 splits every table of round 1 across both tables
+    for (const table of pairRound(state, 2, rating)) {
+      expect(table.filter((a) => firstTable.includes(a))).toHaveLength(2);
+    }
+  });
+});
+
+describe("applyGameResult", () => {
+  it("scores wins and re-ranks, breaking ties by impostor wins", () => {
+    const state = tournament("swiss", 4);
+    applyGameResult(state, [
+      { address: "P03", isImpostor: true, won: true, survived: true, tasksCompleted: 0 },
+      { address: "p04", isImpostor: false, won: true, survived: false, tasksCompleted: 3 },
+      { address: "p01", isImpostor: false, won: false, survived: true, tasksCompleted: 2 },
+      { address: "stranger", isImpostor: false, won: true, survived: true, tasksCompleted: 0 },
+    ]);
+
+    expect(state.standings.map((s) => s.address)).toEqual(["p03", "p04", "p01", "p02"]);
+    expect(state.standings[0]).toMatchObject({
+      points: 1,
+      wins: 1,
+      impostorGames: 1,
+      impostorWins: 1,
+      gamesPlayed: 1,
+    });
+  });
+});
+
+describe("isDecided", () => {
+  it("ends a series once the runner-up can no longer catch up", () => {
+    const state = tournament("best_of", 4);
+    state.totalRounds = 3;
+
+    state.currentRound = 1;
+    win(state, "p01");
+    expect(isDecided(state)).toBe(false);
+
+    state.currentRound = 2;
+    win(state, "p01");
+    expect(isDecided(state)).toBe(true);
+
+    state.format = "swiss";
+    expect(isDecided(state)).toBe(false);
+  });
+});
+
+describe("validateTournamentOptions", () => {
+  const addresses = [..."abcdef12"].map((digit) => `0x${digit.repeat(40)}`);
+
+  it("fills in the defaults", () => {
+    expect(validateTournamentOptions({ name: " Cup ", entrants: addresses }, 10)).toEqual({
+      name: "Cup",
+      format: "swiss",
+      entrants: addresses,
+      rounds: 3, // log2(8)
+      tableSize: 6,
+      impostorCount: 1,
+    });
+  });
+
+  it("rejects too few, duplicate or malformed entrants", () => {
+    const validate = (list: string[]) =>
+      validateTournamentOptions({ name: "Cup", entrants: list }, 10);
+    const checksummed = `0x${addresses[0].slice(2).toUpperCase()}`;
+
+    expect(validate(addresses.slice(0, 3))).toMatchObject({
+      error: "A tournament needs between 4 and 100 entrants",
+    });
+    expect(validate([...addresses, checksummed])).toMatchObject({
+      error: `Duplicate entrant: ${checksummed}`,
+    });
+    expect(validate(["0x12"])).toMatchObject({
+      error: "Invalid entrant address: 0x12",
+    });
+  });
+
+  it("keeps tables within the server's room size", () => {
+    expect(
+      validateTournamentOptions({ name: "Cup", entrants: addresses, tableSize: 12 }, 10),
+    ).toMatchObject({ error: "tableSize must be an integer between 4 and 10" });
+  });
+});
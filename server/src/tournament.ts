@@ -0,0 +1,339 @@
+import type {
+  TournamentFormat,
+  TournamentGame,
+  TournamentStanding,
+  TournamentState,
+} from "./types.js";
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = [
+  "best_of",
+  "round_robin",
+  "swiss",
+];
+export const MIN_TABLE_SIZE = 4; // Smallest game created on-chain
+const DEFAULT_TABLE_SIZE = 6;
+const MAX_ENTRANTS = 100;
+const MAX_ROUNDS = 20;
+const MAX_NAME_LENGTH = 64;
+const POINTS_PER_WIN = 1;
+
+export interface TournamentOptions {
+  name: string;
+  format: TournamentFormat;
+  entrants: string[]; // Lowercase addresses, in registration order
+  rounds: number;
+  tableSize: number;
+  impostorCount: number;
+}
+
+export interface TournamentResult {
+  address: string;
+  isImpostor: boolean;
+  won: boolean;
+  survived: boolean;
+  tasksCompleted: number;
+}
+
+/**
+ * Check a create-tournament request body and fill in the defaults. Rules for
+ * the games themselves (settings, wager) are checked when rooms are created.
+ */
+export function validateTournamentOptions(
+  input: unknown,
+  maxTableSize: number,
+): TournamentOptions | { error: string } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { error: "Body must be an object" };
+  }
+  const body = input as Record<string, unknown>;
+
+  if (
+    typeof body.name !== "string" ||
+    body.name.trim().length === 0 ||
+    body.name.length > MAX_NAME_LENGTH
+  ) {
+    return { error: `name must be 1-${MAX_NAME_LENGTH} characters` };
+  }
+
+  const format = body.format ?? "swiss";
+  if (!TOURNAMENT_FORMATS.includes(format as TournamentFormat)) {
+    return { error: `format must be one of: ${TOURNAMENT_FORMATS.join(", ")}` };
+  }
+
+  if (!Array.isArray(body.entrants)) {
+    return { error: "entrants must be an array of wallet addresses" };
+  }
+  const entrants: string[] = [];
+  for (const entrant of body.entrants) {
+    if (typeof entrant !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(entrant)) {
+      return { error: `Invalid entrant address: ${String(entrant)}` };
+    }
+    if (entrants.includes(entrant.toLowerCase())) {
+      return { error: `Duplicate entrant: ${entrant}` };
+    }
+    entrants.push(entrant.toLowerCase());
+  }
+  if (entrants.length < MIN_TABLE_SIZE || entrants.length > MAX_ENTRANTS) {
+    return {
+      error: `A tournament needs between ${MIN_TABLE_SIZE} and ${MAX_ENTRANTS} entrants`,
+    };
+  }
+
+  const tableSize = body.tableSize ?? DEFAULT_TABLE_SIZE;
+  if (
+    !Number.isInteger(tableSize) ||
+    (tableSize as number) < MIN_TABLE_SIZE ||
+    (tableSize as number) > maxTableSize
+  ) {
+    return {
+      error: `tableSize must be an integer between ${MIN_TABLE_SIZE} and ${maxTableSize}`,
+    };
+  }
+
+  const impostorCount = body.impostorCount ?? 1;
+  if (
+    !Number.isInteger(impostorCount) ||
+    (impostorCount as number) < 1 ||
+    (impostorCount as number) > 3
+  ) {
+    return { error: "impostorCount must be an integer between 1 and 3" };
+  }
+
+  const rounds =
+    body.rounds ??
+    defaultRounds(format as TournamentFormat, entrants.length, tableSize as number);
+  if (
+    !Number.isInteger(rounds) ||
+    (rounds as number) < 1 ||
+    (rounds as number) > MAX_ROUNDS
+  ) {
+    return { error: `rounds must be an integer between 1 and ${MAX_ROUNDS}` };
+  }
+
+  return {
+    name: body.name.trim(),
+    format: format as TournamentFormat,
+    entrants,
+    rounds: rounds as number,
+    tableSize: tableSize as number,
+    impostorCount: impostorCount as number,
+  };
+}
+
+/**
+ * Rounds played when the request doesn't say: three games for a series,
+ * enough for everyone to share a table with everyone else in a round robin,
+ * and enough to separate the field in Swiss
+ */
+function defaultRounds(
+  format: TournamentFormat,
+  entrants: number,
+  tableSize: number,
+): number {
+  const tables = tableSizes(entrants, tableSize).length;
+  if (format === "best_of" || tables === 1) return 3;
+  if (format === "round_robin") {
+    return Math.min(Math.ceil((entrants - 1) / (tableSize - 1)) + 1, MAX_ROUNDS);
+  }
+  return Math.min(Math.ceil(Math.log2(entrants)), MAX_ROUNDS);
+}
+
+/**
+ * Split `count` entrants into tables of at most about `tableSize`, as evenly
+ * as possible and never below MIN_TABLE_SIZE
+ */
+export function tableSizes(count: number, tableSize: number): number[] {
+  const tables = Math.max(
+    Math.min(Math.ceil(count / tableSize), Math.floor(count / MIN_TABLE_SIZE)),
+    1,
+  );
+  const base = Math.floor(count / tables);
+  const extra = count % tables;
+  return Array.from({ length: tables }, (_, i) => base + (i < extra ? 1 : 0));
+}
+
+/**
+ * Seat every entrant for `round`. The first round is seeded by rating: spread
+ * evenly across tables, or grouped for Swiss. After that a series keeps its
+ * tables, a round robin seats each entrant where they have met the fewest
+ * players before, and Swiss groups entrants by standing.
+ */
+export function pairRound(
+  tournament: TournamentState,
+  round: number,
+  rating: (address: string) => number,
+): string[][] {
+  const sizes = tableSizes(tournament.standings.length, tournament.tableSize);
+  const byRating = tournament.standings
+    .map((s) => s.address)
+    .sort((a, b) => rating(b) - rating(a) || a.localeCompare(b));
+
+  if (round === 1) {
+    return tournament.format === "swiss"
+      ? chunk(byRating, sizes)
+      : snake(byRating, sizes);
+  }
+
+  switch (tournament.format) {
+    case "best_of":
+      return tournament.games
+        .filter((g) => g.round === 1)
+        .map((g) => [...g.players]);
+
+    case "round_robin": {
+      const offset = (round - 1) % byRating.length;
+      const order = [...byRating.slice(offset), ...byRating.slice(0, offset)];
+      return leastMet(order, sizes, tournament.games);
+    }
+
+    case "swiss":
+      return chunk(
+        [...tournament.standings]
+          .sort(
+            (a, b) =>
+              b.points - a.points ||
+              rating(b.address) - rating(a.address) ||
+              compareStandings(a, b),
+          )
+          .map((s) => s.address),
+        sizes,
+      );
+  }
+}
+
+/**
+ * Add one finished game to the standings and re-rank them
+ */
+export function applyGameResult(
+  tournament: TournamentState,
+  results: TournamentResult[],
+): void {
+  for (const result of results) {
+    const standing = tournament.standings.find(
+      (s) => s.address === result.address.toLowerCase(),
+    );
+    if (!standing) continue;
+
+    standing.gamesPlayed++;
+    if (result.won) {
+      standing.wins++;
+      standing.points += POINTS_PER_WIN;
+    }
+    if (result.isImpostor) {
+      standing.impostorGames++;
+      if (result.won) standing.impostorWins++;
+    }
+    if (result.survived) standing.survived++;
+    standing.tasksCompleted += result.tasksCompleted;
+  }
+
+  tournament.standings.sort(compareStandings);
+}
+
+/**
+ * Rank by points, then impostor wins (the harder side to win on), games
+ * survived and tasks done
+ */
+export function compareStandings(
+  a: TournamentStanding,
+  b: TournamentStanding,
+): number {
+  return (
+    b.points - a.points ||
+    b.impostorWins - a.impostorWins ||
+    b.survived - a.survived ||
+    b.tasksCompleted - a.tasksCompleted ||
+    a.address.localeCompare(b.address)
+  );
+}
+
+/**
+ * Whether a series can stop early: the leader is further ahead than anyone
+ * could catch up in the rounds left. Round robins and Swiss always play out.
+ */
+export function isDecided(tournament: TournamentState): boolean {
+  if (tournament.format !== "best_of") return false;
+  const [leader, runnerUp] = tournament.standings;
+  if (!leader || !runnerUp) return true;
+  const remaining = tournament.totalRounds - tournament.currentRound;
+  return leader.points > runnerUp.points + remaining * POINTS_PER_WIN;
+}
+
+export function emptyStanding(
+  address: string,
+  name: string,
+): TournamentStanding {
+  return {
+    address,
+    name,
+    points: 0,
+    gamesPlayed: 0,
+    wins: 0,
+    impostorGames: 0,
+    impostorWins: 0,
+    survived: 0,
+    tasksCompleted: 0,
+  };
+}
+
+function chunk(order: string[], sizes: number[]): string[][] {
+  let start = 0;
+  return sizes.map((size) => {
+    const table = order.slice(start, start + size);
+    start += size;
+    return table;
+  });
+}
+
+// Deal 1, 2, 3, 3, 2, 1, ... so each table gets a similar spread of ratings
+function snake(order: string[], sizes: number[]): string[][] {
+  const tables: string[][] = sizes.map(() => []);
+  order.forEach((address, i) => {
+    const pass = Math.floor(i / tables.length);
+    const position = i % tables.length;
+    let index = pass % 2 === 0 ? position : tables.length - 1 - position;
+    while (tables[index].length >= sizes[index]) {
+      index = (index + 1) % tables.length;
+    }
+    tables[index].push(address);
+  });
+  return tables;
+}
+
+function leastMet(
+  order: string[],
+  sizes: number[],
+  games: TournamentGame[],
+): string[][] {
+  const met = new Map<string, number>();
+  const key = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+  for (const game of games) {
+    for (const a of game.players) {
+      for (const b of game.players) {
+        if (a < b) met.set(key(a, b), (met.get(key(a, b)) ?? 0) + 1);
+      }
+    }
+  }
+
+  const tables: string[][] = sizes.map(() => []);
+  for (const address of order) {
+    let best = -1;
+    let bestScore = Infinity;
+    tables.forEach((table, i) => {
+      if (table.length >= sizes[i]) return;
+      const score = table.reduce(
+        (sum, other) => sum + (met.get(key(address, other)) ?? 0),
+        0,
+      );
+      if (
+        score < bestScore ||
+        (score === bestScore && table.length < tables[best].length)
+      ) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    tables[best].push(address);
+  }
+  return tables;
+}